@@ -0,0 +1,24 @@
+import { Task, User } from '../types/hooks.ts';
+
+// Test-only fixtures shared by the utils tests (never imported by app code)
+
+export const ada: User = { id: 'u1', username: 'ada', email: 'ada@example.com', firstName: 'Ada', lastName: 'Lovelace' };
+export const alan: User = { id: 'u2', username: 'alan', email: 'alan@example.com', firstName: 'Alan', lastName: 'Turing' };
+export const grace: User = { id: 'u3', username: 'grace', email: 'grace@example.com', firstName: 'Grace', lastName: 'Hopper' };
+
+/**
+ * Build a task owned by Ada in project p1, with only the fields a test cares about set
+ * @param overrides - Fields to set on top of the defaults
+ * @returns The task
+ */
+export const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 't',
+  projectId: 'p1',
+  title: 'Task',
+  description: '',
+  status: 0,
+  createdAt: '',
+  updatedAt: '',
+  owner: ada,
+  ...overrides,
+});
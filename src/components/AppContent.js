@@ -27,6 +27,8 @@ const CreateSprint = lazy(() => import('./CreateSprint.tsx'));
 const CreateTask = lazy(() => import('./CreateTask.tsx'));
 const EditSprint = lazy(() => import('./EditSprint.tsx'));
 const EditTask = lazy(() => import('./EditTask.tsx'));
+const TaskLinkPage = lazy(() => import('./TaskLinkPage.tsx'));
+const Timesheet = lazy(() => import('./Timesheet.tsx'));
 const ResetPassword = lazy(() => import('./ResetPassword.tsx'));
 const GoogleOAuthCallback = lazy(() => import('./GoogleOAuthCallback.tsx'));
 
@@ -145,12 +147,14 @@ function AppContent() {
               <Route path="/sprint" element={<ProtectedRoute><Sprint /></ProtectedRoute>} />
               <Route path="/backlog" element={<ProtectedRoute><Backlog /></ProtectedRoute>} />
               <Route path="/board" element={<ProtectedRoute><Board /></ProtectedRoute>} />
+              <Route path="/timesheet" element={<ProtectedRoute><Timesheet /></ProtectedRoute>} />
               <Route path="/contacts" element={<ProtectedRoute><Contacts /></ProtectedRoute>} />
               <Route path="/messages" element={<ProtectedRoute><Message /></ProtectedRoute>} />
               <Route path="/create-sprint" element={<ProtectedRoute><CreateSprint /></ProtectedRoute>} />
               <Route path="/create-task" element={<ProtectedRoute><CreateTask /></ProtectedRoute>} />
               <Route path="/edit-sprint/:sprintId" element={<ProtectedRoute><EditSprint /></ProtectedRoute>} />
               <Route path="/edit-task/:taskId" element={<EditTask />} />
+              <Route path="/p/:projectKey/task/:taskKey" element={<ProtectedRoute><TaskLinkPage /></ProtectedRoute>} />
               <Route path="/messages/:userId/:projectId" element={<Message />} />
             </Routes>
           </Suspense>
@@ -0,0 +1,29 @@
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faPaperclip } from '@fortawesome/free-solid-svg-icons';
+import { Task } from '../types/hooks.ts';
+import { getAttachmentCount } from '../utils/attachmentUtils.ts';
+import '../styles/task_badges.css';
+
+interface AttachmentCountBadgeProps {
+  task: Task;
+}
+
+/**
+ * AttachmentCountBadge Component
+ *
+ * Paperclip pill with the number of files attached to a task, for Board cards.
+ */
+const AttachmentCountBadge: React.FC<AttachmentCountBadgeProps> = ({ task }) => {
+  const count = getAttachmentCount(task);
+  if (count === 0) return null;
+
+  return (
+    <span className="task-badge task-badge--attachments" title={`${count} attachment${count === 1 ? '' : 's'}`}>
+      <FontAwesomeIcon icon={faPaperclip} />
+      {count}
+    </span>
+  );
+};
+
+export default AttachmentCountBadge;
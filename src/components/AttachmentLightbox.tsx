@@ -0,0 +1,97 @@
+import React, { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faTimes, faChevronLeft, faChevronRight, faDownload } from '@fortawesome/free-solid-svg-icons';
+import { TaskAttachment } from '../types/hooks.ts';
+import { formatFileSize } from '../utils/attachmentUtils.ts';
+import '../styles/task_inspector.css';
+
+interface AttachmentLightboxProps {
+  images: TaskAttachment[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * AttachmentLightbox Component
+ *
+ * Full-size viewer for a task's image attachments. Arrow keys step through the
+ * images and Escape closes it without closing the TaskInspector underneath.
+ */
+const AttachmentLightbox: React.FC<AttachmentLightboxProps> = ({ images, index, onIndexChange, onClose }) => {
+  const image = images[index];
+  const hasMultiple = images.length > 1;
+
+  const step = (offset: number): void => {
+    onIndexChange((index + offset + images.length) % images.length);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') {
+        // Capture phase + stopPropagation keeps the inspector's Escape handler from firing too
+        e.stopPropagation();
+        onClose();
+      } else if (e.key === 'ArrowLeft' && hasMultiple) {
+        onIndexChange((index - 1 + images.length) % images.length);
+      } else if (e.key === 'ArrowRight' && hasMultiple) {
+        onIndexChange((index + 1) % images.length);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown, true);
+    return () => document.removeEventListener('keydown', handleKeyDown, true);
+  }, [index, images.length, hasMultiple, onIndexChange, onClose]);
+
+  if (!image) return null;
+
+  const target = document.getElementById('modal-root') ?? document.body;
+
+  return createPortal(
+    <div className="attachment-lightbox" role="dialog" aria-modal="true" aria-label={image.fileName} onClick={onClose}>
+      <div className="attachment-lightbox-toolbar" onClick={(e) => e.stopPropagation()}>
+        <span className="attachment-lightbox-name">
+          {image.fileName} · {formatFileSize(image.size)}
+          {hasMultiple && ` · ${index + 1} of ${images.length}`}
+        </span>
+        <a className="attachment-lightbox-btn" href={image.url} download={image.fileName} aria-label="Download image">
+          <FontAwesomeIcon icon={faDownload} />
+        </a>
+        <button type="button" className="attachment-lightbox-btn" onClick={onClose} aria-label="Close image">
+          <FontAwesomeIcon icon={faTimes} />
+        </button>
+      </div>
+
+      {hasMultiple && (
+        <button
+          type="button"
+          className="attachment-lightbox-nav attachment-lightbox-nav--prev"
+          onClick={(e) => {
+            e.stopPropagation();
+            step(-1);
+          }}
+          aria-label="Previous image"
+        >
+          <FontAwesomeIcon icon={faChevronLeft} />
+        </button>
+      )}
+      <img className="attachment-lightbox-image" src={image.url} alt={image.fileName} onClick={(e) => e.stopPropagation()} />
+      {hasMultiple && (
+        <button
+          type="button"
+          className="attachment-lightbox-nav attachment-lightbox-nav--next"
+          onClick={(e) => {
+            e.stopPropagation();
+            step(1);
+          }}
+          aria-label="Next image"
+        >
+          <FontAwesomeIcon icon={faChevronRight} />
+        </button>
+      )}
+    </div>,
+    target
+  );
+};
+
+export default AttachmentLightbox;
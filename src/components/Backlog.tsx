@@ -2,18 +2,39 @@ import React, { useState, useEffect, useMemo } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { getSelectedProject } from "../services/storageService";
 import { useSprints } from "../hooks/useSprints.ts";
-import { useProjectMembers } from "../hooks/useProjects.ts";
-import { useSprintTasks, useUpdateTask } from "../hooks/useTasks.ts";
+import { useProjectMembers, useProjectWorkflow } from "../hooks/useProjects.ts";
+import { useProjectTasks, useSprintTasks, useUpdateTask, useUpdateTaskRanks, useBulkTaskAction, useChangeTaskSprint } from "../hooks/useTasks.ts";
+import { useProjectLabels } from "../hooks/useLabels.ts";
+import { useLongPressDrag } from "../hooks/useLongPressDrag.ts";
+import { useActiveSavedView } from "../hooks/useSavedViews.ts";
 import useBacklogActions from "../hooks/useBacklogActions.ts";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { faPlus, faExclamationCircle, faCog } from "@fortawesome/free-solid-svg-icons";
-import { Sprint, Task, User } from "../types/hooks.ts";
-import TaskInspector from "./TaskInspector.tsx";
+import { Sprint, Task, User, TaskSortMode, BulkTaskAction, TaskQueryContext, SavedViewState } from "../types/hooks.ts";
+import TaskInspector, { TaskDetailsUpdate } from "./TaskInspector.tsx";
 import SprintInspector from "./SprintInspector.tsx";
+import SprintPointsSummary from "./SprintPointsSummary.tsx";
+import PriorityIcon from "./PriorityIcon.tsx";
+import TaskSortSelect from "./TaskSortSelect.tsx";
+import LabelChips from "./LabelChips.tsx";
+import DueDateBadge from "./DueDateBadge.tsx";
+import SubtaskProgressBadge from "./SubtaskProgressBadge.tsx";
+import BacklogBulkBar from "./BacklogBulkBar.tsx";
+import ProductBacklogSection from "./ProductBacklogSection.tsx";
+import TaskSearchBox from "./TaskSearchBox.tsx";
+import TaskSearchResults from "./TaskSearchResults.tsx";
+import SavedViewSelect from "./SavedViewSelect.tsx";
 import { useToast } from "../contexts/ToastContext.tsx";
 import { useAuthContext } from "../contexts/AuthContext.tsx";
-import { getSprintStatusLabel, getSprintStatusColorClass } from "../utils/sprintUtils.ts";
+import { getSprintStatusLabel, getSprintStatusColorClass, isSprintCompleted } from "../utils/sprintUtils.ts";
+import { getTaskTitle, getSprintPoints, formatPoints, SprintPoints, getTaskPriority, sortTasks, DEFAULT_TASK_SORT_MODE, getDueDateStatus } from "../utils/taskUtils.ts";
+import { getTaskLabels } from "../utils/labelUtils.ts";
+import { getWorkflowStatus, getStatusName, getNextStatusId } from "../utils/workflowUtils.ts";
+import { getDropRankUpdates, getDropBeforeTaskId } from "../utils/rankUtils.ts";
+import { parseTaskQuery, matchesTaskQuery } from "../utils/taskQuery.ts";
+import { toViewSprintId, resolveViewSprintId } from "../utils/savedViewUtils.ts";
 import "../styles/backlog.css";
+import "../styles/task_badges.css";
 
 interface BacklogProps {
   projectId?: string;
@@ -23,7 +44,14 @@ interface BacklogProps {
  * Backlog Component
  *
  * Displays sprint overviews and allows viewing and managing tasks within a selected sprint.
- * Supports task status updates, inline editing, assignee assignment, and sprint navigation.
+ * A Product Backlog section lists tasks not planned into any sprint; tasks are dragged
+ * between it and the sprints to plan them, or onto another sprint's header to move them
+ * (mouse drag, or long-press on touch devices like the Board). A search box filters
+ * every task in the project with the structured query language; the search, sort and
+ * open sprint can be saved as a named view and shared through its ?view= link.
+ * Supports task status updates, inline editing, assignee assignment, sprint navigation,
+ * drag-to-reorder in manual order (the same ranking the Board uses), and multi-select
+ * (checkbox or shift-click) with bulk actions on the selected tasks.
  */
 const Backlog: React.FC<BacklogProps> = ({ projectId }) => {
   const navigate = useNavigate();
@@ -38,6 +66,18 @@ const Backlog: React.FC<BacklogProps> = ({ projectId }) => {
   const [selectedTaskForEdit, setSelectedTaskForEdit] = useState<Task | null>(null);
   const [inspectorOpen, setInspectorOpen] = useState<boolean>(false);
   const [editingSprint, setEditingSprint] = useState<Sprint | null>(null);
+  const [sortMode, setSortMode] = useState<TaskSortMode>(DEFAULT_TASK_SORT_MODE);
+  const [searchQuery, setSearchQuery] = useState<string>('');
+  // Manual reordering: the row being dragged and the row it would land in front of (null = end)
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dropBeforeTaskId, setDropBeforeTaskId] = useState<string | null | undefined>(undefined);
+  // Sprint header a task is being dragged over
+  const [dropSprintId, setDropSprintId] = useState<string | null>(null);
+  const [usePointerDnD, setUsePointerDnD] = useState<boolean>(false);
+  // Multi-select: selected rows, the anchor for shift-click ranges, and progress of a running bulk action
+  const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([]);
+  const [lastSelectedTaskId, setLastSelectedTaskId] = useState<string | null>(null);
+  const [bulkProgress, setBulkProgress] = useState<{ done: number; total: number } | null>(null);
 
   // Read project ID from storage, re-read when userId changes (auth state stabilizes)
   // This ensures we get the correct user-scoped project ID after auth is ready
@@ -64,9 +104,16 @@ const Backlog: React.FC<BacklogProps> = ({ projectId }) => {
   const { data: sprintsData, isLoading: sprintsLoading, error: sprintsError } = useSprints(selectedProjectId);
   const { data: membersData, isLoading: membersLoading, error: membersError } = useProjectMembers(selectedProjectId);
   const { data: tasksData, isLoading: tasksLoading, error: tasksError } = useSprintTasks(selectedSprint?.id || null);
+  // All project tasks (every page), used for the product backlog, search, per-sprint point totals and dependency links
+  const { data: projectTasksData, isLoading: projectTasksLoading, error: projectTasksError } = useProjectTasks(selectedProjectId);
+  const { data: labels = [] } = useProjectLabels(selectedProjectId);
+  const workflow = useProjectWorkflow(selectedProjectId);
   
   // Mutation hooks
   const updateTaskMutation = useUpdateTask();
+  const updateTaskRanksMutation = useUpdateTaskRanks();
+  const bulkTaskActionMutation = useBulkTaskAction();
+  const changeTaskSprintMutation = useChangeTaskSprint();
 
   // Extract data arrays from TanStack Query responses
   const sprints: Sprint[] = useMemo(() => {
@@ -105,6 +152,71 @@ const Backlog: React.FC<BacklogProps> = ({ projectId }) => {
     return [];
   }, [tasksData]);
 
+  // Tasks in display order for the selected sort mode
+  const sortedTasks: Task[] = useMemo(() => sortTasks(tasks, sortMode), [tasks, sortMode]);
+
+  // Selection limited to rows still in the list (tasks can leave through other members' edits)
+  const visibleSelectedIds: string[] = useMemo(
+    () => sortedTasks.filter((task) => selectedTaskIds.includes(task.id)).map((task) => task.id),
+    [sortedTasks, selectedTaskIds]
+  );
+
+  // Selection belongs to one sprint's list
+  useEffect(() => {
+    setSelectedTaskIds([]);
+    setLastSelectedTaskId(null);
+  }, [selectedSprint?.id]);
+
+  const projectTasks: Task[] = useMemo(() => {
+    return Array.isArray(projectTasksData)
+      ? projectTasksData
+      : projectTasksData?.tasks || [];
+  }, [projectTasksData]);
+
+  // Tasks not planned into any sprint, in the same order as the sprint list
+  const unplannedTasks: Task[] = useMemo(
+    () => sortTasks(projectTasks.filter((task: Task) => !task.sprintId), sortMode),
+    [projectTasks, sortMode]
+  );
+
+  // Project-wide search results (replace the sprint views while a query is entered)
+  const searchContext: TaskQueryContext = useMemo(
+    () => ({ currentUserId: userId, members, workflow, labels, sprints }),
+    [userId, members, workflow, labels, sprints]
+  );
+  const parsedSearch = useMemo(() => parseTaskQuery(searchQuery), [searchQuery]);
+  const isSearching = parsedSearch.length > 0;
+  const searchResults: Task[] = useMemo(
+    () => (isSearching ? sortTasks(projectTasks.filter((task) => matchesTaskQuery(task, parsedSearch, searchContext)), sortMode) : []),
+    [isSearching, projectTasks, parsedSearch, searchContext, sortMode]
+  );
+
+  // Every task shown on the page: the sprint's copies first, then the rest of the project (each task once)
+  const loadedTasks: Task[] = useMemo(() => {
+    const sprintTaskIds = new Set(tasks.map((task: Task) => task.id));
+    return [...tasks, ...projectTasks.filter((task: Task) => !sprintTaskIds.has(task.id))];
+  }, [tasks, projectTasks]);
+
+  // Inspected task with its checklist kept live from the query cache (checklist edits save immediately)
+  const inspectedTask: Task | null = useMemo(() => {
+    if (!selectedTaskForEdit) return null;
+    const liveTask = loadedTasks.find((task: Task) => task.id === selectedTaskForEdit.id);
+    return liveTask ? { ...selectedTaskForEdit, subtasks: liveTask.subtasks } : selectedTaskForEdit;
+  }, [selectedTaskForEdit, loadedTasks]);
+
+  // Story point totals keyed by sprint ID
+  const sprintPointsById: Record<string, SprintPoints> = useMemo(() => {
+    const tasksBySprint: Record<string, Task[]> = {};
+    projectTasks.forEach((task: Task) => {
+      if (!task.sprintId) return;
+      if (!tasksBySprint[task.sprintId]) tasksBySprint[task.sprintId] = [];
+      tasksBySprint[task.sprintId].push(task);
+    });
+    return Object.fromEntries(
+      Object.entries(tasksBySprint).map(([sprintId, sprintTasks]) => [sprintId, getSprintPoints(sprintTasks, workflow)])
+    );
+  }, [projectTasks, workflow]);
+
   // Combine loading states
   const loading = sprintsLoading || membersLoading || tasksLoading;
 
@@ -121,24 +233,41 @@ const Backlog: React.FC<BacklogProps> = ({ projectId }) => {
     }
   }, [sprintsError, membersError, tasksError, showError]);
 
+  // Saved views - search, sort and the open sprint (or the overview) as one named preset
+  const currentViewState: SavedViewState = useMemo(
+    () => ({ searchQuery, sortMode, sprintId: toViewSprintId(selectedSprint?.id || null, sprints) }),
+    [searchQuery, sortMode, selectedSprint, sprints]
+  );
+
+  const { views, activeView, selectView } = useActiveSavedView({
+    projectId: selectedProjectId,
+    page: 'backlog',
+    ready: !sprintsLoading,
+    applyState: (state: SavedViewState) => {
+      setSearchQuery(state.searchQuery || '');
+      setSortMode(state.sortMode || DEFAULT_TASK_SORT_MODE);
+      const sprintId = resolveViewSprintId(state.sprintId, sprints);
+      setSelectedSprint(sprints.find((sprint: Sprint) => sprint.id === sprintId) || null);
+    },
+  });
+
   const handleSprintClick = (sprint: Sprint): void => {
     setSelectedSprint(sprint);
     // Tasks will automatically load via useSprintTasks hook when selectedSprint changes
   };
 
-  // Status cycling function
+  // Status cycling function - steps through the project's workflow in column order, wrapping around
   const handleStatusCycle = async (task: Task): Promise<void> => {
-    const nextStatus = (task.status + 1) % 3; // Cycle: 0 → 1 → 2 → 0
+    const nextStatus = getNextStatusId(workflow, task.status);
     await handleStatusChange(task, nextStatus);
   };
 
-  // Status icon helper
+  // Status icon helper (shape follows the status category)
   const getStatusIcon = (status: number): string => {
-    switch (status) {
-      case 0: return '○'; // To Do
-      case 1: return '◐'; // In Progress  
-      case 2: return '●'; // Completed
-      default: return '○';
+    switch (getWorkflowStatus(workflow, status)?.category) {
+      case 'doing': return '◐'; // In Progress
+      case 'done': return '●'; // Done
+      default: return '○'; // To Do
     }
   };
 
@@ -156,12 +285,95 @@ const Backlog: React.FC<BacklogProps> = ({ projectId }) => {
     setInspectorOpen(true);
   };
 
-  // Handle task row click - open inspector
-  const handleTaskClick = (task: Task): void => {
+  // Toggle one row, or with shift select every row between it and the last one toggled
+  const toggleTaskSelection = (task: Task, extendRange: boolean): void => {
+    const anchorIndex = lastSelectedTaskId ? sortedTasks.findIndex((t) => t.id === lastSelectedTaskId) : -1;
+    const index = sortedTasks.findIndex((t) => t.id === task.id);
+
+    if (extendRange && anchorIndex !== -1 && index !== -1) {
+      const rangeIds = sortedTasks
+        .slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+        .map((t) => t.id);
+      setSelectedTaskIds((current) => Array.from(new Set([...current, ...rangeIds])));
+    } else {
+      setSelectedTaskIds((current) =>
+        current.includes(task.id) ? current.filter((id) => id !== task.id) : [...current, task.id]
+      );
+    }
+    setLastSelectedTaskId(task.id);
+  };
+
+  // Handle task row click - open inspector (shift-click selects instead)
+  const handleTaskClick = (task: Task, e: React.MouseEvent): void => {
+    if (e.shiftKey) {
+      // Shift-click would otherwise highlight the text between the two rows
+      window.getSelection()?.removeAllRanges();
+      toggleTaskSelection(task, true);
+      return;
+    }
     setSelectedTaskForEdit(task);
     setInspectorOpen(true);
   };
 
+  // Success summary for a bulk action that completed for every task
+  const describeBulkAction = (action: BulkTaskAction, count: number): string => {
+    const tasksText = `${count} task${count === 1 ? '' : 's'}`;
+    switch (action.type) {
+      case 'status':
+        return `Moved ${tasksText} to ${getStatusName(workflow, action.status)}`;
+      case 'assign':
+        return action.assigneeId
+          ? `Assigned ${tasksText} to ${getAssigneeDisplayName(action.assigneeId)}`
+          : `Unassigned ${tasksText}`;
+      case 'moveToSprint':
+        return `Moved ${tasksText} to ${sprints.find((sprint) => sprint.id === action.sprintId)?.name || 'the sprint'}`;
+      case 'removeFromSprint':
+        return `Removed ${tasksText} from the sprint`;
+      case 'delete':
+        return `Deleted ${tasksText}`;
+    }
+  };
+
+  const handleBulkAction = async (action: BulkTaskAction): Promise<void> => {
+    const taskIds = visibleSelectedIds;
+    if (taskIds.length === 0 || bulkProgress) return;
+
+    setBulkProgress({ done: 0, total: taskIds.length });
+    try {
+      const result = await bulkTaskActionMutation.mutateAsync({
+        taskIds,
+        action,
+        onProgress: (done, total) => setBulkProgress({ done, total }),
+      });
+
+      if (result.failed.length === 0) {
+        showSuccess(describeBulkAction(action, result.succeeded.length));
+      } else {
+        console.error("❌ Bulk action failed for some tasks:", result.failed);
+        showError(
+          `${result.succeeded.length} of ${taskIds.length} tasks updated, ${result.failed.length} failed: ${result.failed[0].error}`
+        );
+      }
+      // Keep the failed rows selected so the action can be retried
+      setSelectedTaskIds(result.failed.map((failure) => failure.taskId));
+      if (selectedTaskForEdit && action.type === 'delete' && result.succeeded.includes(selectedTaskForEdit.id)) {
+        setInspectorOpen(false);
+        setSelectedTaskForEdit(null);
+      }
+    } catch (err: any) {
+      console.error("❌ Error running bulk action:", err);
+      showError(`Failed to update tasks: ${err.message}`);
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  // Task row class with overdue / due-soon highlighting
+  const getTaskRowClassName = (task: Task): string => {
+    const dueStatus = getDueDateStatus(task, workflow);
+    return dueStatus ? `task-row task-row--${dueStatus}` : "task-row";
+  };
+
   // Handle URL params for sprintId to restore sprint view
   // Wait for auth to be ready AND project ID to be read before showing "No Project ID" error
   useEffect(() => {
@@ -190,13 +402,153 @@ const Backlog: React.FC<BacklogProps> = ({ projectId }) => {
     }
   }, [selectedProjectId, location.search, sprints, selectedSprint, navigate, showError, authLoading, projectIdRead]);
 
-  // Helper function to get status text
-  const getStatusText = (status: number): string => {
-    if (status === 0) return 'To Do';
-    if (status === 1) return 'In Progress';
-    return 'Completed';
+  // Detect pointer type (coarse = touch, fine = mouse)
+  useEffect(() => {
+    const mql = window.matchMedia('(pointer: coarse)');
+    const update = () => setUsePointerDnD(mql.matches);
+    update();
+    mql.addEventListener('change', update);
+    return () => mql.removeEventListener('change', update);
+  }, []);
+
+  const canReorder = sortMode === 'rank';
+
+  // Task being dragged, from either the sprint list or the product backlog
+  const draggedTask: Task | null = draggedTaskId
+    ? loadedTasks.find((task) => task.id === draggedTaskId) || null
+    : null;
+  const isDraggingUnplanned = !!draggedTask && !draggedTask.sprintId;
+
+  const handleRowDragStart = (e: React.DragEvent, task: Task): void => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', task.id);
+    setDraggedTaskId(task.id);
+  };
+
+  const handleRowDragEnd = (): void => {
+    setDraggedTaskId(null);
+    setDropBeforeTaskId(undefined);
+    setDropSprintId(null);
+  };
+
+  // Plan a task into a sprint, or send it back to the product backlog (sprint = null)
+  const handleChangeTaskSprint = async (task: Task, sprint: Sprint | null): Promise<void> => {
+    if ((task.sprintId || null) === (sprint?.id || null)) return;
+    try {
+      await changeTaskSprintMutation.mutateAsync({ task, sprintId: sprint?.id || null });
+      showSuccess(sprint ? `Moved "${getTaskTitle(task)}" to ${sprint.name}` : `Moved "${getTaskTitle(task)}" to the product backlog`);
+    } catch (err: any) {
+      console.error("❌ Error moving task:", err);
+      showError(`Failed to move task: ${err.message}`);
+    }
   };
 
+  // Completed sprints are closed; new work goes to a planned or active sprint
+  const canDropIntoSprint = (task: Task | null, sprint: Sprint): boolean =>
+    !!task && task.sprintId !== sprint.id && !isSprintCompleted(sprint);
+
+  const handleDropOnSprint = (task: Task, sprint: Sprint | null): void => {
+    if (sprint && isSprintCompleted(sprint)) {
+      showError(`${sprint.name} is completed and can't take new tasks.`);
+      return;
+    }
+    handleChangeTaskSprint(task, sprint);
+  };
+
+  const handleSprintDragOver = (e: React.DragEvent, sprint: Sprint): void => {
+    if (!canDropIntoSprint(draggedTask, sprint)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    if (dropSprintId !== sprint.id) setDropSprintId(sprint.id);
+  };
+
+  const handleSprintDrop = (e: React.DragEvent, sprint: Sprint): void => {
+    e.preventDefault();
+    const task = draggedTask;
+    handleRowDragEnd();
+    if (task) handleDropOnSprint(task, sprint);
+  };
+
+  // Drag handlers for a sprint header (sprint card or drop strip entry)
+  const getSprintDropProps = (sprint: Sprint) => ({
+    'data-sprint-drop': sprint.id,
+    onDragOver: (e: React.DragEvent) => handleSprintDragOver(e, sprint),
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropSprintId(null);
+    },
+    onDrop: (e: React.DragEvent) => handleSprintDrop(e, sprint),
+  });
+
+  const handleListDragOver = (e: React.DragEvent<HTMLDivElement>): void => {
+    if (!draggedTask) return;
+    if (isDraggingUnplanned) {
+      // Unplanned tasks join the sprint at the end
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      if (dropBeforeTaskId !== null) setDropBeforeTaskId(null);
+      return;
+    }
+    if (!canReorder) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const beforeTaskId = getDropBeforeTaskId(e.currentTarget, '.task-row', e.clientY, draggedTask.id);
+    if (beforeTaskId !== dropBeforeTaskId) setDropBeforeTaskId(beforeTaskId);
+  };
+
+  const handleListDrop = async (e: React.DragEvent<HTMLDivElement>): Promise<void> => {
+    e.preventDefault();
+    if (isDraggingUnplanned && draggedTask && selectedSprint) {
+      const unplannedTask = draggedTask;
+      handleRowDragEnd();
+      await handleChangeTaskSprint(unplannedTask, selectedSprint);
+      return;
+    }
+    const task = sortedTasks.find((t) => t.id === draggedTaskId);
+    const beforeTaskId = task ? getDropBeforeTaskId(e.currentTarget, '.task-row', e.clientY, task.id) : null;
+    handleRowDragEnd();
+    if (!task || !selectedProjectId) return;
+
+    // Placed within the whole project's order - the sprint list is only a slice of it
+    const ranks = getDropRankUpdates(sortTasks(projectTasks, 'rank'), sortedTasks, task, beforeTaskId);
+    if (ranks.length === 0) return;
+    try {
+      await updateTaskRanksMutation.mutateAsync({ projectId: selectedProjectId, ranks });
+    } catch (err: any) {
+      console.error("❌ Error reordering tasks:", err);
+      showError(`Failed to reorder tasks: ${err.message}`);
+    }
+  };
+
+  // Long-press dragging on touch devices; drop targets carry data-sprint-drop ("" = product backlog)
+  const longPressDrag = useLongPressDrag<Task>({
+    enabled: usePointerDnD,
+    sourceSelector: '.task-row',
+    dropTargetSelector: '[data-sprint-drop]',
+    onDragStart: (task) => setDraggedTaskId(task.id),
+    onDragEnd: handleRowDragEnd,
+    onDrop: (task, target) => {
+      if (!target) return;
+      const sprintId = target.dataset.sprintDrop;
+      if (!sprintId) {
+        handleChangeTaskSprint(task, null);
+        return;
+      }
+      const sprint = sprints.find((s) => s.id === sprintId);
+      if (sprint) handleDropOnSprint(task, sprint);
+    },
+  });
+
+  const getRowDragProps = (task: Task): React.HTMLAttributes<HTMLDivElement> =>
+    usePointerDnD
+      ? longPressDrag.getDragHandlers(task)
+      : { draggable: true, onDragStart: (e) => handleRowDragStart(e, task), onDragEnd: handleRowDragEnd };
+
+  // Other sprints shown as drop headers while a task is being dragged in the sprint view
+  const otherSprints: Sprint[] = sprints.filter((sprint) => sprint.id !== selectedSprint?.id);
+
+  // Helper function to get status text
+  const getStatusText = (status: number): string => getStatusName(workflow, status);
+
   const handleStatusChange = async (task: Task, newStatus: number): Promise<void> => {
     try {
       await handleUpdateTaskStatus(task, newStatus);
@@ -335,6 +687,9 @@ const Backlog: React.FC<BacklogProps> = ({ projectId }) => {
             <p className="page-subtitle">
               {selectedSprint ? 'Manage tasks in this sprint' : 'Manage your sprints and tasks'}
             </p>
+            {selectedSprint && (
+              <SprintPointsSummary points={getSprintPoints(tasks, workflow)} className="backlog-header-points" />
+            )}
           </div>
 
           <div className="backlog-toolbar">
@@ -345,6 +700,18 @@ const Backlog: React.FC<BacklogProps> = ({ projectId }) => {
               <span className="btn-icon" aria-hidden>＋</span>
               {selectedSprint ? 'Task' : 'Sprint'}
             </button>
+            <SavedViewSelect
+              projectId={selectedProjectId}
+              page="backlog"
+              views={views}
+              activeView={activeView}
+              currentState={currentViewState}
+              onSelect={selectView}
+              className="backlog-saved-views"
+            />
+            {selectedSprint && (
+              <TaskSortSelect value={sortMode} onChange={setSortMode} className="backlog-sort-select" />
+            )}
             {selectedSprint && (
               <button 
                 className="secondary-action-btn"
@@ -358,6 +725,44 @@ const Backlog: React.FC<BacklogProps> = ({ projectId }) => {
 
         <div className="backlog-container">
 
+      <TaskSearchBox value={searchQuery} onChange={setSearchQuery} context={searchContext} className="backlog-search" />
+
+      {isSearching ? (
+        <TaskSearchResults
+          tasks={searchResults}
+          totalCount={projectTasks.length}
+          isLoading={projectTasksLoading}
+          sprints={sprints}
+          labels={labels}
+          workflow={workflow}
+          onTaskClick={(task) => {
+            setSelectedTaskForEdit(task);
+            setInspectorOpen(true);
+          }}
+        />
+      ) : (
+      <>
+      <ProductBacklogSection
+        tasks={unplannedTasks}
+        isLoading={projectTasksLoading}
+        loadFailed={!!projectTasksError}
+        members={members}
+        labels={labels}
+        workflow={workflow}
+        draggedTaskId={draggedTaskId}
+        acceptsDrop={!!draggedTask && !!draggedTask.sprintId}
+        onTaskClick={(task) => {
+          setSelectedTaskForEdit(task);
+          setInspectorOpen(true);
+        }}
+        getRowDragProps={getRowDragProps}
+        onDrop={() => {
+          const task = draggedTask;
+          handleRowDragEnd();
+          if (task) handleChangeTaskSprint(task, null);
+        }}
+      />
+
       {!selectedSprint ? (
         // Sprint Overview
         <div className="sprint-overview">
@@ -382,9 +787,10 @@ const Backlog: React.FC<BacklogProps> = ({ projectId }) => {
               {sprints && sprints.map((sprint: Sprint) => (
                 <article
                   key={sprint.id} 
-                  className="sprint-item"
+                  className={`sprint-item ${dropSprintId === sprint.id ? 'sprint-item--drop-target' : ''} ${draggedTaskId && isSprintCompleted(sprint) ? 'sprint-item--drop-disabled' : ''}`}
                   role="listitem button"
                   onClick={() => handleSprintClick(sprint)}
+                  {...getSprintDropProps(sprint)}
                   tabIndex={0}
                   onKeyDown={(e) => {
                     if (e.key === "Enter" || e.key === " ") {
@@ -401,6 +807,10 @@ const Backlog: React.FC<BacklogProps> = ({ projectId }) => {
                     <span className={`status-badge ${getSprintStatusColorClass(sprint)}`}>
                       {getSprintStatusLabel(sprint)}
                     </span>
+                    <SprintPointsSummary
+                      points={sprintPointsById[sprint.id] || { committed: 0, inProgress: 0, done: 0 }}
+                      className="sprint-item-points"
+                    />
                   </div>
                   
                   {/* Sprint Settings Button */}
@@ -421,7 +831,30 @@ const Backlog: React.FC<BacklogProps> = ({ projectId }) => {
         // Task List for Selected Sprint
         <div className="sprint-tasks">
           
-          <div className="tasks-container">
+          {draggedTaskId && otherSprints.length > 0 && (
+            <div className="backlog-sprint-drop-targets" aria-label="Drop on a sprint to move the task there">
+              {otherSprints.map((sprint: Sprint) => (
+                <div
+                  key={sprint.id}
+                  className={`backlog-sprint-drop-target ${dropSprintId === sprint.id ? 'backlog-sprint-drop-target--active' : ''} ${isSprintCompleted(sprint) ? 'backlog-sprint-drop-target--disabled' : ''}`}
+                  title={isSprintCompleted(sprint) ? "Completed sprints can't take new tasks" : `Move to ${sprint.name}`}
+                  {...getSprintDropProps(sprint)}
+                >
+                  <span className="backlog-sprint-drop-target-name">{sprint.name}</span>
+                  <span className={`status-badge ${getSprintStatusColorClass(sprint)}`}>
+                    {getSprintStatusLabel(sprint)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div
+            className="tasks-container"
+            data-sprint-drop={selectedSprint.id}
+            onDragOver={handleListDragOver}
+            onDrop={handleListDrop}
+          >
             {!tasks || tasks.length === 0 ? (
               <div className="empty-state">
                 <div className="empty-illustration" aria-hidden>✓</div>
@@ -438,25 +871,75 @@ const Backlog: React.FC<BacklogProps> = ({ projectId }) => {
                 </div>
               </div>
             ) : (
-              <div className="tasks-adaptive">
-                {tasks && tasks.map((task: Task) => (
+              <>
+              {visibleSelectedIds.length > 0 && (
+                <BacklogBulkBar
+                  selectedCount={visibleSelectedIds.length}
+                  totalCount={sortedTasks.length}
+                  workflow={workflow}
+                  members={members}
+                  sprints={sprints}
+                  currentSprintId={selectedSprint.id}
+                  progress={bulkProgress}
+                  onToggleAll={(selectAll) => setSelectedTaskIds(selectAll ? sortedTasks.map((task) => task.id) : [])}
+                  onClear={() => setSelectedTaskIds([])}
+                  onAction={handleBulkAction}
+                />
+              )}
+              <div
+                className={`tasks-adaptive ${draggedTaskId && dropBeforeTaskId === null ? 'tasks-adaptive--drop-end' : ''}`}
+              >
+                {sortedTasks.map((task: Task) => (
                   <div 
                     key={task.id} 
-                    className="task-row" 
-                    onClick={() => handleTaskClick(task)}
+                    data-task-id={task.id}
+                    className={`${getTaskRowClassName(task)} ${visibleSelectedIds.includes(task.id) ? 'task-row--selected' : ''} ${draggedTaskId === task.id ? 'task-row--dragging' : ''} ${draggedTaskId && dropBeforeTaskId === task.id ? 'task-row--drop-before' : ''}`}
+                    onClick={(e) => handleTaskClick(task, e)}
+                    {...getRowDragProps(task)}
                   >
                     <div className="task-row-content">
+                      {/* Selection checkbox */}
+                      <input
+                        type="checkbox"
+                        className="task-row-checkbox"
+                        checked={visibleSelectedIds.includes(task.id)}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={(e) => toggleTaskSelection(task, (e.nativeEvent as MouseEvent).shiftKey)}
+                        disabled={!!bulkProgress}
+                        aria-label={`Select ${getTaskTitle(task)}`}
+                      />
+
                       {/* Status indicator (pill/dot) */}
                       <button 
                         className="task-status-pill"
+                        style={{ '--status-color': getWorkflowStatus(workflow, task.status)?.color } as React.CSSProperties}
                         onClick={(e) => { e.stopPropagation(); handleStatusCycle(task); }}
                         aria-label={getStatusAriaLabel(task.status)}
                       >
                         {getStatusIcon(task.status)}
                       </button>
                       
+                      {/* Priority indicator */}
+                      <PriorityIcon priority={getTaskPriority(task)} />
+                      
                       {/* Task title */}
-                      <span className="task-row-title">{task.description}</span>
+                      <span className="task-row-title">{getTaskTitle(task)}</span>
+                      
+                      {/* Estimate badge */}
+                      {task.estimate !== undefined && task.estimate !== null && (
+                        <span className="task-badge task-badge--estimate" title={`Estimate: ${formatPoints(task.estimate)}`}>
+                          {task.estimate}
+                        </span>
+                      )}
+                      
+                      {/* Due date */}
+                      <DueDateBadge task={task} workflow={workflow} />
+                      
+                      {/* Checklist progress */}
+                      <SubtaskProgressBadge task={task} />
+                      
+                      {/* Labels */}
+                      <LabelChips labels={getTaskLabels(task, labels)} className="task-row-labels" />
                       
                       {/* Assignee avatar */}
                       <div className="task-assignee-avatar">
@@ -478,14 +961,17 @@ const Backlog: React.FC<BacklogProps> = ({ projectId }) => {
                   </div>
                 ))}
               </div>
+              </>
             )}
           </div>
         </div>
       )}
+      </>
+      )}
 
       {/* Task Inspector Panel */}
       <TaskInspector
-        task={selectedTaskForEdit}
+        task={inspectedTask}
         isOpen={inspectorOpen}
         onClose={() => {
           setInspectorOpen(false);
@@ -497,18 +983,23 @@ const Backlog: React.FC<BacklogProps> = ({ projectId }) => {
           setSelectedTaskForEdit(updatedTask);
         }}
         members={members}
+        sprints={sprints}
+        labels={labels}
+        projectTasks={projectTasks}
+        workflow={workflow}
         onStatusChange={handleStatusChange}
         onAssigneeChange={handleAssigneeChange}
-        onDescriptionUpdate={async (taskId: string, description: string) => {
+        onDetailsUpdate={async (taskId: string, updates: TaskDetailsUpdate) => {
           try {
-            await updateTaskMutation.mutateAsync({ taskId, taskData: { description } });
-            const updatedTask = tasks.find(t => t.id === taskId);
+            await updateTaskMutation.mutateAsync({ taskId, taskData: updates });
+            const updatedTask = loadedTasks.find(t => t.id === taskId);
             if (updatedTask && selectedTaskForEdit?.id === taskId) {
-              setSelectedTaskForEdit({ ...updatedTask, description });
+              setSelectedTaskForEdit({ ...updatedTask, ...updates });
             }
           } catch (err: any) {
-            console.error("Failed to update task description:", err);
-            showError("Failed to update task description.");
+            console.error("Failed to update task details:", err);
+            showError("Failed to update task details.");
+            throw err;
           }
         }}
         />
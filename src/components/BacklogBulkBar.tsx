@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faTimes, faTrash, faSpinner } from '@fortawesome/free-solid-svg-icons';
+import { BulkTaskAction, Sprint, User, WorkflowStatus } from '../types/hooks.ts';
+import ConfirmationModal from './ConfirmationModal.tsx';
+import '../styles/backlog.css';
+
+interface BacklogBulkBarProps {
+  selectedCount: number;
+  totalCount: number;
+  workflow: WorkflowStatus[];
+  members: User[];
+  sprints: Sprint[];
+  currentSprintId: string | null;
+  progress: { done: number; total: number } | null;
+  onToggleAll: (selectAll: boolean) => void;
+  onClear: () => void;
+  onAction: (action: BulkTaskAction) => void;
+}
+
+// Sentinel option value for "Unassign" in the assignee select
+const UNASSIGN_VALUE = '__unassign__';
+
+/**
+ * BacklogBulkBar Component
+ *
+ * Action bar shown above the sprint task list while rows are selected. Each control
+ * applies its action to every selected task; a progress bar replaces the controls
+ * while a batch is running.
+ */
+const BacklogBulkBar: React.FC<BacklogBulkBarProps> = ({
+  selectedCount,
+  totalCount,
+  workflow,
+  members,
+  sprints,
+  currentSprintId,
+  progress,
+  onToggleAll,
+  onClear,
+  onAction,
+}) => {
+  const [confirmDelete, setConfirmDelete] = useState<boolean>(false);
+  const isRunning = progress !== null;
+  const allSelected = totalCount > 0 && selectedCount === totalCount;
+  const targetSprints = sprints.filter((sprint) => sprint.id !== currentSprintId);
+  const taskWord = selectedCount === 1 ? 'task' : 'tasks';
+
+  return (
+    <div className="backlog-bulk-bar" role="toolbar" aria-label="Bulk actions for selected tasks">
+      <label className="backlog-bulk-select-all">
+        <input
+          type="checkbox"
+          checked={allSelected}
+          ref={(input) => {
+            if (input) input.indeterminate = selectedCount > 0 && !allSelected;
+          }}
+          onChange={(e) => onToggleAll(e.target.checked)}
+          disabled={isRunning}
+          aria-label="Select all tasks"
+        />
+        <span>{selectedCount} selected</span>
+      </label>
+
+      {isRunning ? (
+        <div className="backlog-bulk-progress" role="status">
+          <FontAwesomeIcon icon={faSpinner} spin />
+          <span>Updating {progress.done}/{progress.total}…</span>
+          <progress value={progress.done} max={progress.total} />
+        </div>
+      ) : (
+        <div className="backlog-bulk-actions">
+          <label className="task-sort-select">
+            <select
+              value=""
+              onChange={(e) => e.target.value && onAction({ type: 'status', status: Number(e.target.value) })}
+              aria-label="Change status of selected tasks"
+            >
+              <option value="">Status…</option>
+              {workflow.map((status) => (
+                <option key={status.id} value={status.id}>
+                  {status.name}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="task-sort-select">
+            <select
+              value=""
+              onChange={(e) =>
+                e.target.value &&
+                onAction({ type: 'assign', assigneeId: e.target.value === UNASSIGN_VALUE ? null : e.target.value })
+              }
+              aria-label="Assign selected tasks"
+            >
+              <option value="">Assignee…</option>
+              <option value={UNASSIGN_VALUE}>Unassign</option>
+              {members.map((member) => (
+                <option key={member.id} value={member.id}>
+                  {member.firstName} {member.lastName}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {targetSprints.length > 0 && (
+            <label className="task-sort-select">
+              <select
+                value=""
+                onChange={(e) => e.target.value && onAction({ type: 'moveToSprint', sprintId: e.target.value })}
+                aria-label="Move selected tasks to sprint"
+              >
+                <option value="">Move to sprint…</option>
+                {targetSprints.map((sprint) => (
+                  <option key={sprint.id} value={sprint.id}>
+                    {sprint.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <button type="button" className="secondary-action-btn" onClick={() => onAction({ type: 'removeFromSprint' })}>
+            Remove from sprint
+          </button>
+
+          <button
+            type="button"
+            className="secondary-action-btn backlog-bulk-delete"
+            onClick={() => setConfirmDelete(true)}
+          >
+            <FontAwesomeIcon icon={faTrash} style={{ marginRight: '6px' }} />
+            Delete
+          </button>
+        </div>
+      )}
+
+      <button
+        type="button"
+        className="backlog-bulk-clear"
+        onClick={onClear}
+        disabled={isRunning}
+        aria-label="Clear selection"
+      >
+        <FontAwesomeIcon icon={faTimes} />
+      </button>
+
+      <ConfirmationModal
+        isOpen={confirmDelete}
+        title={`Delete ${selectedCount} ${taskWord}`}
+        message={`Are you sure you want to delete ${selectedCount} ${taskWord}? This action cannot be undone.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        type="delete"
+        onConfirm={() => {
+          setConfirmDelete(false);
+          onAction({ type: 'delete' });
+        }}
+        onCancel={() => setConfirmDelete(false)}
+      />
+    </div>
+  );
+};
+
+export default BacklogBulkBar;
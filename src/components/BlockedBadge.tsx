@@ -0,0 +1,31 @@
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faLock } from '@fortawesome/free-solid-svg-icons';
+import { Task } from '../types/hooks.ts';
+import { getTaskTitle } from '../utils/taskUtils.ts';
+import '../styles/task_badges.css';
+
+interface BlockedBadgeProps {
+  blockers: Task[];
+}
+
+/**
+ * BlockedBadge Component
+ *
+ * Lock pill shown on Board cards while a task has unfinished blockers.
+ */
+const BlockedBadge: React.FC<BlockedBadgeProps> = ({ blockers }) => {
+  if (blockers.length === 0) return null;
+
+  return (
+    <span
+      className="task-badge task-badge--blocked"
+      title={`Blocked by: ${blockers.map(getTaskTitle).join(', ')}`}
+    >
+      <FontAwesomeIcon icon={faLock} />
+      {blockers.length}
+    </span>
+  );
+};
+
+export default BlockedBadge;
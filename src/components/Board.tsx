@@ -3,22 +3,52 @@ import { useNavigate } from 'react-router-dom';
 import { getSelectedProject } from '../services/storageService';
 import { useAuthContext } from '../contexts/AuthContext.tsx';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faCalendarAlt, faBars } from '@fortawesome/free-solid-svg-icons';
+import { faCalendarAlt, faBars, faChevronDown, faChevronRight } from '@fortawesome/free-solid-svg-icons';
 import useBoardActions from '../hooks/useBoardActions.ts';
-import { Task, Sprint, User } from '../types/hooks.ts';
-import TaskInspector from './TaskInspector.tsx';
-import { updateTask } from '../services/taskService';
+import { useProjectLabels } from '../hooks/useLabels.ts';
+import { useActiveSavedView } from '../hooks/useSavedViews.ts';
+import { Task, Sprint, User, WorkflowStatus, SavedViewState } from '../types/hooks.ts';
+import TaskInspector, { TaskDetailsUpdate } from './TaskInspector.tsx';
+import SprintPointsSummary from './SprintPointsSummary.tsx';
+import PriorityIcon from './PriorityIcon.tsx';
+import TaskSortSelect from './TaskSortSelect.tsx';
+import SwimlaneSelect from './SwimlaneSelect.tsx';
+import LabelChips from './LabelChips.tsx';
+import LabelFilterBar from './LabelFilterBar.tsx';
+import TaskSearchBox from './TaskSearchBox.tsx';
+import SavedViewSelect from './SavedViewSelect.tsx';
+import DueDateBadge from './DueDateBadge.tsx';
+import SubtaskProgressBadge from './SubtaskProgressBadge.tsx';
+import AttachmentCountBadge from './AttachmentCountBadge.tsx';
+import TimeTrackingBadge from './TimeTrackingBadge.tsx';
+import BlockedBadge from './BlockedBadge.tsx';
+import { getTaskTitle, getSprintPoints, formatPoints, getTaskPriority, getPriorityOption, getDueDateStatus, sortTasks, DEFAULT_TASK_SORT_MODE } from '../utils/taskUtils.ts';
+import { getTaskLabels, EMPTY_LABEL_FILTER } from '../utils/labelUtils.ts';
+import { getStatusName, getCategoryModifier, getWipLimit } from '../utils/workflowUtils.ts';
+import { getSwimlanes, getTaskLaneKeys, getSwimlaneChange, SwimlaneChange } from '../utils/swimlaneUtils.ts';
+import { getDropRankUpdates, getDropBeforeTaskId } from '../utils/rankUtils.ts';
+import { toViewSprintId, resolveViewSprintId } from '../utils/savedViewUtils.ts';
+import { getAttachmentCount } from '../utils/attachmentUtils.ts';
+import { hasTimeTracking } from '../utils/timeTrackingUtils.ts';
 import '../styles/board.css';
+import '../styles/task_badges.css';
+
+interface BoardProps {
+  linkedTask?: Task | null; // Task opened from a deep link (/p/:projectKey/task/:taskKey)
+}
 
 /**
  * Board Component
  *
  * Displays a Kanban-style task board for a selected project and sprint.
- * Supports drag-and-drop task movement across three status columns.
+ * Supports drag-and-drop task movement across the project's workflow columns,
+ * with optional per-column WIP limits and swimlanes by assignee, priority or label.
+ * Filters, sort, swimlanes and sprint can be saved as named views (?view=<id>).
+ * A linked task opens in the inspector, with the board switched to its sprint.
  *
  * @returns {JSX.Element} The full task board with status columns and sprint selector
  */
-const Board: React.FC = () => {
+const Board: React.FC<BoardProps> = ({ linkedTask = null }) => {
   const navigate = useNavigate();
   const { userId } = useAuthContext();
   
@@ -34,6 +64,8 @@ const Board: React.FC = () => {
     selectedSprint,
     tasks,
     members,
+    workflow,
+    wipLimits,
     loading,
     error,
     successMessage,
@@ -41,24 +73,190 @@ const Board: React.FC = () => {
     setDraggedTask,
     setError,
     getTasksByStatus,
+    getColumnTaskCount,
+    projectTasks,
+    getUnresolvedBlockers,
+    sortMode,
+    setSortMode,
+    swimlaneMode,
+    setSwimlaneMode,
+    labelFilter,
+    setLabelFilter,
+    searchQuery,
+    setSearchQuery,
+    searchContext,
+    setSelectedSprint,
     formatDate,
     getAssigneeName,
     handleSprintChange,
     handleAssigneeChange,
     handleStatusUpdate,
+    handleDetailsUpdate,
+    handleRankUpdate,
     setSuccessMessage
   } = useBoardActions(projectId || '');
 
-  const columnRefs = {
-    todo: useRef<HTMLDivElement>(null),
-    inProgress: useRef<HTMLDivElement>(null),
-    completed: useRef<HTMLDivElement>(null)
+  // Project labels for card chips, the label filter bar and label swimlanes
+  const { data: labels = [] } = useProjectLabels(projectId);
+
+  // Saved views - the board's filters, sort, swimlanes and sprint as one named preset
+  const currentViewState: SavedViewState = useMemo(
+    () => ({
+      searchQuery,
+      labelFilter,
+      sortMode,
+      swimlaneMode,
+      sprintId: toViewSprintId(selectedSprint, sprints),
+    }),
+    [searchQuery, labelFilter, sortMode, swimlaneMode, selectedSprint, sprints]
+  );
+
+  const applyViewState = (state: SavedViewState): void => {
+    setSearchQuery(state.searchQuery || '');
+    setLabelFilter(state.labelFilter || EMPTY_LABEL_FILTER);
+    setSortMode(state.sortMode || DEFAULT_TASK_SORT_MODE);
+    setSwimlaneMode(state.swimlaneMode || 'none');
+    const sprintId = resolveViewSprintId(state.sprintId, sprints);
+    if (sprintId) setSelectedSprint(sprintId);
+  };
+
+  const { views, activeView, selectView } = useActiveSavedView({
+    projectId,
+    page: 'board',
+    ready: !loading,
+    applyState: applyViewState,
+  });
+
+  // Column content elements keyed by cell (workflow status ID, plus the lane key in swimlane mode)
+  const columnRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  // Lane the dragged card was picked up from (swimlane mode only)
+  const dragSourceLaneRef = useRef<string | null>(null);
+  const [collapsedLanes, setCollapsedLanes] = useState<string[]>([]);
+
+  const swimlanes = useMemo(
+    () => getSwimlanes(swimlaneMode, members, labels),
+    [swimlaneMode, members, labels]
+  );
+
+  // Story point totals for the selected sprint
+  const sprintPoints = useMemo(() => getSprintPoints(tasks, workflow), [tasks, workflow]);
+
+  // Moving a task into a full column needs explicit confirmation
+  const confirmWipLimit = (task: Task, newStatus: number): boolean => {
+    const limit = getWipLimit(wipLimits, newStatus);
+    if (limit === null || task.status === newStatus) return true;
+
+    const count = getColumnTaskCount(newStatus);
+    if (count < limit) return true;
+    return window.confirm(
+      `${getStatusName(workflow, newStatus)} already has ${count} of ${limit} tasks (WIP limit).\n\nMove "${getTaskTitle(task)}" there anyway?`
+    );
+  };
+
+  const applySwimlaneChange = async (task: Task, change: SwimlaneChange): Promise<void> => {
+    if (change.assigneeId !== undefined) {
+      await handleAssigneeChange(task, change.assigneeId);
+      return;
+    }
+    try {
+      await handleDetailsUpdate(task.id, change);
+    } catch (err) {
+      // handleDetailsUpdate already reported the error and rolled back
+    }
+  };
+
+  // Cards shown in one board cell (a column, or a column within a lane)
+  const getCellTasks = (status: number, laneKey?: string): Task[] => {
+    const columnTasks = getTasksByStatus(status);
+    return laneKey === undefined
+      ? columnTasks
+      : columnTasks.filter((task) => getTaskLaneKeys(task, swimlaneMode, swimlanes).includes(laneKey));
+  };
+
+  // Drop a card into a column (and lane, in swimlane mode)
+  // In manual order, beforeTaskId is the card it was dropped in front of (null = end of the cell)
+  // Returns true when the drop went through, false when cancelled or the status update failed
+  const moveTask = async (
+    task: Task,
+    newStatus: number,
+    laneKey?: string,
+    beforeTaskId?: string | null
+  ): Promise<boolean> => {
+    const fromLaneKey = dragSourceLaneRef.current;
+    const laneChange = laneKey !== undefined && fromLaneKey !== null
+      ? getSwimlaneChange(task, swimlaneMode, fromLaneKey, laneKey)
+      : null;
+    // Placed within the whole project's order - a cell is only a filtered slice of it
+    const rankUpdates = sortMode === 'rank' && beforeTaskId !== undefined
+      ? getDropRankUpdates(sortTasks(projectTasks, 'rank'), getCellTasks(newStatus, laneKey), task, beforeTaskId)
+      : [];
+
+    if (newStatus !== task.status) {
+      if (!confirmWipLimit(task, newStatus)) return false;
+      const success = await handleStatusUpdate(task.id, newStatus);
+      if (!success) return false;
+      setSuccessMessage(`Task moved to ${getStatusName(workflow, newStatus)}`);
+    }
+
+    if (laneChange) {
+      await applySwimlaneChange(task, laneChange);
+    }
+    if (rankUpdates.length > 0) {
+      await handleRankUpdate(rankUpdates);
+    }
+    return true;
+  };
+
+  // Show where a dragged card will land (manual order only)
+  const clearDropIndicator = (): void => {
+    document.querySelectorAll('.task-card--drop-before, .board-column-content--drop-end').forEach((element) => {
+      element.classList.remove('task-card--drop-before', 'board-column-content--drop-end');
+    });
+  };
+
+  const showDropIndicator = (container: HTMLElement, clientY: number, draggedTaskId: string): void => {
+    clearDropIndicator();
+    if (sortMode !== 'rank') return;
+    const beforeTaskId = getDropBeforeTaskId(container, '.task-card', clientY, draggedTaskId);
+    const beforeCard = beforeTaskId
+      ? container.querySelector(`.task-card[data-task-id="${beforeTaskId}"]`)
+      : null;
+    if (beforeCard) {
+      beforeCard.classList.add('task-card--drop-before');
+    } else {
+      container.classList.add('board-column-content--drop-end');
+    }
+  };
+
+  const toggleLane = (laneKey: string): void => {
+    setCollapsedLanes((current) =>
+      current.includes(laneKey) ? current.filter((key) => key !== laneKey) : [...current, laneKey]
+    );
   };
 
   // TaskInspector state
   const [selectedTaskForEdit, setSelectedTaskForEdit] = useState<Task | null>(null);
   const [inspectorOpen, setInspectorOpen] = useState<boolean>(false);
 
+  // Inspected task with its checklist kept live from the query cache (checklist edits save immediately)
+  const inspectedTask: Task | null = useMemo(() => {
+    if (!selectedTaskForEdit) return null;
+    const liveTask = tasks.find((task: Task) => task.id === selectedTaskForEdit.id);
+    return liveTask ? { ...selectedTaskForEdit, subtasks: liveTask.subtasks } : selectedTaskForEdit;
+  }, [selectedTaskForEdit, tasks]);
+
+  // Open the deep-linked task once the board has loaded (again if the link changes)
+  const openedLinkedTaskRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!linkedTask || loading || openedLinkedTaskRef.current === linkedTask.id) return;
+    openedLinkedTaskRef.current = linkedTask.id;
+    if (linkedTask.sprintId && sprints.some((sprint: Sprint) => sprint.id === linkedTask.sprintId)) {
+      setSelectedSprint(linkedTask.sprintId);
+    }
+    setSelectedTaskForEdit(projectTasks.find((task: Task) => task.id === linkedTask.id) || linkedTask);
+    setInspectorOpen(true);
+  }, [linkedTask, loading, sprints, projectTasks, setSelectedSprint]);
+
   // Layout and input device detection (separated)
   const [isNarrow, setIsNarrow] = useState<boolean>(false);
   const [usePointerDnD, setUsePointerDnD] = useState<boolean>(false);
@@ -148,6 +346,10 @@ const Board: React.FC = () => {
             clearHighlightedColumns();
             clearHighlightedDropZones();
           }
+
+          if (!dropZone && col) {
+            showDropIndicator(col, e.clientY, current.task.id);
+          }
         }
       };
 
@@ -160,16 +362,17 @@ const Board: React.FC = () => {
           const col = el?.closest('[data-status]') as HTMLElement | null;
           
           let newStatus: number | null = null;
+          let laneKey: string | undefined;
+          let beforeTaskId: string | null | undefined;
           
           if (dropZone) {
             // Dropped on mobile drop zone - automatically drop
-            const statusClass = dropZone.className;
-            if (statusClass.includes('todo')) newStatus = 0;
-            else if (statusClass.includes('in-progress')) newStatus = 1;
-            else if (statusClass.includes('completed')) newStatus = 2;
+            newStatus = Number(dropZone.dataset.status);
           } else if (col) {
-            // Dropped on column
+            // Dropped on column (lane cells also carry the lane key)
             newStatus = Number(col.dataset.status);
+            laneKey = col.dataset.lane;
+            beforeTaskId = getDropBeforeTaskId(col, '.task-card', e.clientY, current.task.id);
           }
 
           cleanupPointerDrag(current);
@@ -178,11 +381,8 @@ const Board: React.FC = () => {
           setDropZonePosition(null);
           setDraggedTask(null);
 
-          if (newStatus !== null && newStatus !== current.task.status) {
-            const success = await handleStatusUpdate(current.task.id, newStatus);
-            if (success) {
-              setSuccessMessage(`Task moved to ${newStatus === 0 ? 'To Do' : newStatus === 1 ? 'In Progress' : 'Completed'}`);
-            }
+          if (newStatus !== null) {
+            await moveTask(current.task, newStatus, laneKey, beforeTaskId);
           }
         }
       };
@@ -216,6 +416,7 @@ const Board: React.FC = () => {
 
   // Cleanup pointer drag on unmount
   useEffect(() => {
+    const columns = columnRefs.current;
     return () => {
         setPointerDrag((current) => {
         if (current.mode === 'dragging') {
@@ -224,10 +425,8 @@ const Board: React.FC = () => {
           document.body.classList.remove('dragging-task');
           unlockScroll();
           // Clear highlighted columns on unmount
-          Object.values(columnRefs).forEach(ref => {
-            if (ref.current) {
-              ref.current.classList.remove('drag-over');
-            }
+          Object.values(columns).forEach(column => {
+            column?.classList.remove('drag-over');
           });
         }
         return { mode: 'idle' };
@@ -279,16 +478,12 @@ const Board: React.FC = () => {
     }
   };
 
-  // Handle description update from inspector
-  const handleDescriptionUpdate = async (taskId: string, description: string): Promise<void> => {
-    try {
-      await updateTask(taskId, { description });
-      // Update selectedTaskForEdit if inspector is open for this task
-      if (selectedTaskForEdit?.id === taskId) {
-        setSelectedTaskForEdit({ ...selectedTaskForEdit, description });
-      }
-    } catch (error) {
-      console.error('Error updating task description:', error);
+  // Handle title/description update from inspector
+  const handleDetailsUpdateFromInspector = async (taskId: string, updates: TaskDetailsUpdate): Promise<void> => {
+    await handleDetailsUpdate(taskId, updates);
+    // Update selectedTaskForEdit if inspector is open for this task
+    if (selectedTaskForEdit?.id === taskId) {
+      setSelectedTaskForEdit({ ...selectedTaskForEdit, ...updates });
     }
   };
 
@@ -351,11 +546,10 @@ const Board: React.FC = () => {
     cardElement.classList.remove('dragging');
     
     // Remove any drag-over styling from columns
-    Object.values(columnRefs).forEach(ref => {
-      if (ref.current) {
-        ref.current.classList.remove('drag-over');
-      }
+    Object.values(columnRefs.current).forEach(column => {
+      column?.classList.remove('drag-over');
     });
+    clearDropIndicator();
     
     // Hide drop zones for touch devices
     if (usePointerDnD) {
@@ -366,40 +560,40 @@ const Board: React.FC = () => {
     }
   };
 
-  const handleDragOver = (e: React.DragEvent, columnType: string): void => {
+  const handleDragOver = (e: React.DragEvent, cellKey: string): void => {
     e.preventDefault();
     e.dataTransfer.dropEffect = 'move';
     
     // Add visual feedback
-    const columnRef = columnRefs[columnType as keyof typeof columnRefs];
-    if (columnRef.current) {
-      columnRef.current.classList.add('drag-over');
+    const column = columnRefs.current[cellKey];
+    column?.classList.add('drag-over');
+    if (column && draggedTask) {
+      showDropIndicator(column, e.clientY, draggedTask.id);
     }
   };
 
-  const handleDragLeave = (e: React.DragEvent, columnType: string): void => {
-    const columnRef = columnRefs[columnType as keyof typeof columnRefs];
-    if (columnRef.current && !columnRef.current.contains(e.relatedTarget as Node)) {
-      columnRef.current.classList.remove('drag-over');
+  const handleDragLeave = (e: React.DragEvent, cellKey: string): void => {
+    const column = columnRefs.current[cellKey];
+    if (column && !column.contains(e.relatedTarget as Node)) {
+      column.classList.remove('drag-over');
+      clearDropIndicator();
     }
   };
 
-  const handleDrop = async (e: React.DragEvent, newStatus: number): Promise<void> => {
+  const handleDrop = async (e: React.DragEvent, newStatus: number, laneKey?: string): Promise<void> => {
     e.preventDefault();
     
     // Remove visual feedback
-    Object.values(columnRefs).forEach(ref => {
-      if (ref.current) {
-        ref.current.classList.remove('drag-over');
-      }
+    Object.values(columnRefs.current).forEach(column => {
+      column?.classList.remove('drag-over');
     });
+    clearDropIndicator();
 
     if (!draggedTask) return;
 
-    const success = await handleStatusUpdate(draggedTask.id, newStatus);
+    const beforeTaskId = getDropBeforeTaskId(e.currentTarget as HTMLElement, '.task-card', e.clientY, draggedTask.id);
+    const success = await moveTask(draggedTask, newStatus, laneKey, beforeTaskId);
     if (success) {
-      setSuccessMessage(`Task moved to ${newStatus === 0 ? 'To Do' : newStatus === 1 ? 'In Progress' : 'Completed'}`);
-      
       // Hide drop zones after successful drop
       if (usePointerDnD) {
         setShowMobileDropZones(false);
@@ -414,9 +608,9 @@ const Board: React.FC = () => {
   const handleMobileDrop = async (newStatus: number): Promise<void> => {
     if (!draggedTask) return;
 
-    const success = await handleStatusUpdate(draggedTask.id, newStatus);
+    // Drop zones only pick a status, so the task stays in its lane
+    const success = await moveTask(draggedTask, newStatus);
     if (success) {
-      setSuccessMessage(`Task moved to ${newStatus === 0 ? 'To Do' : newStatus === 1 ? 'In Progress' : 'Completed'}`);
       setShowMobileDropZones(false);
       setDraggedTaskElement(null);
       setDropZonePosition(null);
@@ -429,11 +623,10 @@ const Board: React.FC = () => {
   const MOVE_CANCEL_PX = 8;
 
   const clearHighlightedColumns = (): void => {
-    Object.values(columnRefs).forEach(ref => {
-      if (ref.current) {
-        ref.current.classList.remove('drag-over');
-      }
+    Object.values(columnRefs.current).forEach(column => {
+      column?.classList.remove('drag-over');
     });
+    clearDropIndicator();
     highlightedColumnRef.current = null;
   };
 
@@ -635,6 +828,158 @@ const Board: React.FC = () => {
     );
   }
 
+  /**
+   * renderTaskCard
+   *
+   * Renders a draggable task card for a board column
+   */
+  const renderTaskCard = (task: Task, status: WorkflowStatus, laneKey?: string): React.ReactElement => {
+    const assigneeMember = task.assigneeId ? members.find(m => m.id === task.assigneeId) : null;
+    const assigneeFullName = assigneeMember ? `${assigneeMember.firstName} ${assigneeMember.lastName}` : '';
+    const hasEstimate = task.estimate !== undefined && task.estimate !== null;
+    const taskLabels = getTaskLabels(task, labels);
+    const priority = getTaskPriority(task);
+    const dueStatus = getDueDateStatus(task, workflow);
+    const blockers = getUnresolvedBlockers(task);
+
+    return (
+      <div 
+        key={task.id}
+        data-task-id={task.id}
+        className={`task-card task-card--priority-${getPriorityOption(priority).key} ${dueStatus ? `task-card--${dueStatus}` : ''}`}
+        draggable={!usePointerDnD}
+        onDragStart={!usePointerDnD ? (e) => {
+          dragSourceLaneRef.current = laneKey ?? null;
+          handleDragStart(e, task);
+        } : undefined}
+        onDragEnd={!usePointerDnD ? handleDragEnd : undefined}
+        onPointerDown={usePointerDnD ? (e) => {
+          dragSourceLaneRef.current = laneKey ?? null;
+          handlePointerDown(e, task);
+        } : undefined}
+        onPointerMove={usePointerDnD ? handlePointerMove : undefined}
+        onPointerUp={usePointerDnD ? handlePointerUp : undefined}
+        onPointerCancel={usePointerDnD ? () => cleanupPointerDrag() : undefined}
+      >
+        <div className="task-header">
+          <div className="task-title-wrapper">
+            <span
+              className={`task-status-dot task-status-dot--${getCategoryModifier(status.category)}`}
+              style={{ '--status-color': status.color } as React.CSSProperties}
+              aria-hidden="true"
+            ></span>
+            <PriorityIcon priority={priority} />
+            <h4 
+              className="task-title"
+              onClick={(e) => handleTaskClick(task, e)}
+            >
+              {getTaskTitle(task)}
+            </h4>
+          </div>
+          <div className="task-assignee-avatar">
+            {task.assigneeId ? (
+              <div 
+                className="assignee-avatar-initials" 
+                title={assigneeFullName}
+                onClick={(e) => handleAssignClick(task, e)}
+              >
+                {getAssigneeInitials(task.assigneeId)}
+              </div>
+            ) : (
+              <button 
+                className="assignee-placeholder" 
+                onClick={(e) => handleAssignClick(task, e)}
+                aria-label="Assign task"
+              >
+                +
+              </button>
+            )}
+          </div>
+        </div>
+        {(hasEstimate || task.key || task.dueDate || task.subtasks?.length || getAttachmentCount(task) > 0 || hasTimeTracking(task) || taskLabels.length > 0 || blockers.length > 0) && (
+          <div className="task-card-badges">
+            {task.key && <span className="task-key">{task.key}</span>}
+            <BlockedBadge blockers={blockers} />
+            {hasEstimate && (
+              <span className="task-badge task-badge--estimate" title={`Estimate: ${formatPoints(task.estimate!)}`}>
+                {task.estimate}
+              </span>
+            )}
+            <DueDateBadge task={task} workflow={workflow} />
+            <SubtaskProgressBadge task={task} />
+            <AttachmentCountBadge task={task} />
+            <TimeTrackingBadge task={task} />
+            <LabelChips labels={taskLabels} />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const isColumnOverWipLimit = (statusId: number): boolean => {
+    const wipLimit = getWipLimit(wipLimits, statusId);
+    return wipLimit !== null && getColumnTaskCount(statusId) > wipLimit;
+  };
+
+  /**
+   * renderColumnHeader
+   *
+   * Column title with its task count, or "count/limit" when the column has a WIP limit
+   */
+  const renderColumnHeader = (status: WorkflowStatus, visibleCount: number): React.ReactElement => {
+    const wipLimit = getWipLimit(wipLimits, status.id);
+    const isOverWipLimit = isColumnOverWipLimit(status.id);
+    return (
+      <div className="board-column-header">
+        <h3>
+          <span
+            className="board-column-color"
+            style={{ '--status-color': status.color } as React.CSSProperties}
+            aria-hidden="true"
+          ></span>
+          {status.name}
+        </h3>
+        {wipLimit !== null ? (
+          <div
+            className={`task-count task-count--wip ${isOverWipLimit ? 'task-count--over' : ''}`}
+            title={isOverWipLimit ? `Over the WIP limit of ${wipLimit}` : `WIP limit: ${wipLimit}`}
+          >
+            {getColumnTaskCount(status.id)}/{wipLimit}
+          </div>
+        ) : (
+          <div className="task-count">{visibleCount}</div>
+        )}
+      </div>
+    );
+  };
+
+  /**
+   * renderColumnContent
+   *
+   * Drop target holding a column's cards (one per lane in swimlane mode)
+   */
+  const renderColumnContent = (status: WorkflowStatus, columnTasks: Task[], laneKey?: string): React.ReactElement => {
+    const cellKey = laneKey !== undefined ? `${laneKey}:${status.id}` : String(status.id);
+    return (
+      <div 
+        ref={(el) => { columnRefs.current[cellKey] = el; }}
+        className="board-column-content"
+        data-status={status.id}
+        data-lane={laneKey}
+        onDragOver={(e) => handleDragOver(e, cellKey)}
+        onDragLeave={(e) => handleDragLeave(e, cellKey)}
+        onDrop={(e) => handleDrop(e, status.id, laneKey)}
+      >
+        {columnTasks.map((task: Task) => renderTaskCard(task, status, laneKey))}
+        {columnTasks.length === 0 && laneKey === undefined && (
+          <div className="empty-column-message">
+            No tasks in this column
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="board-page">
       <div className="board-container with-footer-pad scroll-pad-bottom">
@@ -654,226 +999,84 @@ const Board: React.FC = () => {
             </option>
           ))}
         </select>
+        <SavedViewSelect
+          projectId={projectId}
+          page="board"
+          views={views}
+          activeView={activeView}
+          currentState={currentViewState}
+          onSelect={selectView}
+          className="board-saved-views"
+        />
+        <TaskSortSelect value={sortMode} onChange={setSortMode} className="board-sort-select" />
+        <SwimlaneSelect value={swimlaneMode} onChange={setSwimlaneMode} className="board-sort-select" />
+        <SprintPointsSummary points={sprintPoints} className="board-sprint-points" />
       </div>
 
-      {/* Board Columns */}
-      <div className="board-columns">
-        {/* To Do Column */}
-        <div className="board-column">
-          <div className="board-column-header">
-            <h3>To Do</h3>
-            <div className="task-count">{getTasksByStatus(0).length}</div>
-          </div>
-          
-          <div 
-            ref={columnRefs.todo}
-            className="board-column-content"
-            data-status="0"
-            onDragOver={(e) => handleDragOver(e, 'todo')}
-            onDragLeave={(e) => handleDragLeave(e, 'todo')}
-            onDrop={(e) => handleDrop(e, 0)}
-          >
-            {getTasksByStatus(0).map((task: Task) => {
-              const assigneeMember = task.assigneeId ? members.find(m => m.id === task.assigneeId) : null;
-              const assigneeFullName = assigneeMember ? `${assigneeMember.firstName} ${assigneeMember.lastName}` : '';
-              
-              return (
-                <div 
-                  key={task.id}
-                  className="task-card"
-                  draggable={!usePointerDnD}
-                  onDragStart={!usePointerDnD ? (e) => handleDragStart(e, task) : undefined}
-                  onDragEnd={!usePointerDnD ? handleDragEnd : undefined}
-                  onPointerDown={usePointerDnD ? (e) => handlePointerDown(e, task) : undefined}
-                  onPointerMove={usePointerDnD ? handlePointerMove : undefined}
-                  onPointerUp={usePointerDnD ? handlePointerUp : undefined}
-                  onPointerCancel={usePointerDnD ? () => cleanupPointerDrag() : undefined}
-                >
-                  <div className="task-header">
-                    <div className="task-title-wrapper">
-                      <span className={`task-status-dot task-status-dot--todo`} aria-hidden="true"></span>
-                      <h4 
-                        className="task-title"
-                        onClick={(e) => handleTaskClick(task, e)}
-                      >
-                        {task.description}
-                      </h4>
-                    </div>
-                    <div className="task-assignee-avatar">
-                      {task.assigneeId ? (
-                        <div 
-                          className="assignee-avatar-initials" 
-                          title={assigneeFullName}
-                          onClick={(e) => handleAssignClick(task, e)}
-                        >
-                          {getAssigneeInitials(task.assigneeId)}
-                        </div>
-                      ) : (
-                        <button 
-                          className="assignee-placeholder" 
-                          onClick={(e) => handleAssignClick(task, e)}
-                          aria-label="Assign task"
-                        >
-                          +
-                        </button>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
-            {getTasksByStatus(0).length === 0 && (
-              <div className="empty-column-message">
-                No tasks in this column
+      {/* Search and Label Filter */}
+      <TaskSearchBox value={searchQuery} onChange={setSearchQuery} context={searchContext} className="board-search" />
+      <LabelFilterBar labels={labels} filter={labelFilter} onChange={setLabelFilter} />
+
+      {/* Board Columns - one per workflow status, optionally split into swimlanes */}
+      {swimlaneMode === 'none' ? (
+        <div
+          className="board-columns"
+          style={{ '--board-column-count': workflow.length } as React.CSSProperties}
+        >
+          {workflow.map((status: WorkflowStatus) => {
+            const columnTasks = getTasksByStatus(status.id);
+            return (
+              <div key={status.id} className={`board-column ${isColumnOverWipLimit(status.id) ? 'board-column--over-limit' : ''}`}>
+                {renderColumnHeader(status, columnTasks.length)}
+                {renderColumnContent(status, columnTasks)}
               </div>
-            )}
-          </div>
+            );
+          })}
         </div>
-
-        {/* In Progress Column */}
-        <div className="board-column">
-          <div className="board-column-header">
-            <h3>In Progress</h3>
-            <div className="task-count">{getTasksByStatus(1).length}</div>
-          </div>
-          
-          <div 
-            ref={columnRefs.inProgress}
-            className="board-column-content"
-            data-status="1"
-            onDragOver={(e) => handleDragOver(e, 'inProgress')}
-            onDragLeave={(e) => handleDragLeave(e, 'inProgress')}
-            onDrop={(e) => handleDrop(e, 1)}
-          >
-            {getTasksByStatus(1).map((task: Task) => {
-              const assigneeMember = task.assigneeId ? members.find(m => m.id === task.assigneeId) : null;
-              const assigneeFullName = assigneeMember ? `${assigneeMember.firstName} ${assigneeMember.lastName}` : '';
-              
-              return (
-                <div 
-                  key={task.id}
-                  className="task-card"
-                  draggable={!usePointerDnD}
-                  onDragStart={!usePointerDnD ? (e) => handleDragStart(e, task) : undefined}
-                  onDragEnd={!usePointerDnD ? handleDragEnd : undefined}
-                  onPointerDown={usePointerDnD ? (e) => handlePointerDown(e, task) : undefined}
-                  onPointerMove={usePointerDnD ? handlePointerMove : undefined}
-                  onPointerUp={usePointerDnD ? handlePointerUp : undefined}
-                  onPointerCancel={usePointerDnD ? () => cleanupPointerDrag() : undefined}
-                >
-                  <div className="task-header">
-                    <div className="task-title-wrapper">
-                      <span className={`task-status-dot task-status-dot--in-progress`} aria-hidden="true"></span>
-                      <h4 
-                        className="task-title"
-                        onClick={(e) => handleTaskClick(task, e)}
-                      >
-                        {task.description}
-                      </h4>
-                    </div>
-                    <div className="task-assignee-avatar">
-                      {task.assigneeId ? (
-                        <div 
-                          className="assignee-avatar-initials" 
-                          title={assigneeFullName}
-                          onClick={(e) => handleAssignClick(task, e)}
-                        >
-                          {getAssigneeInitials(task.assigneeId)}
-                        </div>
-                      ) : (
-                        <button 
-                          className="assignee-placeholder" 
-                          onClick={(e) => handleAssignClick(task, e)}
-                          aria-label="Assign task"
-                        >
-                          +
-                        </button>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
-            {getTasksByStatus(1).length === 0 && (
-              <div className="empty-column-message">
-                No tasks in this column
+      ) : (
+        <div
+          className="board-swimlanes"
+          style={{ '--board-column-count': workflow.length } as React.CSSProperties}
+        >
+          <div className="board-swimlane-grid board-swimlane-headers">
+            {workflow.map((status: WorkflowStatus) => (
+              <div key={status.id} className={isColumnOverWipLimit(status.id) ? 'board-column--over-limit' : ''}>
+                {renderColumnHeader(status, getTasksByStatus(status.id).length)}
               </div>
-            )}
+            ))}
           </div>
-        </div>
 
-        {/* Completed Column */}
-        <div className="board-column">
-          <div className="board-column-header">
-            <h3>Completed</h3>
-            <div className="task-count">{getTasksByStatus(2).length}</div>
-          </div>
-          
-          <div 
-            ref={columnRefs.completed}
-            className="board-column-content"
-            data-status="2"
-            onDragOver={(e) => handleDragOver(e, 'completed')}
-            onDragLeave={(e) => handleDragLeave(e, 'completed')}
-            onDrop={(e) => handleDrop(e, 2)}
-          >
-            {getTasksByStatus(2).map((task: Task) => {
-              const assigneeMember = task.assigneeId ? members.find(m => m.id === task.assigneeId) : null;
-              const assigneeFullName = assigneeMember ? `${assigneeMember.firstName} ${assigneeMember.lastName}` : '';
-              
-              return (
-                <div 
-                  key={task.id}
-                  className="task-card"
-                  draggable={!usePointerDnD}
-                  onDragStart={!usePointerDnD ? (e) => handleDragStart(e, task) : undefined}
-                  onDragEnd={!usePointerDnD ? handleDragEnd : undefined}
-                  onPointerDown={usePointerDnD ? (e) => handlePointerDown(e, task) : undefined}
-                  onPointerMove={usePointerDnD ? handlePointerMove : undefined}
-                  onPointerUp={usePointerDnD ? handlePointerUp : undefined}
-                  onPointerCancel={usePointerDnD ? () => cleanupPointerDrag() : undefined}
+          {swimlanes.map((lane) => {
+            const laneTasksByStatus = workflow.map((status: WorkflowStatus) => getCellTasks(status.id, lane.key));
+            const laneCount = laneTasksByStatus.reduce((total, laneTasks) => total + laneTasks.length, 0);
+            const isCollapsed = collapsedLanes.includes(lane.key);
+
+            return (
+              <section key={lane.key} className={`board-swimlane ${isCollapsed ? 'board-swimlane--collapsed' : ''}`}>
+                <button
+                  type="button"
+                  className="board-swimlane-header"
+                  onClick={() => toggleLane(lane.key)}
+                  aria-expanded={!isCollapsed}
                 >
-                  <div className="task-header">
-                    <div className="task-title-wrapper">
-                      <span className={`task-status-dot task-status-dot--completed`} aria-hidden="true"></span>
-                      <h4 
-                        className="task-title"
-                        onClick={(e) => handleTaskClick(task, e)}
-                      >
-                        {task.description}
-                      </h4>
-                    </div>
-                    <div className="task-assignee-avatar">
-                      {task.assigneeId ? (
-                        <div 
-                          className="assignee-avatar-initials" 
-                          title={assigneeFullName}
-                          onClick={(e) => handleAssignClick(task, e)}
-                        >
-                          {getAssigneeInitials(task.assigneeId)}
-                        </div>
-                      ) : (
-                        <button 
-                          className="assignee-placeholder" 
-                          onClick={(e) => handleAssignClick(task, e)}
-                          aria-label="Assign task"
-                        >
-                          +
-                        </button>
-                      )}
-                    </div>
+                  <FontAwesomeIcon icon={isCollapsed ? faChevronRight : faChevronDown} />
+                  <span className="board-swimlane-title">{lane.title}</span>
+                  <span className="board-swimlane-count">{laneCount}</span>
+                </button>
+                {!isCollapsed && (
+                  <div className="board-swimlane-grid">
+                    {workflow.map((status: WorkflowStatus, index: number) => (
+                      <div key={status.id} className="board-swimlane-cell">
+                        {renderColumnContent(status, laneTasksByStatus[index], lane.key)}
+                      </div>
+                    ))}
                   </div>
-                </div>
-              );
-            })}
-            {getTasksByStatus(2).length === 0 && (
-              <div className="empty-column-message">
-                No tasks in this column
-              </div>
-            )}
-          </div>
+                )}
+              </section>
+            );
+          })}
         </div>
-      </div>
+      )}
       </div>
 
       {/* Mobile Drop Zones - Appears when dragging on touch devices */}
@@ -887,37 +1090,29 @@ const Board: React.FC = () => {
             zIndex: 1001
           }}
         >
-          <button
-            className="mobile-drop-zone mobile-drop-zone--todo"
-            onClick={() => handleMobileDrop(0)}
-            data-status="0"
-          >
-            To Do
-          </button>
-          <button
-            className="mobile-drop-zone mobile-drop-zone--in-progress"
-            onClick={() => handleMobileDrop(1)}
-            data-status="1"
-          >
-            In Progress
-          </button>
-          <button
-            className="mobile-drop-zone mobile-drop-zone--completed"
-            onClick={() => handleMobileDrop(2)}
-            data-status="2"
-          >
-            Completed
-          </button>
+          {workflow.map((status: WorkflowStatus) => (
+            <button
+              key={status.id}
+              className={`mobile-drop-zone mobile-drop-zone--${getCategoryModifier(status.category)}`}
+              style={{ '--status-color': status.color } as React.CSSProperties}
+              onClick={() => handleMobileDrop(status.id)}
+              data-status={status.id}
+            >
+              {status.name}
+            </button>
+          ))}
         </div>
       )}
 
       {/* TaskInspector */}
       <TaskInspector
-        task={selectedTaskForEdit}
+        task={inspectedTask}
         isOpen={inspectorOpen}
         onClose={() => {
           setInspectorOpen(false);
           setSelectedTaskForEdit(null);
+          // Leave the deep link so the URL no longer points at a closed task
+          if (linkedTask) navigate('/board');
         }}
         onUpdate={(updatedTask: Task) => {
           // Update selectedTaskForEdit to reflect changes
@@ -926,9 +1121,13 @@ const Board: React.FC = () => {
           }
         }}
         members={members}
+        sprints={sprints}
+        labels={labels}
+        projectTasks={projectTasks}
+        workflow={workflow}
         onStatusChange={handleStatusChangeFromInspector}
         onAssigneeChange={handleAssigneeChangeFromInspector}
-        onDescriptionUpdate={handleDescriptionUpdate}
+        onDetailsUpdate={handleDetailsUpdateFromInspector}
       />
     </div>
   );
@@ -5,6 +5,7 @@ import { getUserId } from "../services/authService.ts";
 import { useScrollIndicators } from "../hooks/useScrollIndicators.ts";
 import { useAutoResizeTextarea } from "../hooks/useAutoResizeTextarea.ts";
 import { isValidText } from "../utils/validation.ts";
+import { normalizeProjectKey, suggestProjectKey, validateProjectKey, PROJECT_KEY_MAX_LENGTH } from "../utils/taskKeyUtils.ts";
 import { useToast } from "../contexts/ToastContext.tsx";
 import "../styles/create_project.css";
 import "../styles/create_sprint.css"; // Import for Apple-style layout
@@ -19,6 +20,9 @@ import "../styles/project_details.css"; // Import for char-count styling
 const CreateProject: React.FC = () => {
   const [projectName, setProjectName] = useState<string>("");
   const [projectDescription, setProjectDescription] = useState<string>("");
+  // Task key prefix (DH for DH-142); follows the name until the user edits it
+  const [projectKey, setProjectKey] = useState<string>("");
+  const [keyEdited, setKeyEdited] = useState<boolean>(false);
   const [error, setError] = useState<string>("");
   const navigate = useNavigate();
   const containerRef = useScrollIndicators([projectName, projectDescription, error]);
@@ -33,9 +37,19 @@ const CreateProject: React.FC = () => {
     const value = e.target.value;
     if (value.length <= 255) {
       setProjectName(value);
+      if (!keyEdited) {
+        setProjectKey(suggestProjectKey(value));
+      }
     }
   };
 
+  const handleKeyChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    const value = normalizeProjectKey(e.target.value);
+    setProjectKey(value);
+    // Clearing the field hands it back to the name-based suggestion
+    setKeyEdited(value !== "");
+  };
+
   // Handle input validation for project description
   const handleDescriptionChange = (e: React.ChangeEvent<HTMLTextAreaElement>): void => {
     const value = e.target.value;
@@ -75,6 +89,13 @@ const CreateProject: React.FC = () => {
       return;
     }
 
+    // Validate project key
+    const keyError = validateProjectKey(projectKey);
+    if (keyError) {
+      setError(keyError);
+      return;
+    }
+
     // Validate project description
     if (projectDescription.trim() && !isValidText(projectDescription.trim())) {
       setError("Project description contains invalid characters. Only letters, numbers, spaces, and basic punctuation (! ? . , - _ ( )) are allowed.");
@@ -92,10 +113,15 @@ const CreateProject: React.FC = () => {
       await createProjectMutation.mutateAsync({
         name: projectName.trim(),
         description: projectDescription.trim(),
+        key: projectKey,
       });
 
       navigate("/projects");
     } catch (err: any) {
+      if (err.response?.status === 409) {
+        setError(`Project key "${projectKey}" is already in use`);
+        return;
+      }
       setError(err.message || "Failed to create project");
     }
   };
@@ -129,6 +155,24 @@ const CreateProject: React.FC = () => {
           </div>
         </div>
 
+        <div className="form-group">
+          <label htmlFor="projectKey" className="form-label">Project Key *</label>
+          <input
+            type="text"
+            id="projectKey"
+            value={projectKey}
+            onChange={handleKeyChange}
+            className="form-input"
+            placeholder="e.g. DH"
+            maxLength={PROJECT_KEY_MAX_LENGTH}
+            autoCapitalize="characters"
+            spellCheck={false}
+          />
+          <div className="char-count">
+            Tasks will be numbered {projectKey || "KEY"}-1, {projectKey || "KEY"}-2, ...
+          </div>
+        </div>
+
         <div className="form-group">
           <label htmlFor="projectDescription" className="form-label">Project Description</label>
           <textarea
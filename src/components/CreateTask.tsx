@@ -1,16 +1,22 @@
 import React, { useState, useEffect, useMemo } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { getSelectedProject } from "../services/storageService";
-import { useProjectMembers } from "../hooks/useProjects.ts";
+import { useProjectMembers, useProjectTemplates } from "../hooks/useProjects.ts";
 import { useSprintManagement } from "../hooks/useSprintManagement.ts";
 import { useTaskManagement } from "../hooks/useTaskManagement.ts";
+import { useProjectLabels } from "../hooks/useLabels.ts";
+import { useCreateSubtask } from "../hooks/useTasks.ts";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
-import { faArrowRotateLeft, faExclamationTriangle, faSpinner } from "@fortawesome/free-solid-svg-icons";
-import { User, Sprint } from "../types/hooks.ts";
+import { faArrowRotateLeft, faExclamationTriangle, faSpinner, faTimes } from "@fortawesome/free-solid-svg-icons";
+import { User, Sprint, TaskTemplate } from "../types/hooks.ts";
 import { useScrollIndicators } from "../hooks/useScrollIndicators.ts";
 import { useToast } from "../contexts/ToastContext.tsx";
 import { isValidText } from "../utils/validation.ts";
-import { useAutoResizeTextarea } from "../hooks/useAutoResizeTextarea.ts";
+import { TASK_TITLE_MAX_LENGTH, TASK_DESCRIPTION_MAX_LENGTH, TASK_ESTIMATE_MAX, TASK_PRIORITIES, DEFAULT_TASK_PRIORITY, isValidEstimate } from "../utils/taskUtils.ts";
+import { getTemplateLabelIds } from "../utils/templateUtils.ts";
+import MarkdownEditor from "./MarkdownEditor.tsx";
+import LabelPicker from "./LabelPicker.tsx";
+import DueDateInput from "./DueDateInput.tsx";
 import "../styles/create_task.css";
 import "../styles/create_sprint.css"; // Import shared form styles
 import "../styles/project_details.css"; // For char-count styling
@@ -19,6 +25,8 @@ import "../styles/project_details.css"; // For char-count styling
  * CreateTask Component
  * 
  * Allows users to create a new task within the selected project and sprint.
+ * Picking one of the project's task templates pre-fills the title prefix, description,
+ * labels, priority and estimate, and adds the template's checklist once the task exists.
  * 
  * @returns {JSX.Element} Form UI for creating a task
  */
@@ -33,16 +41,20 @@ const CreateTask: React.FC = () => {
   const urlProjectId = queryParams.get('projectId');
   
   // Form state
+  const [title, setTitle] = useState<string>("");
   const [description, setDescription] = useState<string>("");
   const [assigneeID, setAssigneeID] = useState<string>("");
+  const [estimate, setEstimate] = useState<string>("");
+  const [priority, setPriority] = useState<number>(DEFAULT_TASK_PRIORITY);
+  const [labelIds, setLabelIds] = useState<string[]>([]);
+  const [dueDate, setDueDate] = useState<string>("");
   const [sprintID, setSprintID] = useState<string>(preselectedSprintId || "");
+  const [templateId, setTemplateId] = useState<string>("");
+  const [checklist, setChecklist] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
 
   // Progressive Disclosure + Affordance scroll indicators
-  const containerRef = useScrollIndicators([description, sprintID, assigneeID]);
-
-  // Auto-resize textarea for description
-  const descriptionTextareaRef = useAutoResizeTextarea(description, 4);
+  const containerRef = useScrollIndicators([title, description, sprintID, assigneeID, estimate]);
 
   // Get the selected project ID (prioritize URL parameter over stored project)
   const selectedProjectId = urlProjectId || getSelectedProject();
@@ -53,6 +65,10 @@ const CreateTask: React.FC = () => {
     loading: sprintsLoading, 
     error: sprintError 
   } = useSprintManagement(selectedProjectId || '');
+
+  const { data: labels = [] } = useProjectLabels(selectedProjectId);
+  const templates = useProjectTemplates(selectedProjectId);
+  const createSubtaskMutation = useCreateSubtask();
   
   const { 
     handleCreateTask, 
@@ -102,26 +118,80 @@ const CreateTask: React.FC = () => {
     );
   }
 
+  /**
+   * applyTemplate
+   *
+   * Fills the form from a task template. The previous template's title prefix is swapped
+   * out, and a description the user wrote themselves is only replaced after confirmation.
+   */
+  const applyTemplate = (id: string): void => {
+    const previous = templates.find((t: TaskTemplate) => t.id === templateId);
+    const template = templates.find((t: TaskTemplate) => t.id === id);
+    setTemplateId(id);
+    if (!template) {
+      // "No template" keeps what's already in the form, minus the template checklist
+      setChecklist([]);
+      return;
+    }
+
+    const baseTitle = previous?.title && title.startsWith(previous.title) ? title.slice(previous.title.length) : title;
+    setTitle(`${template.title}${baseTitle}`.slice(0, TASK_TITLE_MAX_LENGTH));
+
+    const hasOwnDescription = description.trim() !== "" && description !== previous?.description;
+    if (!hasOwnDescription || window.confirm(`Replace the description you wrote with the "${template.name}" template?`)) {
+      setDescription(template.description);
+    }
+
+    setLabelIds(getTemplateLabelIds(template, labels));
+    setPriority(template.priority);
+    setEstimate(template.estimate !== undefined && template.estimate !== null ? String(template.estimate) : "");
+    setChecklist(template.checklist);
+  };
+
+  // Add the template's checklist to the new task; returns how many items failed
+  const addChecklist = async (taskId: string): Promise<number> => {
+    let failed = 0;
+    // One at a time so the items keep the template's order
+    for (const text of checklist) {
+      try {
+        await createSubtaskMutation.mutateAsync({ taskId, subtaskData: { text } });
+      } catch (error) {
+        failed++;
+      }
+    }
+    return failed;
+  };
+
   /**
    * handleCreateTaskSubmit
    * 
    * Validates form data and submits the task creation request
    */
   const handleCreateTaskSubmit = async (): Promise<void> => {
-    if (!description.trim()) {
-      showError("Task description is required");
+    if (!title.trim()) {
+      showError("Task title is required");
       return;
     }
     
-    // Validate description length
-    if (description.length > 255) {
-      showError("Description cannot exceed 255 characters.");
+    // Validate title length
+    if (title.length > TASK_TITLE_MAX_LENGTH) {
+      showError(`Title cannot exceed ${TASK_TITLE_MAX_LENGTH} characters.`);
       return;
     }
     
-    // Validate character restrictions
-    if (!isValidText(description)) {
-      showError("Description contains invalid characters. Only letters, numbers, spaces, and basic punctuation (! ? . , - _ ( )) are allowed.");
+    // Validate character restrictions (the description is Markdown, so only the title is restricted)
+    if (!isValidText(title)) {
+      showError("Title contains invalid characters. Only letters, numbers, spaces, and basic punctuation (! ? . , - _ ( )) are allowed.");
+      return;
+    }
+
+    if (description.length > TASK_DESCRIPTION_MAX_LENGTH) {
+      showError(`Description cannot exceed ${TASK_DESCRIPTION_MAX_LENGTH} characters.`);
+      return;
+    }
+
+    if (estimate !== "" && !isValidEstimate(Number(estimate))) {
+      showError(`Estimate must be between 0 and ${TASK_ESTIMATE_MAX} points.`);
       return;
     }
 
@@ -134,9 +204,14 @@ const CreateTask: React.FC = () => {
 
     try {
       const taskData = {
+        title: title.trim(),
         description: description.trim(),
         sprintID: sprintID,
-        assigneeId: assigneeID || undefined
+        assigneeId: assigneeID || undefined,
+        estimate: estimate !== "" ? Number(estimate) : undefined,
+        priority,
+        labelIds,
+        dueDate: dueDate || undefined
       };
 
       console.log("🔄 Creating task:", taskData);
@@ -144,7 +219,12 @@ const CreateTask: React.FC = () => {
       
       if (result.success) {
         console.log("✅ Task created successfully");
-        showSuccess("Task created successfully");
+        const failedItems = result.task && checklist.length > 0 ? await addChecklist(result.task.id) : 0;
+        if (failedItems > 0) {
+          showError(`Task created, but ${failedItems} of ${checklist.length} checklist items couldn't be added`);
+        } else {
+          showSuccess("Task created successfully");
+        }
         // Navigate back to backlog, preserving the sprint view if we came from a sprint
         if (preselectedSprintId) {
           navigate(`/backlog?sprintId=${preselectedSprintId}`);
@@ -165,7 +245,7 @@ const CreateTask: React.FC = () => {
   /**
    * handleKeyDown
    * 
-   * Allows form submission via Enter key
+   * Allows form submission via Enter key from the title field
    */
   const handleKeyDown = (e: React.KeyboardEvent): void => {
     if (e.key === 'Enter' && !isSubmitting) {
@@ -190,24 +270,56 @@ const CreateTask: React.FC = () => {
 
 
       <form className="create-sprint-form" onSubmit={(e) => e.preventDefault()}>
-          {/* Task Description */}
+          {/* Task Template */}
+          {templates.length > 0 && (
+            <div className="form-group">
+              <label htmlFor="template" className="form-label">Template (Optional)</label>
+              <select
+                id="template"
+                value={templateId}
+                onChange={(e) => applyTemplate(e.target.value)}
+                className="form-input"
+                disabled={isSubmitting}
+              >
+                <option value="">No template</option>
+                {templates.map((template: TaskTemplate) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Task Title */}
           <div className="form-group">
-          <label htmlFor="description" className="form-label">Task Description *</label>
-            <textarea
-              ref={descriptionTextareaRef}
-              id="description"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
+          <label htmlFor="title" className="form-label">Title *</label>
+            <input
+              type="text"
+              id="title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder="Enter task description..."
+              placeholder="Enter task title..."
               className="form-input"
-              rows={4}
               disabled={isSubmitting}
               required
-              maxLength={255}
-              style={{ resize: 'none', overflow: 'hidden' }}
+              maxLength={TASK_TITLE_MAX_LENGTH}
+            />
+            <div className="char-count">{title.length}/{TASK_TITLE_MAX_LENGTH}</div>
+          </div>
+
+          {/* Task Description */}
+          <div className="form-group">
+          <label htmlFor="description" className="form-label">Description</label>
+            <MarkdownEditor
+              id="description"
+              value={description}
+              onChange={setDescription}
+              placeholder="Describe the task (Markdown supported)..."
+              maxLength={TASK_DESCRIPTION_MAX_LENGTH}
+              disabled={isSubmitting}
             />
-            <div className="char-count">{description.length}/255</div>
           </div>
 
           {/* Sprint Selection */}
@@ -263,12 +375,95 @@ const CreateTask: React.FC = () => {
             )}
           </div>
 
+          {/* Priority */}
+          <div className="form-group">
+          <label htmlFor="priority" className="form-label">Priority</label>
+            <select
+              id="priority"
+              value={priority}
+              onChange={(e) => setPriority(parseInt(e.target.value))}
+              className="form-input"
+              disabled={isSubmitting}
+            >
+              {TASK_PRIORITIES.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Estimate */}
+          <div className="form-group">
+          <label htmlFor="estimate" className="form-label">Estimate (Story Points, Optional)</label>
+            <input
+              type="number"
+              id="estimate"
+              value={estimate}
+              onChange={(e) => setEstimate(e.target.value)}
+              placeholder="e.g. 3"
+              className="form-input"
+              min={0}
+              max={TASK_ESTIMATE_MAX}
+              step={0.5}
+              inputMode="decimal"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Due Date */}
+          <div className="form-group">
+            <label htmlFor="dueDate" className="form-label">Due Date (Optional)</label>
+            <DueDateInput
+              id="dueDate"
+              className="form-input"
+              value={dueDate}
+              onChange={setDueDate}
+              sprint={sprints.find((sprint: Sprint) => sprint.id === sprintID)}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Labels */}
+          <div className="form-group">
+            <span className="form-label">Labels (Optional)</span>
+            <LabelPicker
+              labels={labels}
+              selectedIds={labelIds}
+              onChange={setLabelIds}
+              emptyText="No labels yet. Project owners can add them in project settings."
+            />
+          </div>
+
+          {/* Checklist from the template */}
+          {checklist.length > 0 && (
+            <div className="form-group">
+              <span className="form-label">Checklist</span>
+              <ul className="create-task-checklist">
+                {checklist.map((item, index) => (
+                  <li key={index} className="create-task-checklist-item">
+                    <span>{item}</span>
+                    <button
+                      type="button"
+                      className="create-task-checklist-remove"
+                      onClick={() => setChecklist(checklist.filter((_, i) => i !== index))}
+                      disabled={isSubmitting}
+                      aria-label={`Remove "${item}" from the checklist`}
+                    >
+                      <FontAwesomeIcon icon={faTimes} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Submit Button */}
           <div className="form-actions">
             <button
               type="button"
               onClick={handleCreateTaskSubmit}
-              disabled={isSubmitting || !description.trim() || !sprintID}
+              disabled={isSubmitting || !title.trim() || !sprintID}
             className="primary-action-btn"
             >
               {isSubmitting ? (
@@ -0,0 +1,40 @@
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faCalendarAlt } from '@fortawesome/free-solid-svg-icons';
+import { Task, WorkflowStatus } from '../types/hooks.ts';
+import { getDueDateStatus, formatDueDate } from '../utils/taskUtils.ts';
+import '../styles/task_badges.css';
+
+interface DueDateBadgeProps {
+  task: Task;
+  workflow?: WorkflowStatus[];
+}
+
+const STATUS_TITLES = {
+  overdue: 'Overdue',
+  'due-soon': 'Due soon',
+};
+
+/**
+ * DueDateBadge Component
+ *
+ * Shows a task's due date, tinted when it is overdue or due soon.
+ */
+const DueDateBadge: React.FC<DueDateBadgeProps> = ({ task, workflow }) => {
+  if (!task.dueDate) return null;
+
+  const status = getDueDateStatus(task, workflow);
+  const label = formatDueDate(task.dueDate);
+
+  return (
+    <span
+      className={`task-badge task-badge--due ${status ? `task-badge--${status}` : ''}`}
+      title={status ? `${STATUS_TITLES[status]}: ${label}` : `Due ${label}`}
+    >
+      <FontAwesomeIcon icon={faCalendarAlt} />
+      {label}
+    </span>
+  );
+};
+
+export default DueDateBadge;
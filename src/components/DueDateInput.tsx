@@ -0,0 +1,62 @@
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faExclamationTriangle } from '@fortawesome/free-solid-svg-icons';
+import { Sprint } from '../types/hooks.ts';
+import { isDueDateOutsideSprint, formatDueDate, toDateInputValue } from '../utils/taskUtils.ts';
+import '../styles/task_badges.css';
+
+interface DueDateInputProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  sprint?: Sprint | null;
+  className?: string;
+  disabled?: boolean;
+}
+
+/**
+ * DueDateInput Component
+ *
+ * Date picker for a task's due date. Warns (without blocking) when the date
+ * falls outside the task's sprint window.
+ */
+const DueDateInput: React.FC<DueDateInputProps> = ({
+  id,
+  value,
+  onChange,
+  sprint,
+  className = '',
+  disabled = false,
+}) => {
+  const outsideSprint = !!value && !!sprint && isDueDateOutsideSprint(value, sprint);
+
+  return (
+    <div className="due-date-input">
+      <div className="due-date-input-row">
+        <input
+          type="date"
+          id={id}
+          className={className}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          aria-describedby={outsideSprint ? `${id}-warning` : undefined}
+        />
+        {value && !disabled && (
+          <button type="button" className="due-date-clear" onClick={() => onChange('')}>
+            Clear
+          </button>
+        )}
+      </div>
+      {outsideSprint && sprint && (
+        <p id={`${id}-warning`} className="due-date-warning" role="status">
+          <FontAwesomeIcon icon={faExclamationTriangle} />
+          Outside {sprint.name} ({formatDueDate(toDateInputValue(new Date(sprint.startDate)))} –{' '}
+          {formatDueDate(toDateInputValue(new Date(sprint.endDate)))})
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DueDateInput;
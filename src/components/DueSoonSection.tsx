@@ -0,0 +1,55 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { setSelectedProject } from '../services/storageService';
+import { useDueSoonTasks } from '../hooks/useTasks.ts';
+import { Task } from '../types/hooks.ts';
+import { getTaskTitle } from '../utils/taskUtils.ts';
+import DueDateBadge from './DueDateBadge.tsx';
+import '../styles/projects.css';
+import '../styles/task_badges.css';
+
+interface DueSoonSectionProps {
+  projects: { id: string; name: string }[];
+}
+
+/**
+ * DueSoonSection Component
+ *
+ * Lists the current user's open tasks that are overdue or due within the next week,
+ * across every project they belong to. Hidden when nothing is due.
+ */
+const DueSoonSection: React.FC<DueSoonSectionProps> = ({ projects }) => {
+  const navigate = useNavigate();
+  const { tasks, isLoading } = useDueSoonTasks(projects.map((project) => project.id));
+
+  if (isLoading || tasks.length === 0) return null;
+
+  const getProjectName = (projectId: string): string =>
+    projects.find((project) => project.id === projectId)?.name || 'Unknown project';
+
+  const handleTaskClick = (task: Task) => {
+    setSelectedProject(task.projectId);
+    navigate(task.sprintId ? `/backlog?sprintId=${task.sprintId}` : '/backlog');
+  };
+
+  return (
+    <section className="due-soon-section" aria-labelledby="due-soon-title">
+      <h2 id="due-soon-title" className="due-soon-title">Due soon</h2>
+      <ul className="due-soon-list">
+        {tasks.map((task) => (
+          <li key={task.id}>
+            <button type="button" className="due-soon-item" onClick={() => handleTaskClick(task)}>
+              <span className="due-soon-item-text">
+                <span className="due-soon-item-title">{getTaskTitle(task)}</span>
+                <span className="due-soon-item-project">{getProjectName(task.projectId)}</span>
+              </span>
+              <DueDateBadge task={task} />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default DueSoonSection;
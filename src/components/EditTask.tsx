@@ -6,7 +6,8 @@ import { useProjectMembers } from "../hooks/useProjects.ts";
 import { useSprints } from "../hooks/useSprints.ts";
 import { useUpdateTask } from "../hooks/useTasks.ts";
 import { isValidText } from "../utils/validation.ts";
-import { useAutoResizeTextarea } from "../hooks/useAutoResizeTextarea.ts";
+import { TASK_TITLE_MAX_LENGTH, TASK_DESCRIPTION_MAX_LENGTH, TASK_PRIORITIES, DEFAULT_TASK_PRIORITY, getTaskPriority } from "../utils/taskUtils.ts";
+import MarkdownEditor from "./MarkdownEditor.tsx";
 import "../styles/create_task.css";
 import "../styles/project_details.css"; // For char-count styling
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
@@ -16,7 +17,7 @@ import { User, Sprint } from "../types/hooks.ts";
 /**
  * EditTask Component
  * 
- * Renders a form to edit a task's description, assignee, and sprint.
+ * Renders a form to edit a task's title, description, priority, assignee, and sprint.
  * Retrieves the task details, members, and sprints associated with the project.
  */
 const EditTask: React.FC = () => {
@@ -26,7 +27,9 @@ const EditTask: React.FC = () => {
   
   const previousPage = location.state?.from || "/backlog";
 
+  const [title, setTitle] = useState<string>("");
   const [description, setDescription] = useState<string>("");
+  const [priority, setPriority] = useState<number>(DEFAULT_TASK_PRIORITY);
   const [assigneeID, setAssigneeID] = useState<string>("");
   const [sprintID, setSprintID] = useState<string>("");
   const [errorMessage, setErrorMessage] = useState<string>("");
@@ -55,7 +58,9 @@ const EditTask: React.FC = () => {
   // Initialize form fields when task data loads
   useEffect(() => {
     if (task) {
+      setTitle(task.title || "");
       setDescription(task.description || "");
+      setPriority(getTaskPriority(task));
       setAssigneeID(task.assigneeId || "");
       setSprintID(task.sprintId || "");
     }
@@ -77,20 +82,25 @@ const EditTask: React.FC = () => {
   const handleUpdateTask = async (e: React.FormEvent<HTMLFormElement>): Promise<void> => {
     e.preventDefault();
 
-    if (!description.trim()) {
-      setErrorMessage("Description is required");
+    if (!title.trim()) {
+      setErrorMessage("Title is required");
       return;
     }
     
-    // Validate description length
-    if (description.length > 255) {
-      setErrorMessage("Description cannot exceed 255 characters.");
+    // Validate title length
+    if (title.length > TASK_TITLE_MAX_LENGTH) {
+      setErrorMessage(`Title cannot exceed ${TASK_TITLE_MAX_LENGTH} characters.`);
       return;
     }
     
     // Validate character restrictions
-    if (!isValidText(description)) {
-      setErrorMessage("Description contains invalid characters. Only letters, numbers, spaces, and basic punctuation (! ? . , - _ ( )) are allowed.");
+    if (!isValidText(title)) {
+      setErrorMessage("Title contains invalid characters. Only letters, numbers, spaces, and basic punctuation (! ? . , - _ ( )) are allowed.");
+      return;
+    }
+
+    if (description.length > TASK_DESCRIPTION_MAX_LENGTH) {
+      setErrorMessage(`Description cannot exceed ${TASK_DESCRIPTION_MAX_LENGTH} characters.`);
       return;
     }
 
@@ -103,7 +113,9 @@ const EditTask: React.FC = () => {
       await updateTaskMutation.mutateAsync({
         taskId,
         taskData: {
+          title: title.trim(),
           description: description.trim(),
+          priority,
           assigneeId: assigneeID || null,
           sprintId: sprintID || null
         }
@@ -153,20 +165,46 @@ const EditTask: React.FC = () => {
 
       <form onSubmit={handleUpdateTask} className="create-task-form">
         <div className="form-group">
-          <label htmlFor="description">Task Description *</label>
-          <textarea
-            ref={descriptionTextareaRef}
+          <label htmlFor="title">Title *</label>
+          <input
+            type="text"
+            id="title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="form-input"
+            placeholder="Enter task title"
+            required
+            maxLength={TASK_TITLE_MAX_LENGTH}
+          />
+          <div className="char-count">{title.length}/{TASK_TITLE_MAX_LENGTH}</div>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="description">Description</label>
+          <MarkdownEditor
             id="description"
             value={description}
-            onChange={(e) => setDescription(e.target.value)}
-            className="form-textarea"
-            placeholder="Enter task description"
-            rows={4}
-            required
-            maxLength={255}
-            style={{ resize: 'none', overflow: 'hidden' }}
+            onChange={setDescription}
+            textareaClassName="form-textarea"
+            placeholder="Describe the task (Markdown supported)"
+            maxLength={TASK_DESCRIPTION_MAX_LENGTH}
           />
-          <div className="char-count">{description.length}/255</div>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="priority">Priority</label>
+          <select
+            id="priority"
+            value={priority}
+            onChange={(e) => setPriority(parseInt(e.target.value))}
+            className="form-select"
+          >
+            {TASK_PRIORITIES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
         </div>
 
         <div className="form-group">
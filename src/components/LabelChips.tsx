@@ -0,0 +1,66 @@
+import React from 'react';
+import { Label } from '../types/hooks.ts';
+import { getLabelTextColor } from '../utils/labelUtils.ts';
+import '../styles/task_badges.css';
+
+interface LabelChipProps {
+  label: Label;
+  selected?: boolean;
+  onClick?: (label: Label) => void;
+}
+
+/**
+ * LabelChip Component
+ *
+ * A single colored label pill. Renders as a toggle button when onClick is provided.
+ */
+export const LabelChip: React.FC<LabelChipProps> = ({ label, selected, onClick }) => {
+  const style = { background: label.color, color: getLabelTextColor(label.color) };
+
+  if (onClick) {
+    return (
+      <button
+        type="button"
+        className={`label-chip label-chip--toggle ${selected ? 'is-selected' : ''}`}
+        style={style}
+        onClick={(e) => {
+          e.stopPropagation();
+          onClick(label);
+        }}
+        aria-pressed={!!selected}
+      >
+        {label.name}
+      </button>
+    );
+  }
+
+  return (
+    <span className="label-chip" style={style} title={label.name}>
+      {label.name}
+    </span>
+  );
+};
+
+interface LabelChipsProps {
+  labels: Label[];
+  className?: string;
+}
+
+/**
+ * LabelChips Component
+ *
+ * Read-only row of label chips for Board cards and Backlog rows.
+ */
+const LabelChips: React.FC<LabelChipsProps> = ({ labels, className = '' }) => {
+  if (labels.length === 0) return null;
+
+  return (
+    <div className={`label-chips ${className}`}>
+      {labels.map((label) => (
+        <LabelChip key={label.id} label={label} />
+      ))}
+    </div>
+  );
+};
+
+export default LabelChips;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Label, LabelFilter } from '../types/hooks.ts';
+import { EMPTY_LABEL_FILTER } from '../utils/labelUtils.ts';
+import LabelPicker from './LabelPicker.tsx';
+import '../styles/task_badges.css';
+
+interface LabelFilterBarProps {
+  labels: Label[];
+  filter: LabelFilter;
+  onChange: (filter: LabelFilter) => void;
+}
+
+/**
+ * LabelFilterBar Component
+ *
+ * Narrows the Board to tasks carrying any (or all) of the selected labels.
+ */
+const LabelFilterBar: React.FC<LabelFilterBarProps> = ({ labels, filter, onChange }) => {
+  if (labels.length === 0) return null;
+
+  const hasSelection = filter.labelIds.length > 0;
+
+  return (
+    <div className="label-filter-bar" aria-label="Filter tasks by label">
+      <span className="label-filter-title">Labels</span>
+      <LabelPicker
+        labels={labels}
+        selectedIds={filter.labelIds}
+        onChange={(labelIds) => onChange({ ...filter, labelIds })}
+      />
+      <div className="label-filter-actions">
+        <div className="label-filter-mode" role="radiogroup" aria-label="Label match mode">
+          <button
+            type="button"
+            role="radio"
+            aria-checked={filter.mode === 'any'}
+            className={filter.mode === 'any' ? 'is-active' : ''}
+            onClick={() => onChange({ ...filter, mode: 'any' })}
+          >
+            Any
+          </button>
+          <button
+            type="button"
+            role="radio"
+            aria-checked={filter.mode === 'all'}
+            className={filter.mode === 'all' ? 'is-active' : ''}
+            onClick={() => onChange({ ...filter, mode: 'all' })}
+          >
+            All
+          </button>
+        </div>
+        {hasSelection && (
+          <button
+            type="button"
+            className="label-filter-clear"
+            onClick={() => onChange(EMPTY_LABEL_FILTER)}
+          >
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LabelFilterBar;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Label } from '../types/hooks.ts';
+import { LabelChip } from './LabelChips.tsx';
+import '../styles/task_badges.css';
+
+interface LabelPickerProps {
+  labels: Label[];
+  selectedIds: string[];
+  onChange: (labelIds: string[]) => void;
+  emptyText?: string;
+}
+
+/**
+ * LabelPicker Component
+ *
+ * Toggleable list of project labels used to attach labels to a task.
+ */
+const LabelPicker: React.FC<LabelPickerProps> = ({
+  labels,
+  selectedIds,
+  onChange,
+  emptyText = 'No labels defined for this project yet.',
+}) => {
+  const handleToggle = (label: Label): void => {
+    onChange(
+      selectedIds.includes(label.id)
+        ? selectedIds.filter((id) => id !== label.id)
+        : [...selectedIds, label.id]
+    );
+  };
+
+  if (labels.length === 0) {
+    return <p className="label-picker-empty">{emptyText}</p>;
+  }
+
+  return (
+    <div className="label-picker" role="group" aria-label="Labels">
+      {labels.map((label) => (
+        <LabelChip
+          key={label.id}
+          label={label}
+          selected={selectedIds.includes(label.id)}
+          onClick={handleToggle}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default LabelPicker;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { useAutoResizeTextarea } from '../hooks/useAutoResizeTextarea.ts';
+import MarkdownRenderer from './MarkdownRenderer.tsx';
+import '../styles/markdown.css';
+
+type EditorMode = 'write' | 'preview';
+
+interface MarkdownEditorProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  maxLength?: number;
+  minRows?: number;
+  disabled?: boolean;
+  textareaClassName?: string;
+  initialMode?: EditorMode;
+}
+
+/**
+ * MarkdownEditor Component
+ *
+ * Textarea with a Write / Preview toggle for Markdown content.
+ * The preview is rendered through MarkdownRenderer, so it matches how the text is displayed elsewhere.
+ */
+const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
+  id,
+  value,
+  onChange,
+  placeholder = 'Write in Markdown...',
+  maxLength,
+  minRows = 4,
+  disabled = false,
+  textareaClassName = 'form-input',
+  initialMode = 'write',
+}) => {
+  const [mode, setMode] = useState<EditorMode>(initialMode);
+
+  // Auto-resize textarea for content
+  const textareaRef = useAutoResizeTextarea(mode === 'write' ? value : '', minRows);
+
+  return (
+    <div className="markdown-editor">
+      <div className="markdown-editor-tabs" role="tablist" aria-label="Description editor mode">
+        <button
+          type="button"
+          role="tab"
+          aria-selected={mode === 'write'}
+          className={`markdown-editor-tab ${mode === 'write' ? 'is-active' : ''}`}
+          onClick={() => setMode('write')}
+          disabled={disabled}
+        >
+          Write
+        </button>
+        <button
+          type="button"
+          role="tab"
+          aria-selected={mode === 'preview'}
+          className={`markdown-editor-tab ${mode === 'preview' ? 'is-active' : ''}`}
+          onClick={() => setMode('preview')}
+        >
+          Preview
+        </button>
+      </div>
+
+      {mode === 'write' ? (
+        <textarea
+          ref={textareaRef}
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          className={`${textareaClassName} markdown-editor-textarea`}
+          rows={minRows}
+          maxLength={maxLength}
+          disabled={disabled}
+          style={{ resize: 'none', overflow: 'hidden' }}
+        />
+      ) : (
+        <div className="markdown-editor-preview" id={id}>
+          <MarkdownRenderer source={value} emptyText="Nothing to preview" />
+        </div>
+      )}
+
+      <div className="markdown-editor-footer">
+        <span className="markdown-editor-hint">Markdown supported</span>
+        {maxLength && <span className="char-count">{value.length}/{maxLength}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default MarkdownEditor;
@@ -0,0 +1,35 @@
+import React, { useMemo } from 'react';
+import { renderMarkdown } from '../utils/markdown.ts';
+import '../styles/markdown.css';
+
+interface MarkdownRendererProps {
+  source: string;
+  emptyText?: string;
+  className?: string;
+}
+
+/**
+ * MarkdownRenderer Component
+ *
+ * Renders Markdown text as sanitized HTML.
+ */
+const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({
+  source,
+  emptyText = 'No description',
+  className = '',
+}) => {
+  const html = useMemo(() => renderMarkdown(source), [source]);
+
+  if (!html) {
+    return <p className={`markdown-body markdown-body--empty ${className}`}>{emptyText}</p>;
+  }
+
+  return (
+    <div
+      className={`markdown-body ${className}`}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
+
+export default MarkdownRenderer;
@@ -5,6 +5,7 @@ import { useUser } from "../hooks/useUsers.ts";
 import { User, Message as MessageType } from "../types/hooks.ts";
 import { useAutoResizeTextarea } from "../hooks/useAutoResizeTextarea.ts";
 import { useScrollIndicators } from "../hooks/useScrollIndicators.ts";
+import { formatMessageTime } from "../utils/dateUtils.ts";
 import "../styles/message.css";
 import "../styles/create_sprint.css"; // For back button styling
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
@@ -90,61 +91,6 @@ const Message: React.FC = () => {
   // Scroll indicators for shadow effect
   const containerRef = useScrollIndicators([messages.length]);
 
-  /**
-   * formatMessageTime
-   * 
-   * Converts various datetime formats (Firestore, ISO string, Date) into a human-readable string
-   * Used for displaying message timestamps
-   * 
-   * @param {Date | string | object} dateTime - The original timestamp value
-   * @returns {string} Formatted timestamp
-   */
-  const formatMessageTime = (dateTime: Date | string | any): string => {
-    // First ensure we're working with a valid date
-    let date: Date;
-    
-    if (dateTime instanceof Date) {
-      date = dateTime;
-    } else if (typeof dateTime === 'object' && dateTime.seconds) {
-      // Firestore Timestamp format
-      date = new Date(dateTime.seconds * 1000);
-    } else if (typeof dateTime === 'string') {
-      date = new Date(dateTime);
-    } else {
-      console.warn('Unknown date format:', dateTime);
-      return 'Unknown time';
-    }
-    
-    // Check if the date is valid
-    if (isNaN(date.getTime())) {
-      console.warn('Invalid date:', dateTime);
-      return 'Invalid time';
-    }
-    
-    const now = new Date();
-    const diffInSeconds = Math.floor((now.getTime() - date.getTime()) / 1000);
-    
-    // Less than 1 minute
-    if (diffInSeconds < 60) {
-      return 'Just now';
-    }
-    
-    // Less than 1 hour
-    if (diffInSeconds < 3600) {
-      const minutes = Math.floor(diffInSeconds / 60);
-      return `${minutes}m ago`;
-    }
-    
-    // Less than 24 hours
-    if (diffInSeconds < 86400) {
-      const hours = Math.floor(diffInSeconds / 3600);
-      return `${hours}h ago`;
-    }
-    
-    // More than 24 hours - show date
-    return date.toLocaleDateString();
-  };
-
   // User data is now handled by the cached useUser hook
 
   /**
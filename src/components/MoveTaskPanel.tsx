@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from 'react';
+import { useProjects, useProjectMembers } from '../hooks/useProjects.ts';
+import { useSprints } from '../hooks/useSprints.ts';
+import { useMoveTaskToProject } from '../hooks/useTasks.ts';
+import { useToast } from '../contexts/ToastContext.tsx';
+import { Task, User, Sprint } from '../types/hooks.ts';
+import { getSprintStatus } from '../utils/sprintUtils.ts';
+import '../styles/task_inspector.css';
+
+interface MoveTaskPanelProps {
+  task: Task;
+  members: User[]; // Members of the task's current project
+  onCancel: () => void;
+  onMoved: (task: Task) => void;
+}
+
+// Sprint select value for "no sprint"; '' means nothing picked yet
+const BACKLOG_VALUE = 'backlog';
+
+/**
+ * MoveTaskPanel Component
+ *
+ * Inline form in the TaskInspector for re-homing a task into another of the user's
+ * projects. The target sprint (or the Product Backlog) must be picked explicitly, and
+ * an assignee who isn't a member of the target project is flagged and dropped.
+ */
+const MoveTaskPanel: React.FC<MoveTaskPanelProps> = ({ task, members, onCancel, onMoved }) => {
+  const { showSuccess, showError } = useToast();
+  const [targetProjectId, setTargetProjectId] = useState<string>('');
+  const [sprintValue, setSprintValue] = useState<string>('');
+  const moveTaskMutation = useMoveTaskToProject();
+
+  const { data: projectsData, isLoading: projectsLoading } = useProjects();
+  const { data: sprintsData, isLoading: sprintsLoading } = useSprints(targetProjectId || null);
+  const { data: targetMembersData, isLoading: targetMembersLoading } = useProjectMembers(targetProjectId || null);
+
+  const projects: { id: string; name: string }[] = useMemo(() => {
+    const data: any = projectsData;
+    const allProjects = Array.isArray(data) ? data : data?.projects || [];
+    return allProjects.filter((project: { id: string }) => project.id !== task.projectId);
+  }, [projectsData, task.projectId]);
+
+  // Completed sprints can't take new work
+  const targetSprints: Sprint[] = useMemo(() => {
+    const data: any = sprintsData;
+    const allSprints: Sprint[] = Array.isArray(data) ? data : data?.sprints || [];
+    return allSprints.filter((sprint) => !sprint.isCompleted);
+  }, [sprintsData]);
+
+  const targetMembers: User[] = useMemo(() => {
+    const data: any = targetMembersData;
+    if (!data) return [];
+    return data.members || data || [];
+  }, [targetMembersData]);
+
+  const assignee = task.assigneeId ? members.find((member) => member.id === task.assigneeId) : undefined;
+  const assigneeName = assignee ? `${assignee.firstName} ${assignee.lastName}` : task.assignee?.username || 'The assignee';
+  const assigneeLeavesProject =
+    !!task.assigneeId && !!targetProjectId && !targetMembersLoading &&
+    !targetMembers.some((member) => member.id === task.assigneeId);
+  const hasProjectLinks = (task.labelIds?.length || 0) > 0 || (task.blockedByIds?.length || 0) > 0 || (task.blocksIds?.length || 0) > 0;
+  const targetProjectName = projects.find((project) => project.id === targetProjectId)?.name || 'the target project';
+
+  const handleProjectChange = (projectId: string): void => {
+    setTargetProjectId(projectId);
+    // Sprints belong to a project, so a new target needs a fresh pick
+    setSprintValue('');
+  };
+
+  const handleMove = async (): Promise<void> => {
+    if (!targetProjectId || !sprintValue) return;
+    try {
+      const movedTask = await moveTaskMutation.mutateAsync({
+        task,
+        projectId: targetProjectId,
+        sprintId: sprintValue === BACKLOG_VALUE ? null : sprintValue,
+        unassign: assigneeLeavesProject,
+      });
+      showSuccess(`Moved to ${targetProjectName}${movedTask.key ? ` as ${movedTask.key}` : ''}`);
+      onMoved(movedTask);
+    } catch (err: any) {
+      console.error('❌ Error moving task:', err);
+      showError(err.response?.data?.message || err.message || 'Failed to move task');
+    }
+  };
+
+  return (
+    <div className="move-task-panel">
+      <h3 className="move-task-title">Move to project</h3>
+
+      <div className="inspector-field">
+        <label htmlFor="move-task-project" className="inspector-label">
+          Project
+        </label>
+        <select
+          id="move-task-project"
+          className="inspector-select"
+          value={targetProjectId}
+          onChange={(e) => handleProjectChange(e.target.value)}
+          disabled={projectsLoading || moveTaskMutation.isPending}
+        >
+          <option value="">{projectsLoading ? 'Loading projects...' : 'Choose a project...'}</option>
+          {projects.map((project) => (
+            <option key={project.id} value={project.id}>
+              {project.name}
+            </option>
+          ))}
+        </select>
+        {!projectsLoading && projects.length === 0 && (
+          <p className="inspector-hint">You don't belong to any other projects.</p>
+        )}
+      </div>
+
+      <div className="inspector-field">
+        <label htmlFor="move-task-sprint" className="inspector-label">
+          Sprint
+        </label>
+        <select
+          id="move-task-sprint"
+          className="inspector-select"
+          value={sprintValue}
+          onChange={(e) => setSprintValue(e.target.value)}
+          disabled={!targetProjectId || sprintsLoading || moveTaskMutation.isPending}
+        >
+          <option value="">{targetProjectId && sprintsLoading ? 'Loading sprints...' : 'Choose a sprint...'}</option>
+          <option value={BACKLOG_VALUE}>Product Backlog (no sprint)</option>
+          {targetSprints.map((sprint) => (
+            <option key={sprint.id} value={sprint.id}>
+              {sprint.name} ({getSprintStatus(sprint)})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {assigneeLeavesProject && (
+        <p className="inspector-warning" role="alert">
+          {assigneeName} isn't a member of {targetProjectName}, so the task will be moved unassigned.
+        </p>
+      )}
+      {hasProjectLinks && (
+        <p className="inspector-hint">Labels and dependencies belong to this project and won't move with the task.</p>
+      )}
+
+      <div className="move-task-actions">
+        <button
+          type="button"
+          className="inspector-btn inspector-btn--secondary"
+          onClick={onCancel}
+          disabled={moveTaskMutation.isPending}
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          className="inspector-btn inspector-btn--primary"
+          onClick={handleMove}
+          disabled={!targetProjectId || !sprintValue || targetMembersLoading || moveTaskMutation.isPending}
+        >
+          {moveTaskMutation.isPending ? 'Moving...' : 'Move task'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MoveTaskPanel;
@@ -2,8 +2,9 @@ import React, { useEffect } from "react";
 import { useNavigate, useLocation } from 'react-router-dom';
 import "../styles/navbar.css";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
-import { faTableColumns, faListCheck, faAddressBook, faUser } from "@fortawesome/free-solid-svg-icons";
+import { faTableColumns, faListCheck, faClock, faAddressBook, faUser } from "@fortawesome/free-solid-svg-icons";
 import { ReactComponent as HiveIcon } from "./assets/hive-icon.svg";
+import NotificationBell from "./NotificationBell.tsx";
 
 /**
  * Navbar Component
@@ -24,6 +25,7 @@ const Navbar = ({ isMobile }) => {
   const navItems = [
     { path: "/board", icon: faTableColumns, label: "Board" },
     { path: "/backlog", icon: faListCheck, label: "Backlog" },
+    { path: "/timesheet", icon: faClock, label: "Timesheet" },
     { path: "/contacts", icon: faAddressBook, label: "Contacts" },
     { path: "/account-details", icon: faUser, label: "Account" },
   ];
@@ -66,6 +68,7 @@ const Navbar = ({ isMobile }) => {
                 </li>
               );
             })}
+            <NotificationBell isMobile={isMobile} />
           </ul>
         </div>
       </nav>
@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faBell } from '@fortawesome/free-solid-svg-icons';
+import { useTaskNotifications, useWatchNotifications } from '../hooks/useNotifications.ts';
+import { TaskNotification } from '../types/hooks.ts';
+import { getTaskLinkPath } from '../utils/taskKeyUtils.ts';
+import { formatMessageTime } from '../utils/dateUtils.ts';
+import '../styles/notifications.css';
+
+interface NotificationBellProps {
+  isMobile: boolean;
+}
+
+/**
+ * NotificationBell Component
+ *
+ * Navbar item listing changes to tasks the user watches, with an unread count.
+ * Also starts collecting those notifications, so it should be mounted once.
+ */
+const NotificationBell: React.FC<NotificationBellProps> = ({ isMobile }) => {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markRead, markAllRead, clearNotifications } = useTaskNotifications();
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const containerRef = useRef<HTMLLIElement>(null);
+
+  useWatchNotifications();
+
+  // Close on a click outside the panel or on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent): void => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleOpenNotification = (notification: TaskNotification): void => {
+    markRead(notification.id);
+    setIsOpen(false);
+    navigate(getTaskLinkPath(notification.taskKey) || `/edit-task/${notification.taskId}`);
+  };
+
+  return (
+    <li ref={containerRef} className={`nav-item notification-bell ${isMobile ? 'is-mobile' : ''}`}>
+      <button
+        type="button"
+        className={`nav-link notification-bell-btn ${isOpen ? 'active' : ''}`}
+        onClick={() => setIsOpen((open) => !open)}
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <span className="notification-bell-icon">
+          <FontAwesomeIcon icon={faBell} className="nav-icon" />
+          {unreadCount > 0 && (
+            <span className="notification-bell-count" aria-hidden="true">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </span>
+        <span className="link-text">Notifications</span>
+      </button>
+
+      {isOpen && (
+        <div className="notification-panel" role="dialog" aria-label="Notifications">
+          <div className="notification-panel-header">
+            <h2 className="notification-panel-title">Notifications</h2>
+            {unreadCount > 0 && (
+              <button type="button" className="notification-panel-link" onClick={markAllRead}>
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="notification-panel-empty">
+              Nothing new. Watch a task from its details to hear when it changes.
+            </p>
+          ) : (
+            <>
+              <ul className="notification-list">
+                {notifications.map((notification) => (
+                  <li key={notification.id}>
+                    <button
+                      type="button"
+                      className={`notification-item ${notification.read ? '' : 'is-unread'}`}
+                      onClick={() => handleOpenNotification(notification)}
+                    >
+                      <span className="notification-item-task">
+                        {notification.taskKey ? `${notification.taskKey} ${notification.taskTitle}` : notification.taskTitle}
+                      </span>
+                      <span className="notification-item-message">{notification.message}</span>
+                      <span className="notification-item-time">{formatMessageTime(notification.createdAt)}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <div className="notification-panel-footer">
+                <button type="button" className="notification-panel-link" onClick={clearNotifications}>
+                  Clear all
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </li>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faAnglesUp, faAngleUp, faEquals, faAngleDown, faAnglesDown, IconDefinition } from '@fortawesome/free-solid-svg-icons';
+import { getPriorityOption } from '../utils/taskUtils.ts';
+import '../styles/task_badges.css';
+
+const PRIORITY_ICONS: Record<string, IconDefinition> = {
+  urgent: faAnglesUp,
+  high: faAngleUp,
+  medium: faEquals,
+  low: faAngleDown,
+  lowest: faAnglesDown,
+};
+
+interface PriorityIconProps {
+  priority: number;
+}
+
+/**
+ * PriorityIcon Component
+ *
+ * Colored indicator for a task's priority, shown on Board cards and Backlog rows.
+ */
+const PriorityIcon: React.FC<PriorityIconProps> = ({ priority }) => {
+  const option = getPriorityOption(priority);
+
+  return (
+    <span
+      className={`task-priority-icon task-priority-icon--${option.key}`}
+      title={`Priority: ${option.label}`}
+      aria-label={`Priority: ${option.label}`}
+      role="img"
+    >
+      <FontAwesomeIcon icon={PRIORITY_ICONS[option.key]} />
+    </span>
+  );
+};
+
+export default PriorityIcon;
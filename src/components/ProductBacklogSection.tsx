@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faChevronDown, faChevronRight } from '@fortawesome/free-solid-svg-icons';
+import { Task, User, Label, WorkflowStatus } from '../types/hooks.ts';
+import PriorityIcon from './PriorityIcon.tsx';
+import LabelChips from './LabelChips.tsx';
+import DueDateBadge from './DueDateBadge.tsx';
+import { getTaskTitle, getTaskPriority, getSprintPoints, formatPoints } from '../utils/taskUtils.ts';
+import { getTaskLabels } from '../utils/labelUtils.ts';
+import '../styles/backlog.css';
+import '../styles/task_badges.css';
+
+interface ProductBacklogSectionProps {
+  tasks: Task[];
+  isLoading: boolean; // Project tasks are still loading (every page, so large projects take a moment)
+  loadFailed: boolean;
+  members: User[];
+  labels: Label[];
+  workflow: WorkflowStatus[];
+  draggedTaskId: string | null;
+  acceptsDrop: boolean;
+  onTaskClick: (task: Task) => void;
+  getRowDragProps: (task: Task) => React.HTMLAttributes<HTMLDivElement>;
+  onDrop: () => void;
+}
+
+/**
+ * ProductBacklogSection Component
+ *
+ * Collapsible list of project tasks that aren't planned into any sprint. Rows can be
+ * dragged into a sprint, and sprint tasks dropped here are taken out of their sprint.
+ */
+const ProductBacklogSection: React.FC<ProductBacklogSectionProps> = ({
+  tasks,
+  isLoading,
+  loadFailed,
+  members,
+  labels,
+  workflow,
+  draggedTaskId,
+  acceptsDrop,
+  onTaskClick,
+  getRowDragProps,
+  onDrop,
+}) => {
+  const [collapsed, setCollapsed] = useState<boolean>(false);
+  const [isDragOver, setIsDragOver] = useState<boolean>(false);
+
+  const getAssignee = (assigneeId?: string): User | undefined =>
+    assigneeId ? members.find((member) => member.id === assigneeId) : undefined;
+
+  const handleDragOver = (e: React.DragEvent): void => {
+    if (!acceptsDrop) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    if (!isDragOver) setIsDragOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent): void => {
+    e.preventDefault();
+    setIsDragOver(false);
+    if (acceptsDrop) onDrop();
+  };
+
+  return (
+    <section
+      className={`product-backlog ${acceptsDrop && isDragOver ? 'product-backlog--drop-target' : ''}`}
+      aria-label="Product backlog"
+      data-sprint-drop=""
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        // Only clear once the pointer leaves the section, not when it crosses a child row
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragOver(false);
+      }}
+      onDrop={handleDrop}
+    >
+      <button
+        type="button"
+        className="product-backlog-header"
+        onClick={() => setCollapsed(!collapsed)}
+        aria-expanded={!collapsed}
+      >
+        <FontAwesomeIcon icon={collapsed ? faChevronRight : faChevronDown} className="product-backlog-chevron" />
+        <h2 className="product-backlog-title">Product Backlog</h2>
+        {!isLoading && !loadFailed && (
+          <span className="product-backlog-meta">
+            {tasks.length} task{tasks.length === 1 ? '' : 's'} · {formatPoints(getSprintPoints(tasks, workflow).committed)}
+          </span>
+        )}
+      </button>
+
+      {!collapsed && (
+        isLoading ? (
+          <p className="product-backlog-empty">Loading backlog tasks...</p>
+        ) : loadFailed ? (
+          <p className="product-backlog-empty">Couldn't load the backlog tasks. Please refresh to try again.</p>
+        ) : tasks.length === 0 ? (
+          <p className="product-backlog-empty">
+            Every task is planned into a sprint. Drag a sprint task here to move it back to the backlog.
+          </p>
+        ) : (
+          <div className="tasks-adaptive product-backlog-list">
+            {tasks.map((task) => {
+              const assignee = getAssignee(task.assigneeId);
+              return (
+                <div
+                  key={task.id}
+                  data-task-id={task.id}
+                  className={`task-row ${draggedTaskId === task.id ? 'task-row--dragging' : ''}`}
+                  onClick={() => onTaskClick(task)}
+                  {...getRowDragProps(task)}
+                >
+                  <div className="task-row-content">
+                    <PriorityIcon priority={getTaskPriority(task)} />
+                    <span className="task-row-title">{getTaskTitle(task)}</span>
+                    {task.estimate !== undefined && task.estimate !== null && (
+                      <span className="task-badge task-badge--estimate" title={`Estimate: ${formatPoints(task.estimate)}`}>
+                        {task.estimate}
+                      </span>
+                    )}
+                    <DueDateBadge task={task} workflow={workflow} />
+                    <LabelChips labels={getTaskLabels(task, labels)} className="task-row-labels" />
+                    <div className="task-assignee-avatar">
+                      {assignee && (
+                        <div className="assignee-avatar-initials" title={`${assignee.firstName} ${assignee.lastName}`}>
+                          {`${assignee.firstName[0]}${assignee.lastName[0]}`.toUpperCase()}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )
+      )}
+    </section>
+  );
+};
+
+export default ProductBacklogSection;
@@ -10,6 +10,9 @@ import { useAutoResizeTextarea } from "../hooks/useAutoResizeTextarea.ts";
 import { getSelectedProject, setSelectedProject } from "../services/storageService";
 import { Project, ProjectMember } from "../types/hooks.ts";
 import ConfirmationModal from "./ConfirmationModal.tsx";
+import ProjectLabelsSection from "./ProjectLabelsSection.tsx";
+import ProjectWorkflowSection from "./ProjectWorkflowSection.tsx";
+import ProjectTemplatesSection from "./ProjectTemplatesSection.tsx";
 import { useToast } from "../contexts/ToastContext.tsx";
 import "../styles/project_details.css";
 import "../styles/create_sprint.css"; // Reuse Sprint form look & width clamp
@@ -813,6 +816,20 @@ const ProjectDetails: React.FC = () => {
           )}
         </div>
 
+        {/* Labels Section */}
+        {hasSelectedProject && (
+          <ProjectLabelsSection projectId={finalProjectId} canManage={isCurrentUserOwner} />
+        )}
+
+        {/* Workflow Section */}
+        {hasSelectedProject && (
+          <ProjectWorkflowSection projectId={finalProjectId} canManage={isCurrentUserOwner} />
+        )}
+
+        {/* Task Templates Section */}
+        {hasSelectedProject && (
+          <ProjectTemplatesSection projectId={finalProjectId} canManage={isCurrentUserOwner} />
+        )}
 
         {/* Inline danger actions (desktop). We'll hide these on mobile if using the FAB sheet. */}
         <div className="form-actions project-inline-secondary-actions">
@@ -0,0 +1,278 @@
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faPlus, faPenToSquare, faTrash, faCheck, faTimes, faSpinner } from '@fortawesome/free-solid-svg-icons';
+import { useProjectLabels, useCreateLabel, useUpdateLabel, useDeleteLabel } from '../hooks/useLabels.ts';
+import { Label } from '../types/hooks.ts';
+import { useToast } from '../contexts/ToastContext.tsx';
+import { isValidText } from '../utils/validation.ts';
+import { LABEL_COLORS, LABEL_NAME_MAX_LENGTH } from '../utils/labelUtils.ts';
+import { LabelChip } from './LabelChips.tsx';
+import ConfirmationModal from './ConfirmationModal.tsx';
+import '../styles/project_details.css';
+import '../styles/task_badges.css';
+
+interface ProjectLabelsSectionProps {
+  projectId: string | null;
+  canManage: boolean;
+}
+
+interface LabelColorPickerProps {
+  value: string;
+  onChange: (color: string) => void;
+}
+
+/**
+ * LabelColorPicker Component
+ *
+ * Preset swatches plus a native color input for custom colors.
+ */
+const LabelColorPicker: React.FC<LabelColorPickerProps> = ({ value, onChange }) => (
+  <div className="label-color-picker" role="group" aria-label="Label color">
+    {LABEL_COLORS.map((color) => (
+      <button
+        key={color}
+        type="button"
+        className={`label-color-swatch ${value.toLowerCase() === color ? 'is-selected' : ''}`}
+        style={{ background: color }}
+        onClick={() => onChange(color)}
+        aria-label={`Use color ${color}`}
+        aria-pressed={value.toLowerCase() === color}
+      />
+    ))}
+    <input
+      type="color"
+      className="label-color-custom"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      aria-label="Custom color"
+    />
+  </div>
+);
+
+/**
+ * ProjectLabelsSection Component
+ *
+ * Lists the project's labels and lets owners create, rename, recolor and delete them.
+ * Rendered inside the ProjectDetails form, so every button is type="button" and
+ * Enter in the name inputs is intercepted instead of submitting the project form.
+ */
+const ProjectLabelsSection: React.FC<ProjectLabelsSectionProps> = ({ projectId, canManage }) => {
+  const { showSuccess, showError } = useToast();
+  const { data: labels = [], isLoading } = useProjectLabels(projectId);
+  const createLabelMutation = useCreateLabel();
+  const updateLabelMutation = useUpdateLabel();
+  const deleteLabelMutation = useDeleteLabel();
+
+  const [newName, setNewName] = useState<string>('');
+  const [newColor, setNewColor] = useState<string>(LABEL_COLORS[0]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState<string>('');
+  const [editColor, setEditColor] = useState<string>(LABEL_COLORS[0]);
+  const [labelToDelete, setLabelToDelete] = useState<Label | null>(null);
+
+  const validateName = (name: string, excludeId?: string): string | null => {
+    const trimmed = name.trim();
+    if (!trimmed) return 'Label name is required.';
+    if (!isValidText(trimmed)) return 'Label name contains invalid characters.';
+    const duplicate = labels.some(
+      (label) => label.id !== excludeId && label.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    return duplicate ? `A label named "${trimmed}" already exists.` : null;
+  };
+
+  const handleCreate = async (): Promise<void> => {
+    if (!projectId) return;
+    const validationError = validateName(newName);
+    if (validationError) {
+      showError(validationError);
+      return;
+    }
+
+    try {
+      await createLabelMutation.mutateAsync({
+        projectId,
+        labelData: { name: newName.trim(), color: newColor },
+      });
+      setNewName('');
+      showSuccess('Label created');
+    } catch (err: any) {
+      console.error('❌ Error creating label:', err);
+      showError(err.message || 'Failed to create label');
+    }
+  };
+
+  const startEditing = (label: Label): void => {
+    setEditingId(label.id);
+    setEditName(label.name);
+    setEditColor(label.color);
+  };
+
+  const handleSaveEdit = async (label: Label): Promise<void> => {
+    const validationError = validateName(editName, label.id);
+    if (validationError) {
+      showError(validationError);
+      return;
+    }
+
+    const labelData: { name?: string; color?: string } = {};
+    if (editName.trim() !== label.name) labelData.name = editName.trim();
+    if (editColor !== label.color) labelData.color = editColor;
+    if (Object.keys(labelData).length === 0) {
+      setEditingId(null);
+      return;
+    }
+
+    try {
+      await updateLabelMutation.mutateAsync({ labelId: label.id, labelData });
+      setEditingId(null);
+    } catch (err: any) {
+      console.error('❌ Error updating label:', err);
+      showError(err.message || 'Failed to update label');
+    }
+  };
+
+  const handleDeleteConfirm = async (): Promise<void> => {
+    if (!labelToDelete || !projectId) return;
+    const label = labelToDelete;
+    setLabelToDelete(null);
+
+    try {
+      await deleteLabelMutation.mutateAsync({ labelId: label.id, projectId });
+      showSuccess(`Label "${label.name}" deleted`);
+    } catch (err: any) {
+      console.error('❌ Error deleting label:', err);
+      showError(err.message || 'Failed to delete label');
+    }
+  };
+
+  // Keep Enter from submitting the surrounding project form
+  const onEnter = (action: () => void) => (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      action();
+    } else if (e.key === 'Escape' && editingId) {
+      setEditingId(null);
+    }
+  };
+
+  return (
+    <div className="form-group project-labels-section">
+      <label className="form-label">Labels</label>
+
+      {isLoading ? (
+        <p className="project-labels-empty">Loading labels...</p>
+      ) : labels.length === 0 ? (
+        <p className="project-labels-empty">
+          {canManage ? 'No labels yet. Create one below to start tagging tasks.' : 'No labels have been defined for this project.'}
+        </p>
+      ) : (
+        <div className="members-list project-labels-list">
+          {labels.map((label: Label) => (
+            <div key={label.id} className="member-item project-label-item">
+              {editingId === label.id ? (
+                <div className="project-label-edit">
+                  <input
+                    type="text"
+                    className="form-input"
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    onKeyDown={onEnter(() => handleSaveEdit(label))}
+                    maxLength={LABEL_NAME_MAX_LENGTH}
+                    aria-label="Label name"
+                    autoFocus
+                  />
+                  <LabelColorPicker value={editColor} onChange={setEditColor} />
+                  <div className="project-label-actions">
+                    <button
+                      type="button"
+                      className="project-label-icon-btn"
+                      onClick={() => handleSaveEdit(label)}
+                      disabled={updateLabelMutation.isPending}
+                      title="Save label"
+                    >
+                      <FontAwesomeIcon icon={updateLabelMutation.isPending ? faSpinner : faCheck} spin={updateLabelMutation.isPending} />
+                    </button>
+                    <button
+                      type="button"
+                      className="project-label-icon-btn"
+                      onClick={() => setEditingId(null)}
+                      title="Cancel"
+                    >
+                      <FontAwesomeIcon icon={faTimes} />
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <LabelChip label={label} />
+                  {canManage && (
+                    <div className="project-label-actions">
+                      <button
+                        type="button"
+                        className="project-label-icon-btn"
+                        onClick={() => startEditing(label)}
+                        title="Edit label"
+                      >
+                        <FontAwesomeIcon icon={faPenToSquare} />
+                      </button>
+                      <button
+                        type="button"
+                        className="project-label-icon-btn project-label-icon-btn--danger"
+                        onClick={() => setLabelToDelete(label)}
+                        title="Delete label"
+                      >
+                        <FontAwesomeIcon icon={faTrash} />
+                      </button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canManage && (
+        <div className="project-label-create">
+          <input
+            type="text"
+            className="form-input"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={onEnter(handleCreate)}
+            placeholder="New label name"
+            maxLength={LABEL_NAME_MAX_LENGTH}
+            aria-label="New label name"
+          />
+          <LabelColorPicker value={newColor} onChange={setNewColor} />
+          <button
+            type="button"
+            className="secondary-action-btn"
+            onClick={handleCreate}
+            disabled={createLabelMutation.isPending || !newName.trim()}
+          >
+            <FontAwesomeIcon
+              icon={createLabelMutation.isPending ? faSpinner : faPlus}
+              spin={createLabelMutation.isPending}
+              style={{ marginRight: '8px' }}
+            />
+            Add Label
+          </button>
+        </div>
+      )}
+
+      <ConfirmationModal
+        isOpen={!!labelToDelete}
+        title="Delete Label"
+        message={`Delete the label "${labelToDelete?.name || ''}"? It will be removed from every task in this project.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        type="delete"
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setLabelToDelete(null)}
+      />
+    </div>
+  );
+};
+
+export default ProjectLabelsSection;
@@ -0,0 +1,343 @@
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faPlus, faPenToSquare, faTrash, faTimes, faSpinner } from '@fortawesome/free-solid-svg-icons';
+import { useProjectTemplates, useUpdateProjectSettings } from '../hooks/useProjects.ts';
+import { useProjectLabels } from '../hooks/useLabels.ts';
+import { TaskTemplate } from '../types/hooks.ts';
+import { useToast } from '../contexts/ToastContext.tsx';
+import { TASK_DESCRIPTION_MAX_LENGTH, TASK_ESTIMATE_MAX, TASK_PRIORITIES, getPriorityOption } from '../utils/taskUtils.ts';
+import {
+  TEMPLATE_NAME_MAX_LENGTH,
+  TEMPLATE_MAX_COUNT,
+  TEMPLATE_CHECKLIST_MAX_ITEMS,
+  createEmptyTemplate,
+  validateTemplate,
+  getTemplateLabelIds,
+} from '../utils/templateUtils.ts';
+import MarkdownEditor from './MarkdownEditor.tsx';
+import LabelPicker from './LabelPicker.tsx';
+import ConfirmationModal from './ConfirmationModal.tsx';
+import '../styles/project_details.css';
+
+interface ProjectTemplatesSectionProps {
+  projectId: string | null;
+  canManage: boolean;
+}
+
+/**
+ * ProjectTemplatesSection Component
+ *
+ * Lists the project's task templates and lets owners create, edit and delete them.
+ * A template pre-fills the Create Task form: title prefix, description skeleton,
+ * labels, priority, estimate and checklist items. Rendered inside the ProjectDetails
+ * form, so every button is type="button" and Enter in the inputs is intercepted.
+ */
+const ProjectTemplatesSection: React.FC<ProjectTemplatesSectionProps> = ({ projectId, canManage }) => {
+  const { showSuccess, showError } = useToast();
+  const templates = useProjectTemplates(projectId);
+  const { data: labels = [] } = useProjectLabels(projectId);
+  const updateSettingsMutation = useUpdateProjectSettings();
+
+  const [draft, setDraft] = useState<TaskTemplate | null>(null);
+  const [draftEstimate, setDraftEstimate] = useState<string>('');
+  const [newChecklistItem, setNewChecklistItem] = useState<string>('');
+  const [templateToDelete, setTemplateToDelete] = useState<TaskTemplate | null>(null);
+
+  const isNewDraft = !!draft && !templates.some((template) => template.id === draft.id);
+
+  const startEditing = (template: TaskTemplate): void => {
+    setDraft({ ...template, labelIds: getTemplateLabelIds(template, labels) });
+    setDraftEstimate(template.estimate !== undefined && template.estimate !== null ? String(template.estimate) : '');
+    setNewChecklistItem('');
+  };
+
+  const updateDraft = (changes: Partial<TaskTemplate>): void => {
+    setDraft((current) => (current ? { ...current, ...changes } : current));
+  };
+
+  const addChecklistItem = (): void => {
+    if (!draft || !newChecklistItem.trim() || draft.checklist.length >= TEMPLATE_CHECKLIST_MAX_ITEMS) return;
+    updateDraft({ checklist: [...draft.checklist, newChecklistItem.trim()] });
+    setNewChecklistItem('');
+  };
+
+  const saveTemplates = async (next: TaskTemplate[], message: string): Promise<boolean> => {
+    if (!projectId) return false;
+    try {
+      await updateSettingsMutation.mutateAsync({ projectId, settings: { templates: next } });
+      showSuccess(message);
+      return true;
+    } catch (err: any) {
+      console.error('❌ Error saving task templates:', err);
+      showError(err.message || 'Failed to save task templates');
+      return false;
+    }
+  };
+
+  const handleSave = async (): Promise<void> => {
+    if (!draft) return;
+    const cleaned: TaskTemplate = {
+      ...draft,
+      name: draft.name.trim(),
+      // Keep a trailing space so "Bug: " reads naturally before the typed title
+      title: draft.title.replace(/^\s+/, ''),
+      checklist: draft.checklist.map((item) => item.trim()).filter(Boolean),
+      estimate: draftEstimate !== '' ? Number(draftEstimate) : null,
+    };
+    const validationError = validateTemplate(cleaned, templates);
+    if (validationError) {
+      showError(validationError);
+      return;
+    }
+
+    const next = isNewDraft
+      ? [...templates, cleaned]
+      : templates.map((template) => (template.id === cleaned.id ? cleaned : template));
+    if (await saveTemplates(next, isNewDraft ? 'Template created' : 'Template saved')) {
+      setDraft(null);
+    }
+  };
+
+  const handleDeleteConfirm = async (): Promise<void> => {
+    if (!templateToDelete) return;
+    const template = templateToDelete;
+    setTemplateToDelete(null);
+    await saveTemplates(
+      templates.filter((t) => t.id !== template.id),
+      `Template "${template.name}" deleted`
+    );
+  };
+
+  // Keep Enter from submitting the surrounding project form
+  const onEnter = (action?: () => void) => (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      action?.();
+    }
+  };
+
+  const getTemplateSummary = (template: TaskTemplate): string => {
+    const labelCount = getTemplateLabelIds(template, labels).length;
+    return [
+      `${getPriorityOption(template.priority).label} priority`,
+      labelCount > 0 && `${labelCount} label${labelCount === 1 ? '' : 's'}`,
+      template.checklist.length > 0 && `${template.checklist.length} checklist item${template.checklist.length === 1 ? '' : 's'}`,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+  };
+
+  const renderEditor = (template: TaskTemplate): React.ReactElement => (
+    <div className="project-template-editor">
+      <div className="project-template-row">
+        <input
+          type="text"
+          className="form-input"
+          value={template.name}
+          onChange={(e) => updateDraft({ name: e.target.value })}
+          onKeyDown={onEnter()}
+          placeholder="Template name, e.g. Bug report"
+          maxLength={TEMPLATE_NAME_MAX_LENGTH}
+          aria-label="Template name"
+          autoFocus
+        />
+        <input
+          type="text"
+          className="form-input"
+          value={template.title}
+          onChange={(e) => updateDraft({ title: e.target.value })}
+          onKeyDown={onEnter()}
+          placeholder="Title prefix (optional), e.g. Bug: "
+          aria-label="Title prefix"
+        />
+      </div>
+
+      <MarkdownEditor
+        id={`template-description-${template.id}`}
+        value={template.description}
+        onChange={(description) => updateDraft({ description })}
+        placeholder="Description skeleton, e.g. ## Steps to reproduce (Markdown supported)..."
+        maxLength={TASK_DESCRIPTION_MAX_LENGTH}
+      />
+
+      <div className="project-template-row">
+        <select
+          className="form-input"
+          value={template.priority}
+          onChange={(e) => updateDraft({ priority: parseInt(e.target.value) })}
+          aria-label="Default priority"
+        >
+          {TASK_PRIORITIES.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label} priority
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          className="form-input"
+          value={draftEstimate}
+          onChange={(e) => setDraftEstimate(e.target.value)}
+          onKeyDown={onEnter()}
+          placeholder="Estimate (optional)"
+          min={0}
+          max={TASK_ESTIMATE_MAX}
+          step={0.5}
+          inputMode="decimal"
+          aria-label="Default estimate"
+        />
+      </div>
+
+      <LabelPicker
+        labels={labels}
+        selectedIds={template.labelIds}
+        onChange={(labelIds) => updateDraft({ labelIds })}
+        emptyText="No labels yet. Create labels above to add them to templates."
+      />
+
+      <div className="project-template-checklist">
+        <span className="project-template-checklist-title">Checklist</span>
+        {template.checklist.map((item, index) => (
+          <div key={index} className="project-template-checklist-item">
+            <input
+              type="text"
+              className="form-input"
+              value={item}
+              onChange={(e) =>
+                updateDraft({ checklist: template.checklist.map((existing, i) => (i === index ? e.target.value : existing)) })
+              }
+              onKeyDown={onEnter()}
+              aria-label={`Checklist item ${index + 1}`}
+            />
+            <button
+              type="button"
+              className="project-label-icon-btn project-label-icon-btn--danger"
+              onClick={() => updateDraft({ checklist: template.checklist.filter((_, i) => i !== index) })}
+              title="Remove item"
+            >
+              <FontAwesomeIcon icon={faTimes} />
+            </button>
+          </div>
+        ))}
+        {template.checklist.length < TEMPLATE_CHECKLIST_MAX_ITEMS && (
+          <div className="project-template-checklist-item">
+            <input
+              type="text"
+              className="form-input"
+              value={newChecklistItem}
+              onChange={(e) => setNewChecklistItem(e.target.value)}
+              onKeyDown={onEnter(addChecklistItem)}
+              placeholder="Add a checklist item..."
+              aria-label="New checklist item"
+            />
+            <button
+              type="button"
+              className="project-label-icon-btn"
+              onClick={addChecklistItem}
+              disabled={!newChecklistItem.trim()}
+              title="Add item"
+            >
+              <FontAwesomeIcon icon={faPlus} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="project-workflow-actions">
+        <button type="button" className="secondary-action-btn" onClick={() => setDraft(null)}>
+          Cancel
+        </button>
+        <button
+          type="button"
+          className="primary-action-btn"
+          onClick={handleSave}
+          disabled={updateSettingsMutation.isPending}
+        >
+          {updateSettingsMutation.isPending && (
+            <FontAwesomeIcon icon={faSpinner} spin style={{ marginRight: '8px' }} />
+          )}
+          Save Template
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="form-group project-templates-section">
+      <label className="form-label">Task Templates</label>
+
+      {templates.length === 0 && !isNewDraft ? (
+        <p className="project-labels-empty">
+          {canManage
+            ? 'No templates yet. Add one so recurring tasks like bug reports start with the same structure.'
+            : 'No task templates have been defined for this project.'}
+        </p>
+      ) : (
+        <div className="members-list project-templates-list">
+          {templates.map((template) => (
+            <div key={template.id} className="member-item project-label-item">
+              {draft?.id === template.id ? (
+                renderEditor(draft)
+              ) : (
+                <div className="project-label-edit">
+                  <span className="project-workflow-name">{template.name}</span>
+                  <span className="project-workflow-meta">{getTemplateSummary(template)}</span>
+                  {canManage && (
+                    <div className="project-label-actions">
+                      <button
+                        type="button"
+                        className="project-label-icon-btn"
+                        onClick={() => startEditing(template)}
+                        disabled={!!draft}
+                        title="Edit template"
+                      >
+                        <FontAwesomeIcon icon={faPenToSquare} />
+                      </button>
+                      <button
+                        type="button"
+                        className="project-label-icon-btn project-label-icon-btn--danger"
+                        onClick={() => setTemplateToDelete(template)}
+                        disabled={!!draft}
+                        title="Delete template"
+                      >
+                        <FontAwesomeIcon icon={faTrash} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+          {draft && isNewDraft && <div className="member-item project-label-item">{renderEditor(draft)}</div>}
+        </div>
+      )}
+
+      {canManage && !draft && (
+        <div className="project-workflow-actions">
+          <button
+            type="button"
+            className="secondary-action-btn"
+            onClick={() => startEditing(createEmptyTemplate())}
+            disabled={templates.length >= TEMPLATE_MAX_COUNT}
+          >
+            <FontAwesomeIcon icon={faPlus} style={{ marginRight: '8px' }} />
+            Add Template
+          </button>
+        </div>
+      )}
+
+      <ConfirmationModal
+        isOpen={!!templateToDelete}
+        title="Delete Template"
+        message={`Delete the "${templateToDelete?.name}" template? Tasks already created from it are not changed.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        type="danger"
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setTemplateToDelete(null)}
+      />
+    </div>
+  );
+};
+
+export default ProjectTemplatesSection;
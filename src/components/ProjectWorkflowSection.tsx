@@ -0,0 +1,302 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faPlus, faTrash, faArrowUp, faArrowDown, faSpinner } from '@fortawesome/free-solid-svg-icons';
+import { useProjectWorkflow, useProjectWipLimits, useProjectLastStatusId, useUpdateProjectSettings } from '../hooks/useProjects.ts';
+import { useProjectTasks } from '../hooks/useTasks.ts';
+import { Task, WorkflowStatus, WorkflowStatusCategory } from '../types/hooks.ts';
+import { useToast } from '../contexts/ToastContext.tsx';
+import {
+  WORKFLOW_CATEGORIES,
+  WORKFLOW_MAX_STATUSES,
+  WORKFLOW_STATUS_NAME_MAX_LENGTH,
+  WIP_LIMIT_MAX,
+  countTasksByStatus,
+  getNewStatusId,
+  getStatusIdHighWaterMark,
+  getWipLimit,
+  validateWorkflow,
+} from '../utils/workflowUtils.ts';
+import '../styles/project_details.css';
+
+// Handles array and { tasks } response shapes
+const toTasks = (data: any): Task[] => (Array.isArray(data) ? data : data?.tasks || []);
+
+interface ProjectWorkflowSectionProps {
+  projectId: string | null;
+  canManage: boolean;
+}
+
+/**
+ * ProjectWorkflowSection Component
+ *
+ * Shows the project's workflow statuses and lets owners rename, recolor, recategorize,
+ * reorder, add and remove them, and set each column's WIP limit. Edits are kept in a
+ * local draft until saved so the board never sees a half-finished workflow.
+ */
+const ProjectWorkflowSection: React.FC<ProjectWorkflowSectionProps> = ({ projectId, canManage }) => {
+  const { showSuccess, showError } = useToast();
+  const workflow = useProjectWorkflow(projectId);
+  const wipLimits = useProjectWipLimits(projectId);
+  const lastStatusId = useProjectLastStatusId(projectId);
+  const { data: tasksData, refetch: refetchTasks } = useProjectTasks(projectId);
+  const updateSettingsMutation = useUpdateProjectSettings();
+
+  const [draft, setDraft] = useState<WorkflowStatus[]>(workflow);
+  const [draftWipLimits, setDraftWipLimits] = useState<Record<number, number>>(wipLimits);
+
+  // Reset the draft whenever the saved settings change (load, save, or edits by another owner)
+  useEffect(() => {
+    setDraft(workflow);
+    setDraftWipLimits(wipLimits);
+  }, [workflow, wipLimits]);
+
+  const taskCountByStatus = useMemo(() => countTasksByStatus(toTasks(tasksData)), [tasksData]);
+
+  const isDirty =
+    JSON.stringify(draft) !== JSON.stringify(workflow) ||
+    JSON.stringify(draftWipLimits) !== JSON.stringify(wipLimits);
+
+  const updateStatus = (statusId: number, changes: Partial<WorkflowStatus>): void => {
+    setDraft((current) => current.map((status) => (status.id === statusId ? { ...status, ...changes } : status)));
+  };
+
+  const updateWipLimit = (statusId: number, value: string): void => {
+    const limit = Math.min(WIP_LIMIT_MAX, Math.floor(Number(value)));
+    setDraftWipLimits((current) => {
+      const next = { ...current };
+      if (value && limit > 0) {
+        next[statusId] = limit;
+      } else {
+        delete next[statusId];
+      }
+      return next;
+    });
+  };
+
+  const moveStatus = (index: number, offset: number): void => {
+    const target = index + offset;
+    if (target < 0 || target >= draft.length) return;
+    const next = [...draft];
+    [next[index], next[target]] = [next[target], next[index]];
+    setDraft(next);
+  };
+
+  const removeStatus = (status: WorkflowStatus): void => {
+    // Without the task list there's no telling whether the status is still in use
+    if (!tasksData) {
+      showError("Couldn't check which tasks use this status yet. Try again in a moment.");
+      return;
+    }
+    if (taskCountByStatus[status.id]) {
+      showError(`Move the tasks in "${status.name}" to another status before removing it.`);
+      return;
+    }
+    setDraft((current) => current.filter((s) => s.id !== status.id));
+  };
+
+  const addStatus = (): void => {
+    if (draft.length >= WORKFLOW_MAX_STATUSES) return;
+    setDraft((current) => [
+      ...current,
+      {
+        id: getNewStatusId([...current, ...workflow], lastStatusId),
+        name: '',
+        color: '#8d8d8d',
+        category: 'doing',
+      },
+    ]);
+  };
+
+  const handleSave = async (): Promise<void> => {
+    if (!projectId) return;
+    const cleaned = draft.map((status) => ({ ...status, name: status.name.trim() }));
+    const validationError = validateWorkflow(cleaned);
+    if (validationError) {
+      showError(validationError);
+      return;
+    }
+
+    // Tasks may have moved into a removed status since it was removed from the draft
+    const removedStatuses = workflow.filter((status) => !cleaned.some((s) => s.id === status.id));
+    if (removedStatuses.length > 0) {
+      // A failed refetch still resolves with the last good data, so check its status too
+      const { data: freshTasksData, isError: refetchFailed } = await refetchTasks();
+      if (refetchFailed || !freshTasksData) {
+        showError("Couldn't check which tasks use the removed statuses. Please try again.");
+        return;
+      }
+      const freshCounts = countTasksByStatus(toTasks(freshTasksData));
+      const inUse = removedStatuses.find((status) => freshCounts[status.id]);
+      if (inUse) {
+        showError(`Tasks were moved to "${inUse.name}" in the meantime. Move them to another status before removing it.`);
+        return;
+      }
+    }
+
+    // Drop limits for statuses removed in this edit
+    const cleanedWipLimits: Record<number, number> = {};
+    cleaned.forEach((status) => {
+      const limit = getWipLimit(draftWipLimits, status.id);
+      if (limit !== null) cleanedWipLimits[status.id] = limit;
+    });
+
+    try {
+      await updateSettingsMutation.mutateAsync({
+        projectId,
+        settings: {
+          workflow: cleaned,
+          wipLimits: cleanedWipLimits,
+          // Saved alongside the workflow so removed IDs stay taken after a reload
+          lastStatusId: getStatusIdHighWaterMark([...cleaned, ...workflow], lastStatusId),
+        },
+      });
+      showSuccess('Workflow saved');
+    } catch (err: any) {
+      console.error('❌ Error saving workflow:', err);
+      showError(err.message || 'Failed to save workflow');
+    }
+  };
+
+  const handleReset = (): void => {
+    setDraft(workflow);
+    setDraftWipLimits(wipLimits);
+  };
+
+  return (
+    <div className="form-group project-workflow-section">
+      <label className="form-label">Workflow</label>
+
+      <div className="members-list project-workflow-list">
+        {draft.map((status, index) => {
+          const taskCount = taskCountByStatus[status.id] || 0;
+          return (
+            <div key={status.id} className="member-item project-workflow-item">
+              {canManage ? (
+                <div className="project-workflow-edit">
+                  <input
+                    type="color"
+                    className="label-color-custom"
+                    value={status.color}
+                    onChange={(e) => updateStatus(status.id, { color: e.target.value })}
+                    aria-label={`Color for ${status.name || 'new status'}`}
+                  />
+                  <input
+                    type="text"
+                    className="form-input"
+                    value={status.name}
+                    onChange={(e) => updateStatus(status.id, { name: e.target.value })}
+                    onKeyDown={(e) => {
+                      // Keep Enter from submitting the surrounding project form
+                      if (e.key === 'Enter') e.preventDefault();
+                    }}
+                    placeholder="Status name"
+                    maxLength={WORKFLOW_STATUS_NAME_MAX_LENGTH}
+                    aria-label="Status name"
+                  />
+                  <select
+                    className="form-input project-workflow-category"
+                    value={status.category}
+                    onChange={(e) => updateStatus(status.id, { category: e.target.value as WorkflowStatusCategory })}
+                    aria-label="Status category"
+                  >
+                    {WORKFLOW_CATEGORIES.map((category) => (
+                      <option key={category.value} value={category.value}>
+                        {category.label}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    className="form-input project-workflow-wip"
+                    value={getWipLimit(draftWipLimits, status.id) ?? ''}
+                    onChange={(e) => updateWipLimit(status.id, e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.preventDefault();
+                    }}
+                    min={1}
+                    max={WIP_LIMIT_MAX}
+                    placeholder="No limit"
+                    aria-label="WIP limit"
+                    title="Work-in-progress limit for this column"
+                  />
+                  <div className="project-label-actions">
+                    <button
+                      type="button"
+                      className="project-label-icon-btn"
+                      onClick={() => moveStatus(index, -1)}
+                      disabled={index === 0}
+                      title="Move up"
+                    >
+                      <FontAwesomeIcon icon={faArrowUp} />
+                    </button>
+                    <button
+                      type="button"
+                      className="project-label-icon-btn"
+                      onClick={() => moveStatus(index, 1)}
+                      disabled={index === draft.length - 1}
+                      title="Move down"
+                    >
+                      <FontAwesomeIcon icon={faArrowDown} />
+                    </button>
+                    <button
+                      type="button"
+                      className="project-label-icon-btn project-label-icon-btn--danger"
+                      onClick={() => removeStatus(status)}
+                      disabled={draft.length <= 1}
+                      title={taskCount > 0 ? `${taskCount} task${taskCount === 1 ? '' : 's'} use this status` : 'Remove status'}
+                    >
+                      <FontAwesomeIcon icon={faTrash} />
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="project-workflow-edit">
+                  <span className="project-workflow-swatch" style={{ background: status.color }} aria-hidden="true" />
+                  <span className="project-workflow-name">{status.name}</span>
+                  <span className="project-workflow-meta">
+                    {WORKFLOW_CATEGORIES.find((category) => category.value === status.category)?.label}
+                    {getWipLimit(wipLimits, status.id) !== null && ` · WIP ${getWipLimit(wipLimits, status.id)}`}
+                  </span>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {canManage && (
+        <div className="project-workflow-actions">
+          <button
+            type="button"
+            className="secondary-action-btn"
+            onClick={addStatus}
+            disabled={draft.length >= WORKFLOW_MAX_STATUSES}
+          >
+            <FontAwesomeIcon icon={faPlus} style={{ marginRight: '8px' }} />
+            Add Status
+          </button>
+          {isDirty && (
+            <>
+              <button type="button" className="secondary-action-btn" onClick={handleReset}>
+                Discard
+              </button>
+              <button
+                type="button"
+                className="primary-action-btn"
+                onClick={handleSave}
+                disabled={updateSettingsMutation.isPending}
+              >
+                {updateSettingsMutation.isPending && (
+                  <FontAwesomeIcon icon={faSpinner} spin style={{ marginRight: '8px' }} />
+                )}
+                Save Workflow
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectWorkflowSection;
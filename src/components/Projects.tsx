@@ -5,6 +5,7 @@ import { useProjects } from "../hooks/useProjects.ts";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { faCog, faBars } from "@fortawesome/free-solid-svg-icons";
 import ProjectInspector from "./ProjectInspector.tsx";
+import DueSoonSection from "./DueSoonSection.tsx";
 import "../styles/projects.css";
 
 interface Project {
@@ -134,6 +135,8 @@ const Projects: React.FC = () => {
         )}
       </header>
 
+      {!loading && !error && projects.length > 0 && <DueSoonSection projects={projects} />}
+
       <section className="projects-container" aria-live="polite">
         {loading ? (
           <div className="loading">Loading your projects…</div>
@@ -0,0 +1,89 @@
+import React from 'react';
+import { RecurrenceFrequency, TaskRecurrence } from '../types/hooks.ts';
+import {
+  RECURRENCE_OPTIONS,
+  WEEKDAY_LABELS,
+  createRecurrence,
+  getRecurrenceWeekdays,
+  describeRecurrence,
+  validateRecurrence,
+} from '../utils/recurrenceUtils.ts';
+import '../styles/task_inspector.css';
+
+interface RecurrenceInputProps {
+  id: string;
+  value: TaskRecurrence | null;
+  onChange: (value: TaskRecurrence | null) => void;
+  className?: string;
+  disabled?: boolean;
+}
+
+/**
+ * RecurrenceInput Component
+ *
+ * Repeat rule picker for a task: does not repeat, daily, weekly on chosen
+ * weekdays, or every sprint, with a note on when the next instance appears.
+ */
+const RecurrenceInput: React.FC<RecurrenceInputProps> = ({
+  id,
+  value,
+  onChange,
+  className = '',
+  disabled = false,
+}) => {
+  const weekdays = value ? getRecurrenceWeekdays(value) : [];
+  const validationError = validateRecurrence(value);
+
+  const toggleWeekday = (day: number): void => {
+    const next = weekdays.includes(day) ? weekdays.filter((d) => d !== day) : [...weekdays, day];
+    onChange({ frequency: 'weekly', weekdays: next.sort((a, b) => a - b) });
+  };
+
+  return (
+    <div className="recurrence-input">
+      <select
+        id={id}
+        className={className}
+        value={value?.frequency || ''}
+        onChange={(e) => onChange(e.target.value ? createRecurrence(e.target.value as RecurrenceFrequency) : null)}
+        disabled={disabled}
+      >
+        <option value="">Does not repeat</option>
+        {RECURRENCE_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      {value?.frequency === 'weekly' && (
+        <div className="recurrence-weekdays" role="group" aria-label="Repeat on">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              className={`recurrence-weekday ${weekdays.includes(day) ? 'is-selected' : ''}`}
+              onClick={() => toggleWeekday(day)}
+              aria-pressed={weekdays.includes(day)}
+              disabled={disabled}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {validationError ? (
+        <p className="inspector-warning">{validationError}</p>
+      ) : value && (
+        <p className="inspector-hint">
+          {value.frequency === 'sprint'
+            ? 'A new copy is added to each sprint when it starts.'
+            : `${describeRecurrence(value)}. The next copy is created when this one is completed.`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceInput;
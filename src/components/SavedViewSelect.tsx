@@ -0,0 +1,259 @@
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faBookmark, faFloppyDisk, faTrash, faUsers, faLock, faSpinner } from '@fortawesome/free-solid-svg-icons';
+import { useCreateView, useUpdateView, useDeleteView } from '../hooks/useSavedViews.ts';
+import { useAuthContext } from '../contexts/AuthContext.tsx';
+import { useToast } from '../contexts/ToastContext.tsx';
+import { SavedView, SavedViewPage, SavedViewState } from '../types/hooks.ts';
+import { isValidText } from '../utils/validation.ts';
+import { groupSavedViews, isViewStateApplied } from '../utils/savedViewUtils.ts';
+import ConfirmationModal from './ConfirmationModal.tsx';
+import '../styles/task_badges.css';
+
+interface SavedViewSelectProps {
+  projectId: string | null;
+  page: SavedViewPage;
+  views: SavedView[];
+  activeView: SavedView | null;
+  currentState: SavedViewState;
+  onSelect: (viewId: string | null) => void;
+  className?: string;
+}
+
+const VIEW_NAME_MAX_LENGTH = 60;
+
+/**
+ * SavedViewSelect Component
+ *
+ * Dropdown of the user's saved views and the views shared with the project, with
+ * controls to save the current filters as a view and to update, share or delete own views.
+ */
+const SavedViewSelect: React.FC<SavedViewSelectProps> = ({
+  projectId,
+  page,
+  views,
+  activeView,
+  currentState,
+  onSelect,
+  className = '',
+}) => {
+  const { userId } = useAuthContext();
+  const { showSuccess, showError } = useToast();
+  const createViewMutation = useCreateView();
+  const updateViewMutation = useUpdateView();
+  const deleteViewMutation = useDeleteView();
+
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [newName, setNewName] = useState<string>('');
+  const [newShared, setNewShared] = useState<boolean>(false);
+  const [viewToDelete, setViewToDelete] = useState<SavedView | null>(null);
+
+  const { mine, shared } = groupSavedViews(views, userId);
+  const isOwner = !!activeView && activeView.ownerId === userId;
+  const isModified = !!activeView && !isViewStateApplied(activeView.state, currentState);
+
+  const handleCreate = async (): Promise<void> => {
+    if (!projectId) return;
+    const name = newName.trim();
+    if (!name) {
+      showError('View name is required.');
+      return;
+    }
+    if (!isValidText(name)) {
+      showError('View name contains invalid characters.');
+      return;
+    }
+    if (mine.some((view) => view.name.toLowerCase() === name.toLowerCase())) {
+      showError(`You already have a view named "${name}".`);
+      return;
+    }
+
+    try {
+      const view: SavedView = await createViewMutation.mutateAsync({
+        projectId,
+        viewData: { name, page, shared: newShared, state: currentState },
+      });
+      setIsSaving(false);
+      setNewName('');
+      setNewShared(false);
+      onSelect(view.id);
+      showSuccess(`View "${name}" saved${newShared ? ' and shared with the project' : ''}`);
+    } catch (err: any) {
+      console.error('❌ Error saving view:', err);
+      showError(err.message || 'Failed to save view');
+    }
+  };
+
+  const handleUpdate = async (viewData: { shared?: boolean; state?: SavedViewState }): Promise<void> => {
+    if (!activeView) return;
+    try {
+      await updateViewMutation.mutateAsync({ viewId: activeView.id, viewData });
+      if (viewData.state) {
+        showSuccess(`View "${activeView.name}" updated`);
+      } else {
+        showSuccess(viewData.shared ? `"${activeView.name}" is now shared with the project` : `"${activeView.name}" is now private`);
+      }
+    } catch (err: any) {
+      console.error('❌ Error updating view:', err);
+      showError(err.message || 'Failed to update view');
+    }
+  };
+
+  const handleDeleteConfirm = async (): Promise<void> => {
+    if (!viewToDelete || !projectId) return;
+    const view = viewToDelete;
+    setViewToDelete(null);
+
+    try {
+      await deleteViewMutation.mutateAsync({ viewId: view.id, projectId });
+      if (activeView?.id === view.id) onSelect(null);
+      showSuccess(`View "${view.name}" deleted`);
+    } catch (err: any) {
+      console.error('❌ Error deleting view:', err);
+      showError(err.message || 'Failed to delete view');
+    }
+  };
+
+  return (
+    <div className={`saved-view-select ${className}`}>
+      <label className="task-sort-select">
+        <span className="task-sort-select-label">View</span>
+        <select
+          value={activeView?.id || ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+          aria-label="Saved view"
+        >
+          <option value="">{views.length === 0 ? 'No saved views' : 'None'}</option>
+          {mine.length > 0 && (
+            <optgroup label="My views">
+              {mine.map((view) => (
+                <option key={view.id} value={view.id}>
+                  {view.name}{view.shared ? ' (shared)' : ''}
+                </option>
+              ))}
+            </optgroup>
+          )}
+          {shared.length > 0 && (
+            <optgroup label="Shared with project">
+              {shared.map((view) => (
+                <option key={view.id} value={view.id}>{view.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </label>
+
+      {isModified && (
+        <button
+          type="button"
+          className="saved-view-modified"
+          onClick={() => activeView && onSelect(activeView.id)}
+          title="Discard changes and re-apply the view"
+        >
+          Modified
+        </button>
+      )}
+
+      {isOwner && isModified && (
+        <button
+          type="button"
+          className="saved-view-icon-btn"
+          onClick={() => handleUpdate({ state: currentState })}
+          disabled={updateViewMutation.isPending}
+          title="Save changes to this view"
+          aria-label="Save changes to this view"
+        >
+          <FontAwesomeIcon icon={updateViewMutation.isPending ? faSpinner : faFloppyDisk} spin={updateViewMutation.isPending} />
+        </button>
+      )}
+
+      {isOwner && activeView && (
+        <>
+          <button
+            type="button"
+            className="saved-view-icon-btn"
+            onClick={() => handleUpdate({ shared: !activeView.shared })}
+            disabled={updateViewMutation.isPending}
+            title={activeView.shared ? 'Shared with the project - click to make private' : 'Private - click to share with the project'}
+            aria-label={activeView.shared ? 'Make view private' : 'Share view with project'}
+          >
+            <FontAwesomeIcon icon={activeView.shared ? faUsers : faLock} />
+          </button>
+          <button
+            type="button"
+            className="saved-view-icon-btn"
+            onClick={() => setViewToDelete(activeView)}
+            title="Delete view"
+            aria-label="Delete view"
+          >
+            <FontAwesomeIcon icon={faTrash} />
+          </button>
+        </>
+      )}
+
+      <button
+        type="button"
+        className="saved-view-icon-btn"
+        onClick={() => setIsSaving(!isSaving)}
+        title="Save current filters as a view"
+        aria-label="Save current filters as a view"
+        aria-expanded={isSaving}
+      >
+        <FontAwesomeIcon icon={faBookmark} />
+      </button>
+
+      {isSaving && (
+        <div className="saved-view-form" role="dialog" aria-label="Save view">
+          <input
+            type="text"
+            className="saved-view-name-input"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCreate();
+              if (e.key === 'Escape') setIsSaving(false);
+            }}
+            placeholder="View name, e.g. My open bugs"
+            maxLength={VIEW_NAME_MAX_LENGTH}
+            aria-label="View name"
+            autoFocus
+          />
+          <label className="saved-view-share-toggle">
+            <input type="checkbox" checked={newShared} onChange={(e) => setNewShared(e.target.checked)} />
+            Share with project
+          </label>
+          <div className="saved-view-form-actions">
+            <button type="button" className="saved-view-form-btn" onClick={() => setIsSaving(false)}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="saved-view-form-btn saved-view-form-btn--primary"
+              onClick={handleCreate}
+              disabled={createViewMutation.isPending || !newName.trim()}
+            >
+              {createViewMutation.isPending ? 'Saving...' : 'Save view'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <ConfirmationModal
+        isOpen={!!viewToDelete}
+        title="Delete Saved View"
+        message={
+          viewToDelete?.shared
+            ? `Delete "${viewToDelete.name}"? It is shared, so it will disappear for every project member.`
+            : `Delete "${viewToDelete?.name}"?`
+        }
+        confirmText="Delete"
+        cancelText="Cancel"
+        type="danger"
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setViewToDelete(null)}
+      />
+    </div>
+  );
+};
+
+export default SavedViewSelect;
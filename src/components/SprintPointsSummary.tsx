@@ -0,0 +1,36 @@
+import React from 'react';
+import { SprintPoints, formatPoints } from '../utils/taskUtils.ts';
+import '../styles/task_badges.css';
+
+interface SprintPointsSummaryProps {
+  points: SprintPoints;
+  className?: string;
+}
+
+/**
+ * SprintPointsSummary Component
+ *
+ * Shows committed, in-progress and done story point totals for a sprint.
+ */
+const SprintPointsSummary: React.FC<SprintPointsSummaryProps> = ({ points, className = '' }) => {
+  const label = `${formatPoints(points.committed)} committed, ${formatPoints(points.inProgress)} in progress, ${formatPoints(points.done)} done`;
+
+  return (
+    <div className={`sprint-points ${className}`} aria-label={label} title={label}>
+      <span className="sprint-points-item">
+        <span className="sprint-points-dot sprint-points-dot--committed" aria-hidden="true"></span>
+        <strong>{formatPoints(points.committed)}</strong> committed
+      </span>
+      <span className="sprint-points-item">
+        <span className="sprint-points-dot sprint-points-dot--in-progress" aria-hidden="true"></span>
+        <strong>{formatPoints(points.inProgress)}</strong> in progress
+      </span>
+      <span className="sprint-points-item">
+        <span className="sprint-points-dot sprint-points-dot--done" aria-hidden="true"></span>
+        <strong>{formatPoints(points.done)}</strong> done
+      </span>
+    </div>
+  );
+};
+
+export default SprintPointsSummary;
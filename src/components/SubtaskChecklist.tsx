@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faGripVertical, faTrash } from '@fortawesome/free-solid-svg-icons';
+import { useCreateSubtask, useUpdateSubtask, useDeleteSubtask, useReorderSubtasks } from '../hooks/useTasks.ts';
+import { useToast } from '../contexts/ToastContext.tsx';
+import { Task, Subtask, User } from '../types/hooks.ts';
+import { getSubtaskProgress, parseDescriptionChecklist, SUBTASK_TEXT_MAX_LENGTH } from '../utils/taskUtils.ts';
+import '../styles/task_inspector.css';
+
+interface SubtaskChecklistProps {
+  task: Task;
+  members: User[];
+}
+
+// Items created optimistically carry a temporary ID until the server responds
+const isPending = (subtask: Subtask): boolean => subtask.id.startsWith('temp-');
+
+/**
+ * SubtaskChecklist Component
+ *
+ * Ordered checklist inside the TaskInspector. Changes are saved immediately
+ * (optimistically) rather than with the inspector's Save button.
+ */
+const SubtaskChecklist: React.FC<SubtaskChecklistProps> = ({ task, members }) => {
+  const { showError } = useToast();
+  const createSubtaskMutation = useCreateSubtask();
+  const updateSubtaskMutation = useUpdateSubtask();
+  const deleteSubtaskMutation = useDeleteSubtask();
+  const reorderSubtasksMutation = useReorderSubtasks();
+
+  const [newText, setNewText] = useState<string>('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState<string>('');
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [isConverting, setIsConverting] = useState<boolean>(false);
+
+  const subtasks = task.subtasks || [];
+  const { done, total } = getSubtaskProgress(task);
+  const descriptionItems = total === 0 ? parseDescriptionChecklist(task.description || '') : [];
+
+  const reportError = (action: string) => (err: any) => {
+    console.error(`❌ Error ${action}:`, err);
+    showError(err?.message || `Failed ${action}`);
+  };
+
+  const handleAdd = (): void => {
+    const text = newText.trim();
+    if (!text) return;
+    setNewText('');
+    createSubtaskMutation.mutate(
+      { taskId: task.id, subtaskData: { text } },
+      { onError: reportError('adding checklist item') }
+    );
+  };
+
+  const handleToggle = (subtask: Subtask): void => {
+    updateSubtaskMutation.mutate(
+      { taskId: task.id, subtaskId: subtask.id, subtaskData: { done: !subtask.done } },
+      { onError: reportError('updating checklist item') }
+    );
+  };
+
+  const handleAssign = (subtask: Subtask, assigneeId: string): void => {
+    updateSubtaskMutation.mutate(
+      { taskId: task.id, subtaskId: subtask.id, subtaskData: { assigneeId: assigneeId || null } },
+      { onError: reportError('assigning checklist item') }
+    );
+  };
+
+  const handleSaveText = (subtask: Subtask): void => {
+    const text = editText.trim();
+    setEditingId(null);
+    if (!text || text === subtask.text) return;
+    updateSubtaskMutation.mutate(
+      { taskId: task.id, subtaskId: subtask.id, subtaskData: { text } },
+      { onError: reportError('renaming checklist item') }
+    );
+  };
+
+  const handleDelete = (subtask: Subtask): void => {
+    deleteSubtaskMutation.mutate(
+      { taskId: task.id, subtaskId: subtask.id },
+      { onError: reportError('deleting checklist item') }
+    );
+  };
+
+  const moveSubtask = (subtaskId: string, targetIndex: number): void => {
+    const fromIndex = subtasks.findIndex((subtask) => subtask.id === subtaskId);
+    if (fromIndex === -1 || targetIndex < 0 || targetIndex >= subtasks.length || fromIndex === targetIndex) return;
+
+    const subtaskIds = subtasks.map((subtask) => subtask.id);
+    subtaskIds.splice(fromIndex, 1);
+    subtaskIds.splice(targetIndex, 0, subtaskId);
+    reorderSubtasksMutation.mutate(
+      { taskId: task.id, subtaskIds },
+      { onError: reportError('reordering checklist') }
+    );
+  };
+
+  const handleDrop = (e: React.DragEvent, target: Subtask): void => {
+    e.preventDefault();
+    if (draggedId && draggedId !== target.id) {
+      moveSubtask(draggedId, subtasks.findIndex((subtask) => subtask.id === target.id));
+    }
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  // Keyboard alternative to dragging: Alt + Arrow Up/Down on the handle
+  const handleHandleKeyDown = (e: React.KeyboardEvent, index: number, subtask: Subtask): void => {
+    if (!e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
+    e.preventDefault();
+    moveSubtask(subtask.id, e.key === 'ArrowUp' ? index - 1 : index + 1);
+  };
+
+  // Turn "- [ ] item" lines from the description into real checklist items
+  const handleConvertDescription = async (): Promise<void> => {
+    setIsConverting(true);
+    try {
+      for (const item of descriptionItems) {
+        await createSubtaskMutation.mutateAsync({ taskId: task.id, subtaskData: item });
+      }
+    } catch (err: any) {
+      reportError('converting description checklist')(err);
+    } finally {
+      setIsConverting(false);
+    }
+  };
+
+  return (
+    <div className="subtask-checklist">
+      {total > 0 && (
+        <div className="subtask-progress" aria-label={`${done} of ${total} done`}>
+          <div className="subtask-progress-bar">
+            <div className="subtask-progress-fill" style={{ width: `${(done / total) * 100}%` }} />
+          </div>
+          <span className="subtask-progress-count">{done}/{total}</span>
+        </div>
+      )}
+
+      {subtasks.length > 0 && (
+        <ul className="subtask-list">
+          {subtasks.map((subtask, index) => (
+            <li
+              key={subtask.id}
+              className={`subtask-item ${subtask.done ? 'is-done' : ''} ${dropTargetId === subtask.id ? 'is-drop-target' : ''} ${draggedId === subtask.id ? 'is-dragging' : ''}`}
+              draggable={!isPending(subtask) && editingId !== subtask.id}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDraggedId(subtask.id);
+              }}
+              onDragOver={(e) => {
+                if (!draggedId) return;
+                e.preventDefault();
+                setDropTargetId(subtask.id);
+              }}
+              onDragLeave={() => setDropTargetId((current) => (current === subtask.id ? null : current))}
+              onDrop={(e) => handleDrop(e, subtask)}
+              onDragEnd={() => {
+                setDraggedId(null);
+                setDropTargetId(null);
+              }}
+            >
+              <button
+                type="button"
+                className="subtask-handle"
+                aria-label={`Reorder "${subtask.text}" (Alt + Arrow keys)`}
+                onKeyDown={(e) => handleHandleKeyDown(e, index, subtask)}
+                disabled={isPending(subtask)}
+              >
+                <FontAwesomeIcon icon={faGripVertical} />
+              </button>
+              <input
+                type="checkbox"
+                className="subtask-checkbox"
+                checked={subtask.done}
+                onChange={() => handleToggle(subtask)}
+                disabled={isPending(subtask)}
+                aria-label={`Mark "${subtask.text}" as ${subtask.done ? 'not done' : 'done'}`}
+              />
+              {editingId === subtask.id ? (
+                <input
+                  type="text"
+                  className="subtask-text-input"
+                  value={editText}
+                  onChange={(e) => setEditText(e.target.value)}
+                  onBlur={() => handleSaveText(subtask)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleSaveText(subtask);
+                    if (e.key === 'Escape') {
+                      e.stopPropagation();
+                      setEditingId(null);
+                    }
+                  }}
+                  maxLength={SUBTASK_TEXT_MAX_LENGTH}
+                  autoFocus
+                />
+              ) : (
+                <span
+                  className="subtask-text"
+                  onDoubleClick={() => {
+                    if (isPending(subtask)) return;
+                    setEditingId(subtask.id);
+                    setEditText(subtask.text);
+                  }}
+                  title="Double-click to edit"
+                >
+                  {subtask.text}
+                </span>
+              )}
+              <select
+                className="subtask-assignee"
+                value={subtask.assigneeId || ''}
+                onChange={(e) => handleAssign(subtask, e.target.value)}
+                disabled={isPending(subtask)}
+                aria-label={`Assignee for "${subtask.text}"`}
+              >
+                <option value="">—</option>
+                {members.map((member: User) => (
+                  <option key={member.id} value={member.id}>
+                    {member.firstName} {member.lastName}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                className="subtask-delete"
+                onClick={() => handleDelete(subtask)}
+                disabled={isPending(subtask)}
+                aria-label={`Delete "${subtask.text}"`}
+              >
+                <FontAwesomeIcon icon={faTrash} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <input
+        type="text"
+        className="inspector-input subtask-add-input"
+        value={newText}
+        onChange={(e) => setNewText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            handleAdd();
+          }
+        }}
+        placeholder="Add an item and press Enter"
+        maxLength={SUBTASK_TEXT_MAX_LENGTH}
+        aria-label="New checklist item"
+      />
+
+      {descriptionItems.length > 0 && (
+        <button
+          type="button"
+          className="subtask-convert-btn"
+          onClick={handleConvertDescription}
+          disabled={isConverting}
+        >
+          {isConverting
+            ? 'Converting…'
+            : `Convert ${descriptionItems.length} "[ ]" item${descriptionItems.length === 1 ? '' : 's'} from the description`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SubtaskChecklist;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faSquareCheck } from '@fortawesome/free-solid-svg-icons';
+import { Task } from '../types/hooks.ts';
+import { getSubtaskProgress } from '../utils/taskUtils.ts';
+import '../styles/task_badges.css';
+
+interface SubtaskProgressBadgeProps {
+  task: Task;
+}
+
+/**
+ * SubtaskProgressBadge Component
+ *
+ * "3/7" checklist progress pill for Board cards and Backlog rows.
+ */
+const SubtaskProgressBadge: React.FC<SubtaskProgressBadgeProps> = ({ task }) => {
+  const { done, total } = getSubtaskProgress(task);
+  if (total === 0) return null;
+
+  return (
+    <span
+      className={`task-badge task-badge--subtasks ${done === total ? 'task-badge--subtasks-complete' : ''}`}
+      title={`${done} of ${total} checklist items done`}
+    >
+      <FontAwesomeIcon icon={faSquareCheck} />
+      {done}/{total}
+    </span>
+  );
+};
+
+export default SubtaskProgressBadge;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { BoardSwimlaneMode } from '../types/hooks.ts';
+import { SWIMLANE_OPTIONS } from '../utils/swimlaneUtils.ts';
+import '../styles/task_badges.css';
+
+interface SwimlaneSelectProps {
+  value: BoardSwimlaneMode;
+  onChange: (mode: BoardSwimlaneMode) => void;
+  className?: string;
+}
+
+/**
+ * SwimlaneSelect Component
+ *
+ * Dropdown for splitting the Board into horizontal lanes.
+ */
+const SwimlaneSelect: React.FC<SwimlaneSelectProps> = ({ value, onChange, className = '' }) => (
+  <label className={`task-sort-select ${className}`}>
+    <span className="task-sort-select-label">Group by</span>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as BoardSwimlaneMode)}
+      aria-label="Group board into swimlanes by"
+    >
+      {SWIMLANE_OPTIONS.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+export default SwimlaneSelect;
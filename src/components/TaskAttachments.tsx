@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faFile, faTimes, faTrash, faCloudArrowUp } from '@fortawesome/free-solid-svg-icons';
+import { useTaskAttachments, useAttachmentUploads, useDeleteAttachment } from '../hooks/useAttachments.ts';
+import { useToast } from '../contexts/ToastContext.tsx';
+import { TaskAttachment } from '../types/hooks.ts';
+import { formatFileSize, isImageAttachment, getPastedFiles } from '../utils/attachmentUtils.ts';
+import AttachmentLightbox from './AttachmentLightbox.tsx';
+import '../styles/task_inspector.css';
+
+interface TaskAttachmentsProps {
+  taskId: string;
+}
+
+// Only react to drags that carry files, not task cards being dragged around the board
+const isFileDrag = (e: React.DragEvent): boolean => Array.from(e.dataTransfer.types).includes('Files');
+
+/**
+ * TaskAttachments Component
+ *
+ * Files and images attached to a task, shown in the TaskInspector. Files are added
+ * with the picker, by dropping them on the section, or by pasting (e.g. a screenshot)
+ * anywhere in the inspector; uploads show progress and can be cancelled.
+ */
+const TaskAttachments: React.FC<TaskAttachmentsProps> = ({ taskId }) => {
+  const { showSuccess, showError } = useToast();
+  const { data: attachments = [], isLoading } = useTaskAttachments(taskId);
+  const { uploads, uploadFiles, cancelUpload } = useAttachmentUploads(taskId);
+  const deleteAttachmentMutation = useDeleteAttachment();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragOver, setIsDragOver] = useState<boolean>(false);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const images = attachments.filter(isImageAttachment);
+
+  // Pasted files become attachments; plain text pastes into the inspector's inputs are left alone
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent): void => {
+      const files = getPastedFiles(e.clipboardData);
+      if (files.length === 0) return;
+      e.preventDefault();
+      uploadFiles(files);
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [uploadFiles]);
+
+  const handleDrop = (e: React.DragEvent): void => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    setIsDragOver(false);
+    uploadFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleDelete = async (attachment: TaskAttachment): Promise<void> => {
+    setConfirmDeleteId(null);
+    try {
+      await deleteAttachmentMutation.mutateAsync({ taskId, attachmentId: attachment.id });
+      showSuccess(`Removed "${attachment.fileName}"`);
+    } catch (err: any) {
+      console.error('❌ Error deleting attachment:', err);
+      showError(err.message || 'Failed to delete attachment');
+    }
+  };
+
+  return (
+    <div
+      className={`task-attachments ${isDragOver ? 'task-attachments--drag-over' : ''}`}
+      onDragOver={(e) => {
+        if (!isFileDrag(e)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+        if (!isDragOver) setIsDragOver(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragOver(false);
+      }}
+      onDrop={handleDrop}
+    >
+      {(attachments.length > 0 || uploads.length > 0) && (
+        <ul className="task-attachments-list">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="task-attachment">
+              {isImageAttachment(attachment) ? (
+                <button
+                  type="button"
+                  className="task-attachment-thumb"
+                  onClick={() => setLightboxIndex(images.indexOf(attachment))}
+                  aria-label={`View ${attachment.fileName}`}
+                >
+                  <img src={attachment.thumbnailUrl || attachment.url} alt="" loading="lazy" />
+                </button>
+              ) : (
+                <span className="task-attachment-icon" aria-hidden="true">
+                  <FontAwesomeIcon icon={faFile} />
+                </span>
+              )}
+              <div className="task-attachment-info">
+                <a
+                  className="task-attachment-name"
+                  href={attachment.url}
+                  download={attachment.fileName}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={`Download ${attachment.fileName}`}
+                >
+                  {attachment.fileName}
+                </a>
+                <span className="task-attachment-size">{formatFileSize(attachment.size)}</span>
+              </div>
+              <div className="task-attachment-actions">
+                {confirmDeleteId === attachment.id ? (
+                  <>
+                    <button type="button" className="is-danger" onClick={() => handleDelete(attachment)}>
+                      Delete
+                    </button>
+                    <button type="button" onClick={() => setConfirmDeleteId(null)}>
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setConfirmDeleteId(attachment.id)}
+                    aria-label={`Delete ${attachment.fileName}`}
+                    title="Delete attachment"
+                  >
+                    <FontAwesomeIcon icon={faTrash} />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+
+          {uploads.map((upload) => (
+            <li key={upload.id} className="task-attachment task-attachment--uploading">
+              <span className="task-attachment-icon" aria-hidden="true">
+                <FontAwesomeIcon icon={faCloudArrowUp} />
+              </span>
+              <div className="task-attachment-info">
+                <span className="task-attachment-name">{upload.fileName}</span>
+                <div
+                  className="task-attachment-progress"
+                  role="progressbar"
+                  aria-label={`Uploading ${upload.fileName}`}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round(upload.progress * 100)}
+                >
+                  <div className="task-attachment-progress-fill" style={{ width: `${upload.progress * 100}%` }} />
+                </div>
+              </div>
+              <div className="task-attachment-actions">
+                <button
+                  type="button"
+                  onClick={() => cancelUpload(upload.id)}
+                  aria-label={`Cancel upload of ${upload.fileName}`}
+                  title="Cancel upload"
+                >
+                  <FontAwesomeIcon icon={faTimes} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="task-attachments-dropzone">
+        <button type="button" className="task-attachments-add" onClick={() => fileInputRef.current?.click()}>
+          Add files
+        </button>
+        <span className="task-attachments-hint">
+          {isLoading ? 'Loading attachments...' : 'or drop files here, or paste a screenshot'}
+        </span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          hidden
+          onChange={(e) => {
+            uploadFiles(Array.from(e.target.files || []));
+            // Allow picking the same file again
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {lightboxIndex !== null && (
+        <AttachmentLightbox
+          images={images}
+          index={lightboxIndex}
+          onIndexChange={setLightboxIndex}
+          onClose={() => setLightboxIndex(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TaskAttachments;
@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faPaperPlane, faSpinner } from '@fortawesome/free-solid-svg-icons';
+import { useTaskComments, useCreateComment, useUpdateComment, useDeleteComment } from '../hooks/useComments.ts';
+import { useAuthContext } from '../contexts/AuthContext.tsx';
+import { useToast } from '../contexts/ToastContext.tsx';
+import { useAutoResizeTextarea } from '../hooks/useAutoResizeTextarea.ts';
+import { TaskComment, User } from '../types/hooks.ts';
+import { formatMessageTime } from '../utils/dateUtils.ts';
+import '../styles/task_inspector.css';
+
+interface TaskCommentsProps {
+  taskId: string;
+  members: User[];
+}
+
+export const COMMENT_MAX_LENGTH = 5000;
+
+/**
+ * TaskComments Component
+ *
+ * Comment thread shown in the TaskInspector's Comments tab. New comments from
+ * other members arrive through WebSocket cache invalidation.
+ */
+const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, members }) => {
+  const { userId } = useAuthContext();
+  const { showError } = useToast();
+  const { data: comments = [], isLoading, error } = useTaskComments(taskId);
+  const createCommentMutation = useCreateComment();
+  const updateCommentMutation = useUpdateComment();
+  const deleteCommentMutation = useDeleteComment();
+
+  const [newComment, setNewComment] = useState<string>('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState<string>('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const composerRef = useAutoResizeTextarea(newComment, 2);
+
+  // Prefer the author embedded in the response, fall back to the project member list
+  const getAuthor = (comment: TaskComment) => {
+    if (comment.author) return comment.author;
+    const member = members.find((m) => m.id === comment.authorId);
+    return member
+      ? { id: member.id, username: member.username, firstName: member.firstName, lastName: member.lastName, avatarUrl: member.avatarUrl }
+      : null;
+  };
+
+  const handlePost = async (): Promise<void> => {
+    const content = newComment.trim();
+    if (!content) return;
+
+    try {
+      await createCommentMutation.mutateAsync({ taskId, content });
+      setNewComment('');
+    } catch (err: any) {
+      console.error('❌ Error posting comment:', err);
+      showError(err.message || 'Failed to post comment');
+    }
+  };
+
+  const handleSaveEdit = async (comment: TaskComment): Promise<void> => {
+    const content = editContent.trim();
+    if (!content || content === comment.content) {
+      setEditingId(null);
+      return;
+    }
+
+    try {
+      await updateCommentMutation.mutateAsync({ commentId: comment.id, taskId, content });
+      setEditingId(null);
+    } catch (err: any) {
+      console.error('❌ Error updating comment:', err);
+      showError(err.message || 'Failed to update comment');
+    }
+  };
+
+  const handleDelete = async (comment: TaskComment): Promise<void> => {
+    setConfirmDeleteId(null);
+    try {
+      await deleteCommentMutation.mutateAsync({ commentId: comment.id, taskId });
+    } catch (err: any) {
+      console.error('❌ Error deleting comment:', err);
+      showError(err.message || 'Failed to delete comment');
+    }
+  };
+
+  return (
+    <div className="task-comments">
+      <div className="task-comments-list">
+        {isLoading ? (
+          <p className="task-comments-empty">Loading comments...</p>
+        ) : error ? (
+          <p className="task-comments-empty">Couldn't load comments.</p>
+        ) : comments.length === 0 ? (
+          <p className="task-comments-empty">No comments yet. Start the discussion!</p>
+        ) : (
+          comments.map((comment: TaskComment) => {
+            const author = getAuthor(comment);
+            const authorName = author ? `${author.firstName} ${author.lastName}`.trim() || author.username : 'Unknown';
+            const isOwn = comment.authorId === userId;
+            const isEdited = comment.updatedAt && comment.updatedAt !== comment.createdAt;
+
+            return (
+              <article key={comment.id} className="task-comment">
+                {author?.avatarUrl ? (
+                  <img className="task-comment-avatar" src={author.avatarUrl} alt="" />
+                ) : (
+                  <div className="task-comment-avatar" aria-hidden="true">
+                    {author ? `${author.firstName?.[0] || ''}${author.lastName?.[0] || ''}`.toUpperCase() || '?' : '?'}
+                  </div>
+                )}
+                <div className="task-comment-main">
+                  <header className="task-comment-header">
+                    <span className="task-comment-author">{authorName}</span>
+                    <time className="task-comment-time" dateTime={comment.createdAt} title={new Date(comment.createdAt).toLocaleString()}>
+                      {formatMessageTime(comment.createdAt)}
+                      {isEdited && ' (edited)'}
+                    </time>
+                  </header>
+
+                  {editingId === comment.id ? (
+                    <>
+                      <textarea
+                        className="inspector-textarea task-comment-edit"
+                        value={editContent}
+                        onChange={(e) => setEditContent(e.target.value)}
+                        maxLength={COMMENT_MAX_LENGTH}
+                        aria-label="Edit comment"
+                        autoFocus
+                      />
+                      <div className="task-comment-actions">
+                        <button type="button" onClick={() => handleSaveEdit(comment)} disabled={updateCommentMutation.isPending}>
+                          Save
+                        </button>
+                        <button type="button" onClick={() => setEditingId(null)}>
+                          Cancel
+                        </button>
+                      </div>
+                    </>
+                  ) : (
+                    <p className="task-comment-content">{comment.content}</p>
+                  )}
+
+                  {isOwn && editingId !== comment.id && (
+                    <div className="task-comment-actions">
+                      {confirmDeleteId === comment.id ? (
+                        <>
+                          <span>Delete this comment?</span>
+                          <button type="button" className="is-danger" onClick={() => handleDelete(comment)}>
+                            Delete
+                          </button>
+                          <button type="button" onClick={() => setConfirmDeleteId(null)}>
+                            Cancel
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setEditingId(comment.id);
+                              setEditContent(comment.content);
+                            }}
+                          >
+                            Edit
+                          </button>
+                          <button type="button" onClick={() => setConfirmDeleteId(comment.id)}>
+                            Delete
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </article>
+            );
+          })
+        )}
+      </div>
+
+      <div className="task-comments-composer">
+        <textarea
+          ref={composerRef}
+          className="inspector-textarea"
+          value={newComment}
+          onChange={(e) => setNewComment(e.target.value)}
+          onKeyDown={(e) => {
+            // Cmd/Ctrl + Enter posts, plain Enter adds a newline
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              handlePost();
+            }
+          }}
+          placeholder="Write a comment…"
+          maxLength={COMMENT_MAX_LENGTH}
+          aria-label="New comment"
+          disabled={createCommentMutation.isPending}
+        />
+        <button
+          type="button"
+          className="task-comments-send"
+          onClick={handlePost}
+          disabled={createCommentMutation.isPending || !newComment.trim()}
+          aria-label="Post comment"
+        >
+          <FontAwesomeIcon icon={createCommentMutation.isPending ? faSpinner : faPaperPlane} spin={createCommentMutation.isPending} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TaskComments;
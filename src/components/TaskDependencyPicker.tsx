@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faTimes } from '@fortawesome/free-solid-svg-icons';
+import { Task, WorkflowStatus } from '../types/hooks.ts';
+import { getTaskTitle } from '../utils/taskUtils.ts';
+import { getStatusName, isDoneStatus } from '../utils/workflowUtils.ts';
+import '../styles/task_inspector.css';
+
+interface TaskDependencyPickerProps {
+  id: string;
+  tasks: Task[];
+  selectedIds: string[];
+  excludeIds: string[];
+  workflow: WorkflowStatus[];
+  onChange: (taskIds: string[]) => void;
+  emptyText: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * TaskDependencyPicker Component
+ *
+ * Linked task list with a search box for adding more tasks from the same project.
+ */
+const TaskDependencyPicker: React.FC<TaskDependencyPickerProps> = ({
+  id,
+  tasks,
+  selectedIds,
+  excludeIds,
+  workflow,
+  onChange,
+  emptyText,
+}) => {
+  const [query, setQuery] = useState<string>('');
+
+  const selectedTasks = selectedIds
+    .map((taskId) => tasks.find((task) => task.id === taskId))
+    .filter((task): task is Task => !!task);
+
+  const search = query.trim().toLowerCase();
+  const suggestions = search
+    ? tasks
+        .filter((task) =>
+          !selectedIds.includes(task.id) &&
+          !excludeIds.includes(task.id) &&
+          getTaskTitle(task).toLowerCase().includes(search)
+        )
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const handleAdd = (task: Task): void => {
+    onChange([...selectedIds, task.id]);
+    setQuery('');
+  };
+
+  return (
+    <div className="dependency-picker">
+      {selectedTasks.length === 0 ? (
+        <p className="dependency-picker-empty">{emptyText}</p>
+      ) : (
+        <ul className="dependency-list">
+          {selectedTasks.map((task) => (
+            <li key={task.id} className={`dependency-item ${isDoneStatus(workflow, task.status) ? 'dependency-item--done' : ''}`}>
+              <span className="dependency-item-title">{getTaskTitle(task)}</span>
+              <span className="dependency-item-status">{getStatusName(workflow, task.status)}</span>
+              <button
+                type="button"
+                className="dependency-item-remove"
+                onClick={() => onChange(selectedIds.filter((taskId) => taskId !== task.id))}
+                aria-label={`Remove link to ${getTaskTitle(task)}`}
+              >
+                <FontAwesomeIcon icon={faTimes} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <input
+        type="search"
+        id={id}
+        className="inspector-input dependency-picker-search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => {
+          // Enter links the first match instead of submitting anything
+          if (e.key === 'Enter' && suggestions.length > 0) {
+            e.preventDefault();
+            handleAdd(suggestions[0]);
+          }
+        }}
+        placeholder="Search tasks to link..."
+        autoComplete="off"
+      />
+
+      {search && (
+        <ul className="dependency-suggestions" role="listbox">
+          {suggestions.length === 0 ? (
+            <li className="dependency-picker-empty">No matching tasks</li>
+          ) : (
+            suggestions.map((task) => (
+              <li key={task.id} role="option" aria-selected={false}>
+                <button type="button" className="dependency-suggestion" onClick={() => handleAdd(task)}>
+                  <span className="dependency-item-title">{getTaskTitle(task)}</span>
+                  <span className="dependency-item-status">{getStatusName(workflow, task.status)}</span>
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TaskDependencyPicker;
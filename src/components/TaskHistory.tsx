@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { useTaskHistory } from '../hooks/useTasks.ts';
+import { TaskHistoryEntry, User, Sprint, Label, WorkflowStatus } from '../types/hooks.ts';
+import { formatMessageTime } from '../utils/dateUtils.ts';
+import { getPriorityOption, formatPoints, formatDueDate } from '../utils/taskUtils.ts';
+import { getStatusName } from '../utils/workflowUtils.ts';
+import { diffLines, collapseUnchanged } from '../utils/textDiff.ts';
+import '../styles/task_inspector.css';
+
+interface TaskHistoryProps {
+  taskId: string;
+  members: User[];
+  sprints: Sprint[];
+  labels: Label[];
+  workflow: WorkflowStatus[];
+}
+
+/**
+ * DescriptionDiff Component
+ *
+ * Collapsible line diff for a description edit.
+ */
+const DescriptionDiff: React.FC<{ oldValue: string; newValue: string }> = ({ oldValue, newValue }) => {
+  const [expanded, setExpanded] = useState<boolean>(false);
+  const lines = collapseUnchanged(diffLines(oldValue || '', newValue || ''));
+
+  return (
+    <div className="task-history-diff">
+      <button type="button" className="task-history-diff-toggle" onClick={() => setExpanded(!expanded)}>
+        {expanded ? 'Hide changes' : 'Show changes'}
+      </button>
+      {expanded && (
+        <pre className="task-history-diff-body">
+          {lines.map((line, index) =>
+            line === null ? (
+              <span key={index} className="task-history-diff-line task-history-diff-line--gap">⋯</span>
+            ) : (
+              <span key={index} className={`task-history-diff-line task-history-diff-line--${line.type}`}>
+                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                {line.text || ' '}
+              </span>
+            )
+          )}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+/**
+ * TaskHistory Component
+ *
+ * Chronological activity timeline for a task, shown in the TaskInspector's History tab.
+ */
+const TaskHistory: React.FC<TaskHistoryProps> = ({ taskId, members, sprints, labels, workflow }) => {
+  const { data: history = [], isLoading, error } = useTaskHistory(taskId);
+
+  const getMemberName = (userId: string | null | undefined): string => {
+    if (!userId) return 'Unassigned';
+    const member = members.find((m) => m.id === userId);
+    return member ? `${member.firstName} ${member.lastName}` : 'a former member';
+  };
+
+  const getActorName = (entry: TaskHistoryEntry): string =>
+    entry.actor ? `${entry.actor.firstName} ${entry.actor.lastName}` : getMemberName(entry.actorId);
+
+  const getSprintName = (sprintId: string | null | undefined): string => {
+    if (!sprintId) return 'no sprint';
+    return sprints.find((sprint) => sprint.id === sprintId)?.name || 'a deleted sprint';
+  };
+
+  const getLabelNames = (labelIds: string[] | null | undefined): string => {
+    const names = (labelIds || [])
+      .map((id) => labels.find((label) => label.id === id)?.name)
+      .filter(Boolean);
+    return names.length > 0 ? names.join(', ') : 'none';
+  };
+
+  // Human-readable summary for one history entry
+  const describe = (entry: TaskHistoryEntry): React.ReactNode => {
+    if (entry.action === 'created') return 'created this task';
+
+    const { field, oldValue, newValue } = entry;
+    switch (field) {
+      case 'status':
+        return <>moved this from <strong>{getStatusName(workflow, oldValue)}</strong> to <strong>{getStatusName(workflow, newValue)}</strong></>;
+      case 'assigneeId':
+        return newValue
+          ? <>assigned this to <strong>{getMemberName(newValue)}</strong></>
+          : <>unassigned <strong>{getMemberName(oldValue)}</strong></>;
+      case 'sprintId':
+        return <>moved this from <strong>{getSprintName(oldValue)}</strong> to <strong>{getSprintName(newValue)}</strong></>;
+      case 'title':
+        return <>renamed this to <strong>{newValue}</strong></>;
+      case 'description':
+        return 'edited the description';
+      case 'priority':
+        return <>changed priority to <strong>{getPriorityOption(newValue).label}</strong></>;
+      case 'estimate':
+        return newValue === null || newValue === undefined
+          ? 'removed the estimate'
+          : <>set the estimate to <strong>{formatPoints(newValue)}</strong></>;
+      case 'dueDate':
+        return newValue ? <>set the due date to <strong>{formatDueDate(newValue)}</strong></> : 'removed the due date';
+      case 'labelIds':
+        return <>changed labels to <strong>{getLabelNames(newValue)}</strong></>;
+      default:
+        return `updated ${field || 'this task'}`;
+    }
+  };
+
+  if (isLoading) {
+    return <p className="task-history-empty">Loading history...</p>;
+  }
+
+  if (error) {
+    return <p className="task-history-empty">Couldn't load history.</p>;
+  }
+
+  if (history.length === 0) {
+    return <p className="task-history-empty">No activity recorded yet.</p>;
+  }
+
+  return (
+    <ol className="task-history">
+      {history.map((entry: TaskHistoryEntry) => (
+        <li key={entry.id} className={`task-history-entry task-history-entry--${entry.field || entry.action}`}>
+          <span className="task-history-dot" aria-hidden="true" />
+          <div className="task-history-main">
+            <p className="task-history-text">
+              <strong>{getActorName(entry)}</strong> {describe(entry)}
+            </p>
+            <time className="task-history-time" dateTime={entry.createdAt} title={new Date(entry.createdAt).toLocaleString()}>
+              {formatMessageTime(entry.createdAt)}
+            </time>
+            {entry.field === 'description' && (
+              <DescriptionDiff oldValue={entry.oldValue} newValue={entry.newValue} />
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default TaskHistory;
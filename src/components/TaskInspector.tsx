@@ -1,12 +1,39 @@
 import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faTimes } from '@fortawesome/free-solid-svg-icons';
-import { Task, User } from '../types/hooks.ts';
+import { faTimes, faLink, faClone, faShareFromSquare } from '@fortawesome/free-solid-svg-icons';
+import { Task, User, Label, Sprint, UpdateTaskData, WorkflowStatus, TaskRecurrence } from '../types/hooks.ts';
 import { useToast } from '../contexts/ToastContext.tsx';
+import { useDuplicateTask } from '../hooks/useTasks.ts';
 import { isValidText } from '../utils/validation.ts';
-import { useAutoResizeTextarea } from '../hooks/useAutoResizeTextarea.ts';
+import {
+  TASK_TITLE_MAX_LENGTH,
+  TASK_DESCRIPTION_MAX_LENGTH,
+  TASK_ESTIMATE_MAX,
+  TASK_PRIORITIES,
+  DEFAULT_TASK_PRIORITY,
+  isValidEstimate,
+  getTaskPriority,
+  getUnresolvedBlockers,
+} from '../utils/taskUtils.ts';
+import { DEFAULT_WORKFLOW, getWorkflowStatus, isDoneStatus } from '../utils/workflowUtils.ts';
+import { getTaskLinkPath } from '../utils/taskKeyUtils.ts';
+import { validateRecurrence, getRecurrenceWeekdays } from '../utils/recurrenceUtils.ts';
+import { TIME_ESTIMATE_MAX_MINUTES, parseDuration, formatDuration } from '../utils/timeTrackingUtils.ts';
+import MarkdownEditor from './MarkdownEditor.tsx';
+import LabelPicker from './LabelPicker.tsx';
+import DueDateInput from './DueDateInput.tsx';
+import RecurrenceInput from './RecurrenceInput.tsx';
+import SubtaskChecklist from './SubtaskChecklist.tsx';
+import TaskComments from './TaskComments.tsx';
+import TaskHistory from './TaskHistory.tsx';
+import TaskDependencyPicker from './TaskDependencyPicker.tsx';
+import TaskAttachments from './TaskAttachments.tsx';
+import TaskTimeTracking from './TaskTimeTracking.tsx';
+import TaskWatchers from './TaskWatchers.tsx';
+import MoveTaskPanel from './MoveTaskPanel.tsx';
 import '../styles/task_inspector.css';
+import '../styles/task_badges.css'; // For task key styling
 import '../styles/project_details.css'; // For char-count styling
 
 interface TaskInspectorProps {
@@ -15,11 +42,26 @@ interface TaskInspectorProps {
   onClose: () => void;
   onUpdate: (task: Task) => void;
   members: User[];
+  sprints?: Sprint[];
+  labels?: Label[];
+  projectTasks?: Task[];
+  workflow?: WorkflowStatus[];
   onStatusChange: (task: Task, newStatus: number) => Promise<void>;
   onAssigneeChange: (task: Task, newAssigneeId: string) => Promise<void>;
-  onDescriptionUpdate: (taskId: string, description: string) => Promise<void>;
+  onDetailsUpdate: (taskId: string, updates: TaskDetailsUpdate) => Promise<void>;
 }
 
+// Plain task fields saved through a single update request (status and assignee have dedicated handlers)
+export type TaskDetailsUpdate = Omit<UpdateTaskData, 'id' | 'status' | 'assigneeId' | 'sprintId'>;
+
+// Comparable form of a repeat rule (weekday order and duplicates don't matter)
+const recurrenceKey = (recurrence: TaskRecurrence | null | undefined): string =>
+  recurrence ? `${recurrence.frequency}:${getRecurrenceWeekdays(recurrence).join(',')}` : '';
+
+// Order-insensitive comparison of ID lists
+const haveSameIds = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((id) => b.includes(id));
+
 /**
  * TaskInspector Component
  * 
@@ -32,32 +74,75 @@ const TaskInspector: React.FC<TaskInspectorProps> = ({
   onClose,
   onUpdate,
   members,
+  sprints = [],
+  labels = [],
+  projectTasks = [],
+  workflow = DEFAULT_WORKFLOW,
   onStatusChange,
   onAssigneeChange,
-  onDescriptionUpdate,
+  onDetailsUpdate,
 }) => {
+  const [title, setTitle] = useState<string>('');
   const [description, setDescription] = useState<string>('');
   const [status, setStatus] = useState<number>(0);
   const [assigneeId, setAssigneeId] = useState<string>('');
+  const [estimate, setEstimate] = useState<string>('');
+  const [timeEstimate, setTimeEstimate] = useState<string>('');
+  const [priority, setPriority] = useState<number>(DEFAULT_TASK_PRIORITY);
+  const [labelIds, setLabelIds] = useState<string[]>([]);
+  const [dueDate, setDueDate] = useState<string>('');
+  const [blockedByIds, setBlockedByIds] = useState<string[]>([]);
+  const [blocksIds, setBlocksIds] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<TaskRecurrence | null>(null);
   const [isSaving, setIsSaving] = useState<boolean>(false);
-  const { showError } = useToast();
-  
-  // Auto-resize textarea for description
-  const descriptionTextareaRef = useAutoResizeTextarea(description, 4);
+  const [activeTab, setActiveTab] = useState<'details' | 'comments' | 'history'>('details');
+  const [isMovingTask, setIsMovingTask] = useState<boolean>(false);
+  const { showSuccess, showError } = useToast();
+  const duplicateTaskMutation = useDuplicateTask();
+
+  // Stable dependency for the task's label IDs
+  const taskLabelKey = (task?.labelIds || []).join(',');
+  const taskBlockedByKey = (task?.blockedByIds || []).join(',');
+  const taskBlocksKey = (task?.blocksIds || []).join(',');
+  const taskRecurrenceKey = recurrenceKey(task?.recurrence);
 
   // Update local state when task changes
   useEffect(() => {
     if (task) {
+      setTitle(task.title || '');
       setDescription(task.description || '');
       setStatus(task.status);
       setAssigneeId(task.assigneeId || '');
+      setEstimate(task.estimate !== undefined && task.estimate !== null ? String(task.estimate) : '');
+      setTimeEstimate(task.timeEstimateMinutes ? formatDuration(task.timeEstimateMinutes) : '');
+      setPriority(getTaskPriority(task));
+      setLabelIds(task.labelIds || []);
+      setDueDate(task.dueDate ? task.dueDate.slice(0, 10) : '');
+      setBlockedByIds(task.blockedByIds || []);
+      setBlocksIds(task.blocksIds || []);
+      setRecurrence(task.recurrence || null);
     } else {
       // Reset form when task is cleared
+      setTitle('');
       setDescription('');
       setStatus(0);
       setAssigneeId('');
+      setEstimate('');
+      setTimeEstimate('');
+      setPriority(DEFAULT_TASK_PRIORITY);
+      setLabelIds([]);
+      setDueDate('');
+      setBlockedByIds([]);
+      setBlocksIds([]);
+      setRecurrence(null);
     }
-  }, [task?.id, task?.description, task?.status, task?.assigneeId]);
+  }, [task?.id, task?.title, task?.description, task?.status, task?.assigneeId, task?.estimate, task?.timeEstimateMinutes, task?.priority, task?.dueDate, taskLabelKey, taskBlockedByKey, taskBlocksKey, taskRecurrenceKey]);
+
+  // Always open a newly inspected task on the Details tab
+  useEffect(() => {
+    setActiveTab('details');
+    setIsMovingTask(false);
+  }, [task?.id]);
 
   // Lock scroll while inspector is open
   useEffect(() => {
@@ -88,13 +173,73 @@ const TaskInspector: React.FC<TaskInspectorProps> = ({
   const handleSave = async (): Promise<void> => {
     if (!task) return;
 
+    if (!title.trim()) {
+      showError('Task title is required');
+      return;
+    }
+
+    if (!isValidText(title)) {
+      showError('Title contains invalid characters. Only letters, numbers, spaces, and basic punctuation (! ? . , - _ ( )) are allowed.');
+      return;
+    }
+
+    const estimateValue = estimate.trim() === '' ? null : Number(estimate);
+    if (estimateValue !== null && !isValidEstimate(estimateValue)) {
+      showError(`Estimate must be between 0 and ${TASK_ESTIMATE_MAX} points.`);
+      return;
+    }
+
+    const timeEstimateValue = timeEstimate.trim() === '' ? null : parseDuration(timeEstimate);
+    if (timeEstimate.trim() !== '' && (timeEstimateValue === null || timeEstimateValue > TIME_ESTIMATE_MAX_MINUTES)) {
+      showError(`Time estimate must be a duration like 4h or 1h 30m, up to ${formatDuration(TIME_ESTIMATE_MAX_MINUTES)}.`);
+      return;
+    }
+
+    const recurrenceError = validateRecurrence(recurrence);
+    if (recurrenceError) {
+      showError(recurrenceError);
+      return;
+    }
+
     setIsSaving(true);
     try {
       const updates: Promise<void>[] = [];
 
-      // Update description if changed
-      if (description !== task.description) {
-        updates.push(onDescriptionUpdate(task.id, description));
+      // Update plain fields (title, description, estimates, priority, labels, due date, repeat rule) together if any changed
+      const details: TaskDetailsUpdate = {};
+      if (title.trim() !== (task.title || '')) {
+        details.title = title.trim();
+      }
+      if (description !== (task.description || '')) {
+        details.description = description;
+      }
+      if (estimateValue !== (task.estimate ?? null)) {
+        details.estimate = estimateValue;
+      }
+      if (timeEstimateValue !== (task.timeEstimateMinutes ?? null)) {
+        details.timeEstimateMinutes = timeEstimateValue;
+      }
+      if (priority !== getTaskPriority(task)) {
+        details.priority = priority;
+      }
+      if (!haveSameIds(labelIds, task.labelIds || [])) {
+        details.labelIds = labelIds;
+      }
+      const dueDateValue = dueDate || null;
+      if (dueDateValue !== (task.dueDate ? task.dueDate.slice(0, 10) : null)) {
+        details.dueDate = dueDateValue;
+      }
+      if (!haveSameIds(blockedByIds, task.blockedByIds || [])) {
+        details.blockedByIds = blockedByIds;
+      }
+      if (!haveSameIds(blocksIds, task.blocksIds || [])) {
+        details.blocksIds = blocksIds;
+      }
+      if (recurrenceKey(recurrence) !== taskRecurrenceKey) {
+        details.recurrence = recurrence;
+      }
+      if (Object.keys(details).length > 0) {
+        updates.push(onDetailsUpdate(task.id, details));
       }
 
       // Update status if changed
@@ -113,7 +258,16 @@ const TaskInspector: React.FC<TaskInspectorProps> = ({
       // Update local task state after all API calls complete
       const updatedTask: Task = {
         ...task,
+        title: title.trim(),
         description,
+        estimate: estimateValue,
+        timeEstimateMinutes: timeEstimateValue,
+        priority,
+        labelIds,
+        dueDate: dueDate || null,
+        blockedByIds,
+        blocksIds,
+        recurrence,
         status,
         assigneeId: assigneeId || null,
       };
@@ -131,8 +285,37 @@ const TaskInspector: React.FC<TaskInspectorProps> = ({
     }
   };
 
+  // Copies the saved task, not unsaved edits in the form
+  const handleDuplicate = async (): Promise<void> => {
+    if (!task) return;
+    try {
+      const copy = await duplicateTaskMutation.mutateAsync(task);
+      showSuccess(copy.key ? `Duplicated as ${copy.key}` : `Created "${copy.title}"`);
+    } catch (err: any) {
+      console.error('❌ Error duplicating task:', err);
+      showError(err.response?.data?.message || err.message || 'Failed to duplicate task');
+    }
+  };
+
+  // Copy the task's deep link (/p/DH/task/DH-142) for chat, commits and standups
+  const handleCopyLink = async (): Promise<void> => {
+    const path = getTaskLinkPath(task?.key);
+    if (!task?.key || !path) return;
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${path}`);
+      showSuccess(`Copied link to ${task.key}`);
+    } catch (err) {
+      console.error('❌ Error copying task link:', err);
+      showError(`Couldn't copy the link to ${task.key}`);
+    }
+  };
+
   if (!task || !isOpen) return null;
 
+  // Other tasks in the project that can be linked as dependencies
+  const linkableTasks = projectTasks.filter((t) => t.id !== task.id);
+  const unresolvedBlockers = getUnresolvedBlockers({ ...task, blockedByIds }, projectTasks, workflow);
+
   const target = document.getElementById('modal-root') ?? document.body;
 
   const inspectorContent = (
@@ -149,7 +332,20 @@ const TaskInspector: React.FC<TaskInspectorProps> = ({
         <div className="task-inspector-content">
           {/* Header */}
           <header className="task-inspector-header">
-            <h2 className="task-inspector-title">Task Details</h2>
+            <div className="task-inspector-heading">
+              <h2 className="task-inspector-title">Task Details</h2>
+              {task.key && (
+                <button
+                  type="button"
+                  className="task-inspector-key"
+                  onClick={handleCopyLink}
+                  title={`Copy link to ${task.key}`}
+                >
+                  <span className="task-key">{task.key}</span>
+                  <FontAwesomeIcon icon={faLink} />
+                </button>
+              )}
+            </div>
             <button
               className="task-inspector-close"
               onClick={onClose}
@@ -159,82 +355,331 @@ const TaskInspector: React.FC<TaskInspectorProps> = ({
             </button>
           </header>
 
-          {/* Body */}
-          <div className="task-inspector-body">
-            {/* Description */}
-            <div className="inspector-field">
-              <label htmlFor="task-description" className="inspector-label">
-                Description
-              </label>
-              <textarea
-                ref={descriptionTextareaRef}
-                id="task-description"
-                className="inspector-textarea"
-                value={description}
-                onChange={(e) => setDescription(e.target.value)}
-                rows={4}
-                placeholder="Enter task description..."
-                maxLength={255}
-                style={{ resize: 'none', overflow: 'hidden' }}
-              />
-              <div className="char-count">{description.length}/255</div>
-            </div>
-
-            {/* Status */}
-            <div className="inspector-field">
-              <label htmlFor="task-status" className="inspector-label">
-                Status
-              </label>
-              <select
-                id="task-status"
-                className="inspector-select"
-                value={status}
-                onChange={(e) => setStatus(parseInt(e.target.value))}
-              >
-                <option value={0}>To Do</option>
-                <option value={1}>In Progress</option>
-                <option value={2}>Completed</option>
-              </select>
-            </div>
-
-            {/* Assignee */}
-            <div className="inspector-field">
-              <label htmlFor="task-assignee" className="inspector-label">
-                Assignee
-              </label>
-              <select
-                id="task-assignee"
-                className="inspector-select"
-                value={assigneeId}
-                onChange={(e) => setAssigneeId(e.target.value)}
-              >
-                <option value="">Unassigned</option>
-                {members.map((member: User) => (
-                  <option key={member.id} value={member.id}>
-                    {member.firstName} {member.lastName}
-                  </option>
-                ))}
-              </select>
-            </div>
-          </div>
-
-          {/* Footer */}
-          <footer className="task-inspector-footer">
+          {/* Tabs */}
+          <div className="task-inspector-tabs" role="tablist">
             <button
-              className="inspector-btn inspector-btn--secondary"
-              onClick={onClose}
-              disabled={isSaving}
+              type="button"
+              role="tab"
+              aria-selected={activeTab === 'details'}
+              className={`task-inspector-tab ${activeTab === 'details' ? 'is-active' : ''}`}
+              onClick={() => setActiveTab('details')}
             >
-              Cancel
+              Details
             </button>
             <button
-              className="inspector-btn inspector-btn--primary"
-              onClick={handleSave}
-              disabled={isSaving}
+              type="button"
+              role="tab"
+              aria-selected={activeTab === 'comments'}
+              className={`task-inspector-tab ${activeTab === 'comments' ? 'is-active' : ''}`}
+              onClick={() => setActiveTab('comments')}
             >
-              {isSaving ? 'Saving...' : 'Save'}
+              Comments
             </button>
-          </footer>
+            <button
+              type="button"
+              role="tab"
+              aria-selected={activeTab === 'history'}
+              className={`task-inspector-tab ${activeTab === 'history' ? 'is-active' : ''}`}
+              onClick={() => setActiveTab('history')}
+            >
+              History
+            </button>
+          </div>
+
+          {/* Body */}
+          {activeTab === 'comments' ? (
+            <div className="task-inspector-body task-inspector-body--comments">
+              <TaskComments taskId={task.id} members={members} />
+            </div>
+          ) : activeTab === 'history' ? (
+            <div className="task-inspector-body">
+              <TaskHistory taskId={task.id} members={members} sprints={sprints} labels={labels} workflow={workflow} />
+            </div>
+          ) : (
+            <div className="task-inspector-body">
+              {/* Task actions */}
+              <div className="inspector-actions">
+                <button
+                  type="button"
+                  className="inspector-action-btn"
+                  onClick={handleDuplicate}
+                  disabled={duplicateTaskMutation.isPending}
+                  title="Copy description, estimate, labels and checklist into a new task"
+                >
+                  <FontAwesomeIcon icon={faClone} />
+                  {duplicateTaskMutation.isPending ? 'Duplicating...' : 'Duplicate'}
+                </button>
+                <button
+                  type="button"
+                  className="inspector-action-btn"
+                  onClick={() => setIsMovingTask(true)}
+                  disabled={isMovingTask}
+                  aria-expanded={isMovingTask}
+                >
+                  <FontAwesomeIcon icon={faShareFromSquare} />
+                  Move to project...
+                </button>
+              </div>
+
+              {isMovingTask && (
+                <MoveTaskPanel
+                  task={task}
+                  members={members}
+                  onCancel={() => setIsMovingTask(false)}
+                  onMoved={() => {
+                    setIsMovingTask(false);
+                    // The task has left this project's board
+                    onClose();
+                  }}
+                />
+              )}
+
+              {/* Title */}
+              <div className="inspector-field">
+                <label htmlFor="task-title" className="inspector-label">
+                  Title
+                </label>
+                <input
+                  type="text"
+                  id="task-title"
+                  className="inspector-input"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="Enter task title..."
+                  maxLength={TASK_TITLE_MAX_LENGTH}
+                />
+                <div className="char-count">{title.length}/{TASK_TITLE_MAX_LENGTH}</div>
+              </div>
+
+              {/* Description */}
+              <div className="inspector-field">
+                <label htmlFor="task-description" className="inspector-label">
+                  Description
+                </label>
+                <MarkdownEditor
+                  key={task.id}
+                  id="task-description"
+                  value={description}
+                  onChange={setDescription}
+                  textareaClassName="inspector-textarea"
+                  placeholder="Describe the task (Markdown supported)..."
+                  maxLength={TASK_DESCRIPTION_MAX_LENGTH}
+                  initialMode={task.description ? 'preview' : 'write'}
+                />
+              </div>
+
+              {/* Checklist (saved immediately, independent of the Save button) */}
+              <div className="inspector-field">
+                <span className="inspector-label">Checklist</span>
+                <SubtaskChecklist task={task} members={members} />
+              </div>
+
+              {/* Attachments (uploaded immediately, independent of the Save button) */}
+              <div className="inspector-field">
+                <span className="inspector-label">Attachments</span>
+                <TaskAttachments taskId={task.id} />
+              </div>
+
+              {/* Time Tracking (logged immediately, independent of the Save button) */}
+              <div className="inspector-field">
+                <span className="inspector-label">Time Tracking</span>
+                <TaskTimeTracking key={task.id} task={task} members={members} />
+              </div>
+
+              {/* Watchers (saved immediately, independent of the Save button) */}
+              <div className="inspector-field">
+                <span className="inspector-label">Watchers</span>
+                <TaskWatchers task={task} members={members} />
+              </div>
+
+              {/* Status */}
+              <div className="inspector-field">
+                <label htmlFor="task-status" className="inspector-label">
+                  Status
+                </label>
+                <select
+                  id="task-status"
+                  className="inspector-select"
+                  value={status}
+                  onChange={(e) => setStatus(parseInt(e.target.value))}
+                >
+                  {!getWorkflowStatus(workflow, status) && (
+                    <option value={status}>Unknown status</option>
+                  )}
+                  {workflow.map((workflowStatus) => (
+                    <option key={workflowStatus.id} value={workflowStatus.id}>
+                      {workflowStatus.name}
+                    </option>
+                  ))}
+                </select>
+                {isDoneStatus(workflow, status) && unresolvedBlockers.length > 0 && (
+                  <p className="inspector-warning" role="alert">
+                    Still blocked by {unresolvedBlockers.length} unfinished {unresolvedBlockers.length === 1 ? 'task' : 'tasks'}.
+                  </p>
+                )}
+              </div>
+
+              {/* Priority */}
+              <div className="inspector-field">
+                <label htmlFor="task-priority" className="inspector-label">
+                  Priority
+                </label>
+                <select
+                  id="task-priority"
+                  className="inspector-select"
+                  value={priority}
+                  onChange={(e) => setPriority(parseInt(e.target.value))}
+                >
+                  {TASK_PRIORITIES.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Estimate */}
+              <div className="inspector-field">
+                <label htmlFor="task-estimate" className="inspector-label">
+                  Estimate (Story Points)
+                </label>
+                <input
+                  type="number"
+                  id="task-estimate"
+                  className="inspector-input"
+                  value={estimate}
+                  onChange={(e) => setEstimate(e.target.value)}
+                  placeholder="Not estimated"
+                  min={0}
+                  max={TASK_ESTIMATE_MAX}
+                  step={0.5}
+                  inputMode="decimal"
+                />
+              </div>
+
+              {/* Time Estimate */}
+              <div className="inspector-field">
+                <label htmlFor="task-time-estimate" className="inspector-label">
+                  Time Estimate
+                </label>
+                <input
+                  type="text"
+                  id="task-time-estimate"
+                  className="inspector-input"
+                  value={timeEstimate}
+                  onChange={(e) => setTimeEstimate(e.target.value)}
+                  placeholder="e.g. 4h or 1h 30m"
+                />
+              </div>
+
+              {/* Due Date */}
+              <div className="inspector-field">
+                <label htmlFor="task-due-date" className="inspector-label">
+                  Due Date
+                </label>
+                <DueDateInput
+                  id="task-due-date"
+                  className="inspector-input"
+                  value={dueDate}
+                  onChange={setDueDate}
+                  sprint={sprints.find((s) => s.id === task.sprintId)}
+                />
+              </div>
+
+              {/* Repeat */}
+              <div className="inspector-field">
+                <label htmlFor="task-recurrence" className="inspector-label">
+                  Repeat
+                </label>
+                <RecurrenceInput
+                  id="task-recurrence"
+                  className="inspector-select"
+                  value={recurrence}
+                  onChange={setRecurrence}
+                />
+              </div>
+
+              {/* Labels */}
+              <div className="inspector-field">
+                <span className="inspector-label">Labels</span>
+                <LabelPicker labels={labels} selectedIds={labelIds} onChange={setLabelIds} />
+              </div>
+
+              {/* Dependencies */}
+              <div className="inspector-field">
+                <label htmlFor="task-blocked-by" className="inspector-label">
+                  Blocked By
+                </label>
+                <TaskDependencyPicker
+                  id="task-blocked-by"
+                  tasks={linkableTasks}
+                  selectedIds={blockedByIds}
+                  excludeIds={blocksIds}
+                  workflow={workflow}
+                  onChange={setBlockedByIds}
+                  emptyText="Nothing is blocking this task."
+                />
+              </div>
+
+              <div className="inspector-field">
+                <label htmlFor="task-blocks" className="inspector-label">
+                  Blocks
+                </label>
+                <TaskDependencyPicker
+                  id="task-blocks"
+                  tasks={linkableTasks}
+                  selectedIds={blocksIds}
+                  excludeIds={blockedByIds}
+                  workflow={workflow}
+                  onChange={setBlocksIds}
+                  emptyText="No tasks are waiting on this one."
+                />
+                {blocksIds.length > 0 && (
+                  <p className="inspector-hint">Finishing this task unblocks the tasks above.</p>
+                )}
+              </div>
+
+              {/* Assignee */}
+              <div className="inspector-field">
+                <label htmlFor="task-assignee" className="inspector-label">
+                  Assignee
+                </label>
+                <select
+                  id="task-assignee"
+                  className="inspector-select"
+                  value={assigneeId}
+                  onChange={(e) => setAssigneeId(e.target.value)}
+                >
+                  <option value="">Unassigned</option>
+                  {members.map((member: User) => (
+                    <option key={member.id} value={member.id}>
+                      {member.firstName} {member.lastName}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          {/* Footer (details only - comments save as they are posted) */}
+          {activeTab === 'details' && (
+            <footer className="task-inspector-footer">
+              <button
+                className="inspector-btn inspector-btn--secondary"
+                onClick={onClose}
+                disabled={isSaving}
+              >
+                Cancel
+              </button>
+              <button
+                className="inspector-btn inspector-btn--primary"
+                onClick={handleSave}
+                disabled={isSaving}
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </footer>
+          )}
         </div>
       </div>
     </div>
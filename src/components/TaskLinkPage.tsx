@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { setSelectedProject } from '../services/storageService';
+import { useTaskByKey } from '../hooks/useTasks.ts';
+import { parseTaskKey, getTaskLinkPath } from '../utils/taskKeyUtils.ts';
+import LoadingFallback from './LoadingFallback.tsx';
+import Board from './Board.tsx';
+import '../styles/board.css';
+
+/**
+ * TaskLinkPage Component
+ *
+ * Resolves a task deep link (/p/DH/task/DH-142): selects the task's project and
+ * shows the Board with the task open in the inspector.
+ */
+const TaskLinkPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { projectKey = '', taskKey = '' } = useParams<{ projectKey: string; taskKey: string }>();
+
+  // The project segment must agree with the key's prefix; DH/task/XY-3 is a broken link
+  const parsed = parseTaskKey(taskKey);
+  const isValidLink = !!parsed && parsed.projectKey === projectKey.toUpperCase();
+  const canonicalPath = isValidLink ? getTaskLinkPath(taskKey) : null;
+
+  const { data: task, isLoading, error } = useTaskByKey(isValidLink ? taskKey : null);
+
+  // Board reads the selected project once on mount, so only render it after switching
+  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
+
+  // Normalize "/p/dh/task/dh-142" so copied links always look the same
+  useEffect(() => {
+    if (canonicalPath && canonicalPath !== `/p/${projectKey}/task/${taskKey}`) {
+      navigate(canonicalPath, { replace: true });
+    }
+  }, [canonicalPath, projectKey, taskKey, navigate]);
+
+  useEffect(() => {
+    if (!task?.projectId) return;
+    setSelectedProject(task.projectId);
+    setSelectedProjectId(task.projectId);
+  }, [task?.projectId]);
+
+  if (isValidLink && (isLoading || (task && selectedProjectId !== task.projectId))) {
+    return <LoadingFallback />;
+  }
+
+  if (!isValidLink || error || !task) {
+    const status = (error as any)?.response?.status;
+    return (
+      <div className="task-link-page">
+        <div className="task-link-card">
+          <h1 className="task-link-title">Task not found</h1>
+          <p className="task-link-text">
+            {!isValidLink
+              ? `"${taskKey}" isn't a valid task key for project ${projectKey.toUpperCase()}.`
+              : status === 403
+                ? `You don't have access to ${taskKey.toUpperCase()}.`
+                : `No task with the key ${taskKey.toUpperCase()} exists, or it was deleted.`}
+          </p>
+          <button type="button" className="task-link-btn" onClick={() => navigate('/projects')}>
+            Go to Projects
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return <Board key={task.projectId} linkedTask={task} />;
+};
+
+export default TaskLinkPage;
@@ -0,0 +1,139 @@
+import React, { useId, useRef, useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faSearch, faTimes } from '@fortawesome/free-solid-svg-icons';
+import { TaskQueryContext } from '../types/hooks.ts';
+import {
+  TaskQuerySuggestion,
+  getTaskQuerySuggestions,
+  applyTaskQuerySuggestion,
+} from '../utils/taskQuery.ts';
+import '../styles/task_badges.css';
+
+interface TaskSearchBoxProps {
+  value: string;
+  onChange: (value: string) => void;
+  context: TaskQueryContext;
+  className?: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * TaskSearchBox Component
+ *
+ * Search input for the task query language (`assignee:me status:inprogress "login page"`)
+ * with autocomplete for field names and their values.
+ */
+const TaskSearchBox: React.FC<TaskSearchBoxProps> = ({ value, onChange, context, className = '' }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listboxId = useId();
+  const [cursor, setCursor] = useState<number>(0);
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [activeIndex, setActiveIndex] = useState<number>(0);
+
+  const suggestions: TaskQuerySuggestion[] = isOpen
+    ? getTaskQuerySuggestions(value, cursor, context).slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const updateCursor = (): void => {
+    setCursor(inputRef.current?.selectionStart ?? value.length);
+  };
+
+  const applySuggestion = (suggestion: TaskQuerySuggestion): void => {
+    const next = applyTaskQuerySuggestion(value, cursor, suggestion);
+    onChange(next.value);
+    setCursor(next.cursor);
+    setActiveIndex(0);
+    // Restore the caret after React re-renders the input with the new value
+    window.requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(next.cursor, next.cursor);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key === 'Escape') {
+      if (suggestions.length > 0) {
+        setIsOpen(false);
+      } else {
+        onChange('');
+      }
+      return;
+    }
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((activeIndex + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((activeIndex - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applySuggestion(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+    }
+  };
+
+  return (
+    <div className={`task-search ${className}`}>
+      <FontAwesomeIcon icon={faSearch} className="task-search-icon" aria-hidden="true" />
+      <input
+        ref={inputRef}
+        type="text"
+        className="task-search-input"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCursor(e.target.selectionStart ?? e.target.value.length);
+          setIsOpen(true);
+          setActiveIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={(e) => {
+          if (e.key === 'ArrowLeft' || e.key === 'ArrowRight' || e.key === 'Home' || e.key === 'End') updateCursor();
+        }}
+        onClick={updateCursor}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        placeholder='Search, e.g. assignee:me label:bug "login"'
+        role="combobox"
+        aria-label="Search tasks"
+        aria-autocomplete="list"
+        aria-expanded={suggestions.length > 0}
+        aria-controls={listboxId}
+        autoComplete="off"
+        spellCheck={false}
+      />
+      {value && (
+        <button type="button" className="task-search-clear" onClick={() => onChange('')} aria-label="Clear search">
+          <FontAwesomeIcon icon={faTimes} />
+        </button>
+      )}
+
+      {suggestions.length > 0 && (
+        <ul id={listboxId} className="task-search-suggestions" role="listbox">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.value}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`task-search-suggestion ${index === activeIndex ? 'task-search-suggestion--active' : ''}`}
+              // mousedown so the input's blur doesn't close the list before the click lands
+              onMouseDown={(e) => {
+                e.preventDefault();
+                applySuggestion(suggestion);
+              }}
+            >
+              <span className="task-search-suggestion-label">{suggestion.label}</span>
+              {suggestion.description && (
+                <span className="task-search-suggestion-description">{suggestion.description}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TaskSearchBox;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { Task, Sprint, Label, WorkflowStatus } from '../types/hooks.ts';
+import PriorityIcon from './PriorityIcon.tsx';
+import LabelChips from './LabelChips.tsx';
+import DueDateBadge from './DueDateBadge.tsx';
+import { getTaskTitle, getTaskPriority } from '../utils/taskUtils.ts';
+import { getTaskLabels } from '../utils/labelUtils.ts';
+import { getWorkflowStatus, getStatusName } from '../utils/workflowUtils.ts';
+import '../styles/backlog.css';
+import '../styles/task_badges.css';
+
+interface TaskSearchResultsProps {
+  tasks: Task[];
+  totalCount: number;
+  isLoading: boolean; // Project tasks still loading - results would be partial
+  sprints: Sprint[];
+  labels: Label[];
+  workflow: WorkflowStatus[];
+  onTaskClick: (task: Task) => void;
+}
+
+/**
+ * TaskSearchResults Component
+ *
+ * Project-wide list of tasks matching the Backlog search, with each task's sprint and status.
+ */
+const TaskSearchResults: React.FC<TaskSearchResultsProps> = ({ tasks, totalCount, isLoading, sprints, labels, workflow, onTaskClick }) => {
+  const getSprintName = (sprintId?: string): string =>
+    sprintId ? sprints.find((sprint) => sprint.id === sprintId)?.name || 'Unknown sprint' : 'Product Backlog';
+
+  if (isLoading) {
+    return (
+      <section className="task-search-results" aria-label="Search results">
+        <p className="task-search-results-count">Loading all project tasks...</p>
+      </section>
+    );
+  }
+
+  return (
+    <section className="task-search-results" aria-label="Search results">
+      <p className="task-search-results-count">
+        {tasks.length} of {totalCount} task{totalCount === 1 ? '' : 's'} match
+      </p>
+
+      {tasks.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-illustration" aria-hidden>🔍</div>
+          <h2 className="empty-title">No Matching Tasks</h2>
+          <p className="empty-subtitle">Try fewer terms, or OR between alternatives.</p>
+        </div>
+      ) : (
+        <div className="tasks-adaptive">
+          {tasks.map((task) => (
+            <div key={task.id} data-task-id={task.id} className="task-row" onClick={() => onTaskClick(task)}>
+              <div className="task-row-content">
+                <span
+                  className="task-search-result-status"
+                  style={{ '--status-color': getWorkflowStatus(workflow, task.status)?.color } as React.CSSProperties}
+                >
+                  {getStatusName(workflow, task.status)}
+                </span>
+                <PriorityIcon priority={getTaskPriority(task)} />
+                <span className="task-row-title">{getTaskTitle(task)}</span>
+                <DueDateBadge task={task} workflow={workflow} />
+                <LabelChips labels={getTaskLabels(task, labels)} className="task-row-labels" />
+                <span className="task-search-result-sprint">{getSprintName(task.sprintId)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default TaskSearchResults;
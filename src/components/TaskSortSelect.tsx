@@ -0,0 +1,34 @@
+import React from 'react';
+import { TaskSortMode } from '../types/hooks.ts';
+import { TASK_SORT_OPTIONS } from '../utils/taskUtils.ts';
+import '../styles/task_badges.css';
+
+interface TaskSortSelectProps {
+  value: TaskSortMode;
+  onChange: (mode: TaskSortMode) => void;
+  className?: string;
+}
+
+/**
+ * TaskSortSelect Component
+ *
+ * Dropdown for choosing how task lists are ordered.
+ */
+const TaskSortSelect: React.FC<TaskSortSelectProps> = ({ value, onChange, className = '' }) => (
+  <label className={`task-sort-select ${className}`}>
+    <span className="task-sort-select-label">Sort by</span>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as TaskSortMode)}
+      aria-label="Sort tasks by"
+    >
+      {TASK_SORT_OPTIONS.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+export default TaskSortSelect;
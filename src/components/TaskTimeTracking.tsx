@@ -0,0 +1,236 @@
+import React, { useEffect, useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faPlay, faStop, faTrash } from '@fortawesome/free-solid-svg-icons';
+import { useTaskWorkLogs, useCreateWorkLog, useDeleteWorkLog, useWorkTimer } from '../hooks/useWorkLogs.ts';
+import { useAuthContext } from '../contexts/AuthContext.tsx';
+import { useToast } from '../contexts/ToastContext.tsx';
+import { Task, User, WorkLog } from '../types/hooks.ts';
+import { toDateInputValue, formatDueDate } from '../utils/taskUtils.ts';
+import {
+  WORK_LOG_MAX_MINUTES,
+  WORK_LOG_NOTE_MAX_LENGTH,
+  parseDuration,
+  formatDuration,
+  getElapsedMinutes,
+  formatTimerClock,
+  getTimeTrackingSummary,
+} from '../utils/timeTrackingUtils.ts';
+import '../styles/task_inspector.css';
+
+interface TaskTimeTrackingProps {
+  task: Task;
+  members: User[];
+}
+
+/**
+ * TaskTimeTracking Component
+ *
+ * Time logged against a task, shown in the TaskInspector: logged vs. estimated time,
+ * a form for logging a duration on a day with a note, and a start/stop timer that
+ * keeps running across page reloads and fills in the form when stopped.
+ */
+const TaskTimeTracking: React.FC<TaskTimeTrackingProps> = ({ task, members }) => {
+  const { userId } = useAuthContext();
+  const { showSuccess, showError } = useToast();
+  const { data: workLogs = [], isLoading } = useTaskWorkLogs(task.id);
+  const createWorkLogMutation = useCreateWorkLog();
+  const deleteWorkLogMutation = useDeleteWorkLog();
+  const { timer, startTimer, clearTimer } = useWorkTimer();
+
+  const [duration, setDuration] = useState<string>('');
+  const [date, setDate] = useState<string>(() => toDateInputValue(new Date()));
+  const [note, setNote] = useState<string>('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [now, setNow] = useState<Date>(() => new Date());
+
+  const isTimingThisTask = timer?.taskId === task.id;
+  const summary = getTimeTrackingSummary(task);
+  const minutes = parseDuration(duration);
+  const durationError =
+    duration.trim() && minutes === null
+      ? 'Enter a duration like 1h 30m, 45m or 1.5'
+      : minutes !== null && minutes > WORK_LOG_MAX_MINUTES
+        ? `One entry can be at most ${formatDuration(WORK_LOG_MAX_MINUTES)}; split longer work across days`
+        : null;
+
+  // Tick the clock while this task's timer runs
+  useEffect(() => {
+    if (!isTimingThisTask) return;
+    setNow(new Date());
+    const interval = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(interval);
+  }, [isTimingThisTask]);
+
+  const getMemberName = (memberId: string): string => {
+    const member = members.find((m) => m.id === memberId);
+    return member ? `${member.firstName} ${member.lastName}` : 'Former member';
+  };
+
+  // Stopping fills in the form so the time can be checked and described before it's logged
+  const handleStopTimer = (): void => {
+    if (!timer) return;
+    setDuration(formatDuration(getElapsedMinutes(timer.startedAt)));
+    setDate(toDateInputValue(new Date(timer.startedAt)));
+    clearTimer();
+  };
+
+  const handleLogTime = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    if (minutes === null || durationError) return;
+    try {
+      await createWorkLogMutation.mutateAsync({ taskId: task.id, minutes, date, note });
+      showSuccess(`Logged ${formatDuration(minutes)}`);
+      setDuration('');
+      setNote('');
+    } catch (err: any) {
+      console.error('❌ Error logging time:', err);
+      showError(err.response?.data?.message || err.message || 'Failed to log time');
+    }
+  };
+
+  const handleDelete = async (workLog: WorkLog): Promise<void> => {
+    setConfirmDeleteId(null);
+    try {
+      await deleteWorkLogMutation.mutateAsync({ taskId: task.id, workLog });
+      showSuccess(`Removed ${formatDuration(workLog.minutes)} from the log`);
+    } catch (err: any) {
+      console.error('❌ Error deleting work log:', err);
+      showError(err.response?.data?.message || err.message || 'Failed to delete work log');
+    }
+  };
+
+  return (
+    <div className="time-tracking">
+      <div className="time-tracking-summary">
+        <span>
+          <strong>{formatDuration(summary.logged)}</strong> logged
+          {summary.estimate !== null && <> of {formatDuration(summary.estimate)}</>}
+        </span>
+        {summary.isOverEstimate ? (
+          <span className="time-tracking-over">{formatDuration(summary.logged - summary.estimate!)} over estimate</span>
+        ) : summary.remaining !== null ? (
+          <span>{formatDuration(summary.remaining)} remaining</span>
+        ) : null}
+      </div>
+      {summary.estimate !== null && summary.estimate > 0 && (
+        <div className={`time-tracking-bar ${summary.isOverEstimate ? 'is-over' : ''}`} aria-hidden="true">
+          <div
+            className="time-tracking-bar-fill"
+            style={{ width: `${Math.min(100, (summary.logged / summary.estimate) * 100)}%` }}
+          />
+        </div>
+      )}
+
+      <div className="time-tracking-timer">
+        {isTimingThisTask ? (
+          <>
+            <span className="time-tracking-clock" role="timer">
+              {formatTimerClock(timer!.startedAt, now)}
+            </span>
+            <button type="button" className="time-tracking-timer-btn is-running" onClick={handleStopTimer}>
+              <FontAwesomeIcon icon={faStop} />
+              Stop
+            </button>
+            <button type="button" className="time-tracking-link" onClick={clearTimer}>
+              Discard
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              type="button"
+              className="time-tracking-timer-btn"
+              onClick={() => startTimer(task.id, task.key || task.title)}
+              disabled={!!timer}
+            >
+              <FontAwesomeIcon icon={faPlay} />
+              Start timer
+            </button>
+            {timer && (
+              <span className="inspector-hint">A timer is already running on {timer.taskLabel}. Stop it there first.</span>
+            )}
+          </>
+        )}
+      </div>
+
+      <form className="time-tracking-form" onSubmit={handleLogTime}>
+        <input
+          type="text"
+          className="inspector-input time-tracking-duration"
+          value={duration}
+          onChange={(e) => setDuration(e.target.value)}
+          placeholder="e.g. 1h 30m"
+          aria-label="Time spent"
+        />
+        <input
+          type="date"
+          className="inspector-input time-tracking-date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          max={toDateInputValue(new Date())}
+          aria-label="Date worked"
+          required
+        />
+        <input
+          type="text"
+          className="inspector-input time-tracking-note"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="What did you work on? (optional)"
+          maxLength={WORK_LOG_NOTE_MAX_LENGTH}
+          aria-label="Work log note"
+        />
+        <button
+          type="submit"
+          className="inspector-btn inspector-btn--secondary"
+          disabled={minutes === null || !!durationError || !date || createWorkLogMutation.isPending}
+        >
+          {createWorkLogMutation.isPending ? 'Logging...' : 'Log time'}
+        </button>
+      </form>
+      {durationError && <p className="inspector-warning">{durationError}</p>}
+
+      {isLoading ? (
+        <p className="inspector-hint">Loading time log...</p>
+      ) : workLogs.length > 0 && (
+        <ul className="time-tracking-list">
+          {workLogs.map((workLog) => (
+            <li key={workLog.id} className="time-tracking-entry">
+              <div className="time-tracking-entry-info">
+                <span className="time-tracking-entry-meta">
+                  <strong>{formatDuration(workLog.minutes)}</strong> · {getMemberName(workLog.userId)} · {formatDueDate(workLog.date)}
+                </span>
+                {workLog.note && <span className="time-tracking-entry-note">{workLog.note}</span>}
+              </div>
+              {workLog.userId === userId && (
+                <div className="time-tracking-entry-actions">
+                  {confirmDeleteId === workLog.id ? (
+                    <>
+                      <button type="button" className="is-danger" onClick={() => handleDelete(workLog)}>
+                        Delete
+                      </button>
+                      <button type="button" onClick={() => setConfirmDeleteId(null)}>
+                        Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setConfirmDeleteId(workLog.id)}
+                      aria-label="Delete work log"
+                      title="Delete work log"
+                    >
+                      <FontAwesomeIcon icon={faTrash} />
+                    </button>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TaskTimeTracking;
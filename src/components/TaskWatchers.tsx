@@ -0,0 +1,83 @@
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faEye, faEyeSlash } from '@fortawesome/free-solid-svg-icons';
+import { useToggleTaskWatch } from '../hooks/useTasks.ts';
+import { useAuthContext } from '../contexts/AuthContext.tsx';
+import { useToast } from '../contexts/ToastContext.tsx';
+import { Task, User } from '../types/hooks.ts';
+import { getTaskWatcherIds, isWatchingTask } from '../utils/watchUtils.ts';
+import '../styles/task_inspector.css';
+
+interface TaskWatchersProps {
+  task: Task;
+  members: User[];
+}
+
+/**
+ * TaskWatchers Component
+ *
+ * Who gets notified about a task's status, assignee, description and comment changes,
+ * shown in the TaskInspector with a toggle to watch or stop watching it.
+ */
+const TaskWatchers: React.FC<TaskWatchersProps> = ({ task, members }) => {
+  const { userId } = useAuthContext();
+  const { showSuccess, showError } = useToast();
+  const toggleWatchMutation = useToggleTaskWatch();
+
+  const watcherIds = getTaskWatcherIds(task);
+  const isWatching = isWatchingTask(task, userId);
+
+  const getWatcherName = (watcherId: string): string => {
+    if (watcherId === userId) return 'You';
+    const member = members.find((m) => m.id === watcherId);
+    return member ? `${member.firstName} ${member.lastName}` : 'Former member';
+  };
+
+  const getWatcherRole = (watcherId: string): string | null => {
+    if (watcherId === task.owner?.id) return 'creator';
+    if (watcherId === task.assigneeId) return 'assignee';
+    return null;
+  };
+
+  const handleToggle = async (): Promise<void> => {
+    try {
+      await toggleWatchMutation.mutateAsync({ taskId: task.id, watch: !isWatching });
+      showSuccess(isWatching ? 'You stopped watching this task' : "You'll be notified when this task changes");
+    } catch (err: any) {
+      console.error('❌ Error changing watch status:', err);
+      showError(err.response?.data?.message || err.message || 'Failed to update watchers');
+    }
+  };
+
+  return (
+    <div className="task-watchers">
+      {watcherIds.length === 0 ? (
+        <p className="inspector-hint">Nobody is watching this task.</p>
+      ) : (
+        <ul className="task-watchers-list">
+          {watcherIds.map((watcherId) => {
+            const role = getWatcherRole(watcherId);
+            return (
+              <li key={watcherId} className="task-watcher">
+                {getWatcherName(watcherId)}
+                {role && <span className="task-watcher-role">{role}</span>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <button
+        type="button"
+        className={`task-watchers-toggle ${isWatching ? 'is-watching' : ''}`}
+        onClick={handleToggle}
+        disabled={!userId || toggleWatchMutation.isPending}
+        aria-pressed={isWatching}
+      >
+        <FontAwesomeIcon icon={isWatching ? faEyeSlash : faEye} />
+        {isWatching ? 'Stop watching' : 'Watch'}
+      </button>
+    </div>
+  );
+};
+
+export default TaskWatchers;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faClock } from '@fortawesome/free-solid-svg-icons';
+import { Task } from '../types/hooks.ts';
+import { formatDuration, getTimeTrackingSummary, hasTimeTracking } from '../utils/timeTrackingUtils.ts';
+import '../styles/task_badges.css';
+
+interface TimeTrackingBadgeProps {
+  task: Task;
+}
+
+/**
+ * TimeTrackingBadge Component
+ *
+ * Logged vs. estimated time pill (e.g. "1h 30m / 4h") for Board cards,
+ * highlighted once more time is logged than estimated.
+ */
+const TimeTrackingBadge: React.FC<TimeTrackingBadgeProps> = ({ task }) => {
+  if (!hasTimeTracking(task)) return null;
+
+  const { logged, estimate, remaining, isOverEstimate } = getTimeTrackingSummary(task);
+  const title = estimate === null
+    ? `${formatDuration(logged)} logged`
+    : isOverEstimate
+      ? `${formatDuration(logged)} logged, ${formatDuration(logged - estimate)} over the ${formatDuration(estimate)} estimate`
+      : `${formatDuration(logged)} logged of ${formatDuration(estimate)}, ${formatDuration(remaining!)} remaining`;
+
+  return (
+    <span className={`task-badge task-badge--time ${isOverEstimate ? 'task-badge--time-over' : ''}`} title={title}>
+      <FontAwesomeIcon icon={faClock} />
+      {estimate === null ? formatDuration(logged) : `${formatDuration(logged)} / ${formatDuration(estimate)}`}
+    </span>
+  );
+};
+
+export default TimeTrackingBadge;
@@ -0,0 +1,241 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faExclamationCircle, faFileArrowDown } from '@fortawesome/free-solid-svg-icons';
+import { getSelectedProject } from '../services/storageService';
+import { useSprints } from '../hooks/useSprints.ts';
+import { useProjectMembers } from '../hooks/useProjects.ts';
+import { useSprintTasks } from '../hooks/useTasks.ts';
+import { useSprintWorkLogs } from '../hooks/useWorkLogs.ts';
+import { useAuthContext } from '../contexts/AuthContext.tsx';
+import { Sprint, Task, User } from '../types/hooks.ts';
+import { isSprintActive, getSprintStatusLabel } from '../utils/sprintUtils.ts';
+import { formatDueDate } from '../utils/taskUtils.ts';
+import {
+  buildTimesheet,
+  buildTimesheetCsv,
+  formatDuration,
+  formatHours,
+  getWorkLogTaskName,
+} from '../utils/timeTrackingUtils.ts';
+import '../styles/backlog.css';
+import '../styles/task_badges.css';
+import '../styles/timesheet.css';
+
+// Member select value for everyone in the project
+const ALL_MEMBERS = 'all';
+
+// "Sprint 4 / Ada Lovelace" -> "sprint-4-ada-lovelace" for the export's file name
+const toFileNamePart = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * Timesheet Component
+ *
+ * Hours logged per member in a sprint, for client hour reporting. Lists each member's
+ * entries and total under the sprint total, and exports the current selection to CSV.
+ */
+const Timesheet: React.FC = () => {
+  const navigate = useNavigate();
+  const { userId, isLoading: authLoading } = useAuthContext();
+
+  const [storedProjectId, setStoredProjectId] = useState<string | null>(null);
+  const [projectIdRead, setProjectIdRead] = useState<boolean>(false);
+  const [sprintId, setSprintId] = useState<string>('');
+  const [memberId, setMemberId] = useState<string>(ALL_MEMBERS);
+
+  // Read project ID from storage once auth is ready (it's scoped per user)
+  useEffect(() => {
+    if (!authLoading) {
+      setStoredProjectId(getSelectedProject(userId));
+      setProjectIdRead(true);
+    }
+  }, [userId, authLoading]);
+
+  const { data: sprintsData, isLoading: sprintsLoading } = useSprints(storedProjectId);
+  const { data: membersData } = useProjectMembers(storedProjectId);
+  const { data: workLogs = [], isLoading: workLogsLoading, error: workLogsError } = useSprintWorkLogs(sprintId || null);
+  const { data: tasksData } = useSprintTasks(sprintId || null);
+
+  const sprints: Sprint[] = useMemo(() => {
+    const data: any = sprintsData;
+    return Array.isArray(data) ? data : data?.sprints || [];
+  }, [sprintsData]);
+
+  const members: User[] = useMemo(() => {
+    const data: any = membersData;
+    return Array.isArray(data) ? data : data?.members || [];
+  }, [membersData]);
+
+  const tasks: Task[] = useMemo(() => {
+    const data: any = tasksData;
+    return Array.isArray(data) ? data : data?.tasks || [];
+  }, [tasksData]);
+
+  // Open on the running sprint, or the latest one
+  useEffect(() => {
+    if (sprintId || sprints.length === 0) return;
+    setSprintId((sprints.find(isSprintActive) || sprints[sprints.length - 1]).id);
+  }, [sprints, sprintId]);
+
+  const groups = useMemo(
+    () => buildTimesheet(memberId === ALL_MEMBERS ? workLogs : workLogs.filter((log) => log.userId === memberId), members),
+    [workLogs, memberId, members]
+  );
+  const totalMinutes = groups.reduce((sum, group) => sum + group.totalMinutes, 0);
+  const selectedSprint = sprints.find((sprint) => sprint.id === sprintId);
+  const selectedMember = members.find((member) => member.id === memberId);
+
+  const handleExport = (): void => {
+    if (!selectedSprint) return;
+    const csv = buildTimesheetCsv(groups, tasks);
+    const fileName = [
+      'timesheet',
+      toFileNamePart(selectedSprint.name),
+      ...(selectedMember ? [toFileNamePart(`${selectedMember.firstName} ${selectedMember.lastName}`)] : []),
+    ].join('-');
+
+    // BOM so spreadsheet apps read names and notes as UTF-8
+    const url = URL.createObjectURL(new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName}.csv`;
+    link.click();
+    // Let the download start before releasing the file
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const header = (
+    <div className="create-sprint-nav-bar backlog-header" aria-label="Timesheet header">
+      <div className="header-left">
+        <h1 className="page-title">Timesheet</h1>
+        <p className="page-subtitle">Hours logged per member and sprint</p>
+      </div>
+      {storedProjectId && sprints.length > 0 && (
+        <div className="backlog-toolbar timesheet-toolbar">
+          <label className="task-sort-select">
+            <span className="task-sort-select-label">Sprint</span>
+            <select value={sprintId} onChange={(e) => setSprintId(e.target.value)}>
+              {sprints.map((sprint) => (
+                <option key={sprint.id} value={sprint.id}>
+                  {sprint.name} ({getSprintStatusLabel(sprint)})
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="task-sort-select">
+            <span className="task-sort-select-label">Member</span>
+            <select value={memberId} onChange={(e) => setMemberId(e.target.value)}>
+              <option value={ALL_MEMBERS}>All members</option>
+              {members.map((member) => (
+                <option key={member.id} value={member.id}>
+                  {member.firstName} {member.lastName}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button className="secondary-action-btn" onClick={handleExport} disabled={groups.length === 0}>
+            <FontAwesomeIcon icon={faFileArrowDown} />
+            Export CSV
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  if (authLoading || !projectIdRead || sprintsLoading) {
+    return (
+      <div className="backlog-page">
+        <div className="backlog-container with-footer-pad scroll-pad-bottom">
+          <div className="loading-message">
+            <FontAwesomeIcon icon={faExclamationCircle} spin />
+            <p>Loading timesheet...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!storedProjectId || sprints.length === 0) {
+    return (
+      <div className="backlog-page">
+        {header}
+        <div className="backlog-container">
+          <div className="empty-state">
+            <div className="empty-illustration" aria-hidden>{storedProjectId ? '📋' : '📁'}</div>
+            <h2 className="empty-title">{storedProjectId ? 'No Sprints Available' : 'No Project Selected'}</h2>
+            <p className="empty-subtitle">
+              {storedProjectId
+                ? 'Time is reported per sprint. Create a sprint and log time on its tasks to fill the timesheet.'
+                : 'Please select a project to view its timesheet.'}
+            </p>
+            <div className="empty-actions">
+              <button onClick={() => navigate(storedProjectId ? '/backlog' : '/projects')} className="empty-action-btn">
+                {storedProjectId ? 'Go to Backlog' : 'Go to Projects'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="backlog-page timesheet-page with-footer-pad scroll-pad-bottom">
+      {header}
+      <div className="backlog-container">
+        {workLogsLoading ? (
+          <p className="timesheet-message">Loading logged time...</p>
+        ) : workLogsError ? (
+          <p className="timesheet-message timesheet-message--error">Couldn't load the timesheet. Please try again.</p>
+        ) : groups.length === 0 ? (
+          <div className="empty-state">
+            <div className="empty-illustration" aria-hidden>⏱️</div>
+            <h2 className="empty-title">No Time Logged</h2>
+            <p className="empty-subtitle">
+              {selectedMember
+                ? `${selectedMember.firstName} hasn't logged time on ${selectedSprint?.name || 'this sprint'} yet.`
+                : `Nobody has logged time on ${selectedSprint?.name || 'this sprint'} yet. Log time from a task's details.`}
+            </p>
+          </div>
+        ) : (
+          <>
+            <p className="timesheet-total">
+              Total: <strong>{formatDuration(totalMinutes)}</strong> ({formatHours(totalMinutes)} h)
+            </p>
+            {groups.map((group) => (
+              <section key={group.userId} className="timesheet-member">
+                <header className="timesheet-member-header">
+                  <h2 className="timesheet-member-name">{group.name}</h2>
+                  <span className="timesheet-member-total">{formatDuration(group.totalMinutes)}</span>
+                </header>
+                <table className="timesheet-table">
+                  <thead>
+                    <tr>
+                      <th scope="col">Date</th>
+                      <th scope="col">Task</th>
+                      <th scope="col">Note</th>
+                      <th scope="col" className="timesheet-hours">Time</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {group.entries.map((log) => (
+                      <tr key={log.id}>
+                        <td className="timesheet-date">{formatDueDate(log.date)}</td>
+                        <td>{getWorkLogTaskName(log, tasks)}</td>
+                        <td className="timesheet-note">{log.note}</td>
+                        <td className="timesheet-hours">{formatDuration(log.minutes)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Timesheet;
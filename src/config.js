@@ -47,8 +47,24 @@ const getWsBaseUrl = () => {
   }
 };
 
+/**
+ * Get the attachment storage backend from environment variables
+ * "http" uploads to the API; "local" keeps files in memory for development without a backend
+ */
+const getUploadBackend = () => {
+  try {
+    if (typeof import.meta !== 'undefined' && import.meta.env) {
+      return import.meta.env.VITE_UPLOAD_BACKEND ?? 'http';
+    }
+    return process.env.REACT_APP_UPLOAD_BACKEND ?? 'http';
+  } catch (error) {
+    return 'http';
+  }
+};
+
 export const API_BASE_URL = getApiBaseUrl(); // New Go backend with v1 API
 export const WS_BASE_URL = getWsBaseUrl(); // WebSocket base URL (wss://go.devhive.it.com)
+export const UPLOAD_BACKEND = getUploadBackend(); // 'http' | 'local'
 
 // Log configuration at startup (only in development)
 if (process.env.NODE_ENV === 'development') {
@@ -91,8 +107,12 @@ export const ENDPOINTS = {
   PROJECT_BUNDLE: (id) => `${API_BASE_URL}/projects/${id}/bundle`, // GET
   PROJECT_SPRINTS: (id) => `${API_BASE_URL}/projects/${id}/sprints`, // GET/POST
   PROJECT_TASKS: (id) => `${API_BASE_URL}/projects/${id}/tasks`, // GET/POST
+  PROJECT_TASK_RANKS: (id) => `${API_BASE_URL}/projects/${id}/tasks/ranks`, // PATCH
   PROJECT_MESSAGES: (id) => `${API_BASE_URL}/projects/${id}/messages`, // GET/POST
   PROJECT_MEMBERS: (id) => `${API_BASE_URL}/projects/${id}/members`, // GET
+  PROJECT_LABELS: (id) => `${API_BASE_URL}/projects/${id}/labels`, // GET/POST
+  PROJECT_SETTINGS: (id) => `${API_BASE_URL}/projects/${id}/settings`, // GET/PATCH
+  PROJECT_VIEWS: (id) => `${API_BASE_URL}/projects/${id}/views`, // GET/POST
   PROJECT_MEMBER: (projectId, userId) => `${API_BASE_URL}/projects/${projectId}/members/${userId}`, // PUT/DELETE
   PROJECT_INVITES: (id) => `${API_BASE_URL}/projects/${id}/invites`, // GET/POST
   PROJECT_INVITE: (projectId, inviteId) => `${API_BASE_URL}/projects/${projectId}/invites/${inviteId}`, // DELETE
@@ -102,13 +122,35 @@ export const ENDPOINTS = {
   // Task endpoints
   TASKS: `${API_BASE_URL}/tasks`,
   TASK_BY_ID: (id) => `${API_BASE_URL}/tasks/${id}`, // GET/PATCH/DELETE
+  TASK_BY_KEY: (key) => `${API_BASE_URL}/tasks/by-key/${encodeURIComponent(key)}`, // GET - e.g. DH-142
   TASK_STATUS: (id) => `${API_BASE_URL}/tasks/${id}/status`, // PATCH
+  TASK_MOVE: (id) => `${API_BASE_URL}/tasks/${id}/move`, // POST - re-home into another project
+  TASK_SUBTASKS: (id) => `${API_BASE_URL}/tasks/${id}/subtasks`, // POST
+  TASK_SUBTASK: (taskId, subtaskId) => `${API_BASE_URL}/tasks/${taskId}/subtasks/${subtaskId}`, // PATCH/DELETE
+  TASK_SUBTASKS_ORDER: (id) => `${API_BASE_URL}/tasks/${id}/subtasks/order`, // PUT
+  TASK_COMMENTS: (id) => `${API_BASE_URL}/tasks/${id}/comments`, // GET/POST
+  TASK_HISTORY: (id) => `${API_BASE_URL}/tasks/${id}/history`, // GET
+  TASK_ATTACHMENTS: (id) => `${API_BASE_URL}/tasks/${id}/attachments`, // GET/POST (multipart)
+  TASK_ATTACHMENT: (taskId, attachmentId) => `${API_BASE_URL}/tasks/${taskId}/attachments/${attachmentId}`, // DELETE
+  TASK_WORKLOGS: (id) => `${API_BASE_URL}/tasks/${id}/worklogs`, // GET/POST
+  TASK_WORKLOG: (taskId, worklogId) => `${API_BASE_URL}/tasks/${taskId}/worklogs/${worklogId}`, // DELETE
+  TASK_WATCH: (id) => `${API_BASE_URL}/tasks/${id}/watch`, // POST/DELETE - current user
+  
+  // Label endpoints
+  LABEL_BY_ID: (id) => `${API_BASE_URL}/labels/${id}`, // PATCH/DELETE
+  
+  // Saved view endpoints
+  VIEW_BY_ID: (id) => `${API_BASE_URL}/views/${id}`, // PATCH/DELETE
+  
+  // Comment endpoints
+  COMMENT_BY_ID: (id) => `${API_BASE_URL}/comments/${id}`, // PATCH/DELETE
   
   // Sprint endpoints
   SPRINTS: `${API_BASE_URL}/sprints`,
   SPRINT_STATUS: (id) => `${API_BASE_URL}/sprints/${id}/status`, // PATCH - update sprint status
   SPRINT_BY_ID: (id) => `${API_BASE_URL}/sprints/${id}`, // GET/PATCH/DELETE
   SPRINT_TASKS: (id) => `${API_BASE_URL}/sprints/${id}/tasks`, // GET
+  SPRINT_WORKLOGS: (id) => `${API_BASE_URL}/sprints/${id}/worklogs`, // GET - all members' logs on the sprint's tasks
   
   // Message endpoints
   MESSAGES: `${API_BASE_URL}/messages`, // POST/GET
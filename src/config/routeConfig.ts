@@ -25,6 +25,7 @@ export const PROJECT_SCOPED_ROUTES = new Set([
   '/project-details',
   '/backlog',
   '/board',
+  '/timesheet',
   '/sprint',
   '/contacts',
   '/messages',
@@ -32,6 +33,7 @@ export const PROJECT_SCOPED_ROUTES = new Set([
   '/create-task',
   '/edit-sprint',
   '/edit-task',
+  '/p', // Task deep links (/p/:projectKey/task/:taskKey)
   '/invite'
 ]);
 
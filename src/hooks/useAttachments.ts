@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient, QueryClient } from '@tanstack/react-query';
+import { fetchTaskAttachments, uploadAttachment, deleteAttachment } from '../services/uploadService.ts';
+import { taskKeys } from './useTasks.ts';
+import { useAuthContext } from '../contexts/AuthContext.tsx';
+import { useToast } from '../contexts/ToastContext.tsx';
+import { TaskAttachment } from '../types/hooks.ts';
+import { validateAttachmentFile, isUploadCancelled } from '../utils/attachmentUtils.ts';
+
+// Query keys
+export const attachmentKeys = {
+  all: ['attachments'] as const,
+  lists: () => [...attachmentKeys.all, 'list'] as const,
+  task: (taskId: string) => [...attachmentKeys.lists(), taskId] as const,
+};
+
+// One file on its way to the server
+export interface PendingUpload {
+  id: string;
+  fileName: string;
+  progress: number; // 0..1
+}
+
+// Keep task cards' paperclip counts in step with the attachment list
+const adjustCachedAttachmentCount = (queryClient: QueryClient, taskId: string, delta: number): void => {
+  const withCount = (task: any) =>
+    task.id === taskId ? { ...task, attachmentCount: Math.max(0, (task.attachmentCount || 0) + delta) } : task;
+
+  queryClient.setQueriesData({ queryKey: taskKeys.lists() }, (oldData: any) => {
+    if (!oldData) return oldData;
+    const isArray = Array.isArray(oldData);
+    const tasks = isArray ? oldData : (oldData.tasks || []);
+    const updatedTasks = tasks.map(withCount);
+    return isArray ? updatedTasks : { ...oldData, tasks: updatedTasks };
+  });
+  queryClient.setQueryData(taskKeys.detail(taskId), (oldData: any) => (oldData ? withCount(oldData) : oldData));
+};
+
+/**
+ * Hook to fetch the files attached to a task
+ * @param taskId The task ID
+ * @returns Query result with the task's attachments
+ */
+export const useTaskAttachments = (taskId: string | null | undefined) => {
+  const { isAuthenticated, isLoading: authLoading } = useAuthContext();
+
+  return useQuery({
+    queryKey: attachmentKeys.task(taskId || ''),
+    queryFn: () => fetchTaskAttachments(taskId!),
+    enabled: !!taskId && isAuthenticated && !authLoading, // ✅ Only fetch when authenticated AND auth is initialized
+    staleTime: 60 * 1000, // 1 minute
+    retry: (failureCount, error: any) => {
+      // Don't retry on 401 - token refresh should handle it
+      if (error?.status === 401 || error?.response?.status === 401) {
+        return false;
+      }
+      return failureCount < 3;
+    },
+  });
+};
+
+/**
+ * Hook to delete an attachment
+ * @returns Mutation hook for deleting attachments
+ */
+export const useDeleteAttachment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ taskId, attachmentId }: { taskId: string; attachmentId: string }) =>
+      deleteAttachment(taskId, attachmentId),
+    onSuccess: (_, { taskId, attachmentId }) => {
+      queryClient.setQueryData(attachmentKeys.task(taskId), (oldData: TaskAttachment[] | undefined) =>
+        oldData ? oldData.filter((attachment) => attachment.id !== attachmentId) : oldData
+      );
+      adjustCachedAttachmentCount(queryClient, taskId, -1);
+    },
+  });
+};
+
+/**
+ * Hook to upload files to a task with per-file progress and cancellation
+ * Uploads still running when the task changes or the component unmounts are cancelled.
+ *
+ * @param taskId The task ID
+ * @returns In-flight uploads plus functions to start and cancel them
+ */
+export const useAttachmentUploads = (taskId: string | null | undefined) => {
+  const queryClient = useQueryClient();
+  const { showError } = useToast();
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach((controller) => controller.abort());
+      controllers.clear();
+      setUploads([]);
+    };
+  }, [taskId]);
+
+  const uploadFile = useCallback(async (file: File): Promise<void> => {
+    if (!taskId) return;
+    const validationError = validateAttachmentFile(file);
+    if (validationError) {
+      showError(validationError);
+      return;
+    }
+
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const controller = new AbortController();
+    controllersRef.current.set(id, controller);
+    setUploads((current) => [...current, { id, fileName: file.name, progress: 0 }]);
+
+    try {
+      const attachment = await uploadAttachment(taskId, file, {
+        signal: controller.signal,
+        onProgress: (progress) =>
+          setUploads((current) => current.map((upload) => (upload.id === id ? { ...upload, progress } : upload))),
+      });
+      queryClient.setQueryData(attachmentKeys.task(taskId), (oldData: TaskAttachment[] | undefined) =>
+        oldData ? [...oldData, attachment] : [attachment]
+      );
+      adjustCachedAttachmentCount(queryClient, taskId, 1);
+    } catch (err: any) {
+      if (!isUploadCancelled(err)) {
+        showError(`Couldn't upload "${file.name}": ${err.response?.data?.message || err.message || 'Upload failed'}`);
+      }
+    } finally {
+      controllersRef.current.delete(id);
+      setUploads((current) => current.filter((upload) => upload.id !== id));
+    }
+  }, [taskId, queryClient, showError]);
+
+  const uploadFiles = useCallback((files: File[]): void => {
+    files.forEach((file) => {
+      uploadFile(file);
+    });
+  }, [uploadFile]);
+
+  const cancelUpload = useCallback((uploadId: string): void => {
+    controllersRef.current.get(uploadId)?.abort();
+  }, []);
+
+  return { uploads, uploadFiles, cancelUpload };
+};
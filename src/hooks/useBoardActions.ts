@@ -1,10 +1,16 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { useSprints } from './useSprints.ts';
-import { useSprintTasks, useUpdateTask, useUpdateTaskStatus, taskKeys } from './useTasks.ts';
-import { useProjectMembers } from './useProjects.ts';
+import { useProjectTasks, useSprintTasks, useUpdateTask, useUpdateTaskStatus, useUpdateTaskRanks, taskKeys } from './useTasks.ts';
+import { useProjectMembers, useProjectWorkflow, useProjectWipLimits } from './useProjects.ts';
+import { useProjectLabels } from './useLabels.ts';
 import { useToast } from '../contexts/ToastContext.tsx';
-import { UseBoardActionsReturn, Sprint, Task, User } from '../types/hooks.ts';
+import { useAuthContext } from '../contexts/AuthContext.tsx';
+import { UseBoardActionsReturn, Sprint, Task, User, UpdateTaskData, TaskSortMode, TaskRankUpdate, BoardSwimlaneMode, LabelFilter, TaskQueryContext } from '../types/hooks.ts';
+import { sortTasks, DEFAULT_TASK_SORT_MODE, getTaskTitle, getUnresolvedBlockers } from '../utils/taskUtils.ts';
+import { matchesLabelFilter, EMPTY_LABEL_FILTER } from '../utils/labelUtils.ts';
+import { parseTaskQuery, matchesTaskQuery } from '../utils/taskQuery.ts';
+import { getWorkflowStatus, getStatusName, isDoneStatus } from '../utils/workflowUtils.ts';
 
 /**
  * useBoardActions
@@ -16,21 +22,33 @@ import { UseBoardActionsReturn, Sprint, Task, User } from '../types/hooks.ts';
  */
 const useBoardActions = (projectId: string): UseBoardActionsReturn => {
   const { showSuccess, showError } = useToast();
+  const { userId } = useAuthContext();
   const queryClient = useQueryClient();
   
   // UI state only - TanStack Query manages data state
   const [selectedSprint, setSelectedSprint] = useState<string | null>(null);
   const [draggedTask, setDraggedTask] = useState<Task | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [sortMode, setSortMode] = useState<TaskSortMode>(DEFAULT_TASK_SORT_MODE);
+  const [swimlaneMode, setSwimlaneMode] = useState<BoardSwimlaneMode>('none');
+  const [labelFilter, setLabelFilter] = useState<LabelFilter>(EMPTY_LABEL_FILTER);
+  const [searchQuery, setSearchQuery] = useState<string>('');
 
   // TanStack Query hooks for data fetching
   const { data: sprintsData, isLoading: sprintsLoading, error: sprintsError } = useSprints(projectId);
   const { data: membersData, isLoading: membersLoading, error: membersError } = useProjectMembers(projectId);
   const { data: tasksData, isLoading: tasksLoading, error: tasksError } = useSprintTasks(selectedSprint);
   // Note: useSprintTasks already handles enabled internally (enabled: !!sprintId)
+  // All project tasks - dependency links can point outside the selected sprint
+  const { data: projectTasksData } = useProjectTasks(projectId);
+  // Board columns come from the project's workflow
+  const workflow = useProjectWorkflow(projectId);
+  const wipLimits = useProjectWipLimits(projectId);
+  const { data: labels = [] } = useProjectLabels(projectId);
 
   // Mutation hooks
   const updateTaskMutation = useUpdateTask();
+  const updateTaskRanksMutation = useUpdateTaskRanks();
   const updateTaskStatusMutation = useUpdateTaskStatus();
 
   // Extract data arrays from TanStack Query responses
@@ -66,6 +84,25 @@ const useBoardActions = (projectId: string): UseBoardActionsReturn => {
     return tasksData.tasks || tasksData || [];
   }, [tasksData]);
 
+  // Project tasks with the selected sprint's (possibly optimistic) copies taking precedence
+  const projectTasks: Task[] = useMemo(() => {
+    const data: any = projectTasksData;
+    const allTasks: Task[] = Array.isArray(data) ? data : data?.tasks || [];
+    const sprintTasksById = new Map(tasks.map((task) => [task.id, task]));
+    const merged = allTasks.map((task) => sprintTasksById.get(task.id) || task);
+    tasks.forEach((task) => {
+      if (!allTasks.some((t) => t.id === task.id)) merged.push(task);
+    });
+    return merged;
+  }, [projectTasksData, tasks]);
+
+  // Values the search box resolves against (assignee:me, label:bug, ...)
+  const searchContext: TaskQueryContext = useMemo(
+    () => ({ currentUserId: userId, members, workflow, labels, sprints }),
+    [userId, members, workflow, labels, sprints]
+  );
+  const parsedSearch = useMemo(() => parseTaskQuery(searchQuery), [searchQuery]);
+
   // Combine loading and error states
   const loading = sprintsLoading || membersLoading || tasksLoading;
   const error: string | null = sprintsError ? String(sprintsError) : membersError ? String(membersError) : tasksError ? String(tasksError) : null;
@@ -164,16 +201,26 @@ const useBoardActions = (projectId: string): UseBoardActionsReturn => {
   // Handle task status update (when dropped in a column)
   const handleStatusUpdate = async (taskId: string, newStatus: number): Promise<boolean> => {
     try {
-      // Validate status values for Go/PostgreSQL backend
-      const validStatuses = [0, 1, 2]; // 0: pending, 1: in_progress, 2: completed
+      // Validate against the project's workflow
       const numericStatus = Number(newStatus);
       
-      if (!validStatuses.includes(numericStatus)) {
-        throw new Error(`Invalid status value: ${newStatus}. Must be 0, 1, or 2`);
+      if (!getWorkflowStatus(workflow, numericStatus)) {
+        throw new Error(`Invalid status value: ${newStatus}. Not part of this project's workflow`);
       }
       
       // Find the task in current tasks to get its current data
       const currentTask = tasks.find(t => t.id === taskId);
+
+      // Completing a task with unfinished blockers needs explicit confirmation
+      if (isDoneStatus(workflow, numericStatus) && currentTask) {
+        const blockers = getUnresolvedBlockers(currentTask, projectTasks, workflow);
+        if (blockers.length > 0) {
+          const blockerList = blockers.map((blocker) => `• ${getTaskTitle(blocker)}`).join('\n');
+          if (!window.confirm(`This task is still blocked by:\n${blockerList}\n\nMark it as completed anyway?`)) {
+            return false;
+          }
+        }
+      }
       
       // Optimistically update the task in the current sprint tasks cache immediately
       if (selectedSprint && currentTask) {
@@ -197,8 +244,7 @@ const useBoardActions = (projectId: string): UseBoardActionsReturn => {
       });
       
       // Show success message
-      const statusText = numericStatus === 0 ? 'To Do' : numericStatus === 1 ? 'In Progress' : 'Completed';
-      const successMsg = `Task moved to ${statusText}`;
+      const successMsg = `Task moved to ${getStatusName(workflow, numericStatus)}`;
       setSuccessMessage(successMsg);
       showSuccess(successMsg);
       
@@ -214,16 +260,76 @@ const useBoardActions = (projectId: string): UseBoardActionsReturn => {
     }
   };
 
-  // Filter tasks by status
+  // Handle plain field updates (title, description, estimate, priority) from the task inspector
+  const handleDetailsUpdate = async (taskId: string, updates: Omit<UpdateTaskData, 'id'>): Promise<void> => {
+    try {
+      // Optimistically update the task in the current sprint tasks cache immediately
+      if (selectedSprint) {
+        queryClient.setQueryData(
+          taskKeys.sprint(selectedSprint),
+          (oldData: any) => {
+            if (!oldData) return oldData;
+            const tasksList = oldData.tasks || oldData || [];
+            const updatedTasks = tasksList.map((t: Task) => 
+              t.id === taskId ? { ...t, ...updates } : t
+            );
+            return { ...oldData, tasks: updatedTasks };
+          }
+        );
+      }
+
+      // Use mutation hook - will update cache and WebSocket will also invalidate
+      await updateTaskMutation.mutateAsync({ taskId, taskData: updates });
+    } catch (err: any) {
+      console.error("❌ Error updating task details:", err);
+      showError(`Failed to update task: ${err.message}`);
+      // Revert optimistic update on error
+      if (selectedSprint) {
+        queryClient.invalidateQueries({ queryKey: taskKeys.sprint(selectedSprint) });
+      }
+      throw err;
+    }
+  };
+
+  // Save a manual reorder (cards dragged to a new position)
+  const handleRankUpdate = async (ranks: TaskRankUpdate[]): Promise<void> => {
+    if (!projectId || ranks.length === 0) return;
+    try {
+      await updateTaskRanksMutation.mutateAsync({ projectId, ranks });
+    } catch (err: any) {
+      console.error("❌ Error reordering tasks:", err);
+      showError(`Failed to reorder tasks: ${err.message}`);
+    }
+  };
+
+  // Tasks in a status that was removed from the workflow are shown in the first column
+  const isInColumn = (task: Task, status: number): boolean =>
+    task.status === status || (workflow[0]?.id === status && !getWorkflowStatus(workflow, task.status));
+
+  // Filter tasks by status, label filter and search query, ordered by the selected sort mode
   const getTasksByStatus = (status: number): Task[] => {
     if (!Array.isArray(tasks)) {
       console.warn("⚠️ Tasks is not an array:", tasks);
       return [];
     }
     
-    return tasks.filter((task) => task.status === status);
+    return sortTasks(
+      tasks.filter((task) =>
+        isInColumn(task, status) &&
+        matchesLabelFilter(task, labelFilter) &&
+        matchesTaskQuery(task, parsedSearch, searchContext)
+      ),
+      sortMode
+    );
   };
 
+  // Tasks in a column regardless of the label filter and search (what WIP limits count against)
+  const getColumnTaskCount = (status: number): number =>
+    Array.isArray(tasks) ? tasks.filter((task) => isInColumn(task, status)).length : 0;
+
+  // Unfinished tasks blocking the given task
+  const getBlockers = (task: Task): Task[] => getUnresolvedBlockers(task, projectTasks, workflow);
+
   // Format date from ISO string
   const formatDate = (dateString: string): string => {
     const date = new Date(dateString);
@@ -242,6 +348,8 @@ const useBoardActions = (projectId: string): UseBoardActionsReturn => {
     selectedSprint,
     tasks,
     members,
+    workflow,
+    wipLimits,
     loading,
     error,
     successMessage,
@@ -249,11 +357,26 @@ const useBoardActions = (projectId: string): UseBoardActionsReturn => {
     setDraggedTask,
     setError,
     getTasksByStatus,
+    getColumnTaskCount,
+    projectTasks,
+    getUnresolvedBlockers: getBlockers,
+    sortMode,
+    setSortMode,
+    swimlaneMode,
+    setSwimlaneMode,
+    labelFilter,
+    setLabelFilter,
+    searchQuery,
+    setSearchQuery,
+    searchContext,
+    setSelectedSprint,
     formatDate,
     getAssigneeName,
     handleSprintChange,
     handleAssigneeChange,
     handleStatusUpdate,
+    handleDetailsUpdate,
+    handleRankUpdate,
     setSuccessMessage,
   };
 };
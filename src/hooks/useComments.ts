@@ -0,0 +1,110 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchTaskComments,
+  createComment,
+  updateComment,
+  deleteComment,
+} from '../services/commentService';
+import { useAuthContext } from '../contexts/AuthContext.tsx';
+import { TaskComment } from '../types/hooks.ts';
+
+// Query keys
+export const commentKeys = {
+  all: ['comments'] as const,
+  lists: () => [...commentKeys.all, 'list'] as const,
+  task: (taskId: string) => [...commentKeys.lists(), 'task', taskId] as const,
+};
+
+// Apply a change to a cached comment thread (handles array and { comments } shapes)
+const updateCachedComments = (oldData: any, updater: (comments: TaskComment[]) => TaskComment[]) => {
+  if (!oldData) return oldData;
+  const isArray = Array.isArray(oldData);
+  const comments = isArray ? oldData : (oldData.comments || []);
+  const updatedComments = updater(comments);
+  return isArray ? updatedComments : { ...oldData, comments: updatedComments };
+};
+
+/**
+ * Hook to fetch the comment thread for a task
+ * @param taskId The task ID
+ * @returns Query result with comments, oldest first
+ */
+export const useTaskComments = (taskId: string | null | undefined) => {
+  const { isAuthenticated, isLoading: authLoading } = useAuthContext();
+
+  return useQuery({
+    queryKey: commentKeys.task(taskId || ''),
+    queryFn: () => fetchTaskComments(taskId!),
+    enabled: !!taskId && isAuthenticated && !authLoading, // ✅ Only fetch when authenticated AND auth is initialized
+    staleTime: 60 * 1000, // 1 minute - WebSocket invalidation keeps open threads live
+    select: (data: any): TaskComment[] => (Array.isArray(data) ? data : data?.comments || []),
+    retry: (failureCount, error: any) => {
+      // Don't retry on 401 - token refresh should handle it
+      if (error?.status === 401 || error?.response?.status === 401) {
+        return false;
+      }
+      return failureCount < 3;
+    },
+  });
+};
+
+/**
+ * Hook to post a comment on a task
+ * @returns Mutation hook for creating comments
+ */
+export const useCreateComment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ taskId, content }: { taskId: string; content: string }) =>
+      createComment(taskId, content),
+    onSuccess: (data: TaskComment, variables) => {
+      queryClient.setQueryData(commentKeys.task(variables.taskId), (oldData: any) =>
+        oldData
+          ? updateCachedComments(oldData, (comments) =>
+              comments.some((comment) => comment.id === data.id) ? comments : [...comments, data]
+            )
+          : [data]
+      );
+    },
+  });
+};
+
+/**
+ * Hook to edit a comment
+ * @returns Mutation hook for updating comments
+ */
+export const useUpdateComment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ commentId, content }: { commentId: string; taskId: string; content: string }) =>
+      updateComment(commentId, content),
+    onSuccess: (data: TaskComment, variables) => {
+      queryClient.setQueryData(commentKeys.task(variables.taskId), (oldData: any) =>
+        updateCachedComments(oldData, (comments) =>
+          comments.map((comment) => (comment.id === variables.commentId ? { ...comment, ...data } : comment))
+        )
+      );
+    },
+  });
+};
+
+/**
+ * Hook to delete a comment
+ * @returns Mutation hook for deleting comments
+ */
+export const useDeleteComment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ commentId }: { commentId: string; taskId: string }) => deleteComment(commentId),
+    onSuccess: (_, variables) => {
+      queryClient.setQueryData(commentKeys.task(variables.taskId), (oldData: any) =>
+        updateCachedComments(oldData, (comments) =>
+          comments.filter((comment) => comment.id !== variables.commentId)
+        )
+      );
+    },
+  });
+};
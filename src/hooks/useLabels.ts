@@ -0,0 +1,108 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchProjectLabels,
+  createLabel,
+  updateLabel,
+  deleteLabel,
+} from '../services/labelService';
+import { taskKeys } from './useTasks.ts';
+import { useAuthContext } from '../contexts/AuthContext.tsx';
+import { Label } from '../types/hooks.ts';
+
+// Query keys
+export const labelKeys = {
+  all: ['labels'] as const,
+  lists: () => [...labelKeys.all, 'list'] as const,
+  project: (projectId: string) => [...labelKeys.lists(), projectId] as const,
+};
+
+/**
+ * Hook to fetch all labels defined for a project
+ * @param projectId The project ID
+ * @returns Query result with labels data
+ */
+export const useProjectLabels = (projectId: string | null | undefined) => {
+  const { isAuthenticated, isLoading: authLoading } = useAuthContext();
+
+  return useQuery({
+    queryKey: labelKeys.project(projectId || ''),
+    queryFn: () => fetchProjectLabels(projectId!),
+    enabled: !!projectId && isAuthenticated && !authLoading, // ✅ Only fetch when authenticated AND auth is initialized
+    staleTime: 5 * 60 * 1000, // 5 minutes - labels rarely change
+    select: (data: any): Label[] => (Array.isArray(data) ? data : data?.labels || []),
+    retry: (failureCount, error: any) => {
+      // Don't retry on 401 - token refresh should handle it
+      if (error?.status === 401 || error?.response?.status === 401) {
+        return false;
+      }
+      return failureCount < 3;
+    },
+  });
+};
+
+/**
+ * Hook to create a project label
+ * @returns Mutation hook for creating labels
+ */
+export const useCreateLabel = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ projectId, labelData }: { projectId: string; labelData: { name: string; color: string } }) =>
+      createLabel(projectId, labelData),
+    onSuccess: (data, variables) => {
+      queryClient.setQueryData(labelKeys.project(variables.projectId), (oldData: any) => {
+        if (!oldData) return [data];
+        const isArray = Array.isArray(oldData);
+        const labels = isArray ? oldData : (oldData.labels || []);
+        const updatedLabels = [...labels, data];
+        return isArray ? updatedLabels : { ...oldData, labels: updatedLabels };
+      });
+    },
+  });
+};
+
+/**
+ * Hook to update a project label
+ * @returns Mutation hook for updating labels
+ */
+export const useUpdateLabel = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ labelId, labelData }: { labelId: string; labelData: { name?: string; color?: string } }) =>
+      updateLabel(labelId, labelData),
+    onSuccess: (data: Label) => {
+      queryClient.setQueryData(labelKeys.project(data.projectId), (oldData: any) => {
+        if (!oldData) return oldData;
+        const isArray = Array.isArray(oldData);
+        const labels = isArray ? oldData : (oldData.labels || []);
+        const updatedLabels = labels.map((label: Label) => (label.id === data.id ? data : label));
+        return isArray ? updatedLabels : { ...oldData, labels: updatedLabels };
+      });
+    },
+  });
+};
+
+/**
+ * Hook to delete a project label
+ * @returns Mutation hook for deleting labels
+ */
+export const useDeleteLabel = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ labelId }: { labelId: string; projectId: string }) => deleteLabel(labelId),
+    onSuccess: (_, variables) => {
+      queryClient.setQueryData(labelKeys.project(variables.projectId), (oldData: any) => {
+        if (!oldData) return oldData;
+        const isArray = Array.isArray(oldData);
+        const labels = isArray ? oldData : (oldData.labels || []);
+        const updatedLabels = labels.filter((label: Label) => label.id !== variables.labelId);
+        return isArray ? updatedLabels : { ...oldData, labels: updatedLabels };
+      });
+      // The backend detaches the label from tasks, so task lists need a refresh
+      queryClient.invalidateQueries({ queryKey: taskKeys.lists() });
+    },
+  });
+};
@@ -0,0 +1,244 @@
+import { useEffect, useRef, useState } from 'react';
+import type React from 'react';
+
+// Same feel as the Board: hold briefly to pick up, moving first means the user is scrolling
+const LONG_PRESS_MS = 150;
+const MOVE_CANCEL_PX = 8;
+
+type LongPressDragState<T> =
+  | { mode: 'idle' }
+  | { mode: 'pending'; item: T; source: HTMLElement; startX: number; startY: number; pointerId: number }
+  | { mode: 'dragging'; item: T; pointerId: number; offsetX: number; offsetY: number; ghost: HTMLElement; source: HTMLElement };
+
+interface LongPressDragOptions<T> {
+  enabled: boolean;
+  sourceSelector: string;
+  dropTargetSelector: string;
+  onDragStart?: (item: T) => void;
+  onDrop: (item: T, target: HTMLElement | null) => void;
+  onDragEnd?: () => void;
+}
+
+export interface LongPressDragHandlers {
+  onPointerDown?: (e: React.PointerEvent) => void;
+  onPointerMove?: (e: React.PointerEvent) => void;
+  onPointerUp?: () => void;
+  onPointerCancel?: () => void;
+}
+
+/**
+ * Custom hook for long-press pointer dragging on touch devices (the Board's approach)
+ *
+ * The pressed element is cloned into a ghost that follows the finger, page scroll is
+ * locked while dragging, and the drop target under the pointer gets a `drag-over` class.
+ *
+ * @param options.enabled - Whether pointer dragging is active (usually coarse pointers only)
+ * @param options.sourceSelector - Selector for the element to clone, looked up from the pressed element
+ * @param options.dropTargetSelector - Selector for elements that accept drops
+ * @param options.onDrop - Called with the dragged item and the drop target (null when dropped elsewhere)
+ * @returns Pointer handler factory for draggable elements and the item being dragged
+ */
+export function useLongPressDrag<T>({
+  enabled,
+  sourceSelector,
+  dropTargetSelector,
+  onDragStart,
+  onDrop,
+  onDragEnd,
+}: LongPressDragOptions<T>) {
+  const [dragState, setDragState] = useState<LongPressDragState<T>>({ mode: 'idle' });
+  const dragStateRef = useRef<LongPressDragState<T>>({ mode: 'idle' });
+  const longPressRef = useRef<number | null>(null);
+  const highlightedRef = useRef<HTMLElement | null>(null);
+  const scrollLockRef = useRef<{ y: number } | null>(null);
+  // Latest callbacks, so the document listeners never call a stale closure
+  const callbacksRef = useRef({ onDragStart, onDrop, onDragEnd });
+  callbacksRef.current = { onDragStart, onDrop, onDragEnd };
+
+  const updateDragState = (next: LongPressDragState<T>): void => {
+    dragStateRef.current = next;
+    setDragState(next);
+  };
+
+  const clearLongPress = (): void => {
+    if (longPressRef.current) {
+      window.clearTimeout(longPressRef.current);
+      longPressRef.current = null;
+    }
+  };
+
+  const setHighlighted = (target: HTMLElement | null): void => {
+    if (target === highlightedRef.current) return;
+    highlightedRef.current?.classList.remove('drag-over');
+    target?.classList.add('drag-over');
+    highlightedRef.current = target;
+  };
+
+  const lockScroll = (): void => {
+    if (scrollLockRef.current) return;
+    const y = window.scrollY;
+    scrollLockRef.current = { y };
+    document.body.style.position = 'fixed';
+    document.body.style.top = `-${y}px`;
+    document.body.style.left = '0';
+    document.body.style.right = '0';
+    document.body.style.width = '100%';
+  };
+
+  const unlockScroll = (): void => {
+    const state = scrollLockRef.current;
+    if (!state) return;
+    document.body.style.position = '';
+    document.body.style.top = '';
+    document.body.style.left = '';
+    document.body.style.right = '';
+    document.body.style.width = '';
+    window.scrollTo(0, state.y);
+    scrollLockRef.current = null;
+  };
+
+  const cleanup = (): void => {
+    const current = dragStateRef.current;
+    if (current.mode === 'dragging') {
+      current.ghost.remove();
+      current.source.classList.remove('drag-source');
+      document.body.classList.remove('dragging-task');
+      unlockScroll();
+      setHighlighted(null);
+      callbacksRef.current.onDragEnd?.();
+    }
+    clearLongPress();
+    updateDragState({ mode: 'idle' });
+  };
+
+  const startDrag = (current: Extract<LongPressDragState<T>, { mode: 'pending' }>): void => {
+    const rect = current.source.getBoundingClientRect();
+    const ghost = current.source.cloneNode(true) as HTMLElement;
+    ghost.style.position = 'fixed';
+    ghost.style.left = `${rect.left}px`;
+    ghost.style.top = `${rect.top}px`;
+    ghost.style.width = `${rect.width}px`;
+    ghost.style.pointerEvents = 'none';
+    ghost.style.zIndex = '9999';
+    ghost.classList.add('drag-ghost');
+    document.body.appendChild(ghost);
+
+    current.source.classList.add('drag-source');
+    try {
+      current.source.setPointerCapture(current.pointerId);
+    } catch (err) {
+      console.warn('setPointerCapture failed:', err);
+    }
+    lockScroll();
+    document.body.classList.add('dragging-task');
+
+    updateDragState({
+      mode: 'dragging',
+      item: current.item,
+      pointerId: current.pointerId,
+      offsetX: current.startX - rect.left,
+      offsetY: current.startY - rect.top,
+      ghost,
+      source: current.source,
+    });
+    callbacksRef.current.onDragStart?.(current.item);
+  };
+
+  const isDragging = dragState.mode === 'dragging';
+
+  // Document-level listeners while dragging, so the ghost follows the pointer anywhere
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const getDropTarget = (e: PointerEvent): HTMLElement | null =>
+      (document.elementFromPoint(e.clientX, e.clientY)?.closest(dropTargetSelector) as HTMLElement | null) || null;
+
+    const handlePointerMove = (e: PointerEvent): void => {
+      const current = dragStateRef.current;
+      if (current.mode !== 'dragging') return;
+      e.preventDefault(); // Critical: prevent iOS scroll gestures
+      current.ghost.style.left = `${e.clientX - current.offsetX}px`;
+      current.ghost.style.top = `${e.clientY - current.offsetY}px`;
+      setHighlighted(getDropTarget(e));
+    };
+
+    const handlePointerUp = (e: PointerEvent): void => {
+      const current = dragStateRef.current;
+      if (current.mode !== 'dragging') return;
+      const target = getDropTarget(e);
+      cleanup();
+      // The release would otherwise also count as a click on the dragged element
+      const suppressClick = (clickEvent: MouseEvent): void => clickEvent.stopPropagation();
+      window.addEventListener('click', suppressClick, { capture: true, once: true });
+      window.setTimeout(() => window.removeEventListener('click', suppressClick, { capture: true }), 0);
+      callbacksRef.current.onDrop(current.item, target);
+    };
+
+    const handleTouchMove = (e: TouchEvent): void => {
+      if (e.touches.length > 1) return; // Allow pinch zoom
+      e.preventDefault();
+    };
+
+    document.addEventListener('pointermove', handlePointerMove, { passive: false });
+    document.addEventListener('pointerup', handlePointerUp);
+    document.addEventListener('pointercancel', cleanup);
+    document.addEventListener('touchmove', handleTouchMove, { passive: false });
+
+    return () => {
+      document.removeEventListener('pointermove', handlePointerMove);
+      document.removeEventListener('pointerup', handlePointerUp);
+      document.removeEventListener('pointercancel', cleanup);
+      document.removeEventListener('touchmove', handleTouchMove);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isDragging, dropTargetSelector]);
+
+  // Don't leave a ghost or a locked page behind on unmount
+  useEffect(() => {
+    return () => cleanup();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const getDragHandlers = (item: T): LongPressDragHandlers => {
+    if (!enabled) return {};
+
+    return {
+      onPointerDown: (e: React.PointerEvent) => {
+        const source = (e.currentTarget as HTMLElement).closest(sourceSelector) as HTMLElement | null;
+        if (!source) return;
+        const pending: LongPressDragState<T> = {
+          mode: 'pending',
+          item,
+          source,
+          startX: e.clientX,
+          startY: e.clientY,
+          pointerId: e.pointerId,
+        };
+        updateDragState(pending);
+        longPressRef.current = window.setTimeout(() => {
+          if (dragStateRef.current === pending) startDrag(pending);
+        }, LONG_PRESS_MS);
+      },
+      onPointerMove: (e: React.PointerEvent) => {
+        const current = dragStateRef.current;
+        // Moving before the long press completes means the user is scrolling
+        if (current.mode === 'pending' && Math.hypot(e.clientX - current.startX, e.clientY - current.startY) > MOVE_CANCEL_PX) {
+          clearLongPress();
+          updateDragState({ mode: 'idle' });
+        }
+      },
+      onPointerUp: () => {
+        if (dragStateRef.current.mode === 'pending') {
+          clearLongPress();
+          updateDragState({ mode: 'idle' });
+        }
+      },
+      onPointerCancel: cleanup,
+    };
+  };
+
+  return {
+    getDragHandlers,
+    draggedItem: dragState.mode === 'dragging' ? dragState.item : null,
+  };
+}
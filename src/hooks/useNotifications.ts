@@ -0,0 +1,197 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQueryClient, QueryClient } from '@tanstack/react-query';
+import { fetchTaskById, fetchTaskHistory } from '../services/taskService';
+import { fetchTaskComments } from '../services/commentService';
+import { fetchProjectSettings, fetchProjectMembers } from '../services/projectService';
+import { getNotificationState, setNotificationState } from '../services/storageService';
+import { cacheInvalidationService, TaskActivityEvent } from '../services/cacheInvalidationService.ts';
+import { taskKeys } from './useTasks.ts';
+import { projectKeys } from './useProjects.ts';
+import { commentKeys } from './useComments.ts';
+import { useAuthContext } from '../contexts/AuthContext.tsx';
+import { Task, TaskComment, TaskHistoryEntry, TaskNotification, TaskNotificationState } from '../types/hooks.ts';
+import { getWorkflowFromSettings } from '../utils/workflowUtils.ts';
+import {
+  deriveTaskNotifications,
+  getActivityBaseline,
+  isAssignedSince,
+  isWatchingTask,
+  mergeNotifications,
+} from '../utils/watchUtils.ts';
+
+const createNotificationState = (): TaskNotificationState => ({
+  notifications: [],
+  cursors: {},
+});
+
+const toHistory = (data: any): TaskHistoryEntry[] => (Array.isArray(data) ? data : data?.history || []);
+const toComments = (data: any): TaskComment[] => (Array.isArray(data) ? data : data?.comments || []);
+
+// Task activity is handled one event at a time, so concurrent events don't overwrite each other's cursors
+let activityQueue: Promise<void> = Promise.resolve();
+
+// Forget a task's cursor once the user isn't watching it, so watching it again starts from the task's next change
+const clearCursor = (userId: string, cursorKey: string): void => {
+  const latest: TaskNotificationState | null = getNotificationState(userId);
+  if (!latest || !(cursorKey in latest.cursors)) return;
+  const cursors = { ...latest.cursors };
+  delete cursors[cursorKey];
+  setNotificationState({ ...latest, cursors }, userId);
+};
+
+/**
+ * Turn one task change into notifications for the current user, if they watch the task
+ * Whether they watch it is read from the task as cached before the change, so unwatched
+ * tasks are skipped without fetching them - unless a task change made them its assignee.
+ * Task fields come from the task's history, comments from its thread - both refetched
+ * through the query cache, so open views get the fresh data too. Cursors only ever hold
+ * server timestamps, so a skewed client clock can't hide or repeat changes.
+ */
+const handleTaskActivity = async (queryClient: QueryClient, activity: TaskActivityEvent, userId: string): Promise<void> => {
+  const { previous } = activity;
+  const cursorKey = `${activity.taskId}:${activity.kind}`;
+  const state: TaskNotificationState = getNotificationState(userId) || createNotificationState();
+  const knownSince = state.cursors[cursorKey] || activity.since;
+
+  const fetchActivity = (): Promise<any> => activity.kind === 'task'
+    ? queryClient.fetchQuery({ queryKey: taskKeys.history(activity.taskId), queryFn: () => fetchTaskHistory(activity.taskId) })
+    : queryClient.fetchQuery({ queryKey: commentKeys.task(activity.taskId), queryFn: () => fetchTaskComments(activity.taskId) });
+
+  // A former assignee still hears about being taken off the task
+  const wasAssignee = activity.kind === 'task' && previous?.assigneeId === userId;
+  let activityData: any = null;
+  if (previous && !isWatchingTask(previous, userId) && !wasAssignee) {
+    // Only a task change that assigns the user can make them a watcher
+    if (activity.kind === 'comment') {
+      clearCursor(userId, cursorKey);
+      return;
+    }
+    if (knownSince) {
+      activityData = await fetchActivity();
+      if (!isAssignedSince(toHistory(activityData), userId, knownSince)) {
+        clearCursor(userId, cursorKey);
+        return;
+      }
+    }
+  }
+
+  const task: Task = await queryClient.fetchQuery({
+    queryKey: taskKeys.detail(activity.taskId),
+    queryFn: () => fetchTaskById(activity.taskId),
+  });
+  if (!isWatchingTask(task, userId) && !wasAssignee) {
+    clearCursor(userId, cursorKey);
+    return;
+  }
+
+  const [fetchedActivity, settings, membersData]: any[] = await Promise.all([
+    activityData || fetchActivity(),
+    queryClient.ensureQueryData({
+      queryKey: projectKeys.settings(task.projectId),
+      queryFn: () => fetchProjectSettings(task.projectId),
+    }),
+    queryClient.ensureQueryData({
+      queryKey: ['projectMembers', task.projectId],
+      queryFn: () => fetchProjectMembers(task.projectId),
+    }),
+  ]);
+  const history = activity.kind === 'task' ? toHistory(fetchedActivity) : [];
+  const comments = activity.kind === 'comment' ? toComments(fetchedActivity) : [];
+
+  const { notifications, cursor } = deriveTaskNotifications({
+    task,
+    history,
+    comments,
+    userId,
+    // Tasks never loaded before have no baseline from before the change - start just before it
+    since: knownSince || getActivityBaseline(activity.kind === 'task' ? history : comments),
+    workflow: getWorkflowFromSettings(settings),
+    members: Array.isArray(membersData) ? membersData : membersData?.members || [],
+  });
+
+  // Re-read in case the list was changed (e.g. marked read) while fetching
+  const latest: TaskNotificationState = getNotificationState(userId) || state;
+  setNotificationState({
+    ...latest,
+    notifications: mergeNotifications(latest.notifications, notifications),
+    cursors: { ...latest.cursors, [cursorKey]: cursor },
+  }, userId);
+};
+
+/**
+ * Hook that turns live changes to watched tasks into notifications
+ * Listens to task updates and new comments from the project WebSocket, so it covers
+ * tasks in the project that's currently open. Mount it once (the Navbar's bell does).
+ */
+export const useWatchNotifications = () => {
+  const queryClient = useQueryClient();
+  const { userId, isAuthenticated } = useAuthContext();
+
+  useEffect(() => {
+    if (!userId || !isAuthenticated) return;
+    if (!getNotificationState(userId)) {
+      setNotificationState(createNotificationState(), userId);
+    }
+
+    cacheInvalidationService.setOnTaskActivityCallback((activity) => {
+      activityQueue = activityQueue
+        .then(() => handleTaskActivity(queryClient, activity, userId))
+        .catch((err) => console.error('❌ Error creating task notifications:', err));
+    });
+
+    return () => {
+      cacheInvalidationService.setOnTaskActivityCallback(null);
+    };
+  }, [queryClient, userId, isAuthenticated]);
+};
+
+/**
+ * Hook for the current user's task notifications
+ * Kept in localStorage, so they stay in step between components and other tabs.
+ *
+ * @returns Notifications (newest first), the unread count, and functions to mark them read
+ */
+export const useTaskNotifications = () => {
+  const { userId } = useAuthContext();
+  const [notifications, setNotifications] = useState<TaskNotification[]>(
+    () => getNotificationState(userId)?.notifications || []
+  );
+
+  useEffect(() => {
+    const sync = (): void => setNotifications(getNotificationState(userId)?.notifications || []);
+    sync();
+    // 'storage' covers other tabs, 'notifications-changed' this one
+    window.addEventListener('storage', sync);
+    window.addEventListener('notifications-changed', sync);
+    return () => {
+      window.removeEventListener('storage', sync);
+      window.removeEventListener('notifications-changed', sync);
+    };
+  }, [userId]);
+
+  const updateNotifications = useCallback((updater: (stored: TaskNotification[]) => TaskNotification[]): void => {
+    const state: TaskNotificationState | null = getNotificationState(userId);
+    if (!state) return;
+    setNotificationState({ ...state, notifications: updater(state.notifications) }, userId);
+  }, [userId]);
+
+  const markRead = useCallback((notificationId: string): void => {
+    updateNotifications((stored) => stored.map((n) => (n.id === notificationId ? { ...n, read: true } : n)));
+  }, [updateNotifications]);
+
+  const markAllRead = useCallback((): void => {
+    updateNotifications((stored) => stored.map((n) => (n.read ? n : { ...n, read: true })));
+  }, [updateNotifications]);
+
+  const clearNotifications = useCallback((): void => {
+    updateNotifications(() => []);
+  }, [updateNotifications]);
+
+  return {
+    notifications,
+    unreadCount: notifications.filter((n) => !n.read).length,
+    markRead,
+    markAllRead,
+    clearNotifications,
+  };
+};
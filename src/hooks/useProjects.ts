@@ -1,9 +1,12 @@
+import { useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import {
   fetchUserProjects,
   fetchProjectById,
   createProject,
   updateProject,
+  fetchProjectSettings,
+  updateProjectSettings,
   deleteProject,
   joinProjectByCode,
   fetchProjectMembers,
@@ -13,6 +16,9 @@ import { api } from '../lib/apiClient.ts';
 import { ENDPOINTS } from '../config';
 import { getUserId } from '../services/authService.ts';
 import { useAuthContext } from '../contexts/AuthContext.tsx';
+import { ProjectSettings, WorkflowStatus, TaskTemplate } from '../types/hooks.ts';
+import { getWorkflowFromSettings, getWipLimitsFromSettings, getLastStatusIdFromSettings } from '../utils/workflowUtils.ts';
+import { getTemplatesFromSettings } from '../utils/templateUtils.ts';
 
 // Query keys
 export const projectKeys = {
@@ -21,6 +27,7 @@ export const projectKeys = {
   list: (filters?: any) => [...projectKeys.lists(), filters] as const,
   details: () => [...projectKeys.all, 'detail'] as const,
   detail: (id: string) => [...projectKeys.details(), id] as const,
+  settings: (id: string) => [...projectKeys.all, 'settings', id] as const,
 };
 
 /**
@@ -107,10 +114,11 @@ export const useCreateProject = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (projectData: { name: string; description?: string }) =>
+    mutationFn: (projectData: { name: string; description?: string; key?: string }) =>
       createProject({
         name: projectData.name,
         description: projectData.description || "",
+        key: projectData.key,
       }),
     onSuccess: (data) => {
       // Directly add the new project to the projects list cache
@@ -172,6 +180,87 @@ export const useUpdateProject = () => {
   });
 };
 
+/**
+ * Hook to fetch a project's settings
+ * @param projectId The project ID
+ * @returns Query result with project settings
+ */
+export const useProjectSettings = (projectId: string | null | undefined) => {
+  const { isAuthenticated, isLoading: authLoading } = useAuthContext();
+
+  return useQuery({
+    queryKey: projectKeys.settings(projectId || ''),
+    queryFn: () => fetchProjectSettings(projectId!),
+    enabled: !!projectId && isAuthenticated && !authLoading, // ✅ Only fetch when authenticated AND auth is initialized
+    staleTime: 5 * 60 * 1000, // 5 minutes - WebSocket invalidation picks up edits by other members
+    retry: (failureCount, error: any) => {
+      // Don't retry on 401 - token refresh should handle it
+      if (error?.status === 401 || error?.response?.status === 401) {
+        return false;
+      }
+      return failureCount < 3;
+    },
+  });
+};
+
+/**
+ * Hook to get a project's workflow statuses in column order
+ * Falls back to the default To Do / In Progress / Completed workflow while loading
+ * or when the project hasn't configured one.
+ * @param projectId The project ID
+ * @returns Ordered workflow statuses
+ */
+export const useProjectWorkflow = (projectId: string | null | undefined): WorkflowStatus[] => {
+  const { data } = useProjectSettings(projectId);
+  return useMemo(() => getWorkflowFromSettings(data), [data]);
+};
+
+/**
+ * Hook to get a project's per-column WIP limits
+ * @param projectId The project ID
+ * @returns Limits keyed by workflow status ID (empty while loading or when none are set)
+ */
+export const useProjectWipLimits = (projectId: string | null | undefined): Record<number, number> => {
+  const { data } = useProjectSettings(projectId);
+  return useMemo(() => getWipLimitsFromSettings(data), [data]);
+};
+
+/**
+ * Hook to get the highest workflow status ID a project has ever allocated
+ * @param projectId The project ID
+ * @returns The high-water mark (null while loading or for projects saved before it was tracked)
+ */
+export const useProjectLastStatusId = (projectId: string | null | undefined): number | null => {
+  const { data } = useProjectSettings(projectId);
+  return useMemo(() => getLastStatusIdFromSettings(data), [data]);
+};
+
+/**
+ * Hook to get a project's task templates
+ * @param projectId The project ID
+ * @returns Templates in their saved order (empty while loading or when none are defined)
+ */
+export const useProjectTemplates = (projectId: string | null | undefined): TaskTemplate[] => {
+  const { data } = useProjectSettings(projectId);
+  return useMemo(() => getTemplatesFromSettings(data), [data]);
+};
+
+/**
+ * Hook to update a project's settings
+ * @returns Mutation hook for updating project settings
+ */
+export const useUpdateProjectSettings = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ projectId, settings }: { projectId: string; settings: Partial<Omit<ProjectSettings, 'projectId'>> }) =>
+      updateProjectSettings(projectId, settings),
+    onSuccess: (data, variables) => {
+      queryClient.setQueryData(projectKeys.settings(variables.projectId), data);
+    },
+  });
+};
+
 /**
  * Hook to delete a project
  * @returns Mutation hook for deleting projects
@@ -0,0 +1,196 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchProjectViews,
+  createView,
+  updateView,
+  deleteView,
+} from '../services/viewService';
+import { useAuthContext } from '../contexts/AuthContext.tsx';
+import { useToast } from '../contexts/ToastContext.tsx';
+import { SavedView, SavedViewPage, SavedViewState } from '../types/hooks.ts';
+import { VIEW_QUERY_PARAM } from '../utils/savedViewUtils.ts';
+
+// Query keys
+export const viewKeys = {
+  all: ['views'] as const,
+  lists: () => [...viewKeys.all, 'list'] as const,
+  project: (projectId: string) => [...viewKeys.lists(), projectId] as const,
+};
+
+// Apply a change to a cached views response (plain array or { views })
+const updateCachedViews = (oldData: any, update: (views: SavedView[]) => SavedView[]): any => {
+  if (!oldData) return oldData;
+  const isArray = Array.isArray(oldData);
+  const views = isArray ? oldData : (oldData.views || []);
+  const updatedViews = update(views);
+  return isArray ? updatedViews : { ...oldData, views: updatedViews };
+};
+
+/**
+ * Hook to fetch the saved views visible to the current user in a project
+ * @param projectId The project ID
+ * @returns Query result with the user's own views and views shared with the project
+ */
+export const useProjectViews = (projectId: string | null | undefined) => {
+  const { isAuthenticated, isLoading: authLoading } = useAuthContext();
+
+  return useQuery({
+    queryKey: viewKeys.project(projectId || ''),
+    queryFn: () => fetchProjectViews(projectId!),
+    enabled: !!projectId && isAuthenticated && !authLoading, // ✅ Only fetch when authenticated AND auth is initialized
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    select: (data: any): SavedView[] => (Array.isArray(data) ? data : data?.views || []),
+    retry: (failureCount, error: any) => {
+      // Don't retry on 401 - token refresh should handle it
+      if (error?.status === 401 || error?.response?.status === 401) {
+        return false;
+      }
+      return failureCount < 3;
+    },
+  });
+};
+
+/**
+ * Hook to save the current filters as a new view
+ * @returns Mutation hook for creating views
+ */
+export const useCreateView = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      projectId,
+      viewData,
+    }: {
+      projectId: string;
+      viewData: { name: string; page: SavedViewPage; shared: boolean; state: SavedViewState };
+    }) => createView(projectId, viewData),
+    onSuccess: (data: SavedView, variables) => {
+      queryClient.setQueryData(viewKeys.project(variables.projectId), (oldData: any) =>
+        oldData ? updateCachedViews(oldData, (views) => [...views, data]) : [data]
+      );
+    },
+  });
+};
+
+/**
+ * Hook to rename, re-share or overwrite a saved view
+ * @returns Mutation hook for updating views
+ */
+export const useUpdateView = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      viewId,
+      viewData,
+    }: {
+      viewId: string;
+      viewData: { name?: string; shared?: boolean; state?: SavedViewState };
+    }) => updateView(viewId, viewData),
+    onSuccess: (data: SavedView) => {
+      queryClient.setQueryData(viewKeys.project(data.projectId), (oldData: any) =>
+        updateCachedViews(oldData, (views) => views.map((view) => (view.id === data.id ? data : view)))
+      );
+    },
+  });
+};
+
+/**
+ * Hook to delete a saved view
+ * @returns Mutation hook for deleting views
+ */
+export const useDeleteView = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ viewId }: { viewId: string; projectId: string }) => deleteView(viewId),
+    onSuccess: (_, variables) => {
+      queryClient.setQueryData(viewKeys.project(variables.projectId), (oldData: any) =>
+        updateCachedViews(oldData, (views) => views.filter((view) => view.id !== variables.viewId))
+      );
+    },
+  });
+};
+
+/**
+ * Hook tying a page's filters to the view named in the URL (?view=<id>)
+ * Opening a link to a view applies its state once the views (and the page's data) have loaded.
+ *
+ * @param projectId The project ID
+ * @param page Page the views belong to
+ * @param ready Whether the page can apply a view yet (e.g. sprints loaded)
+ * @param applyState Sets the page's filters, sort, grouping and sprint from a view
+ * @returns The page's views, the active one, and a setter that updates the URL
+ */
+export const useActiveSavedView = ({
+  projectId,
+  page,
+  ready,
+  applyState,
+}: {
+  projectId: string | null | undefined;
+  page: SavedViewPage;
+  ready: boolean;
+  applyState: (state: SavedViewState) => void;
+}) => {
+  const { showError } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: projectViews, isSuccess } = useProjectViews(projectId);
+  const activeViewId = searchParams.get(VIEW_QUERY_PARAM);
+
+  // View whose state was last applied, so cache refreshes don't reset the user's changes
+  const appliedViewIdRef = useRef<string | null>(null);
+  const applyStateRef = useRef(applyState);
+  applyStateRef.current = applyState;
+
+  const views = useMemo(
+    () => (projectViews || []).filter((view) => view.page === page),
+    [projectViews, page]
+  );
+  const activeView = views.find((view) => view.id === activeViewId) || null;
+
+  const setViewParam = (viewId: string | null): void => {
+    setSearchParams((params) => {
+      if (viewId) {
+        params.set(VIEW_QUERY_PARAM, viewId);
+      } else {
+        params.delete(VIEW_QUERY_PARAM);
+      }
+      return params;
+    });
+  };
+
+  useEffect(() => {
+    if (!activeViewId) {
+      appliedViewIdRef.current = null;
+      return;
+    }
+    if (!isSuccess || !ready || appliedViewIdRef.current === activeViewId) return;
+
+    appliedViewIdRef.current = activeViewId;
+    const view = views.find((v) => v.id === activeViewId);
+    if (!view) {
+      showError('That saved view was deleted or is private to another member');
+      setSearchParams((params) => {
+        params.delete(VIEW_QUERY_PARAM);
+        return params;
+      }, { replace: true });
+      return;
+    }
+    applyStateRef.current(view.state);
+  }, [activeViewId, isSuccess, ready, views, showError, setSearchParams]);
+
+  // Picking the active view again re-applies it, discarding unsaved changes
+  const selectView = (viewId: string | null): void => {
+    if (viewId && viewId === activeViewId && activeView) {
+      applyState(activeView.state);
+      return;
+    }
+    setViewParam(viewId);
+  };
+
+  return { views, activeView, selectView };
+};
@@ -1,4 +1,4 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, QueryClient } from '@tanstack/react-query';
 import {
   fetchProjectSprints,
   fetchSprintById,
@@ -9,7 +9,14 @@ import {
   startSprint,
   completeSprint,
 } from '../services/sprintService';
+import { fetchAllProjectTasks, createRecurringInstance } from '../services/taskService';
+import { fetchProjectSettings } from '../services/projectService';
+import { taskKeys } from './useTasks.ts';
+import { projectKeys } from './useProjects.ts';
 import { useAuthContext } from '../contexts/AuthContext.tsx';
+import { Task } from '../types/hooks.ts';
+import { getSprintRecurringTasks } from '../utils/recurrenceUtils.ts';
+import { getWorkflowFromSettings, getInitialStatusId } from '../utils/workflowUtils.ts';
 
 // Query keys
 export const sprintKeys = {
@@ -193,20 +200,63 @@ export const useDeleteSprint = () => {
   });
 };
 
+/**
+ * Give every-sprint recurring tasks a fresh instance in a sprint that just started
+ * Each task is handled on its own, so one failure doesn't stop the rest (or the sprint start).
+ * Instances start in the workflow's first "todo" status.
+ *
+ * @returns Number of instances created
+ */
+const createSprintRecurringInstances = async (queryClient: QueryClient, projectId: string, sprintId: string): Promise<number> => {
+  let created = 0;
+  try {
+    const [data, settings]: any[] = await Promise.all([
+      fetchAllProjectTasks(projectId),
+      queryClient.ensureQueryData({
+        queryKey: projectKeys.settings(projectId),
+        queryFn: () => fetchProjectSettings(projectId),
+      }),
+    ]);
+    const tasks: Task[] = Array.isArray(data) ? data : data?.tasks || [];
+    const status = getInitialStatusId(getWorkflowFromSettings(settings));
+
+    for (const task of getSprintRecurringTasks(tasks, sprintId)) {
+      try {
+        await createRecurringInstance(task, { sprintId, dueDate: null, status });
+        created++;
+      } catch (err) {
+        console.error(`❌ Error carrying recurring task ${task.id} into sprint ${sprintId}:`, err);
+      }
+    }
+  } catch (err) {
+    console.error('❌ Error loading recurring tasks for new sprint:', err);
+  }
+  return created;
+};
+
 /**
  * Hook to start a sprint
+ * Every-sprint recurring tasks are created in the sprint as part of starting it.
  * @returns Mutation hook for starting sprints
  */
 export const useStartSprint = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (sprintId: string) => startSprint(sprintId),
+    mutationFn: async (sprintId: string) => {
+      const sprint = await startSprint(sprintId);
+      if (sprint?.projectId) {
+        await createSprintRecurringInstances(queryClient, sprint.projectId, sprintId);
+      }
+      return sprint;
+    },
     onSuccess: (data, sprintId) => {
       // Update the specific sprint in cache
       queryClient.setQueryData(sprintKeys.detail(sprintId), data);
       // Invalidate sprints lists
       queryClient.invalidateQueries({ queryKey: sprintKeys.lists() });
+      // New recurring instances landed in the sprint
+      queryClient.invalidateQueries({ queryKey: taskKeys.lists() });
     },
   });
 };
@@ -7,12 +7,14 @@ import {
   useUpdateTask,
   useUpdateTaskStatus
 } from './useTasks.ts';
+import { useProjectWorkflow } from './useProjects.ts';
 import { 
   UseTaskManagementReturn, 
   Task, 
   CreateTaskData, 
   UpdateTaskData 
 } from '../types/hooks.ts';
+import { getWorkflowStatus } from '../utils/workflowUtils.ts';
 
 /**
  * useTaskManagement
@@ -29,7 +31,7 @@ export const useTaskManagement = (projectId: string, sprintId: string | null = n
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
 
   // TanStack Query hooks for data fetching
-  const projectTasksQuery = useProjectTasks(sprintId ? null : projectId, { limit: 100, offset: 0 });
+  const projectTasksQuery = useProjectTasks(sprintId ? null : projectId);
   const sprintTasksQuery = useSprintTasks(sprintId, { limit: 100, offset: 0 });
   
   // Use appropriate query based on sprintId
@@ -39,6 +41,7 @@ export const useTaskManagement = (projectId: string, sprintId: string | null = n
   const createTaskMutation = useCreateTask();
   const updateTaskMutation = useUpdateTask();
   const updateTaskStatusMutation = useUpdateTaskStatus();
+  const workflow = useProjectWorkflow(projectId);
 
   // Extract tasks array from response
   const tasks: Task[] = useMemo(() => {
@@ -46,10 +49,10 @@ export const useTaskManagement = (projectId: string, sprintId: string | null = n
     return tasksQuery.data.tasks || tasksQuery.data || [];
   }, [tasksQuery.data]);
 
-  // Tasks categorized by status
-  const todoTasks = useMemo(() => tasks.filter(task => task.status === 0), [tasks]);
-  const inProgressTasks = useMemo(() => tasks.filter(task => task.status === 1), [tasks]);
-  const completedTasks = useMemo(() => tasks.filter(task => task.status === 2), [tasks]);
+  // Tasks categorized by their workflow status category
+  const todoTasks = useMemo(() => tasks.filter(task => getWorkflowStatus(workflow, task.status)?.category === 'todo'), [tasks, workflow]);
+  const inProgressTasks = useMemo(() => tasks.filter(task => getWorkflowStatus(workflow, task.status)?.category === 'doing'), [tasks, workflow]);
+  const completedTasks = useMemo(() => tasks.filter(task => getWorkflowStatus(workflow, task.status)?.category === 'done'), [tasks, workflow]);
 
   // Loading and error states
   const loading = tasksQuery.isLoading;
@@ -82,10 +85,10 @@ export const useTaskManagement = (projectId: string, sprintId: string | null = n
     }
   };
 
-  const handleCreateTask = async (taskData: CreateTaskData): Promise<{ success: boolean; error?: string }> => {
+  const handleCreateTask = async (taskData: CreateTaskData): Promise<{ success: boolean; task?: Task; error?: string }> => {
     try {
-      if (!taskData.description) {
-        throw new Error("Task description is required");
+      if (!taskData.title || taskData.title.trim() === '') {
+        throw new Error("Task title is required");
       }
       
       if (!taskData.sprintID) {
@@ -96,16 +99,21 @@ export const useTaskManagement = (projectId: string, sprintId: string | null = n
       
       // Transform data for Go/PostgreSQL API
       const payload = {
-        description: taskData.description,
-        status: 0, // Default status: 0 (pending) for Go backend
+        title: taskData.title.trim(),
+        description: taskData.description || '',
+        status: workflow[0].id, // New tasks start in the first workflow column
         ...(taskData.sprintID && { sprintId: taskData.sprintID }),
-        ...(taskData.assigneeId && { assigneeId: taskData.assigneeId })
+        ...(taskData.assigneeId && { assigneeId: taskData.assigneeId }),
+        ...(taskData.estimate !== undefined && taskData.estimate !== null && { estimate: taskData.estimate }),
+        ...(taskData.priority !== undefined && { priority: taskData.priority }),
+        ...(taskData.labelIds !== undefined && { labelIds: taskData.labelIds }),
+        ...(taskData.dueDate && { dueDate: taskData.dueDate })
       };
       
-      await createTaskMutation.mutateAsync({ projectId, taskData: payload });
+      const task: Task = await createTaskMutation.mutateAsync({ projectId, taskData: payload });
       console.log("✅ Task created successfully");
       // Cache invalidation handled automatically by mutation
-      return { success: true };
+      return { success: true, task };
     } catch (err: any) {
       const errorMessage = err.message || "Failed to create task";
       console.error(`❌ Error creating task: ${errorMessage}`, err);
@@ -123,10 +131,15 @@ export const useTaskManagement = (projectId: string, sprintId: string | null = n
       
       // Transform data for Go/PostgreSQL API
       const payload = {
-        description: taskData.description,
+        ...(taskData.title !== undefined && { title: taskData.title }),
+        ...(taskData.description !== undefined && { description: taskData.description }),
         ...(taskData.status !== undefined && { status: taskData.status }),
         ...(taskData.sprintID && { sprintId: taskData.sprintID }),
-        ...(taskData.assigneeId && { assigneeId: taskData.assigneeId })
+        ...(taskData.assigneeId && { assigneeId: taskData.assigneeId }),
+        ...(taskData.estimate !== undefined && { estimate: taskData.estimate }),
+        ...(taskData.priority !== undefined && { priority: taskData.priority }),
+        ...(taskData.labelIds !== undefined && { labelIds: taskData.labelIds }),
+        ...(taskData.dueDate !== undefined && { dueDate: taskData.dueDate })
       };
       
       await updateTaskMutation.mutateAsync({ taskId: taskData.id, taskData: payload });
@@ -144,12 +157,11 @@ export const useTaskManagement = (projectId: string, sprintId: string | null = n
     try {
       console.log(`🔄 Updating task ${taskId} status to ${newStatus}`);
       
-      // Validate status values for Go/PostgreSQL backend
-      const validStatuses = [0, 1, 2]; // 0: pending, 1: in_progress, 2: completed
+      // Validate against the project's workflow
       const numericStatus = Number(newStatus);
       
-      if (!validStatuses.includes(numericStatus)) {
-        throw new Error(`Invalid status value: ${newStatus}. Must be 0, 1, or 2`);
+      if (!getWorkflowStatus(workflow, numericStatus)) {
+        throw new Error(`Invalid status value: ${newStatus}. Not part of this project's workflow`);
       }
       
       await updateTaskStatusMutation.mutateAsync({ taskId, status: numericStatus });
@@ -188,8 +200,8 @@ export const useTaskManagement = (projectId: string, sprintId: string | null = n
 
   // Validate task data before creation or update
   const validateTaskData = (taskData: CreateTaskData | UpdateTaskData): { valid: boolean; error?: string } => {
-    if (!taskData.description || taskData.description.trim() === '') {
-      return { valid: false, error: "Task description is required" };
+    if (!taskData.title || taskData.title.trim() === '') {
+      return { valid: false, error: "Task title is required" };
     }
     
     if (!taskData.sprintID) {
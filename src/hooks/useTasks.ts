@@ -1,14 +1,36 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useQueries, useMutation, useQueryClient, QueryClient, QueryKey } from '@tanstack/react-query';
 import {
-  fetchProjectTasks,
+  fetchAllProjectTasks,
   fetchSprintTasks,
   fetchTaskById,
+  fetchTaskByKey,
+  fetchTaskHistory,
   createTask,
+  duplicateTask,
+  createRecurringInstance,
+  moveTaskToProject,
   updateTask,
   deleteTask,
   updateTaskStatus,
+  createSubtask,
+  updateSubtask,
+  deleteSubtask,
+  reorderSubtasks,
+  updateTaskRanks,
+  assignTask,
+  unassignTask,
+  watchTask,
+  unwatchTask,
+  moveTaskToSprint,
+  removeTaskFromSprint,
 } from '../services/taskService';
+import { fetchProjectSettings } from '../services/projectService';
+import { projectKeys } from './useProjects.ts';
 import { useAuthContext } from '../contexts/AuthContext.tsx';
+import { Task, Subtask, TaskHistoryEntry, TaskRankUpdate, BulkTaskAction, BulkTaskResult } from '../types/hooks.ts';
+import { getDueDateDeadline } from '../utils/taskUtils.ts';
+import { getWorkflowFromSettings, getInitialStatusId, isDoneStatus } from '../utils/workflowUtils.ts';
+import { getNextOccurrence } from '../utils/recurrenceUtils.ts';
 
 // Query keys
 export const taskKeys = {
@@ -18,21 +40,23 @@ export const taskKeys = {
   sprint: (sprintId: string) => [...taskKeys.lists(), 'sprint', sprintId] as const,
   details: () => [...taskKeys.all, 'detail'] as const,
   detail: (id: string) => [...taskKeys.details(), id] as const,
+  byKey: (taskKey: string) => [...taskKeys.all, 'key', taskKey.toUpperCase()] as const,
+  history: (id: string) => [...taskKeys.detail(id), 'history'] as const,
 };
 
 /**
  * Hook to fetch all tasks for a project
+ * Loads every page, so search, the backlog and status checks see the whole project.
  * @param projectId The project ID
- * @param options Pagination options
  * @returns Query result with tasks data
  */
-export const useProjectTasks = (projectId: string | null | undefined, options?: { limit?: number; offset?: number }) => {
+export const useProjectTasks = (projectId: string | null | undefined) => {
   const { userId, isLoading: authLoading } = useAuthContext();
   
   // Task 4.2: Guard queries - early exit if no userId
   return useQuery({
     queryKey: taskKeys.project(projectId || ''),
-    queryFn: () => fetchProjectTasks(projectId!, options),
+    queryFn: () => fetchAllProjectTasks(projectId!),
     enabled: !!projectId && !!userId && !authLoading, // ✅ Only fetch when authenticated AND auth is initialized
     staleTime: 2 * 60 * 1000, // 2 minutes
     retry: (failureCount, error: any) => {
@@ -45,6 +69,55 @@ export const useProjectTasks = (projectId: string | null | undefined, options?:
   });
 };
 
+/**
+ * Hook to collect the current user's upcoming tasks across several projects
+ * Reuses each project's task list and settings queries, so cache invalidation keeps it fresh.
+ * @param projectIds The projects to scan
+ * @param windowDays Include tasks due within this many days (overdue tasks are always included)
+ * @returns Open tasks assigned to the user, soonest due first, plus a loading flag
+ */
+export const useDueSoonTasks = (projectIds: string[], windowDays: number = 7) => {
+  const { userId, isLoading: authLoading } = useAuthContext();
+
+  const results = useQueries({
+    queries: projectIds.map((projectId) => ({
+      queryKey: taskKeys.project(projectId),
+      queryFn: () => fetchAllProjectTasks(projectId), // Same key and shape as useProjectTasks
+      enabled: !!userId && !authLoading,
+      staleTime: 2 * 60 * 1000, // 2 minutes
+    })),
+  });
+
+  // Each project's workflow decides which statuses count as done
+  const settingsResults = useQueries({
+    queries: projectIds.map((projectId) => ({
+      queryKey: projectKeys.settings(projectId),
+      queryFn: () => fetchProjectSettings(projectId),
+      enabled: !!userId && !authLoading,
+      staleTime: 5 * 60 * 1000, // 5 minutes
+    })),
+  });
+
+  const isLoading = results.some((result) => result.isLoading);
+  const horizon = Date.now() + windowDays * 24 * 60 * 60 * 1000;
+
+  const tasks: Task[] = results
+    .flatMap((result, index) => {
+      const data: any = result.data;
+      const workflow = getWorkflowFromSettings(settingsResults[index]?.data);
+      const projectTasks: Task[] = Array.isArray(data) ? data : data?.tasks || [];
+      return projectTasks.filter((task) => !isDoneStatus(workflow, task.status));
+    })
+    .filter((task: Task) =>
+      task.assigneeId === userId &&
+      !!task.dueDate &&
+      getDueDateDeadline(task.dueDate).getTime() <= horizon
+    )
+    .sort((a: Task, b: Task) => getDueDateDeadline(a.dueDate!).getTime() - getDueDateDeadline(b.dueDate!).getTime());
+
+  return { tasks, isLoading };
+};
+
 /**
  * Hook to fetch all tasks for a sprint
  * @param sprintId The sprint ID
@@ -92,6 +165,55 @@ export const useTask = (taskId: string | null | undefined) => {
   });
 };
 
+/**
+ * Hook to fetch a task by its human-readable key (e.g. "DH-142")
+ * @param taskKey The task key
+ * @returns Query result with the task data
+ */
+export const useTaskByKey = (taskKey: string | null | undefined) => {
+  const { isAuthenticated, isLoading: authLoading } = useAuthContext();
+
+  return useQuery({
+    queryKey: taskKeys.byKey(taskKey || ''),
+    queryFn: () => fetchTaskByKey(taskKey!),
+    enabled: !!taskKey && isAuthenticated && !authLoading, // ✅ Only fetch when authenticated AND auth is initialized
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    retry: (failureCount, error: any) => {
+      // Don't retry on 401 (token refresh handles it) or 403/404 (no access, or no task with that key)
+      const status = error?.status ?? error?.response?.status;
+      if (status === 401 || status === 403 || status === 404) {
+        return false;
+      }
+      return failureCount < 3;
+    },
+  });
+};
+
+/**
+ * Hook to fetch the activity history of a task
+ * Keyed under the task's detail key, so task invalidations refresh it too.
+ * @param taskId The task ID
+ * @returns Query result with history entries, oldest first
+ */
+export const useTaskHistory = (taskId: string | null | undefined) => {
+  const { isAuthenticated, isLoading: authLoading } = useAuthContext();
+
+  return useQuery({
+    queryKey: taskKeys.history(taskId || ''),
+    queryFn: () => fetchTaskHistory(taskId!),
+    enabled: !!taskId && isAuthenticated && !authLoading, // ✅ Only fetch when authenticated AND auth is initialized
+    staleTime: 30 * 1000, // 30 seconds
+    select: (data: any): TaskHistoryEntry[] => (Array.isArray(data) ? data : data?.history || []),
+    retry: (failureCount, error: any) => {
+      // Don't retry on 401 - token refresh should handle it
+      if (error?.status === 401 || error?.response?.status === 401) {
+        return false;
+      }
+      return failureCount < 3;
+    },
+  });
+};
+
 /**
  * Hook to create a new task
  * @returns Mutation hook for creating tasks
@@ -139,6 +261,60 @@ export const useCreateTask = () => {
   });
 };
 
+/**
+ * Hook to copy a task (with its checklist) within its project
+ * The copy starts in the project workflow's first "todo" status.
+ * @returns Mutation hook resolving to the new task
+ */
+export const useDuplicateTask = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (task: Task): Promise<Task> => {
+      const settings = await queryClient.ensureQueryData({
+        queryKey: projectKeys.settings(task.projectId),
+        queryFn: () => fetchProjectSettings(task.projectId),
+      });
+      return duplicateTask(task, getInitialStatusId(getWorkflowFromSettings(settings)));
+    },
+    onSettled: (_data, _err, task) => {
+      // Also after a failure - a copy whose checklist failed may still exist
+      queryClient.invalidateQueries({ queryKey: taskKeys.project(task.projectId) });
+      if (task.sprintId) {
+        queryClient.invalidateQueries({ queryKey: taskKeys.sprint(task.sprintId) });
+      }
+    },
+  });
+};
+
+/**
+ * Hook to move a task into another project
+ * Refreshes the task lists of both projects and both sprints; the old key no longer resolves.
+ * @returns Mutation hook resolving to the moved task
+ */
+export const useMoveTaskToProject = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ task, projectId, sprintId, unassign }: { task: Task; projectId: string; sprintId: string | null; unassign: boolean }): Promise<Task> =>
+      moveTaskToProject(task.id, { projectId, sprintId, unassign }),
+    onSuccess: (data, { task, projectId, sprintId }) => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.project(task.projectId) });
+      queryClient.invalidateQueries({ queryKey: taskKeys.project(projectId) });
+      if (task.sprintId) {
+        queryClient.invalidateQueries({ queryKey: taskKeys.sprint(task.sprintId) });
+      }
+      if (sprintId) {
+        queryClient.invalidateQueries({ queryKey: taskKeys.sprint(sprintId) });
+      }
+      if (task.key) {
+        queryClient.removeQueries({ queryKey: taskKeys.byKey(task.key) });
+      }
+      queryClient.setQueryData(taskKeys.detail(task.id), data);
+    },
+  });
+};
+
 /**
  * Hook to update an existing task
  * @returns Mutation hook for updating tasks
@@ -195,6 +371,295 @@ export const useUpdateTask = () => {
   });
 };
 
+/**
+ * Hook to watch or stop watching a task as the current user
+ * Only the watcher fields are taken from the response, so toggling never overwrites other cached task data.
+ * @returns Mutation hook taking the task ID and whether to watch it
+ */
+export const useToggleTaskWatch = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ taskId, watch }: { taskId: string; watch: boolean }) =>
+      watch ? watchTask(taskId) : unwatchTask(taskId),
+    onSuccess: (data: Task, variables) => {
+      const withWatchers = (task: any) =>
+        task.id === variables.taskId
+          ? { ...task, watcherIds: data.watcherIds || [], unwatchedIds: data.unwatchedIds || [] }
+          : task;
+
+      queryClient.setQueriesData({ queryKey: taskKeys.lists() }, (oldData: any) => {
+        if (!oldData) return oldData;
+        const isArray = Array.isArray(oldData);
+        const tasks = isArray ? oldData : (oldData.tasks || []);
+        const updatedTasks = tasks.map(withWatchers);
+        return isArray ? updatedTasks : { ...oldData, tasks: updatedTasks };
+      });
+      queryClient.setQueryData(taskKeys.detail(variables.taskId), (oldData: any) =>
+        oldData ? withWatchers(oldData) : oldData
+      );
+    },
+  });
+};
+
+// Snapshot of every cached task query, used to roll back optimistic checklist edits
+type TaskQuerySnapshot = [QueryKey, unknown][];
+
+/**
+ * Replace a task's checklist in every cached list and in its detail entry
+ */
+const setCachedSubtasks = (
+  queryClient: QueryClient,
+  taskId: string,
+  updater: (subtasks: Subtask[]) => Subtask[]
+): void => {
+  const withSubtasks = (task: any) =>
+    task.id === taskId ? { ...task, subtasks: updater(task.subtasks || []) } : task;
+
+  queryClient.setQueriesData({ queryKey: taskKeys.lists() }, (oldData: any) => {
+    if (!oldData) return oldData;
+    const isArray = Array.isArray(oldData);
+    const tasks = isArray ? oldData : (oldData.tasks || []);
+    const updatedTasks = tasks.map(withSubtasks);
+    return isArray ? updatedTasks : { ...oldData, tasks: updatedTasks };
+  });
+  queryClient.setQueryData(taskKeys.detail(taskId), (oldData: any) => (oldData ? withSubtasks(oldData) : oldData));
+};
+
+/**
+ * Cancel in-flight task queries, snapshot them, then apply an optimistic checklist change
+ */
+const applyOptimisticSubtasks = async (
+  queryClient: QueryClient,
+  taskId: string,
+  updater: (subtasks: Subtask[]) => Subtask[]
+): Promise<{ previous: TaskQuerySnapshot }> => {
+  await queryClient.cancelQueries({ queryKey: taskKeys.all });
+  const previous = queryClient.getQueriesData({ queryKey: taskKeys.all });
+  setCachedSubtasks(queryClient, taskId, updater);
+  return { previous };
+};
+
+const rollbackTaskQueries = (queryClient: QueryClient, context?: { previous: TaskQuerySnapshot }): void => {
+  context?.previous.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+};
+
+// Subtask endpoints respond with the task's full checklist
+const getSubtasksFromResponse = (data: any): Subtask[] | null =>
+  Array.isArray(data) ? data : Array.isArray(data?.subtasks) ? data.subtasks : null;
+
+/**
+ * Hook to add a checklist item to a task (optimistic)
+ * @returns Mutation hook for creating subtasks
+ */
+export const useCreateSubtask = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ taskId, subtaskData }: { taskId: string; subtaskData: { text: string; done?: boolean; assigneeId?: string } }) =>
+      createSubtask(taskId, subtaskData),
+    onMutate: ({ taskId, subtaskData }) =>
+      applyOptimisticSubtasks(queryClient, taskId, (subtasks) => [
+        ...subtasks,
+        {
+          id: `temp-${Date.now()}`,
+          text: subtaskData.text.trim(),
+          done: !!subtaskData.done,
+          assigneeId: subtaskData.assigneeId || null,
+        },
+      ]),
+    onError: (_err, _variables, context) => rollbackTaskQueries(queryClient, context),
+    onSuccess: (data, variables) => {
+      // Swap the temporary item for the server's copy
+      const subtasks = getSubtasksFromResponse(data);
+      if (subtasks) setCachedSubtasks(queryClient, variables.taskId, () => subtasks);
+    },
+  });
+};
+
+/**
+ * Hook to toggle, rename or reassign a checklist item (optimistic)
+ * @returns Mutation hook for updating subtasks
+ */
+export const useUpdateSubtask = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ taskId, subtaskId, subtaskData }: { taskId: string; subtaskId: string; subtaskData: Partial<Omit<Subtask, 'id'>> }) =>
+      updateSubtask(taskId, subtaskId, subtaskData),
+    onMutate: ({ taskId, subtaskId, subtaskData }) =>
+      applyOptimisticSubtasks(queryClient, taskId, (subtasks) =>
+        subtasks.map((subtask) => (subtask.id === subtaskId ? { ...subtask, ...subtaskData } : subtask))
+      ),
+    onError: (_err, _variables, context) => rollbackTaskQueries(queryClient, context),
+    onSuccess: (data, variables) => {
+      const subtasks = getSubtasksFromResponse(data);
+      if (subtasks) setCachedSubtasks(queryClient, variables.taskId, () => subtasks);
+    },
+  });
+};
+
+/**
+ * Hook to delete a checklist item (optimistic)
+ * @returns Mutation hook for deleting subtasks
+ */
+export const useDeleteSubtask = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ taskId, subtaskId }: { taskId: string; subtaskId: string }) =>
+      deleteSubtask(taskId, subtaskId),
+    onMutate: ({ taskId, subtaskId }) =>
+      applyOptimisticSubtasks(queryClient, taskId, (subtasks) =>
+        subtasks.filter((subtask) => subtask.id !== subtaskId)
+      ),
+    onError: (_err, _variables, context) => rollbackTaskQueries(queryClient, context),
+    onSuccess: (data, variables) => {
+      const subtasks = getSubtasksFromResponse(data);
+      if (subtasks) setCachedSubtasks(queryClient, variables.taskId, () => subtasks);
+    },
+  });
+};
+
+/**
+ * Hook to reorder a task's checklist (optimistic)
+ * @returns Mutation hook for reordering subtasks
+ */
+export const useReorderSubtasks = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ taskId, subtaskIds }: { taskId: string; subtaskIds: string[] }) =>
+      reorderSubtasks(taskId, subtaskIds),
+    onMutate: ({ taskId, subtaskIds }) =>
+      applyOptimisticSubtasks(queryClient, taskId, (subtasks) =>
+        subtaskIds
+          .map((id) => subtasks.find((subtask) => subtask.id === id))
+          .filter((subtask): subtask is Subtask => !!subtask)
+      ),
+    onError: (_err, _variables, context) => rollbackTaskQueries(queryClient, context),
+    onSuccess: (data, variables) => {
+      const subtasks = getSubtasksFromResponse(data);
+      if (subtasks) setCachedSubtasks(queryClient, variables.taskId, () => subtasks);
+    },
+  });
+};
+
+/**
+ * Hook to save a manual reorder (optimistic)
+ * Every cached task list is re-ranked immediately so Board and Backlog stay in step.
+ * @returns Mutation hook for updating task ranks
+ */
+export const useUpdateTaskRanks = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ projectId, ranks }: { projectId: string; ranks: TaskRankUpdate[] }) =>
+      updateTaskRanks(projectId, ranks),
+    onMutate: async ({ ranks }) => {
+      await queryClient.cancelQueries({ queryKey: taskKeys.all });
+      const previous = queryClient.getQueriesData({ queryKey: taskKeys.all });
+      const rankById = new Map(ranks.map((entry) => [entry.taskId, entry.rank]));
+
+      queryClient.setQueriesData({ queryKey: taskKeys.lists() }, (oldData: any) => {
+        if (!oldData) return oldData;
+        const isArray = Array.isArray(oldData);
+        const tasks = isArray ? oldData : (oldData.tasks || []);
+        const updatedTasks = tasks.map((task: Task) =>
+          rankById.has(task.id) ? { ...task, rank: rankById.get(task.id) } : task
+        );
+        return isArray ? updatedTasks : { ...oldData, tasks: updatedTasks };
+      });
+      return { previous };
+    },
+    onError: (_err, _variables, context) => rollbackTaskQueries(queryClient, context),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.project(variables.projectId) });
+    },
+  });
+};
+
+/**
+ * Hook to move a task into a sprint, or back to the product backlog (optimistic)
+ * The task leaves the source sprint's cached list and joins the target's right away.
+ * @returns Mutation hook for changing a task's sprint
+ */
+export const useChangeTaskSprint = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ task, sprintId }: { task: Task; sprintId: string | null }) =>
+      sprintId ? moveTaskToSprint(task.id, sprintId) : removeTaskFromSprint(task.id),
+    onMutate: async ({ task, sprintId }) => {
+      await queryClient.cancelQueries({ queryKey: taskKeys.all });
+      const previous = queryClient.getQueriesData({ queryKey: taskKeys.all });
+      const movedTask: Task = { ...task, sprintId: sprintId ?? undefined };
+
+      const updateList = (update: (tasks: Task[]) => Task[]) => (oldData: any) => {
+        if (!oldData) return oldData;
+        const isArray = Array.isArray(oldData);
+        const updatedTasks = update(isArray ? oldData : (oldData.tasks || []));
+        return isArray ? updatedTasks : { ...oldData, tasks: updatedTasks };
+      };
+
+      if (task.sprintId) {
+        queryClient.setQueriesData(
+          { queryKey: taskKeys.sprint(task.sprintId) },
+          updateList((tasks) => tasks.filter((t) => t.id !== task.id))
+        );
+      }
+      if (sprintId) {
+        queryClient.setQueriesData(
+          { queryKey: taskKeys.sprint(sprintId) },
+          updateList((tasks) => [...tasks.filter((t) => t.id !== task.id), movedTask])
+        );
+      }
+      queryClient.setQueriesData(
+        { queryKey: [...taskKeys.lists(), 'project'] },
+        updateList((tasks) => tasks.map((t) => (t.id === task.id ? { ...t, sprintId: movedTask.sprintId } : t)))
+      );
+      queryClient.setQueryData(taskKeys.detail(task.id), (oldData: any) =>
+        oldData ? { ...oldData, sprintId: movedTask.sprintId } : oldData
+      );
+      return { previous };
+    },
+    onError: (_err, _variables, context) => rollbackTaskQueries(queryClient, context),
+    onSettled: (_data, _err, variables) => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.detail(variables.task.id) });
+    },
+  });
+};
+
+/**
+ * Create the next instance of a daily/weekly task that was just moved into a done status
+ * Every-sprint tasks are carried over when a sprint starts instead (see useStartSprint).
+ * Failures are logged rather than thrown - the status change itself already succeeded.
+ *
+ * @returns The new instance, or null when none was needed
+ */
+const createNextRecurringInstance = async (queryClient: QueryClient, task: Task): Promise<Task | null> => {
+  if (!task?.recurrence || task.recurrence.frequency === 'sprint') return null;
+
+  try {
+    const settings = await queryClient.ensureQueryData({
+      queryKey: projectKeys.settings(task.projectId),
+      queryFn: () => fetchProjectSettings(task.projectId),
+    });
+    const workflow = getWorkflowFromSettings(settings);
+    if (!isDoneStatus(workflow, task.status)) return null;
+
+    return await createRecurringInstance(task, {
+      sprintId: task.sprintId || null,
+      dueDate: getNextOccurrence(task.recurrence),
+      status: getInitialStatusId(workflow),
+    });
+  } catch (err) {
+    console.error('❌ Error creating next instance of recurring task:', err);
+    return null;
+  }
+};
+
 /**
  * Hook to update task status
  * @returns Mutation hook for updating task status
@@ -247,6 +712,14 @@ export const useUpdateTaskStatus = () => {
       
       // Invalidate all task lists for consistency
       queryClient.invalidateQueries({ queryKey: taskKeys.lists() });
+
+      // Completing a recurring task queues up its next instance
+      createNextRecurringInstance(queryClient, data).then((instance) => {
+        if (instance) {
+          queryClient.invalidateQueries({ queryKey: taskKeys.lists() });
+          queryClient.invalidateQueries({ queryKey: taskKeys.detail(variables.taskId) });
+        }
+      });
     },
   });
 };
@@ -267,3 +740,75 @@ export const useDeleteTask = () => {
   });
 };
 
+
+// Requests kept in flight at once while running a bulk action
+const BULK_CONCURRENCY = 4;
+
+const runBulkTaskAction = (taskId: string, action: BulkTaskAction): Promise<any> => {
+  switch (action.type) {
+    case 'status':
+      return updateTaskStatus(taskId, action.status);
+    case 'assign':
+      return action.assigneeId ? assignTask(taskId, action.assigneeId) : unassignTask(taskId);
+    case 'moveToSprint':
+      return moveTaskToSprint(taskId, action.sprintId);
+    case 'removeFromSprint':
+      return removeTaskFromSprint(taskId);
+    case 'delete':
+      return deleteTask(taskId);
+  }
+};
+
+/**
+ * Hook to apply one action to many tasks
+ * Tasks are processed a few at a time; each failure is recorded and the rest carry on,
+ * and caches are refreshed once when the whole batch has settled.
+ * @returns Mutation hook resolving to the succeeded and failed task IDs
+ */
+export const useBulkTaskAction = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      taskIds,
+      action,
+      onProgress,
+    }: {
+      taskIds: string[];
+      action: BulkTaskAction;
+      onProgress?: (done: number, total: number) => void;
+    }): Promise<BulkTaskResult> => {
+      const result: BulkTaskResult = { succeeded: [], failed: [] };
+      const queue = [...taskIds];
+      let done = 0;
+
+      const worker = async (): Promise<void> => {
+        while (queue.length > 0) {
+          const taskId = queue.shift() as string;
+          try {
+            const data = await runBulkTaskAction(taskId, action);
+            if (action.type === 'status') {
+              await createNextRecurringInstance(queryClient, data);
+            }
+            result.succeeded.push(taskId);
+          } catch (err: any) {
+            result.failed.push({ taskId, error: err.message || 'Unknown error' });
+          }
+          done += 1;
+          onProgress?.(done, taskIds.length);
+        }
+      };
+
+      await Promise.all(Array.from({ length: Math.min(BULK_CONCURRENCY, taskIds.length) }, worker));
+      return result;
+    },
+    onSettled: (result, _err, variables) => {
+      if (variables.action.type === 'delete') {
+        result?.succeeded.forEach((taskId) => queryClient.removeQueries({ queryKey: taskKeys.detail(taskId) }));
+      } else {
+        queryClient.invalidateQueries({ queryKey: taskKeys.details() });
+      }
+      queryClient.invalidateQueries({ queryKey: taskKeys.lists() });
+    },
+  });
+};
@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient, QueryClient } from '@tanstack/react-query';
+import {
+  fetchTaskWorkLogs,
+  createWorkLog,
+  deleteWorkLog,
+  fetchSprintWorkLogs,
+} from '../services/worklogService';
+import { getWorkTimer, setWorkTimer } from '../services/storageService';
+import { taskKeys } from './useTasks.ts';
+import { useAuthContext } from '../contexts/AuthContext.tsx';
+import { WorkLog, WorkTimer } from '../types/hooks.ts';
+
+// Query keys
+export const workLogKeys = {
+  all: ['worklogs'] as const,
+  lists: () => [...workLogKeys.all, 'list'] as const,
+  task: (taskId: string) => [...workLogKeys.lists(), 'task', taskId] as const,
+  sprints: () => [...workLogKeys.lists(), 'sprint'] as const,
+  sprint: (sprintId: string) => [...workLogKeys.sprints(), sprintId] as const,
+};
+
+// Handles array and { worklogs } response shapes
+const toWorkLogs = (data: any): WorkLog[] => (Array.isArray(data) ? data : data?.worklogs || []);
+
+// Keep task cards' logged time in step with the work log list
+const adjustCachedLoggedMinutes = (queryClient: QueryClient, taskId: string, delta: number): void => {
+  const withLogged = (task: any) =>
+    task.id === taskId ? { ...task, loggedMinutes: Math.max(0, (task.loggedMinutes || 0) + delta) } : task;
+
+  queryClient.setQueriesData({ queryKey: taskKeys.lists() }, (oldData: any) => {
+    if (!oldData) return oldData;
+    const isArray = Array.isArray(oldData);
+    const tasks = isArray ? oldData : (oldData.tasks || []);
+    const updatedTasks = tasks.map(withLogged);
+    return isArray ? updatedTasks : { ...oldData, tasks: updatedTasks };
+  });
+  queryClient.setQueryData(taskKeys.detail(taskId), (oldData: any) => (oldData ? withLogged(oldData) : oldData));
+};
+
+/**
+ * Hook to fetch the time logged against a task
+ * @param taskId The task ID
+ * @returns Query result with work logs, newest first
+ */
+export const useTaskWorkLogs = (taskId: string | null | undefined) => {
+  const { isAuthenticated, isLoading: authLoading } = useAuthContext();
+
+  return useQuery({
+    queryKey: workLogKeys.task(taskId || ''),
+    queryFn: () => fetchTaskWorkLogs(taskId!),
+    enabled: !!taskId && isAuthenticated && !authLoading, // ✅ Only fetch when authenticated AND auth is initialized
+    staleTime: 60 * 1000, // 1 minute
+    select: toWorkLogs,
+    retry: (failureCount, error: any) => {
+      // Don't retry on 401 - token refresh should handle it
+      if (error?.status === 401 || error?.response?.status === 401) {
+        return false;
+      }
+      return failureCount < 3;
+    },
+  });
+};
+
+/**
+ * Hook to fetch every member's work logs in a sprint, for the timesheet
+ * @param sprintId The sprint ID
+ * @returns Query result with the sprint's work logs
+ */
+export const useSprintWorkLogs = (sprintId: string | null | undefined) => {
+  const { isAuthenticated, isLoading: authLoading } = useAuthContext();
+
+  return useQuery({
+    queryKey: workLogKeys.sprint(sprintId || ''),
+    queryFn: () => fetchSprintWorkLogs(sprintId!),
+    enabled: !!sprintId && isAuthenticated && !authLoading, // ✅ Only fetch when authenticated AND auth is initialized
+    staleTime: 60 * 1000, // 1 minute
+    select: toWorkLogs,
+    retry: (failureCount, error: any) => {
+      // Don't retry on 401 - token refresh should handle it
+      if (error?.status === 401 || error?.response?.status === 401) {
+        return false;
+      }
+      return failureCount < 3;
+    },
+  });
+};
+
+/**
+ * Hook to log time against a task
+ * @returns Mutation hook for creating work logs
+ */
+export const useCreateWorkLog = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ taskId, minutes, date, note }: { taskId: string; minutes: number; date: string; note?: string }) =>
+      createWorkLog(taskId, { minutes, date, note }),
+    onSuccess: (data: WorkLog, variables) => {
+      queryClient.setQueryData(workLogKeys.task(variables.taskId), (oldData: any) =>
+        oldData ? [data, ...toWorkLogs(oldData)] : [data]
+      );
+      adjustCachedLoggedMinutes(queryClient, variables.taskId, data.minutes);
+      queryClient.invalidateQueries({ queryKey: workLogKeys.sprints() });
+    },
+  });
+};
+
+/**
+ * Hook to delete a work log
+ * @returns Mutation hook for deleting work logs
+ */
+export const useDeleteWorkLog = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ taskId, workLog }: { taskId: string; workLog: WorkLog }) => deleteWorkLog(taskId, workLog.id),
+    onSuccess: (_, { taskId, workLog }) => {
+      queryClient.setQueryData(workLogKeys.task(taskId), (oldData: any) =>
+        oldData ? toWorkLogs(oldData).filter((log) => log.id !== workLog.id) : oldData
+      );
+      adjustCachedLoggedMinutes(queryClient, taskId, -workLog.minutes);
+      queryClient.invalidateQueries({ queryKey: workLogKeys.sprints() });
+    },
+  });
+};
+
+/**
+ * Hook for the current user's start/stop timer
+ * The timer is kept in localStorage, so it keeps running across reloads and stays in
+ * step between the inspector and other tabs. Only one timer runs at a time.
+ *
+ * @returns The running timer (or null), and functions to start and clear it
+ */
+export const useWorkTimer = () => {
+  const { userId } = useAuthContext();
+  const [timer, setTimer] = useState<WorkTimer | null>(() => getWorkTimer(userId));
+
+  useEffect(() => {
+    const sync = (): void => setTimer(getWorkTimer(userId));
+    sync();
+    // 'storage' covers other tabs, 'work-timer-changed' this one
+    window.addEventListener('storage', sync);
+    window.addEventListener('work-timer-changed', sync);
+    return () => {
+      window.removeEventListener('storage', sync);
+      window.removeEventListener('work-timer-changed', sync);
+    };
+  }, [userId]);
+
+  const startTimer = useCallback((taskId: string, taskLabel: string): void => {
+    setWorkTimer({ taskId, taskLabel, startedAt: new Date().toISOString() }, userId);
+  }, [userId]);
+
+  const clearTimer = useCallback((): void => {
+    setWorkTimer(null, userId);
+  }, [userId]);
+
+  return { timer, startTimer, clearTimer };
+};
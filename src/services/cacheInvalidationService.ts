@@ -2,6 +2,7 @@ import { queryClient } from '../lib/queryClient.ts';
 import { getAccessToken, refreshToken } from '../lib/apiClient.ts';
 import { WS_BASE_URL } from '../config.js';
 import { messageKeys } from '../hooks/useMessages.ts';
+import { Task } from '../types/hooks.ts';
 
 /**
  * Cache invalidation payload structure from backend
@@ -11,6 +12,10 @@ import { messageKeys } from '../hooks/useMessages.ts';
  * - `sprints` table → `'sprint'` resource
  * - `tasks` table → `'task'` resource
  * - `project_members` table → `'project_members'` resource (kept plural)
+ * - `labels` table → `'label'` resource
+ * - `project_settings` table → `'project_settings'` resource (kept plural, like project_members)
+ * - `task_comments` table → `'comment'` resource (payload also carries `task_id`)
+ * - Manual task reorders → one `'task_ranks'` event per batch (instead of a `'task'` event per moved task)
  * 
  * Migration `007_ensure_notify_triggers.sql` ensures this normalization.
  * 
@@ -18,15 +23,16 @@ import { messageKeys } from '../hooks/useMessages.ts';
  * in case some backend instances haven't been migrated yet.
  */
 interface CacheInvalidationPayload {
-  resource: 'project' | 'projects' | 'sprint' | 'sprints' | 'task' | 'tasks' | 'project_members' | 'message' | 'messages';
+  resource: 'project' | 'projects' | 'sprint' | 'sprints' | 'task' | 'tasks' | 'project_members' | 'message' | 'messages' | 'label' | 'labels' | 'comment' | 'comments' | 'project_settings' | 'task_ranks';
   id: string; // UUID for projects/sprints/tasks/messages, "project_id:user_id" for project_members
   action: 'INSERT' | 'UPDATE' | 'DELETE';
   project_id: string; // Always present
+  task_id?: string; // Parent task for comment events
   timestamp: string; // ISO 8601 format
 }
 
 interface WebSocketMessage {
-  type: 'member_added' | 'member_removed' | 'message_created' | 'task_created' | 'task_updated' | 'task_deleted' | 'sprint_created' | 'sprint_updated' | 'sprint_deleted' | 'project_updated' | 'cache_invalidate' | 'reconnect' | 'pong';
+  type: 'member_added' | 'member_removed' | 'message_created' | 'task_created' | 'task_updated' | 'task_deleted' | 'sprint_created' | 'sprint_updated' | 'sprint_deleted' | 'label_created' | 'label_updated' | 'label_deleted' | 'project_updated' | 'cache_invalidate' | 'reconnect' | 'pong';
   // Event-specific fields (backend sends camelCase)
   projectId?: string; // Primary: camelCase from backend
   project_id?: string; // Fallback: legacy snake_case support
@@ -35,11 +41,21 @@ interface WebSocketMessage {
   // Legacy cache_invalidate format
   resource?: string;
   action?: string;
+  task_id?: string;
   timestamp?: string;
   // Fallback for nested data format (if backend changes)
   data?: CacheInvalidationPayload | { reason: string };
 }
 
+// A change to one task that watchers may need to hear about
+export interface TaskActivityEvent {
+  taskId: string;
+  projectId: string;
+  kind: 'task' | 'comment'; // Task fields changed, or a comment was added
+  previous?: Task; // The task as cached before the change (undefined when it was never loaded)
+  since?: string; // Server time of the newest cached change before this one, for tasks without a notification cursor
+}
+
 class CacheInvalidationService {
   private ws: WebSocket | null = null;
   private reconnectAttempts = 0;
@@ -53,6 +69,7 @@ class CacheInvalidationService {
   private authFailureDetected = false; // Track auth failures to stop reconnecting
   private sessionGeneration = 0; // Increment on each connect/disconnect to invalidate stale callbacks
   private onForbiddenCallback: ((projectId: string) => void) | null = null; // Callback for 403 Forbidden errors
+  private onTaskActivityCallback: ((activity: TaskActivityEvent) => void) | null = null; // Callback for watch notifications
 
   // Debug method to check WebSocket status (call from browser console)
   public debugWebSocketStatus(): void {
@@ -475,6 +492,40 @@ class CacheInvalidationService {
     });
   }
 
+  /**
+   * Invalidates the label list for a project.
+   * Deleting a label also detaches it from tasks, so task lists are refreshed too.
+   *
+   * @param projectId - The project ID to invalidate labels for
+   * @param includeTasks - Whether task lists should be invalidated as well
+   */
+  private invalidateProjectLabels(projectId: string, includeTasks: boolean): void {
+    if (!projectId) {
+      console.warn('⚠️ Attempted to invalidate labels with empty projectId - skipping');
+      return;
+    }
+
+    queryClient.invalidateQueries({ queryKey: ['labels', 'list', projectId] });
+    if (includeTasks) {
+      queryClient.invalidateQueries({ queryKey: ['tasks', 'list', 'project', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['tasks', 'list', 'sprint'] });
+    }
+  }
+
+  /**
+   * Invalidates the comment thread for a task.
+   * Falls back to every cached thread when the payload doesn't say which task changed.
+   * Uses refetchType: 'active' so an open comments tab updates immediately.
+   *
+   * @param taskId - The task whose comments changed
+   */
+  private invalidateTaskComments(taskId?: string): void {
+    queryClient.invalidateQueries({
+      queryKey: taskId ? ['comments', 'list', 'task', taskId] : ['comments'],
+      refetchType: 'active',
+    });
+  }
+
   /**
    * Handles token refresh and reconnection when auth-related close codes occur.
    * Attempts to refresh the token and reconnect the WebSocket.
@@ -640,10 +691,17 @@ class CacheInvalidationService {
         // Prioritize camelCase projectId over snake_case project_id
         const taskProjectId = message.projectId || message.project_id || '';
         console.log(`📋 Task ${message.type.replace('task_', '')} for project ${taskProjectId}`);
+        // Snapshot before invalidating - refetches may replace the cached task with the changed one
+        const taskActivity = message.type === 'task_updated' && message.id
+          ? this.captureTaskActivity(message.id, taskProjectId, 'task')
+          : null;
         // Invalidate task caches
         queryClient.invalidateQueries({ queryKey: ['tasks', 'list', 'project', taskProjectId] });
         queryClient.invalidateQueries({ queryKey: ['tasks', 'list', 'sprint'] }); // Invalidate all sprint tasks
         queryClient.invalidateQueries({ queryKey: ['projects', 'bundle', taskProjectId] });
+        if (taskActivity) {
+          this.notifyTaskActivity(taskActivity);
+        }
         break;
 
       case 'sprint_created':
@@ -657,6 +715,15 @@ class CacheInvalidationService {
         queryClient.invalidateQueries({ queryKey: ['projects', 'bundle', sprintProjectId] });
         break;
 
+      case 'label_created':
+      case 'label_updated':
+      case 'label_deleted':
+        // Prioritize camelCase projectId over snake_case project_id
+        const labelProjectId = message.projectId || message.project_id || '';
+        console.log(`🏷️ Label ${message.type.replace('label_', '')} for project ${labelProjectId}`);
+        this.invalidateProjectLabels(labelProjectId, message.type === 'label_deleted');
+        break;
+
       case 'project_updated':
         // Prioritize camelCase projectId over snake_case project_id
         const updatedProjectId = message.projectId || message.project_id || '';
@@ -665,6 +732,7 @@ class CacheInvalidationService {
         queryClient.invalidateQueries({ queryKey: ['projects', updatedProjectId] });
         queryClient.invalidateQueries({ queryKey: ['projects', 'detail', updatedProjectId] });
         queryClient.invalidateQueries({ queryKey: ['projects', 'bundle', updatedProjectId] });
+        queryClient.invalidateQueries({ queryKey: ['projects', 'settings', updatedProjectId] });
         queryClient.invalidateQueries({ queryKey: ['projects', 'list'] });
         break;
 
@@ -690,6 +758,7 @@ class CacheInvalidationService {
             id: (message as any).id || (message as any).user_id || '',
             action: (message as any).action as CacheInvalidationPayload['action'],
             project_id: message.projectId || message.project_id || '',
+            task_id: message.task_id,
             timestamp: (message as any).timestamp || new Date().toISOString(),
           };
           this.handleCacheInvalidation(payload);
@@ -737,6 +806,8 @@ class CacheInvalidationService {
       : resource === 'sprints' ? 'sprint'
       : resource === 'tasks' ? 'task'
       : resource === 'messages' ? 'message'
+      : resource === 'labels' ? 'label'
+      : resource === 'comments' ? 'comment'
       : resource;
 
     switch (normalizedResource) {
@@ -782,7 +853,9 @@ class CacheInvalidationService {
         console.log(`✅ Sprint cache invalidated for project ${project_id} (action: ${action})`);
         break;
 
-      case 'task':
+      case 'task': {
+        // Snapshot before invalidating - refetches may replace the cached task with the changed one
+        const taskActivity = action === 'UPDATE' && id ? this.captureTaskActivity(id, project_id, 'task') : null;
         // Handle task changes
         if (id) {
           queryClient.invalidateQueries({ queryKey: ['tasks', id] });
@@ -792,8 +865,19 @@ class CacheInvalidationService {
         queryClient.invalidateQueries({ queryKey: ['tasks', 'list', 'project', project_id] });
         // Invalidate all sprint tasks (matches ['tasks', 'list', 'sprint', sprintId] for any sprint)
         queryClient.invalidateQueries({ queryKey: ['tasks', 'list', 'sprint'] });
+        if (taskActivity) {
+          this.notifyTaskActivity(taskActivity);
+        }
         console.log(`✅ Task cache invalidated for project ${project_id}`);
         break;
+      }
+
+      case 'task_ranks':
+        // Reorders only change list order, so task detail caches stay valid
+        queryClient.invalidateQueries({ queryKey: ['tasks', 'list', 'project', project_id] });
+        queryClient.invalidateQueries({ queryKey: ['tasks', 'list', 'sprint'] });
+        console.log(`✅ Task order invalidated for project ${project_id}`);
+        break;
 
       case 'project_members':
         // Handle member changes (invalidate caches for immediate updates)
@@ -802,6 +886,29 @@ class CacheInvalidationService {
         console.log(`✅ Invalidated project member caches for project ${project_id}`);
         break;
 
+      case 'project_settings':
+        // Workflow and WIP limit edits change board columns, so refetch the open board immediately
+        queryClient.invalidateQueries({ queryKey: ['projects', 'settings', project_id], refetchType: 'active' });
+        console.log(`✅ Project settings cache invalidated for project ${project_id}`);
+        break;
+
+      case 'label':
+        this.invalidateProjectLabels(project_id, action === 'DELETE');
+        console.log(`✅ Label cache invalidated for project ${project_id} (action: ${action})`);
+        break;
+
+      case 'comment': {
+        const commentActivity = action === 'INSERT' && payload.task_id
+          ? this.captureTaskActivity(payload.task_id, project_id, 'comment')
+          : null;
+        this.invalidateTaskComments(payload.task_id);
+        if (commentActivity) {
+          this.notifyTaskActivity(commentActivity);
+        }
+        console.log(`✅ Comment cache invalidated for task ${payload.task_id || '(all)'} (action: ${action})`);
+        break;
+      }
+
       case 'message': {
         this.invalidateProjectMessages(project_id);
         console.log(`✅ Invalidated message caches for project ${project_id}`);
@@ -813,6 +920,47 @@ class CacheInvalidationService {
     }
   }
 
+  /**
+   * Builds a task change event from the caches as they were before the change.
+   * The cached task (its detail, or its entry in a loaded list) tells watch notifications
+   * who was watching; its updatedAt - or for comments, the newest cached comment - is the
+   * server time the change is measured from.
+   */
+  private captureTaskActivity(taskId: string, projectId: string, kind: TaskActivityEvent['kind']): TaskActivityEvent {
+    let previous = queryClient.getQueryData<Task>(['tasks', 'detail', taskId]);
+    if (!previous) {
+      for (const [, data] of queryClient.getQueriesData<any>({ queryKey: ['tasks', 'list'] })) {
+        const tasks: Task[] = Array.isArray(data) ? data : data?.tasks || [];
+        previous = tasks.find((task) => task.id === taskId);
+        if (previous) break;
+      }
+    }
+
+    let since = previous?.updatedAt;
+    if (kind === 'comment') {
+      const data: any = queryClient.getQueryData(['comments', 'list', 'task', taskId]);
+      const comments: { createdAt: string }[] = Array.isArray(data) ? data : data?.comments || [];
+      comments.forEach((comment) => {
+        if (!since || new Date(comment.createdAt).getTime() > new Date(since).getTime()) since = comment.createdAt;
+      });
+    }
+
+    return { taskId, projectId, kind, previous, since };
+  }
+
+  /**
+   * Passes a task change on to the watch notification callback, if one is registered.
+   * A failing callback must not break cache invalidation for the rest of the message.
+   */
+  private notifyTaskActivity(activity: TaskActivityEvent) {
+    if (!this.onTaskActivityCallback) return;
+    try {
+      this.onTaskActivityCallback(activity);
+    } catch (error) {
+      console.error('❌ Error handling task activity:', error);
+    }
+  }
+
   disconnect(reason: string = 'Intentional disconnect') {
     console.log('🔌 Disconnecting WebSocket:', reason);
 
@@ -889,6 +1037,15 @@ class CacheInvalidationService {
   setOnForbiddenCallback(callback: ((projectId: string) => void) | null): void {
     this.onForbiddenCallback = callback;
   }
+
+  /**
+   * Register a callback to be called when a task is updated or commented on
+   * Used to turn changes to watched tasks into in-app notifications
+   * @param callback - Function to call with the changed task
+   */
+  setOnTaskActivityCallback(callback: ((activity: TaskActivityEvent) => void) | null): void {
+    this.onTaskActivityCallback = callback;
+  }
 }
 
 export const cacheInvalidationService = new CacheInvalidationService();
@@ -0,0 +1,124 @@
+// CommentService.js
+// This module handles task comment API calls for DevHive task management.
+
+import { api } from '../lib/apiClient.ts';
+import { ENDPOINTS } from '../config';
+
+/**
+ * Fetches the comment thread for a task, oldest first.
+ *
+ * @param {string} taskId - The ID of the task
+ * @returns {Promise<Object>} - Object containing comments array
+ * @throws {Error} - Throws an error if fetching comments fails
+ */
+export const fetchTaskComments = async (taskId) => {
+    try {
+        if (!taskId) {
+            throw new Error("Task ID is required");
+        }
+
+        console.log(`📡 Fetching comments for task ${taskId}`);
+
+        const response = await api.get(ENDPOINTS.TASK_COMMENTS(taskId));
+
+        console.log("✅ Comments fetched successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error fetching task comments:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Posts a comment on a task as the current user.
+ *
+ * @param {string} taskId - The ID of the task
+ * @param {string} content - Comment text
+ * @returns {Promise<Object>} - The created comment object
+ * @throws {Error} - Throws an error if comment creation fails
+ */
+export const createComment = async (taskId, content) => {
+    try {
+        if (!taskId) {
+            throw new Error("Task ID is required");
+        }
+
+        if (!content || !content.trim()) {
+            throw new Error("Comment cannot be empty");
+        }
+
+        console.log(`📤 Posting comment on task ${taskId}`);
+
+        const response = await api.post(ENDPOINTS.TASK_COMMENTS(taskId), { content: content.trim() });
+
+        console.log("✅ Comment posted successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error posting comment:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Edits one of the current user's comments.
+ *
+ * @param {string} commentId - The ID of the comment
+ * @param {string} content - New comment text
+ * @returns {Promise<Object>} - The updated comment object
+ * @throws {Error} - Throws an error if the comment update fails
+ */
+export const updateComment = async (commentId, content) => {
+    try {
+        if (!commentId) {
+            throw new Error("Comment ID is required");
+        }
+
+        if (!content || !content.trim()) {
+            throw new Error("Comment cannot be empty");
+        }
+
+        console.log(`📤 Updating comment ${commentId}`);
+
+        const response = await api.patch(ENDPOINTS.COMMENT_BY_ID(commentId), { content: content.trim() });
+
+        console.log("✅ Comment updated successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error updating comment:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Deletes one of the current user's comments.
+ *
+ * @param {string} commentId - The ID of the comment to delete
+ * @returns {Promise<Object>} - Deletion confirmation
+ * @throws {Error} - Throws an error if comment deletion fails
+ */
+export const deleteComment = async (commentId) => {
+    try {
+        if (!commentId) {
+            throw new Error("Comment ID is required");
+        }
+
+        console.log(`🗑️ Deleting comment ${commentId}`);
+
+        const response = await api.delete(ENDPOINTS.COMMENT_BY_ID(commentId));
+
+        console.log("✅ Comment deleted successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error deleting comment:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+const commentService = {
+    fetchTaskComments,
+    createComment,
+    updateComment,
+    deleteComment
+};
+
+export default commentService;
@@ -0,0 +1,141 @@
+// LabelService.js
+// This module handles project label API calls for DevHive task management.
+
+import { api } from '../lib/apiClient.ts';
+import { ENDPOINTS } from '../config';
+
+/**
+ * Fetches all labels defined for a project.
+ *
+ * @param {string} projectId - The ID of the project
+ * @returns {Promise<Object>} - Object containing labels array
+ * @throws {Error} - Throws an error if fetching labels fails
+ */
+export const fetchProjectLabels = async (projectId) => {
+    try {
+        if (!projectId) {
+            throw new Error("Project ID is required");
+        }
+
+        console.log(`📡 Fetching labels for project ${projectId}`);
+
+        const response = await api.get(ENDPOINTS.PROJECT_LABELS(projectId));
+
+        console.log("✅ Labels fetched successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error fetching project labels:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Creates a new label for a project.
+ *
+ * @param {string} projectId - The ID of the project
+ * @param {Object} labelData - Data for the new label
+ * @param {string} labelData.name - Label name
+ * @param {string} labelData.color - Label color as a hex string (e.g. "#e5484d")
+ * @returns {Promise<Object>} - The created label object
+ * @throws {Error} - Throws an error if label creation fails
+ */
+export const createLabel = async (projectId, labelData) => {
+    try {
+        if (!projectId) {
+            throw new Error("Project ID is required");
+        }
+
+        if (!labelData.name || !labelData.name.trim()) {
+            throw new Error("Label name is required");
+        }
+
+        if (!labelData.color) {
+            throw new Error("Label color is required");
+        }
+
+        const payload = {
+            name: labelData.name.trim(),
+            color: labelData.color
+        };
+
+        console.log(`📤 Creating label for project ${projectId}:`, payload);
+
+        const response = await api.post(ENDPOINTS.PROJECT_LABELS(projectId), payload);
+
+        console.log("✅ Label created successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error creating label:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Updates an existing label.
+ *
+ * @param {string} labelId - The ID of the label to update
+ * @param {Object} labelData - Updated label data
+ * @param {string} [labelData.name] - New label name
+ * @param {string} [labelData.color] - New label color
+ * @returns {Promise<Object>} - The updated label object
+ * @throws {Error} - Throws an error if label update fails
+ */
+export const updateLabel = async (labelId, labelData) => {
+    try {
+        if (!labelId) {
+            throw new Error("Label ID is required");
+        }
+
+        if (labelData.name !== undefined && !labelData.name.trim()) {
+            throw new Error("Label name cannot be empty");
+        }
+
+        const payload = {};
+        if (labelData.name !== undefined) payload.name = labelData.name.trim();
+        if (labelData.color !== undefined) payload.color = labelData.color;
+
+        console.log(`📤 Updating label ${labelId}:`, payload);
+
+        const response = await api.patch(ENDPOINTS.LABEL_BY_ID(labelId), payload);
+
+        console.log("✅ Label updated successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error updating label:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Deletes a label. The backend also detaches it from every task.
+ *
+ * @param {string} labelId - The ID of the label to delete
+ * @returns {Promise<boolean>} - True if deletion was successful
+ * @throws {Error} - Throws an error if label deletion fails
+ */
+export const deleteLabel = async (labelId) => {
+    try {
+        if (!labelId) {
+            throw new Error("Label ID is required");
+        }
+
+        console.log(`🗑️ Deleting label ${labelId}`);
+
+        await api.delete(ENDPOINTS.LABEL_BY_ID(labelId));
+
+        console.log("✅ Label deleted successfully");
+        return true;
+    } catch (error) {
+        console.error("❌ Error deleting label:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+const labelService = {
+    fetchProjectLabels,
+    createLabel,
+    updateLabel,
+    deleteLabel
+};
+
+export default labelService;
@@ -0,0 +1,78 @@
+import { createLocalUploadBackend } from './localUploadBackend.ts';
+import { isUploadCancelled } from '../utils/attachmentUtils.ts';
+
+const makeFile = (name: string, type: string, contents = 'hello'): File => new File([contents], name, { type });
+
+describe('createLocalUploadBackend', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reports progress and resolves with the stored attachment', async () => {
+    const backend = createLocalUploadBackend({ stepDelayMs: 10, steps: 4 });
+    const onProgress = jest.fn();
+
+    const pending = backend.upload('t1', makeFile('shot.png', 'image/png'), { onProgress });
+    jest.advanceTimersByTime(40);
+    const attachment = await pending;
+
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([0.25, 0.5, 0.75, 1]);
+    expect(attachment).toMatchObject({ taskId: 't1', fileName: 'shot.png', contentType: 'image/png', size: 5 });
+    expect(attachment.thumbnailUrl).toBe(attachment.url);
+    expect(await backend.list('t1')).toEqual([attachment]);
+    expect(await backend.list('t2')).toEqual([]);
+  });
+
+  it('does not give non-image files a thumbnail', async () => {
+    const backend = createLocalUploadBackend({ stepDelayMs: 10, steps: 1 });
+
+    const pending = backend.upload('t1', makeFile('notes.txt', 'text/plain'));
+    jest.advanceTimersByTime(10);
+
+    expect((await pending).thumbnailUrl).toBeNull();
+  });
+
+  it('rejects with a cancellation error when aborted mid-upload', async () => {
+    const backend = createLocalUploadBackend({ stepDelayMs: 10, steps: 4 });
+    const controller = new AbortController();
+    const onProgress = jest.fn();
+
+    const pending = backend.upload('t1', makeFile('big.pdf', 'application/pdf'), { onProgress, signal: controller.signal });
+    jest.advanceTimersByTime(20);
+    controller.abort();
+    jest.advanceTimersByTime(100);
+
+    const error = await pending.catch((err) => err);
+    expect(isUploadCancelled(error)).toBe(true);
+    expect(onProgress).toHaveBeenCalledTimes(2);
+    expect(await backend.list('t1')).toEqual([]);
+  });
+
+  it('rejects immediately when the signal is already aborted', async () => {
+    const backend = createLocalUploadBackend();
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await backend.upload('t1', makeFile('a.txt', 'text/plain'), { signal: controller.signal }).catch((err) => err);
+    expect(isUploadCancelled(error)).toBe(true);
+  });
+
+  it('removes attachments and rejects unknown ids', async () => {
+    const backend = createLocalUploadBackend({ stepDelayMs: 10, steps: 1 });
+
+    const first = backend.upload('t1', makeFile('a.txt', 'text/plain'));
+    jest.advanceTimersByTime(10);
+    const a = await first;
+    const second = backend.upload('t1', makeFile('b.txt', 'text/plain'));
+    jest.advanceTimersByTime(10);
+    const b = await second;
+
+    await backend.remove('t1', a.id);
+    expect(await backend.list('t1')).toEqual([b]);
+    await expect(backend.remove('t1', a.id)).rejects.toThrow('Attachment not found');
+  });
+});
@@ -0,0 +1,88 @@
+import { AttachmentStorageBackend, TaskAttachment, UploadOptions } from '../types/hooks.ts';
+
+interface LocalUploadBackendOptions {
+  stepDelayMs?: number; // Delay between simulated progress steps
+  steps?: number; // Progress callbacks per upload
+}
+
+const abortError = (): Error => {
+  const error = new Error('Upload cancelled');
+  error.name = 'AbortError';
+  return error;
+};
+
+// Object URLs where the browser supports them (jsdom doesn't)
+const getFileUrl = (file: File, id: string): string =>
+  typeof URL.createObjectURL === 'function' ? URL.createObjectURL(file) : `blob:local-upload/${id}`;
+
+/**
+ * Create an in-memory attachment backend for development and tests
+ * Files are kept as object URLs for the lifetime of the page; uploads report
+ * simulated progress and honor cancellation like the HTTP backend.
+ *
+ * Enable it in development with REACT_APP_UPLOAD_BACKEND=local.
+ *
+ * @param options - Simulated upload speed
+ * @returns A storage backend that never talks to the network
+ */
+export function createLocalUploadBackend({ stepDelayMs = 60, steps = 5 }: LocalUploadBackendOptions = {}): AttachmentStorageBackend {
+  const attachmentsByTask = new Map<string, TaskAttachment[]>();
+  let nextId = 1;
+
+  const upload = (taskId: string, file: File, { onProgress, signal }: UploadOptions = {}): Promise<TaskAttachment> =>
+    new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      let step = 0;
+      let timer: ReturnType<typeof setTimeout>;
+
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        reject(abortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const tick = (): void => {
+        step++;
+        onProgress?.(step / steps);
+        if (step < steps) {
+          timer = setTimeout(tick, stepDelayMs);
+          return;
+        }
+
+        signal?.removeEventListener('abort', onAbort);
+        const id = `local-${nextId++}`;
+        const url = getFileUrl(file, id);
+        const attachment: TaskAttachment = {
+          id,
+          taskId,
+          fileName: file.name,
+          contentType: file.type || 'application/octet-stream',
+          size: file.size,
+          url,
+          thumbnailUrl: file.type.startsWith('image/') ? url : null,
+          createdAt: new Date().toISOString(),
+        };
+        attachmentsByTask.set(taskId, [...(attachmentsByTask.get(taskId) || []), attachment]);
+        resolve(attachment);
+      };
+      timer = setTimeout(tick, stepDelayMs);
+    });
+
+  return {
+    list: async (taskId) => [...(attachmentsByTask.get(taskId) || [])],
+    upload,
+    remove: async (taskId, attachmentId) => {
+      const attachments = attachmentsByTask.get(taskId) || [];
+      const attachment = attachments.find((a) => a.id === attachmentId);
+      if (!attachment) throw new Error('Attachment not found');
+      if (attachment.url.startsWith('blob:') && typeof URL.revokeObjectURL === 'function') {
+        URL.revokeObjectURL(attachment.url);
+      }
+      attachmentsByTask.set(taskId, attachments.filter((a) => a.id !== attachmentId));
+    },
+  };
+}
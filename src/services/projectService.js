@@ -4,6 +4,7 @@
 import { api } from '../lib/apiClient.ts';
 import { ENDPOINTS } from '../config';
 import { normalizeProjects } from '../utils/normalize.js';
+import { validateProjectKey } from '../utils/taskKeyUtils.ts';
 
 /**
  * Fetches all projects for the authenticated user with pagination.
@@ -65,6 +66,7 @@ export const fetchProjectById = async (projectId) => {
  * @param {Object} projectData - Data for the new project
  * @param {string} projectData.name - Name of the project
  * @param {string} projectData.description - Description of the project
+ * @param {string} [projectData.key] - Task key prefix, e.g. "DH" for DH-142 (server derives one when omitted)
  * @returns {Promise<Object>} - The created project object
  * @throws {Error} - Throws an error if project creation fails
  */
@@ -74,10 +76,18 @@ export const createProject = async (projectData) => {
             throw new Error("Project name is required");
         }
 
+        if (projectData.key) {
+            const keyError = validateProjectKey(projectData.key);
+            if (keyError) {
+                throw new Error(keyError);
+            }
+        }
+
         const payload = {
             name: projectData.name,
             description: projectData.description || ""
         };
+        if (projectData.key) payload.key = projectData.key;
 
         console.log("📤 Creating project:", payload);
 
@@ -123,6 +133,87 @@ export const updateProject = async (projectId, projectData) => {
     }
 };
 
+/**
+ * Fetches a project's settings (board workflow and other per-project configuration).
+ *
+ * @param {string} projectId - The ID of the project
+ * @returns {Promise<Object>} - The project settings object
+ * @throws {Error} - Throws an error if fetching settings fails
+ */
+export const fetchProjectSettings = async (projectId) => {
+    try {
+        if (!projectId) {
+            throw new Error("Project ID is required");
+        }
+
+        console.log(`📡 Fetching settings for project ${projectId}`);
+
+        const response = await api.get(ENDPOINTS.PROJECT_SETTINGS(projectId));
+
+        console.log("✅ Project settings fetched successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error fetching project settings:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Updates a project's settings. Only the provided keys are changed.
+ *
+ * @param {string} projectId - The ID of the project
+ * @param {Object} settings - Settings to change
+ * @param {Array} [settings.workflow] - Full replacement list of workflow statuses, in column order
+ * @param {number} [settings.lastStatusId] - Highest workflow status ID ever allocated (never lowered)
+ * @param {Array} [settings.templates] - Full replacement list of task templates
+ * @returns {Promise<Object>} - The updated project settings object
+ * @throws {Error} - Throws an error if the settings update fails
+ */
+export const updateProjectSettings = async (projectId, settings) => {
+    try {
+        if (!projectId) {
+            throw new Error("Project ID is required");
+        }
+
+        if (settings.workflow !== undefined && (!Array.isArray(settings.workflow) || settings.workflow.length === 0)) {
+            throw new Error("Workflow must contain at least one status");
+        }
+
+        if (settings.lastStatusId !== undefined) {
+            const statusIds = (settings.workflow || []).map((status) => status.id);
+            if (!Number.isInteger(settings.lastStatusId) || statusIds.some((id) => id > settings.lastStatusId)) {
+                throw new Error("Last status ID must cover every workflow status");
+            }
+        }
+
+        if (settings.wipLimits !== undefined) {
+            const limits = Object.values(settings.wipLimits || {});
+            if (limits.some((limit) => !Number.isInteger(limit) || limit < 1)) {
+                throw new Error("WIP limits must be positive whole numbers");
+            }
+        }
+
+        if (settings.templates !== undefined) {
+            if (!Array.isArray(settings.templates)) {
+                throw new Error("Templates must be a list");
+            }
+            if (settings.templates.some((template) => !template.name || !template.name.trim())) {
+                throw new Error("Every template needs a name");
+            }
+        }
+
+        console.log(`📤 Updating settings for project ${projectId}:`, settings);
+
+        const response = await api.patch(ENDPOINTS.PROJECT_SETTINGS(projectId), settings);
+
+        console.log("✅ Project settings updated successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error updating project settings:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
 /**
  * Deletes a project.
  *
@@ -539,6 +630,8 @@ const projectService = {
     fetchProjectById,
     createProject,
     updateProject,
+    fetchProjectSettings,
+    updateProjectSettings,
     deleteProject,
     addProjectMember,
     removeProjectMember,
@@ -13,6 +13,8 @@ export const StorageKeys = {
   SELECTED_PROJECT: 'selectedProjectId',
   THEME: 'theme',
   LANGUAGE: 'language',
+  WORK_TIMER: 'workTimer',
+  NOTIFICATIONS: 'taskNotifications',
 };
 
 /**
@@ -157,6 +159,118 @@ export const projectStorage = {
   },
 };
 
+/**
+ * Time tracking timer operations.
+ * The running timer ({ taskId, taskLabel, startedAt }) lives in localStorage so it
+ * survives page reloads, scoped per user like the selected project.
+ * @namespace
+ */
+export const timerStorage = {
+  /**
+   * Gets the storage key for the running timer, scoped by userId
+   * @param {string|null} userId - The current user ID (optional, will fetch from localStorage if not provided)
+   * @returns {string|null} The storage key, or null without a user
+   */
+  getStorageKey: (userId = null) => {
+    const currentUserId = userId || storage.get(StorageKeys.USER_ID);
+    return currentUserId ? `${StorageKeys.WORK_TIMER}:${currentUserId}` : null;
+  },
+
+  /**
+   * Retrieves the user's running timer.
+   * @param {string|null} userId - The current user ID (optional)
+   * @returns {Object|null} - The timer, or null if none is running (or the stored value is unreadable)
+   */
+  getWorkTimer: (userId = null) => {
+    const key = timerStorage.getStorageKey(userId);
+    const value = key ? storage.get(key) : null;
+    if (!value) {
+      return null;
+    }
+    try {
+      const timer = JSON.parse(value);
+      return timer && timer.taskId && timer.startedAt ? timer : null;
+    } catch (error) {
+      console.warn('Ignoring unreadable work timer in localStorage:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Stores the user's running timer (or removes it when timer is null).
+   * Dispatches 'work-timer-changed' event for same-tab listeners.
+   * @param {Object|null} timer - The timer to store, or null to stop it
+   * @param {string|null} userId - The current user ID (optional)
+   */
+  setWorkTimer: (timer, userId = null) => {
+    const key = timerStorage.getStorageKey(userId);
+    if (!key) {
+      return;
+    }
+    if (timer) {
+      storage.set(key, JSON.stringify(timer));
+    } else {
+      storage.remove(key);
+    }
+    // Dispatch event for same-tab listeners (storage event only fires cross-tab)
+    window.dispatchEvent(new CustomEvent('work-timer-changed', { detail: { timer } }));
+  },
+};
+
+/**
+ * Task watch notification operations.
+ * Notifications for watched tasks ({ notifications, cursors, since }) are kept per user
+ * in localStorage, so unread ones survive reloads and stay in step across tabs.
+ * @namespace
+ */
+export const notificationStorage = {
+  /**
+   * Gets the storage key for notifications, scoped by userId
+   * @param {string|null} userId - The current user ID (optional, will fetch from localStorage if not provided)
+   * @returns {string|null} The storage key, or null without a user
+   */
+  getStorageKey: (userId = null) => {
+    const currentUserId = userId || storage.get(StorageKeys.USER_ID);
+    return currentUserId ? `${StorageKeys.NOTIFICATIONS}:${currentUserId}` : null;
+  },
+
+  /**
+   * Retrieves the user's notification state.
+   * @param {string|null} userId - The current user ID (optional)
+   * @returns {Object|null} - The stored state, or null if none is stored (or the stored value is unreadable)
+   */
+  getNotificationState: (userId = null) => {
+    const key = notificationStorage.getStorageKey(userId);
+    const value = key ? storage.get(key) : null;
+    if (!value) {
+      return null;
+    }
+    try {
+      const state = JSON.parse(value);
+      return state && Array.isArray(state.notifications) && state.cursors ? state : null;
+    } catch (error) {
+      console.warn('Ignoring unreadable notifications in localStorage:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Stores the user's notification state.
+   * Dispatches 'notifications-changed' event for same-tab listeners.
+   * @param {Object} state - The state to store
+   * @param {string|null} userId - The current user ID (optional)
+   */
+  setNotificationState: (state, userId = null) => {
+    const key = notificationStorage.getStorageKey(userId);
+    if (!key) {
+      return;
+    }
+    storage.set(key, JSON.stringify(state));
+    // Dispatch event for same-tab listeners (storage event only fires cross-tab)
+    window.dispatchEvent(new CustomEvent('notifications-changed', { detail: { state } }));
+  },
+};
+
 // Named exports for convenience in components or services
 export const { 
   setSelectedProject, 
@@ -164,3 +278,7 @@ export const {
   clearSelectedProject,
   clearAllSelectedProjects
 } = projectStorage;
+
+export const { getWorkTimer, setWorkTimer } = timerStorage;
+
+export const { getNotificationState, setNotificationState } = notificationStorage;
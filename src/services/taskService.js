@@ -3,6 +3,7 @@
 
 import { api } from '../lib/apiClient.ts';
 import { ENDPOINTS } from '../config';
+import { getTaskTitle } from '../utils/taskUtils.ts';
 
 /**
  * Fetches all tasks for a specific project with pagination.
@@ -37,6 +38,41 @@ export const fetchProjectTasks = async (projectId, options = {}) => {
     }
 };
 
+// Largest page the tasks API returns
+const TASK_PAGE_SIZE = 100;
+
+/**
+ * Fetches every task in a project, one page at a time.
+ * Use this wherever the whole project matters (search, backlog, status usage),
+ * since a single page stops at 100 tasks.
+ *
+ * @param {string} projectId - The ID of the project
+ * @returns {Promise<Object>} - Object containing the complete tasks array
+ * @throws {Error} - Throws an error if fetching any page fails
+ */
+export const fetchAllProjectTasks = async (projectId) => {
+    const tasks = [];
+    const seenIds = new Set();
+
+    for (let offset = 0; ; offset += TASK_PAGE_SIZE) {
+        const data = await fetchProjectTasks(projectId, { limit: TASK_PAGE_SIZE, offset });
+        const page = Array.isArray(data) ? data : data?.tasks || [];
+        const newTasks = page.filter((task) => !seenIds.has(task.id));
+        newTasks.forEach((task) => {
+            seenIds.add(task.id);
+            tasks.push(task);
+        });
+
+        // A short page is the last one; a page of repeats means the server ignored the offset
+        if (page.length < TASK_PAGE_SIZE || newTasks.length === 0) {
+            break;
+        }
+    }
+
+    console.log(`✅ All ${tasks.length} tasks fetched for project ${projectId}`);
+    return { tasks };
+};
+
 /**
  * Fetches all tasks for a specific sprint with pagination.
  *
@@ -95,15 +131,72 @@ export const fetchTaskById = async (taskId) => {
     }
 };
 
+/**
+ * Fetches a single task by its human-readable key.
+ *
+ * @param {string} taskKey - The task key, e.g. "DH-142"
+ * @returns {Promise<Object>} - The task data object
+ * @throws {Error} - Throws an error if no task has that key or it cannot be retrieved
+ */
+export const fetchTaskByKey = async (taskKey) => {
+    try {
+        if (!taskKey) {
+            throw new Error("Task key is required");
+        }
+
+        console.log(`📡 Fetching task by key: ${taskKey}`);
+
+        const response = await api.get(ENDPOINTS.TASK_BY_KEY(taskKey.toUpperCase()));
+
+        console.log("✅ Task fetched successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error fetching task by key:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Fetches the activity history for a task, oldest first.
+ *
+ * @param {string} taskId - The ID of the task
+ * @returns {Promise<Object>} - Object containing history entries array
+ * @throws {Error} - Throws an error if fetching history fails
+ */
+export const fetchTaskHistory = async (taskId) => {
+    try {
+        if (!taskId) {
+            throw new Error("Task ID is required");
+        }
+
+        console.log(`📡 Fetching history for task ${taskId}`);
+
+        const response = await api.get(ENDPOINTS.TASK_HISTORY(taskId));
+
+        console.log("✅ Task history fetched successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error fetching task history:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
 /**
  * Creates a new task for a project.
  *
  * @param {string} projectId - The ID of the project
  * @param {Object} taskData - Data for the new task
- * @param {string} taskData.description - Description of the task
+ * @param {string} taskData.title - Title of the task
+ * @param {string} [taskData.description] - Markdown description of the task
  * @param {string} [taskData.sprintId] - ID of the sprint to assign the task to
  * @param {string} [taskData.assigneeId] - ID of the user to assign the task to
  * @param {number} [taskData.status] - Status of the task (default: 0)
+ * @param {number} [taskData.estimate] - Story point estimate
+ * @param {number} [taskData.priority] - Priority (0 = lowest ... 4 = urgent)
+ * @param {string[]} [taskData.labelIds] - IDs of project labels to attach
+ * @param {string} [taskData.dueDate] - Due date as "YYYY-MM-DD"
+ * @param {Object} [taskData.recurrence] - Recurrence rule ({ frequency, weekdays })
+ * @param {number} [taskData.timeEstimateMinutes] - Time estimate in minutes
  * @returns {Promise<Object>} - The created task object
  * @throws {Error} - Throws an error if task creation fails
  */
@@ -113,15 +206,22 @@ export const createTask = async (projectId, taskData) => {
             throw new Error("Project ID is required");
         }
 
-        if (!taskData.description) {
-            throw new Error("Task description is required");
+        if (!taskData.title || !taskData.title.trim()) {
+            throw new Error("Task title is required");
         }
 
         const payload = {
-            description: taskData.description,
+            title: taskData.title.trim(),
+            description: taskData.description || "",
             status: taskData.status || 0,
             ...(taskData.sprintId && { sprintId: taskData.sprintId }),
-            ...(taskData.assigneeId && { assigneeId: taskData.assigneeId })
+            ...(taskData.assigneeId && { assigneeId: taskData.assigneeId }),
+            ...(taskData.estimate !== undefined && taskData.estimate !== null && { estimate: taskData.estimate }),
+            ...(taskData.priority !== undefined && { priority: taskData.priority }),
+            ...(taskData.labelIds && taskData.labelIds.length > 0 && { labelIds: taskData.labelIds }),
+            ...(taskData.dueDate && { dueDate: taskData.dueDate }),
+            ...(taskData.recurrence && { recurrence: taskData.recurrence }),
+            ...(taskData.timeEstimateMinutes && { timeEstimateMinutes: taskData.timeEstimateMinutes })
         };
 
         console.log(`📤 Creating task for project ${projectId}:`, payload);
@@ -136,13 +236,182 @@ export const createTask = async (projectId, taskData) => {
     }
 };
 
+// Adds a task's checklist items to a new task, unchecked and one at a time so they keep their order
+const copyChecklist = async (fromTask, toTask) => {
+    let subtasks = toTask.subtasks || [];
+    for (const subtask of fromTask.subtasks || []) {
+        const result = await createSubtask(toTask.id, {
+            text: subtask.text,
+            ...(subtask.assigneeId && { assigneeId: subtask.assigneeId })
+        });
+        subtasks = result?.subtasks || subtasks;
+    }
+    return subtasks;
+};
+
+/**
+ * Creates a copy of a task in the same project.
+ * Copies the title (suffixed "(copy)"), description, estimates, priority, labels, sprint and
+ * checklist; the copy starts unassigned, in the given status, with every checklist item open
+ * and no time logged.
+ *
+ * @param {Object} task - The task to copy
+ * @param {number} status - Status for the copy (the workflow's first "todo" status)
+ * @returns {Promise<Object>} - The new task, including its checklist
+ * @throws {Error} - Throws an error if the copy or one of its checklist items cannot be created.
+ * A copy whose checklist fails is deleted again; if that fails too, the error says the copy exists.
+ */
+export const duplicateTask = async (task, status) => {
+    try {
+        if (!task?.id || !task.projectId) {
+            throw new Error("Task is required");
+        }
+
+        console.log(`📤 Duplicating task ${task.id}`);
+
+        const created = await createTask(task.projectId, {
+            title: `${getTaskTitle(task)} (copy)`,
+            description: task.description,
+            status,
+            sprintId: task.sprintId,
+            estimate: task.estimate,
+            timeEstimateMinutes: task.timeEstimateMinutes,
+            priority: task.priority,
+            labelIds: task.labelIds
+        });
+
+        let subtasks;
+        try {
+            subtasks = await copyChecklist(task, created);
+        } catch (checklistError) {
+            // Don't leave a copy with half a checklist behind
+            try {
+                await deleteTask(created.id);
+            } catch (deleteError) {
+                console.error("❌ Error removing incomplete copy:", deleteError.response?.data || deleteError.message);
+                throw new Error(`Created ${created.key || `"${created.title}"`}, but its checklist could not be copied`);
+            }
+            throw checklistError;
+        }
+
+        console.log("✅ Task duplicated successfully:", created);
+        return { ...created, subtasks };
+    } catch (error) {
+        console.error("❌ Error duplicating task:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Creates the next instance of a recurring task.
+ * The new instance gets the same title (taken from the description for untitled tasks),
+ * description, assignee, estimates, priority, labels and (unchecked) checklist, and takes
+ * over the recurrence rule: it is cleared on the previous instance so reopening and
+ * re-completing it doesn't spawn a second copy.
+ *
+ * @param {Object} task - The instance that was completed (or carried over to a new sprint)
+ * @param {Object} instanceData - Where the next instance goes
+ * @param {string|null} instanceData.sprintId - Sprint for the new instance (null for the Product Backlog)
+ * @param {string|null} instanceData.dueDate - Due date as "YYYY-MM-DD" (null for none)
+ * @param {number} instanceData.status - Status for the new instance (the workflow's first "todo" status)
+ * @returns {Promise<Object>} - The new instance, including its checklist
+ * @throws {Error} - Throws an error if the instance cannot be created
+ */
+export const createRecurringInstance = async (task, instanceData) => {
+    try {
+        if (!task?.id || !task.projectId) {
+            throw new Error("Task is required");
+        }
+
+        if (!task.recurrence) {
+            throw new Error("Task does not repeat");
+        }
+
+        console.log(`📤 Creating next instance of recurring task ${task.id}:`, instanceData);
+
+        const created = await createTask(task.projectId, {
+            title: getTaskTitle(task),
+            description: task.description,
+            status: instanceData.status,
+            sprintId: instanceData.sprintId,
+            assigneeId: task.assigneeId,
+            estimate: task.estimate,
+            timeEstimateMinutes: task.timeEstimateMinutes,
+            priority: task.priority,
+            labelIds: task.labelIds,
+            dueDate: instanceData.dueDate,
+            recurrence: task.recurrence
+        });
+        const subtasks = await copyChecklist(task, created);
+
+        await updateTask(task.id, { recurrence: null });
+
+        console.log("✅ Recurring task instance created successfully:", created);
+        return { ...created, subtasks };
+    } catch (error) {
+        console.error("❌ Error creating recurring task instance:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Moves a task into another project.
+ * The server gives the task a new key in the target project and drops labels and
+ * dependency links, which can't cross projects.
+ *
+ * @param {string} taskId - The ID of the task to move
+ * @param {Object} moveData - Where the task goes
+ * @param {string} moveData.projectId - The target project ID
+ * @param {string|null} moveData.sprintId - Target sprint ID (null puts the task in the Product Backlog)
+ * @param {boolean} [moveData.unassign] - Clear the assignee (e.g. they aren't a member of the target project)
+ * @returns {Promise<Object>} - The moved task object
+ * @throws {Error} - Throws an error if the move fails
+ */
+export const moveTaskToProject = async (taskId, moveData) => {
+    try {
+        if (!taskId) {
+            throw new Error("Task ID is required");
+        }
+
+        if (!moveData?.projectId) {
+            throw new Error("Target project ID is required");
+        }
+
+        const payload = {
+            projectId: moveData.projectId,
+            sprintId: moveData.sprintId || null,
+            ...(moveData.unassign && { assigneeId: null })
+        };
+
+        console.log(`📤 Moving task ${taskId} to project ${moveData.projectId}:`, payload);
+
+        const response = await api.post(ENDPOINTS.TASK_MOVE(taskId), payload);
+
+        console.log("✅ Task moved successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error moving task:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
 /**
  * Updates an existing task.
  *
  * @param {string} taskId - The ID of the task to update
  * @param {Object} taskData - Updated task data
- * @param {string} [taskData.description] - New description for the task
+ * @param {string} [taskData.title] - New title for the task
+ * @param {string} [taskData.description] - New Markdown description for the task
+ * @param {string} [taskData.sprintId] - New sprint ID for the task
  * @param {string} [taskData.assigneeId] - New assignee ID for the task
+ * @param {number|null} [taskData.estimate] - New story point estimate (null clears it)
+ * @param {number} [taskData.priority] - New priority (0 = lowest ... 4 = urgent)
+ * @param {string[]} [taskData.labelIds] - Full replacement list of attached label IDs
+ * @param {string|null} [taskData.dueDate] - New due date as "YYYY-MM-DD" (null clears it)
+ * @param {string[]} [taskData.blockedByIds] - Full replacement list of blocking task IDs
+ * @param {string[]} [taskData.blocksIds] - Full replacement list of task IDs this task blocks
+ * @param {Object|null} [taskData.recurrence] - Recurrence rule ({ frequency, weekdays }); null stops repeating
+ * @param {number|null} [taskData.timeEstimateMinutes] - New time estimate in minutes (null clears it)
  * @returns {Promise<Object>} - The updated task object
  * @throws {Error} - Throws an error if task update fails
  */
@@ -152,9 +421,23 @@ export const updateTask = async (taskId, taskData) => {
             throw new Error("Task ID is required");
         }
 
+        if (taskData.title !== undefined && !taskData.title.trim()) {
+            throw new Error("Task title cannot be empty");
+        }
+
         const payload = {};
+        if (taskData.title !== undefined) payload.title = taskData.title.trim();
         if (taskData.description !== undefined) payload.description = taskData.description;
+        if (taskData.sprintId !== undefined) payload.sprintId = taskData.sprintId;
         if (taskData.assigneeId !== undefined) payload.assigneeId = taskData.assigneeId;
+        if (taskData.estimate !== undefined) payload.estimate = taskData.estimate;
+        if (taskData.priority !== undefined) payload.priority = taskData.priority;
+        if (taskData.labelIds !== undefined) payload.labelIds = taskData.labelIds;
+        if (taskData.dueDate !== undefined) payload.dueDate = taskData.dueDate;
+        if (taskData.blockedByIds !== undefined) payload.blockedByIds = taskData.blockedByIds;
+        if (taskData.blocksIds !== undefined) payload.blocksIds = taskData.blocksIds;
+        if (taskData.recurrence !== undefined) payload.recurrence = taskData.recurrence;
+        if (taskData.timeEstimateMinutes !== undefined) payload.timeEstimateMinutes = taskData.timeEstimateMinutes;
 
         console.log(`📤 Updating task ${taskId}:`, payload);
 
@@ -172,7 +455,7 @@ export const updateTask = async (taskId, taskData) => {
  * Updates the status of a task.
  *
  * @param {string} taskId - The ID of the task to update
- * @param {number} status - The new status (0 = Pending, 1 = In Progress, 2 = Completed)
+ * @param {number} status - The new status (ID of a status in the project's workflow)
  * @returns {Promise<Object>} - The updated task object
  * @throws {Error} - Throws an error if status update fails
  */
@@ -186,9 +469,9 @@ export const updateTaskStatus = async (taskId, status) => {
             throw new Error("Status is required");
         }
 
-        // Validate status values
-        if (![0, 1, 2].includes(Number(status))) {
-            throw new Error("Status must be 0 (Pending), 1 (In Progress), or 2 (Completed)");
+        // Validate status values (workflow status IDs are non-negative integers)
+        if (!Number.isInteger(Number(status)) || Number(status) < 0) {
+            throw new Error("Status must be a workflow status ID");
         }
 
         const payload = { status: Number(status) };
@@ -287,6 +570,58 @@ export const unassignTask = async (taskId) => {
     }
 };
 
+/**
+ * Starts watching a task as the current user.
+ * Creators and assignees watch their tasks automatically; this also clears an earlier opt-out.
+ *
+ * @param {string} taskId - The ID of the task
+ * @returns {Promise<Object>} - The updated task object (with watcherIds and unwatchedIds)
+ * @throws {Error} - Throws an error if watching fails
+ */
+export const watchTask = async (taskId) => {
+    try {
+        if (!taskId) {
+            throw new Error("Task ID is required");
+        }
+
+        console.log(`📤 Watching task: ${taskId}`);
+
+        const response = await api.post(ENDPOINTS.TASK_WATCH(taskId));
+
+        console.log("✅ Task watched successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error watching task:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Stops watching a task as the current user.
+ * For the task's creator or assignee this records an opt-out, so they stay unsubscribed.
+ *
+ * @param {string} taskId - The ID of the task
+ * @returns {Promise<Object>} - The updated task object (with watcherIds and unwatchedIds)
+ * @throws {Error} - Throws an error if unwatching fails
+ */
+export const unwatchTask = async (taskId) => {
+    try {
+        if (!taskId) {
+            throw new Error("Task ID is required");
+        }
+
+        console.log(`🗑️ Unwatching task: ${taskId}`);
+
+        const response = await api.delete(ENDPOINTS.TASK_WATCH(taskId));
+
+        console.log("✅ Task unwatched successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error unwatching task:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
 /**
  * Moves a task to a different sprint.
  *
@@ -342,6 +677,170 @@ export const removeTaskFromSprint = async (taskId) => {
     }
 };
 
+/**
+ * Adds a subtask to the end of a task's checklist.
+ *
+ * @param {string} taskId - The ID of the parent task
+ * @param {Object} subtaskData - Data for the new subtask
+ * @param {string} subtaskData.text - Checklist item text
+ * @param {string} [subtaskData.assigneeId] - ID of the user responsible for the item
+ * @returns {Promise<Object>} - The task's updated checklist ({ subtasks })
+ * @throws {Error} - Throws an error if subtask creation fails
+ */
+export const createSubtask = async (taskId, subtaskData) => {
+    try {
+        if (!taskId) {
+            throw new Error("Task ID is required");
+        }
+
+        if (!subtaskData.text || !subtaskData.text.trim()) {
+            throw new Error("Subtask text is required");
+        }
+
+        const payload = {
+            text: subtaskData.text.trim(),
+            ...(subtaskData.done && { done: true }),
+            ...(subtaskData.assigneeId && { assigneeId: subtaskData.assigneeId })
+        };
+
+        console.log(`📤 Adding subtask to task ${taskId}:`, payload);
+
+        const response = await api.post(ENDPOINTS.TASK_SUBTASKS(taskId), payload);
+
+        console.log("✅ Subtask added successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error adding subtask:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Updates a subtask's text, done flag or assignee.
+ *
+ * @param {string} taskId - The ID of the parent task
+ * @param {string} subtaskId - The ID of the subtask
+ * @param {Object} subtaskData - Fields to update
+ * @param {string} [subtaskData.text] - New item text
+ * @param {boolean} [subtaskData.done] - New done flag
+ * @param {string|null} [subtaskData.assigneeId] - New assignee (null clears it)
+ * @returns {Promise<Object>} - The task's updated checklist ({ subtasks })
+ * @throws {Error} - Throws an error if the subtask update fails
+ */
+export const updateSubtask = async (taskId, subtaskId, subtaskData) => {
+    try {
+        if (!taskId || !subtaskId) {
+            throw new Error("Task ID and subtask ID are required");
+        }
+
+        if (subtaskData.text !== undefined && !subtaskData.text.trim()) {
+            throw new Error("Subtask text cannot be empty");
+        }
+
+        const payload = {};
+        if (subtaskData.text !== undefined) payload.text = subtaskData.text.trim();
+        if (subtaskData.done !== undefined) payload.done = subtaskData.done;
+        if (subtaskData.assigneeId !== undefined) payload.assigneeId = subtaskData.assigneeId;
+
+        console.log(`📤 Updating subtask ${subtaskId} on task ${taskId}:`, payload);
+
+        const response = await api.patch(ENDPOINTS.TASK_SUBTASK(taskId, subtaskId), payload);
+
+        console.log("✅ Subtask updated successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error updating subtask:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Deletes a subtask from a task's checklist.
+ *
+ * @param {string} taskId - The ID of the parent task
+ * @param {string} subtaskId - The ID of the subtask to delete
+ * @returns {Promise<Object>} - The task's updated checklist ({ subtasks })
+ * @throws {Error} - Throws an error if subtask deletion fails
+ */
+export const deleteSubtask = async (taskId, subtaskId) => {
+    try {
+        if (!taskId || !subtaskId) {
+            throw new Error("Task ID and subtask ID are required");
+        }
+
+        console.log(`🗑️ Deleting subtask ${subtaskId} from task ${taskId}`);
+
+        const response = await api.delete(ENDPOINTS.TASK_SUBTASK(taskId, subtaskId));
+
+        console.log("✅ Subtask deleted successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error deleting subtask:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Reorders a task's checklist.
+ *
+ * @param {string} taskId - The ID of the parent task
+ * @param {string[]} subtaskIds - Every subtask ID, in the new order
+ * @returns {Promise<Object>} - The task's updated checklist ({ subtasks })
+ * @throws {Error} - Throws an error if reordering fails
+ */
+export const reorderSubtasks = async (taskId, subtaskIds) => {
+    try {
+        if (!taskId) {
+            throw new Error("Task ID is required");
+        }
+
+        console.log(`📤 Reordering subtasks on task ${taskId}:`, subtaskIds);
+
+        const response = await api.put(ENDPOINTS.TASK_SUBTASKS_ORDER(taskId), { subtaskIds });
+
+        console.log("✅ Subtasks reordered successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error reordering subtasks:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Saves the manual order of tasks in a project.
+ * The backend broadcasts one `task_ranks` cache invalidation for the whole batch.
+ *
+ * @param {string} projectId - The ID of the project
+ * @param {Array<{taskId: string, rank: number}>} ranks - New ranks for the reordered tasks
+ * @returns {Promise<Object>} - The updated ranks
+ * @throws {Error} - Throws an error if reordering fails
+ */
+export const updateTaskRanks = async (projectId, ranks) => {
+    try {
+        if (!projectId) {
+            throw new Error("Project ID is required");
+        }
+
+        if (!Array.isArray(ranks) || ranks.length === 0) {
+            throw new Error("At least one task rank is required");
+        }
+
+        if (ranks.some((entry) => !entry.taskId || !Number.isFinite(entry.rank))) {
+            throw new Error("Each rank needs a task ID and a numeric rank");
+        }
+
+        console.log(`📤 Updating ${ranks.length} task rank(s) in project ${projectId}:`, ranks);
+
+        const response = await api.patch(ENDPOINTS.PROJECT_TASK_RANKS(projectId), { ranks });
+
+        console.log("✅ Task ranks updated successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error updating task ranks:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
 /**
  * Gets tasks with assignee information for display purposes.
  * This is a helper function that fetches tasks and enriches them with assignee details.
@@ -364,36 +863,6 @@ export const fetchProjectTasksWithAssignees = async (projectId, options = {}) =>
     }
 };
 
-/**
- * Gets the status name for a given status code.
- *
- * @param {number} status - The status code
- * @returns {string} - The status name
- */
-export const getStatusName = (status) => {
-    const statusMap = {
-        0: "Pending",
-        1: "In Progress", 
-        2: "Completed"
-    };
-    return statusMap[status] || "Unknown";
-};
-
-/**
- * Gets the status color for a given status code.
- *
- * @param {number} status - The status code
- * @returns {string} - The status color class
- */
-export const getStatusColor = (status) => {
-    const colorMap = {
-        0: "text-yellow-600 bg-yellow-100",
-        1: "text-blue-600 bg-blue-100",
-        2: "text-green-600 bg-green-100"
-    };
-    return colorMap[status] || "text-gray-600 bg-gray-100";
-};
-
 // Legacy functions for backward compatibility
 export const editTask = async (taskData) => {
     console.warn("⚠️ editTask is deprecated. Use updateTask instead.");
@@ -407,19 +876,30 @@ export const updateTaskAssignee = async (taskId, newAssigneeId) => {
 
 const taskService = {
     fetchProjectTasks,
+    fetchAllProjectTasks,
     fetchSprintTasks,
     fetchTaskById,
+    fetchTaskByKey,
+    fetchTaskHistory,
     createTask,
+    duplicateTask,
+    createRecurringInstance,
+    moveTaskToProject,
     updateTask,
     updateTaskStatus,
     deleteTask,
     assignTask,
     unassignTask,
+    watchTask,
+    unwatchTask,
     moveTaskToSprint,
     removeTaskFromSprint,
+    createSubtask,
+    updateSubtask,
+    deleteSubtask,
+    reorderSubtasks,
+    updateTaskRanks,
     fetchProjectTasksWithAssignees,
-    getStatusName,
-    getStatusColor,
     // Legacy functions
     editTask,
     updateTaskAssignee
@@ -0,0 +1,150 @@
+import axios from 'axios';
+import { api } from '../lib/apiClient.ts';
+import { ENDPOINTS, UPLOAD_BACKEND } from '../config.js';
+import { AttachmentStorageBackend, TaskAttachment, UploadOptions } from '../types/hooks.ts';
+import { validateAttachmentFile, isUploadCancelled } from '../utils/attachmentUtils.ts';
+import { createLocalUploadBackend } from './localUploadBackend.ts';
+
+// Attachment list responses are either a plain array or { attachments }
+type AttachmentListResponse = TaskAttachment[] | { attachments?: TaskAttachment[] };
+
+const getAttachmentsFromResponse = (data: AttachmentListResponse): TaskAttachment[] =>
+  Array.isArray(data) ? data : data?.attachments || [];
+
+// What to log for a failed request: the server's response body when there is one
+const describeError = (error: unknown): unknown => {
+  if (axios.isAxiosError(error)) return error.response?.data || error.message;
+  return error instanceof Error ? error.message : error;
+};
+
+/**
+ * Attachment backend that stores files through the API (multipart upload)
+ */
+export const httpUploadBackend: AttachmentStorageBackend = {
+  list: async (taskId) => {
+    const response = await api.get<AttachmentListResponse>(ENDPOINTS.TASK_ATTACHMENTS(taskId));
+    return getAttachmentsFromResponse(response.data);
+  },
+
+  upload: async (taskId, file, { onProgress, signal }: UploadOptions = {}) => {
+    const formData = new FormData();
+    formData.append('file', file, file.name);
+
+    const response = await api.post<TaskAttachment>(ENDPOINTS.TASK_ATTACHMENTS(taskId), formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      signal,
+      onUploadProgress: (event) => {
+        if (event.total) onProgress?.(event.loaded / event.total);
+      },
+    });
+    return response.data;
+  },
+
+  remove: async (taskId, attachmentId) => {
+    await api.delete(ENDPOINTS.TASK_ATTACHMENT(taskId, attachmentId));
+  },
+};
+
+let backend: AttachmentStorageBackend = UPLOAD_BACKEND === 'local' ? createLocalUploadBackend() : httpUploadBackend;
+
+/**
+ * Swap the attachment backend (e.g. the local stub in tests or Storybook-style sandboxes)
+ * @param nextBackend - Backend to use for subsequent calls
+ */
+export const setUploadBackend = (nextBackend: AttachmentStorageBackend): void => {
+  backend = nextBackend;
+};
+
+/**
+ * Fetches the files attached to a task.
+ *
+ * @param taskId - The ID of the task
+ * @returns The task's attachments, oldest first
+ */
+export const fetchTaskAttachments = async (taskId: string): Promise<TaskAttachment[]> => {
+  try {
+    if (!taskId) {
+      throw new Error('Task ID is required');
+    }
+
+    console.log(`📡 Fetching attachments for task ${taskId}`);
+
+    const attachments = await backend.list(taskId);
+
+    console.log('✅ Attachments fetched successfully:', attachments);
+    return attachments;
+  } catch (error) {
+    console.error('❌ Error fetching attachments:', describeError(error));
+    throw error;
+  }
+};
+
+/**
+ * Uploads a file to a task.
+ *
+ * @param taskId - The ID of the task
+ * @param file - File picked, dropped or pasted
+ * @param options - Progress callback and abort signal
+ * @returns The stored attachment
+ * @throws Rejects with an AbortError/CanceledError when the upload is cancelled
+ */
+export const uploadAttachment = async (taskId: string, file: File, options: UploadOptions = {}): Promise<TaskAttachment> => {
+  try {
+    if (!taskId) {
+      throw new Error('Task ID is required');
+    }
+
+    const validationError = validateAttachmentFile(file);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    console.log(`📤 Uploading "${file.name}" (${file.size} bytes) to task ${taskId}`);
+
+    const attachment = await backend.upload(taskId, file, options);
+
+    console.log('✅ Attachment uploaded successfully:', attachment);
+    return attachment;
+  } catch (error) {
+    if (isUploadCancelled(error)) {
+      console.log(`🚫 Upload of "${file.name}" cancelled`);
+    } else {
+      console.error('❌ Error uploading attachment:', describeError(error));
+    }
+    throw error;
+  }
+};
+
+/**
+ * Deletes an attachment from a task.
+ *
+ * @param taskId - The ID of the task
+ * @param attachmentId - The ID of the attachment
+ * @returns True if deletion was successful
+ */
+export const deleteAttachment = async (taskId: string, attachmentId: string): Promise<boolean> => {
+  try {
+    if (!taskId || !attachmentId) {
+      throw new Error('Task ID and attachment ID are required');
+    }
+
+    console.log(`🗑️ Deleting attachment ${attachmentId} from task ${taskId}`);
+
+    await backend.remove(taskId, attachmentId);
+
+    console.log('✅ Attachment deleted successfully');
+    return true;
+  } catch (error) {
+    console.error('❌ Error deleting attachment:', describeError(error));
+    throw error;
+  }
+};
+
+const uploadService = {
+  fetchTaskAttachments,
+  uploadAttachment,
+  deleteAttachment,
+  setUploadBackend,
+};
+
+export default uploadService;
@@ -0,0 +1,150 @@
+// ViewService.js
+// This module handles saved view API calls (named Board/Backlog filter presets) for DevHive.
+
+import { api } from '../lib/apiClient.ts';
+import { ENDPOINTS } from '../config';
+
+const VIEW_PAGES = ['board', 'backlog'];
+
+/**
+ * Fetches the saved views visible to the current user in a project:
+ * their own private views plus every view shared with the project.
+ *
+ * @param {string} projectId - The ID of the project
+ * @returns {Promise<Object>} - Object containing views array
+ * @throws {Error} - Throws an error if fetching views fails
+ */
+export const fetchProjectViews = async (projectId) => {
+    try {
+        if (!projectId) {
+            throw new Error("Project ID is required");
+        }
+
+        console.log(`📡 Fetching saved views for project ${projectId}`);
+
+        const response = await api.get(ENDPOINTS.PROJECT_VIEWS(projectId));
+
+        console.log("✅ Saved views fetched successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error fetching saved views:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Creates a saved view owned by the current user.
+ *
+ * @param {string} projectId - The ID of the project
+ * @param {Object} viewData - Data for the new view
+ * @param {string} viewData.name - View name
+ * @param {string} viewData.page - Page the view applies to ("board" or "backlog")
+ * @param {boolean} viewData.shared - Whether every project member can see the view
+ * @param {Object} viewData.state - Captured filters, sort, grouping and sprint
+ * @returns {Promise<Object>} - The created view object
+ * @throws {Error} - Throws an error if view creation fails
+ */
+export const createView = async (projectId, viewData) => {
+    try {
+        if (!projectId) {
+            throw new Error("Project ID is required");
+        }
+
+        if (!viewData.name || !viewData.name.trim()) {
+            throw new Error("View name is required");
+        }
+
+        if (!VIEW_PAGES.includes(viewData.page)) {
+            throw new Error("View page must be board or backlog");
+        }
+
+        const payload = {
+            name: viewData.name.trim(),
+            page: viewData.page,
+            shared: !!viewData.shared,
+            state: viewData.state || {}
+        };
+
+        console.log(`📤 Creating saved view for project ${projectId}:`, payload);
+
+        const response = await api.post(ENDPOINTS.PROJECT_VIEWS(projectId), payload);
+
+        console.log("✅ Saved view created successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error creating saved view:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Updates a saved view. Only the view's owner may change it.
+ *
+ * @param {string} viewId - The ID of the view to update
+ * @param {Object} viewData - Updated view data
+ * @param {string} [viewData.name] - New view name
+ * @param {boolean} [viewData.shared] - New sharing setting
+ * @param {Object} [viewData.state] - Replacement filter state
+ * @returns {Promise<Object>} - The updated view object
+ * @throws {Error} - Throws an error if view update fails
+ */
+export const updateView = async (viewId, viewData) => {
+    try {
+        if (!viewId) {
+            throw new Error("View ID is required");
+        }
+
+        if (viewData.name !== undefined && !viewData.name.trim()) {
+            throw new Error("View name cannot be empty");
+        }
+
+        const payload = {};
+        if (viewData.name !== undefined) payload.name = viewData.name.trim();
+        if (viewData.shared !== undefined) payload.shared = !!viewData.shared;
+        if (viewData.state !== undefined) payload.state = viewData.state;
+
+        console.log(`📤 Updating saved view ${viewId}:`, payload);
+
+        const response = await api.patch(ENDPOINTS.VIEW_BY_ID(viewId), payload);
+
+        console.log("✅ Saved view updated successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error updating saved view:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Deletes a saved view. Only the view's owner may delete it.
+ *
+ * @param {string} viewId - The ID of the view to delete
+ * @returns {Promise<boolean>} - True if deletion was successful
+ * @throws {Error} - Throws an error if view deletion fails
+ */
+export const deleteView = async (viewId) => {
+    try {
+        if (!viewId) {
+            throw new Error("View ID is required");
+        }
+
+        console.log(`🗑️ Deleting saved view ${viewId}`);
+
+        await api.delete(ENDPOINTS.VIEW_BY_ID(viewId));
+
+        console.log("✅ Saved view deleted successfully");
+        return true;
+    } catch (error) {
+        console.error("❌ Error deleting saved view:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+const viewService = {
+    fetchProjectViews,
+    createView,
+    updateView,
+    deleteView
+};
+
+export default viewService;
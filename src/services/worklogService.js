@@ -0,0 +1,133 @@
+// WorklogService.js
+// This module handles time tracking (work log) API calls for DevHive task management.
+
+import { api } from '../lib/apiClient.ts';
+import { ENDPOINTS } from '../config';
+
+/**
+ * Fetches the time logged against a task, newest first.
+ *
+ * @param {string} taskId - The ID of the task
+ * @returns {Promise<Object>} - Object containing worklogs array
+ * @throws {Error} - Throws an error if fetching work logs fails
+ */
+export const fetchTaskWorkLogs = async (taskId) => {
+    try {
+        if (!taskId) {
+            throw new Error("Task ID is required");
+        }
+
+        console.log(`📡 Fetching work logs for task ${taskId}`);
+
+        const response = await api.get(ENDPOINTS.TASK_WORKLOGS(taskId));
+
+        console.log("✅ Work logs fetched successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error fetching work logs:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Logs time against a task as the current user.
+ *
+ * @param {string} taskId - The ID of the task
+ * @param {Object} workLogData - The time to log
+ * @param {number} workLogData.minutes - Duration in whole minutes
+ * @param {string} workLogData.date - Day the work was done, "YYYY-MM-DD"
+ * @param {string} [workLogData.note] - What the time was spent on
+ * @returns {Promise<Object>} - The created work log object
+ * @throws {Error} - Throws an error if logging time fails
+ */
+export const createWorkLog = async (taskId, workLogData) => {
+    try {
+        if (!taskId) {
+            throw new Error("Task ID is required");
+        }
+
+        if (!Number.isInteger(workLogData.minutes) || workLogData.minutes <= 0) {
+            throw new Error("Logged time must be at least one minute");
+        }
+
+        if (!workLogData.date) {
+            throw new Error("Date is required");
+        }
+
+        const payload = {
+            minutes: workLogData.minutes,
+            date: workLogData.date,
+            note: (workLogData.note || "").trim()
+        };
+
+        console.log(`📤 Logging time on task ${taskId}:`, payload);
+
+        const response = await api.post(ENDPOINTS.TASK_WORKLOGS(taskId), payload);
+
+        console.log("✅ Time logged successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error logging time:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Deletes one of the current user's work logs.
+ *
+ * @param {string} taskId - The ID of the task
+ * @param {string} workLogId - The ID of the work log to delete
+ * @returns {Promise<Object>} - Deletion confirmation
+ * @throws {Error} - Throws an error if work log deletion fails
+ */
+export const deleteWorkLog = async (taskId, workLogId) => {
+    try {
+        if (!taskId || !workLogId) {
+            throw new Error("Task ID and work log ID are required");
+        }
+
+        console.log(`🗑️ Deleting work log ${workLogId} from task ${taskId}`);
+
+        const response = await api.delete(ENDPOINTS.TASK_WORKLOG(taskId, workLogId));
+
+        console.log("✅ Work log deleted successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error deleting work log:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+/**
+ * Fetches every member's work logs on a sprint's tasks, for the timesheet.
+ *
+ * @param {string} sprintId - The ID of the sprint
+ * @returns {Promise<Object>} - Object containing worklogs array (with task key and title)
+ * @throws {Error} - Throws an error if fetching the timesheet fails
+ */
+export const fetchSprintWorkLogs = async (sprintId) => {
+    try {
+        if (!sprintId) {
+            throw new Error("Sprint ID is required");
+        }
+
+        console.log(`📡 Fetching work logs for sprint ${sprintId}`);
+
+        const response = await api.get(ENDPOINTS.SPRINT_WORKLOGS(sprintId));
+
+        console.log("✅ Sprint work logs fetched successfully:", response.data);
+        return response.data;
+    } catch (error) {
+        console.error("❌ Error fetching sprint work logs:", error.response?.data || error.message);
+        throw error;
+    }
+};
+
+const worklogService = {
+    fetchTaskWorkLogs,
+    createWorkLog,
+    deleteWorkLog,
+    fetchSprintWorkLogs
+};
+
+export default worklogService;
@@ -12,10 +12,26 @@ export interface User {
 export interface TaskResponse {
   id: string;
   projectId: string;
+  key?: string; // Per-project sequential key, e.g. "DH-142" (assigned by the server on create)
   sprintId?: string; // Always present in update/create responses
   assigneeId?: string; // Always present in update/create responses
-  description: string;
-  status: number;
+  title: string;
+  description: string; // Markdown
+  status: number; // WorkflowStatus id (default workflow: 0 = To Do, 1 = In Progress, 2 = Completed)
+  estimate?: number | null; // Story points
+  priority?: number; // 0 = lowest, 1 = low, 2 = medium, 3 = high, 4 = urgent
+  labelIds?: string[]; // Project label IDs attached to the task
+  dueDate?: string | null; // Calendar date "YYYY-MM-DD"
+  subtasks?: Subtask[]; // Ordered checklist
+  blockedByIds?: string[]; // Tasks in the same project that must be done first
+  blocksIds?: string[]; // Tasks waiting on this one (inverse of blockedByIds)
+  rank?: number | null; // Manual order within the project, lowest first (null = never ranked)
+  attachmentCount?: number; // Files attached to the task
+  recurrence?: TaskRecurrence | null; // Set on the newest instance of a recurring task
+  timeEstimateMinutes?: number | null; // Time estimate (separate from story points)
+  loggedMinutes?: number; // Total time logged against the task
+  watcherIds?: string[]; // Users who chose to watch the task
+  unwatchedIds?: string[]; // Creator/assignee who opted out of watching it
   createdAt: string;
   updatedAt: string;
   assignee?: { // Always present in update/create responses if assigned
@@ -32,6 +48,94 @@ export interface TaskResponse {
   };
 }
 
+// How often a recurring task comes back
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'sprint';
+
+// Recurrence rule - daily/weekly instances are recreated on completion, every-sprint ones when a sprint starts
+export interface TaskRecurrence {
+  frequency: RecurrenceFrequency;
+  weekdays?: number[]; // Weekly only: 0 = Sunday ... 6 = Saturday
+}
+
+// Subtask type - one checklist item inside a task
+export interface Subtask {
+  id: string;
+  text: string;
+  done: boolean;
+  assigneeId?: string | null;
+}
+
+// Task attachment - a file or image uploaded to a task
+export interface TaskAttachment {
+  id: string;
+  taskId: string;
+  fileName: string;
+  contentType: string; // MIME type, e.g. "image/png"
+  size: number; // Bytes
+  url: string; // Download URL
+  thumbnailUrl?: string | null; // Smaller preview for images (falls back to url)
+  uploadedBy?: string; // User ID
+  createdAt: string;
+}
+
+// Work log - time a member spent on a task
+export interface WorkLog {
+  id: string;
+  taskId: string;
+  userId: string;
+  minutes: number;
+  date: string; // Calendar date the work was done, "YYYY-MM-DD"
+  note: string;
+  createdAt: string;
+  // Task info (populated by backend on sprint timesheets)
+  task?: {
+    key?: string;
+    title: string;
+  };
+}
+
+// Start/stop timer for logging time, kept in localStorage so it survives reloads
+export interface WorkTimer {
+  taskId: string;
+  taskLabel: string; // Task key or title, for showing where the timer runs
+  startedAt: string; // ISO timestamp
+}
+
+// Change to a watched task that the user is notified about
+export type TaskNotificationKind = 'status' | 'assignee' | 'description' | 'comment';
+
+// In-app notification for a change to a watched task (kept per user in localStorage)
+export interface TaskNotification {
+  id: string; // "<kind source>:<history entry or comment id>", so repeated events don't duplicate it
+  taskId: string;
+  projectId: string;
+  taskKey?: string;
+  taskTitle: string;
+  kind: TaskNotificationKind;
+  message: string; // e.g. "Ada Lovelace moved it to Done"
+  createdAt: string; // When the change happened
+  read: boolean;
+}
+
+// A user's stored notifications and how far each watched task's activity has been read
+export interface TaskNotificationState {
+  notifications: TaskNotification[]; // Newest first
+  cursors: Record<string, string>; // "<taskId>:task" / "<taskId>:comment" -> server time of the newest change already checked
+}
+
+// Progress and cancellation for one attachment upload
+export interface UploadOptions {
+  onProgress?: (fraction: number) => void; // 0..1
+  signal?: AbortSignal;
+}
+
+// Where attachments are stored - the API in production, an in-memory stub in development and tests
+export interface AttachmentStorageBackend {
+  list: (taskId: string) => Promise<TaskAttachment[]>;
+  upload: (taskId: string, file: File, options?: UploadOptions) => Promise<TaskAttachment>;
+  remove: (taskId: string, attachmentId: string) => Promise<void>;
+}
+
 // SprintResponse type - matches complete backend response
 export interface SprintResponse {
   id: string;
@@ -59,6 +163,7 @@ export interface Project {
   ownerId: string;
   name: string;
   description: string;
+  key?: string; // Task key prefix, e.g. "DH" for DH-142
   createdAt: string;
   updatedAt: string;
   owner: {
@@ -78,6 +183,102 @@ export interface Project {
   };
 }
 
+// Label type - project-defined task label
+export interface Label {
+  id: string;
+  projectId: string;
+  name: string;
+  color: string; // Hex color, e.g. "#e5484d"
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Board label filter - "any" matches tasks with at least one selected label, "all" requires every one
+export interface LabelFilter {
+  labelIds: string[];
+  mode: 'any' | 'all';
+}
+
+// Workflow status category - drives "done" logic regardless of status names
+export type WorkflowStatusCategory = 'todo' | 'doing' | 'done';
+
+// Workflow status - one project-defined board column
+export interface WorkflowStatus {
+  id: number; // Stored in task.status
+  name: string;
+  color: string; // Hex color, e.g. "#0090ff"
+  category: WorkflowStatusCategory;
+}
+
+// Project data a task search query is resolved against (assignee:me, label:bug, sprint:current...)
+export interface TaskQueryContext {
+  currentUserId: string | null;
+  members: User[];
+  workflow: WorkflowStatus[];
+  labels: Label[];
+  sprints: Sprint[];
+}
+
+// Project settings - per-project board configuration
+export interface ProjectSettings {
+  projectId: string;
+  workflow: WorkflowStatus[]; // Ordered board columns
+  wipLimits?: Record<number, number>; // Max tasks per column, keyed by status ID (missing = no limit)
+  lastStatusId?: number; // Highest status ID ever allocated, including removed statuses
+  templates?: TaskTemplate[]; // Presets offered when creating a task
+  updatedAt?: string;
+}
+
+// Task template - pre-filled fields for a recurring kind of task (e.g. "Bug report")
+export interface TaskTemplate {
+  id: string;
+  name: string; // Shown in the template picker
+  title: string; // Title prefix, e.g. "Bug: " (may be empty)
+  description: string; // Markdown skeleton
+  labelIds: string[];
+  priority: number;
+  estimate?: number | null;
+  checklist: string[]; // Checklist items added to every task created from the template
+}
+
+// Task history entry - one recorded change to a task
+export interface TaskHistoryEntry {
+  id: string;
+  taskId: string;
+  actorId: string;
+  action: 'created' | 'updated';
+  field?: 'status' | 'assigneeId' | 'sprintId' | 'title' | 'description' | 'priority' | 'estimate' | 'dueDate' | 'labelIds' | string;
+  oldValue?: any;
+  newValue?: any;
+  createdAt: string;
+  // Actor info (populated by backend)
+  actor?: {
+    id: string;
+    username: string;
+    firstName: string;
+    lastName: string;
+  };
+}
+
+// Comment type - discussion entry on a task
+export interface TaskComment {
+  id: string;
+  taskId: string;
+  projectId: string;
+  authorId: string;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+  // Author info (populated by backend)
+  author?: {
+    id: string;
+    username: string;
+    firstName: string;
+    lastName: string;
+    avatarUrl?: string;
+  };
+}
+
 // Message type - matches backend response from Go API
 export interface Message {
   id: string;
@@ -99,6 +300,57 @@ export interface Message {
   userId?: string;
 }
 
+// Task list ordering used by the Board and Backlog
+export type TaskSortMode = 'rank' | 'priority' | 'updated' | 'created';
+
+// New rank for one task after a manual reorder
+export interface TaskRankUpdate {
+  taskId: string;
+  rank: number;
+}
+
+// One action applied to every selected task in the Backlog bulk bar
+export type BulkTaskAction =
+  | { type: 'status'; status: number }
+  | { type: 'assign'; assigneeId: string | null }
+  | { type: 'moveToSprint'; sprintId: string }
+  | { type: 'removeFromSprint' }
+  | { type: 'delete' };
+
+// Outcome of a bulk action; failures don't stop the remaining tasks
+export interface BulkTaskResult {
+  succeeded: string[];
+  failed: { taskId: string; error: string }[];
+}
+
+// Board swimlane grouping ('none' = plain columns)
+export type BoardSwimlaneMode = 'none' | 'assignee' | 'priority' | 'label';
+
+// Page a saved view belongs to
+export type SavedViewPage = 'board' | 'backlog';
+
+// Filters captured by a saved view; fields a page doesn't have are left out
+export interface SavedViewState {
+  searchQuery?: string;
+  labelFilter?: LabelFilter;
+  sortMode?: TaskSortMode;
+  swimlaneMode?: BoardSwimlaneMode;
+  sprintId?: string | null; // A sprint ID, 'current' for whichever sprint is active, or null for none
+}
+
+// Saved view - a named filter/sort preset, private to its owner unless shared with the project
+export interface SavedView {
+  id: string;
+  projectId: string;
+  ownerId: string;
+  name: string;
+  page: SavedViewPage;
+  shared: boolean;
+  state: SavedViewState;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // Legacy types for backward compatibility (aliases)
 export type Task = TaskResponse;
 export type Sprint = SprintResponse;
@@ -110,6 +362,8 @@ export interface UseBoardActionsReturn {
   selectedSprint: string | null;
   tasks: Task[];
   members: User[];
+  workflow: WorkflowStatus[];
+  wipLimits: Record<number, number>;
   loading: boolean;
   error: string | null;
   successMessage: string | null;
@@ -117,11 +371,26 @@ export interface UseBoardActionsReturn {
   setDraggedTask: (task: Task | null) => void;
   setError: (error: string | null) => void;
   getTasksByStatus: (status: number) => Task[];
+  getColumnTaskCount: (status: number) => number;
+  projectTasks: Task[];
+  getUnresolvedBlockers: (task: Task) => Task[];
+  sortMode: TaskSortMode;
+  setSortMode: (mode: TaskSortMode) => void;
+  swimlaneMode: BoardSwimlaneMode;
+  setSwimlaneMode: (mode: BoardSwimlaneMode) => void;
+  labelFilter: LabelFilter;
+  setLabelFilter: (filter: LabelFilter) => void;
+  searchQuery: string;
+  setSearchQuery: (query: string) => void;
+  searchContext: TaskQueryContext;
+  setSelectedSprint: (sprintId: string | null) => void;
   formatDate: (dateString: string) => string;
   getAssigneeName: (task: Task) => string;
   handleSprintChange: (sprintId: string) => void;
   handleAssigneeChange: (task: Task, newAssigneeId: string) => Promise<void>;
   handleStatusUpdate: (taskId: string, newStatus: number) => Promise<boolean>;
+  handleDetailsUpdate: (taskId: string, updates: Omit<UpdateTaskData, 'id'>) => Promise<void>;
+  handleRankUpdate: (ranks: TaskRankUpdate[]) => Promise<void>;
   setSuccessMessage: (message: string | null) => void;
 }
 
@@ -135,7 +404,7 @@ export interface UseTaskManagementReturn {
   loading: boolean;
   error: string | null;
   clearError: () => void;
-  handleCreateTask: (taskData: CreateTaskData) => Promise<{ success: boolean; error?: string }>;
+  handleCreateTask: (taskData: CreateTaskData) => Promise<{ success: boolean; task?: Task; error?: string }>;
   handleUpdateTask: (taskData: UpdateTaskData) => Promise<{ success: boolean; error?: string }>;
   handleUpdateTaskStatus: (taskId: string, status: number) => Promise<{ success: boolean; error?: string }>;
   handleUpdateTaskAssignee: (taskId: string, newAssigneeId: string) => Promise<{ success: boolean; error?: string }>;
@@ -143,17 +412,31 @@ export interface UseTaskManagementReturn {
 
 export interface CreateTaskData {
   projectId: string;
-  description: string;
+  title: string;
+  description?: string;
   sprintId?: string;
   assigneeId?: string;
   status?: number;
+  estimate?: number | null;
+  priority?: number;
+  labelIds?: string[];
+  dueDate?: string | null;
 }
 
 export interface UpdateTaskData {
   id: string;
+  title?: string;
   description?: string;
   sprintId?: string;
   assigneeId?: string;
   status?: number;
+  estimate?: number | null;
+  priority?: number;
+  labelIds?: string[];
+  dueDate?: string | null;
+  blockedByIds?: string[];
+  blocksIds?: string[];
+  recurrence?: TaskRecurrence | null;
+  timeEstimateMinutes?: number | null;
 }
 
@@ -0,0 +1,70 @@
+import { Task, TaskAttachment } from '../types/hooks.ts';
+
+export const ATTACHMENT_MAX_SIZE = 25 * 1024 * 1024; // 25 MB
+
+/**
+ * Human-readable file size
+ * @param bytes - Size in bytes
+ * @returns e.g. "820 B", "14.2 KB", "3.1 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Check whether an attachment can be previewed as an image
+ * @param attachment - The attachment
+ * @returns True for image MIME types
+ */
+export function isImageAttachment(attachment: TaskAttachment): boolean {
+  return attachment.contentType.startsWith('image/');
+}
+
+/**
+ * Validate a file before uploading it
+ * @param file - File picked, dropped or pasted
+ * @returns An error message, or null when the file can be uploaded
+ */
+export function validateAttachmentFile(file: File): string | null {
+  if (file.size === 0) return `"${file.name}" is empty.`;
+  if (file.size > ATTACHMENT_MAX_SIZE) {
+    return `"${file.name}" is ${formatFileSize(file.size)}; attachments can be at most ${formatFileSize(ATTACHMENT_MAX_SIZE)}.`;
+  }
+  return null;
+}
+
+/**
+ * Files from a paste event, with screenshots given a readable name
+ * (browsers name every pasted image "image.png")
+ * @param clipboardData - The paste event's clipboard data
+ * @returns Pasted files (empty for plain text pastes)
+ */
+export function getPastedFiles(clipboardData: DataTransfer | null): File[] {
+  if (!clipboardData) return [];
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+  return Array.from(clipboardData.files).map((file, index) =>
+    file.type.startsWith('image/') && file.name === 'image.png'
+      ? new File([file], `screenshot-${stamp}${index > 0 ? `-${index + 1}` : ''}.png`, { type: file.type })
+      : file
+  );
+}
+
+/**
+ * Check whether an upload failed because it was cancelled
+ * @param error - Rejection from an upload
+ * @returns True for aborted uploads (fetch/DOM AbortError or axios cancellation)
+ */
+export function isUploadCancelled(error: any): boolean {
+  return error?.name === 'AbortError' || error?.name === 'CanceledError' || error?.code === 'ERR_CANCELED';
+}
+
+/**
+ * Number of files attached to a task
+ * @param task - The task object
+ * @returns Attachment count (0 when the backend didn't send one)
+ */
+export function getAttachmentCount(task: Task): number {
+  return task.attachmentCount ?? 0;
+}
@@ -0,0 +1,54 @@
+/**
+ * formatMessageTime
+ * 
+ * Converts various datetime formats (Firestore, ISO string, Date) into a human-readable string
+ * Used for message and comment timestamps
+ * 
+ * @param {Date | string | object} dateTime - The original timestamp value
+ * @returns {string} Formatted timestamp
+ */
+export const formatMessageTime = (dateTime: Date | string | any): string => {
+  // First ensure we're working with a valid date
+  let date: Date;
+  
+  if (dateTime instanceof Date) {
+    date = dateTime;
+  } else if (typeof dateTime === 'object' && dateTime.seconds) {
+    // Firestore Timestamp format
+    date = new Date(dateTime.seconds * 1000);
+  } else if (typeof dateTime === 'string') {
+    date = new Date(dateTime);
+  } else {
+    console.warn('Unknown date format:', dateTime);
+    return 'Unknown time';
+  }
+  
+  // Check if the date is valid
+  if (isNaN(date.getTime())) {
+    console.warn('Invalid date:', dateTime);
+    return 'Invalid time';
+  }
+  
+  const now = new Date();
+  const diffInSeconds = Math.floor((now.getTime() - date.getTime()) / 1000);
+  
+  // Less than 1 minute
+  if (diffInSeconds < 60) {
+    return 'Just now';
+  }
+  
+  // Less than 1 hour
+  if (diffInSeconds < 3600) {
+    const minutes = Math.floor(diffInSeconds / 60);
+    return `${minutes}m ago`;
+  }
+  
+  // Less than 24 hours
+  if (diffInSeconds < 86400) {
+    const hours = Math.floor(diffInSeconds / 3600);
+    return `${hours}h ago`;
+  }
+  
+  // More than 24 hours - show date
+  return date.toLocaleDateString();
+};
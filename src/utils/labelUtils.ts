@@ -0,0 +1,64 @@
+import { Label, LabelFilter, Task } from '../types/hooks.ts';
+
+export const LABEL_NAME_MAX_LENGTH = 32;
+
+// Preset swatches offered when creating or editing a label
+export const LABEL_COLORS: string[] = [
+  '#e5484d', // red
+  '#f76b15', // orange
+  '#ffc53d', // amber
+  '#30a46c', // green
+  '#12a594', // teal
+  '#0090ff', // blue
+  '#6e56cf', // violet
+  '#d6409f', // pink
+  '#8d8d8d', // gray
+];
+
+export const EMPTY_LABEL_FILTER: LabelFilter = { labelIds: [], mode: 'any' };
+
+/**
+ * Pick a readable text color for a label background
+ * @param hexColor - Background color as "#rrggbb"
+ * @returns Dark or light text color
+ */
+export function getLabelTextColor(hexColor: string): string {
+  const hex = hexColor.replace('#', '');
+  if (hex.length !== 6) return '#000';
+
+  const r = parseInt(hex.slice(0, 2), 16);
+  const g = parseInt(hex.slice(2, 4), 16);
+  const b = parseInt(hex.slice(4, 6), 16);
+  // Perceived brightness (ITU-R BT.601)
+  const brightness = (r * 299 + g * 587 + b * 114) / 1000;
+  return brightness > 150 ? '#000' : '#fff';
+}
+
+/**
+ * Resolve a task's label IDs against the project's labels
+ * IDs of labels that no longer exist are skipped.
+ *
+ * @param task - The task object
+ * @param labels - Labels defined for the project
+ * @returns Labels attached to the task, in project label order
+ */
+export function getTaskLabels(task: Task, labels: Label[]): Label[] {
+  const labelIds = task.labelIds || [];
+  if (labelIds.length === 0) return [];
+  return labels.filter((label) => labelIds.includes(label.id));
+}
+
+/**
+ * Check whether a task passes the label filter
+ * @param task - The task object
+ * @param filter - Selected labels and match mode
+ * @returns True when no labels are selected, or the task matches any/all of them
+ */
+export function matchesLabelFilter(task: Task, filter: LabelFilter): boolean {
+  if (filter.labelIds.length === 0) return true;
+
+  const taskLabelIds = task.labelIds || [];
+  return filter.mode === 'all'
+    ? filter.labelIds.every((id) => taskLabelIds.includes(id))
+    : filter.labelIds.some((id) => taskLabelIds.includes(id));
+}
@@ -0,0 +1,37 @@
+/**
+ * @file markdown.ts
+ * @description Markdown rendering helpers for task descriptions
+ */
+
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+
+marked.setOptions({
+  gfm: true,
+  breaks: true,
+});
+
+// Open links in a new tab without giving the target page access to window.opener
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A' && node.getAttribute('href')) {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+/**
+ * Converts Markdown source into sanitized HTML
+ * Supports GitHub-flavored Markdown (headings, lists, code blocks, links, tables)
+ *
+ * @param source - Raw Markdown text
+ * @returns Sanitized HTML string safe to inject into the DOM
+ */
+export function renderMarkdown(source: string): string {
+  if (!source || source.trim() === '') return '';
+
+  const html = marked.parse(source, { async: false }) as string;
+  return DOMPurify.sanitize(html, {
+    USE_PROFILES: { html: true },
+    FORBID_TAGS: ['style', 'form', 'button', 'textarea', 'select'],
+  });
+}
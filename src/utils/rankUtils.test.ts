@@ -0,0 +1,99 @@
+import { RANK_STEP, hasRank, moveTaskInList, getRankUpdates, getDropRankUpdates } from './rankUtils.ts';
+import { makeTask } from '../__fixtures__/tasks.ts';
+
+const ids = (tasks: { id: string }[]): string[] => tasks.map((task) => task.id);
+
+describe('hasRank', () => {
+  it('only counts finite numbers', () => {
+    expect(hasRank(makeTask({ rank: 0 }))).toBe(true);
+    expect(hasRank(makeTask({}))).toBe(false);
+    expect(hasRank(makeTask({ rank: NaN }))).toBe(false);
+    expect(hasRank(undefined)).toBe(false);
+  });
+});
+
+describe('moveTaskInList', () => {
+  const list = [makeTask({ id: 'a' }), makeTask({ id: 'b' }), makeTask({ id: 'c' })];
+
+  it('moves a task in front of another, or to the end', () => {
+    expect(ids(moveTaskInList(list, list[2], 'a'))).toEqual(['c', 'a', 'b']);
+    expect(ids(moveTaskInList(list, list[0], null))).toEqual(['b', 'c', 'a']);
+  });
+
+  it('inserts tasks from another list and appends when the target is gone', () => {
+    expect(ids(moveTaskInList(list, makeTask({ id: 'x' }), 'b'))).toEqual(['a', 'x', 'b', 'c']);
+    expect(ids(moveTaskInList(list, makeTask({ id: 'x' }), 'missing'))).toEqual(['a', 'b', 'c', 'x']);
+  });
+});
+
+describe('getRankUpdates', () => {
+  it('ranks only the moved task between ranked neighbours', () => {
+    const ordered = [makeTask({ id: 'a', rank: 1024 }), makeTask({ id: 'm', rank: 5000 }), makeTask({ id: 'b', rank: 2048 })];
+    expect(getRankUpdates(ordered, 'm')).toEqual([{ taskId: 'm', rank: 1536 }]);
+  });
+
+  it('steps past the first or last neighbour', () => {
+    const first = [makeTask({ id: 'm' }), makeTask({ id: 'a', rank: 1024 })];
+    const last = [makeTask({ id: 'a', rank: 1024 }), makeTask({ id: 'm' })];
+    expect(getRankUpdates(first, 'm')).toEqual([{ taskId: 'm', rank: 1024 - RANK_STEP }]);
+    expect(getRankUpdates(last, 'm')).toEqual([{ taskId: 'm', rank: 1024 + RANK_STEP }]);
+    expect(getRankUpdates([makeTask({ id: 'm' })], 'm')).toEqual([{ taskId: 'm', rank: RANK_STEP }]);
+  });
+
+  it('renumbers the whole list when a neighbour was never ranked', () => {
+    const ordered = [makeTask({ id: 'a', rank: 1024 }), makeTask({ id: 'm' }), makeTask({ id: 'b' })];
+    expect(getRankUpdates(ordered, 'm')).toEqual([
+      { taskId: 'm', rank: 2 * RANK_STEP },
+      { taskId: 'b', rank: 3 * RANK_STEP },
+    ]);
+  });
+
+  it('renumbers the whole list when the gap is too small to split', () => {
+    const ordered = [makeTask({ id: 'a', rank: 1 }), makeTask({ id: 'm', rank: 9 }), makeTask({ id: 'b', rank: 1 + 1e-7 })];
+    expect(getRankUpdates(ordered, 'm')).toEqual([
+      { taskId: 'a', rank: RANK_STEP },
+      { taskId: 'm', rank: 2 * RANK_STEP },
+      { taskId: 'b', rank: 3 * RANK_STEP },
+    ]);
+  });
+
+  it('saves nothing when the rank is unchanged or the task is missing', () => {
+    const ordered = [makeTask({ id: 'a', rank: 1024 }), makeTask({ id: 'm', rank: 1536 }), makeTask({ id: 'b', rank: 2048 })];
+    expect(getRankUpdates(ordered, 'm')).toEqual([]);
+    expect(getRankUpdates(ordered, 'missing')).toEqual([]);
+  });
+});
+
+describe('getDropRankUpdates', () => {
+  // Project order a < x < b < y < c, where x and y sit in another column
+  const a = makeTask({ id: 'a', rank: 1024 });
+  const x = makeTask({ id: 'x', rank: 2048 });
+  const b = makeTask({ id: 'b', rank: 3072 });
+  const y = makeTask({ id: 'y', rank: 4096 });
+  const c = makeTask({ id: 'c', rank: 5120 });
+  const projectOrder = [a, x, b, y, c];
+  const column = [a, b, c];
+
+  it('ranks against the neighbours in the project order, not the column', () => {
+    expect(getDropRankUpdates(projectOrder, column, c, 'b')).toEqual([{ taskId: 'c', rank: 2560 }]);
+  });
+
+  it('drops at the end of the column right after its last card', () => {
+    expect(getDropRankUpdates(projectOrder, [a, b], x, null)).toEqual([{ taskId: 'x', rank: 3584 }]);
+    expect(getDropRankUpdates(projectOrder, [], x, null)).toEqual([]);
+  });
+
+  it('renumbers the whole project, keeping hidden tasks in order', () => {
+    const tight = [a, makeTask({ id: 'x', rank: 1024 + 1e-7 }), b, y, c];
+    expect(getDropRankUpdates(tight, column, c, 'x')).toEqual([
+      { taskId: 'c', rank: 2 * RANK_STEP },
+      { taskId: 'x', rank: 3 * RANK_STEP },
+      { taskId: 'b', rank: 4 * RANK_STEP },
+      { taskId: 'y', rank: 5 * RANK_STEP },
+    ]);
+  });
+
+  it('saves nothing when the target card is not in the project order', () => {
+    expect(getDropRankUpdates([], column, c, 'b')).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import { Task, TaskRankUpdate } from '../types/hooks.ts';
+
+// Spacing between ranks when a list is (re)numbered
+export const RANK_STEP = 1024;
+
+// Below this gap a midpoint loses precision, so the list is renumbered instead
+const MIN_RANK_GAP = 1e-6;
+
+/**
+ * Check whether a task has been given a manual rank
+ * @param task - The task object
+ * @returns True when the task has a numeric rank
+ */
+export function hasRank(task: Task | undefined): boolean {
+  return !!task && typeof task.rank === 'number' && Number.isFinite(task.rank);
+}
+
+/**
+ * Move a task to a new position in an ordered list
+ * @param orderedTasks - Tasks in display order (the moved task may come from another list)
+ * @param task - The task being moved
+ * @param beforeTaskId - Task to insert in front of, or null to append
+ * @returns New ordered list
+ */
+export function moveTaskInList(orderedTasks: Task[], task: Task, beforeTaskId: string | null): Task[] {
+  const remaining = orderedTasks.filter((t) => t.id !== task.id);
+  const index = beforeTaskId ? remaining.findIndex((t) => t.id === beforeTaskId) : -1;
+  if (index === -1) return [...remaining, task];
+  return [...remaining.slice(0, index), task, ...remaining.slice(index)];
+}
+
+/**
+ * Work out which ranks to save after a task was moved within a list
+ * Usually only the moved task changes (midpoint of its neighbours); when a neighbour
+ * was never ranked or the gap is too small, the whole list is renumbered.
+ *
+ * @param orderedTasks - Tasks in their new display order
+ * @param movedTaskId - The task that was moved
+ * @returns Rank updates to persist (empty when nothing changed)
+ */
+export function getRankUpdates(orderedTasks: Task[], movedTaskId: string): TaskRankUpdate[] {
+  const index = orderedTasks.findIndex((task) => task.id === movedTaskId);
+  if (index === -1) return [];
+
+  const before = orderedTasks[index - 1];
+  const after = orderedTasks[index + 1];
+  const neighboursRanked = (!before || hasRank(before)) && (!after || hasRank(after));
+
+  if (neighboursRanked) {
+    let rank: number | null = null;
+    if (!before && !after) {
+      rank = RANK_STEP;
+    } else if (!before) {
+      rank = (after.rank as number) - RANK_STEP;
+    } else if (!after) {
+      rank = (before.rank as number) + RANK_STEP;
+    } else if ((after.rank as number) - (before.rank as number) > MIN_RANK_GAP) {
+      rank = ((before.rank as number) + (after.rank as number)) / 2;
+    }
+
+    if (rank !== null) {
+      return orderedTasks[index].rank === rank ? [] : [{ taskId: movedTaskId, rank }];
+    }
+  }
+
+  return orderedTasks
+    .map((task, i): TaskRankUpdate => ({ taskId: task.id, rank: (i + 1) * RANK_STEP }))
+    .filter((update, i) => orderedTasks[i].rank !== update.rank);
+}
+
+/**
+ * Work out which ranks to save after a task was dropped into a filtered view (a board cell, a sprint)
+ * Ranks are one project-wide order shared by the Board and Backlog, so the task is placed in
+ * the full order - in front of the card it was dropped on, or just after the last card shown -
+ * and any renumbering covers every task, keeping the relative order of tasks not shown.
+ *
+ * @param projectOrder - Every task in the project, in rank order
+ * @param shownTasks - Tasks in the view the task was dropped into, in display order
+ * @param task - The task being moved
+ * @param beforeTaskId - Card it was dropped in front of, or null for the end of the view
+ * @returns Rank updates to persist (empty when nothing changed)
+ */
+export function getDropRankUpdates(
+  projectOrder: Task[],
+  shownTasks: Task[],
+  task: Task,
+  beforeTaskId: string | null
+): TaskRankUpdate[] {
+  // A card missing from the project order (still loading) can't be placed against
+  if (beforeTaskId && !projectOrder.some((t) => t.id === beforeTaskId)) return [];
+
+  let insertBeforeId = beforeTaskId;
+  if (!insertBeforeId) {
+    // An empty view says nothing about order, so the task keeps its place
+    const shown = shownTasks.filter((t) => t.id !== task.id);
+    if (shown.length === 0) return [];
+    const remaining = projectOrder.filter((t) => t.id !== task.id);
+    const lastIndex = remaining.findIndex((t) => t.id === shown[shown.length - 1].id);
+    if (lastIndex === -1) return [];
+    insertBeforeId = remaining[lastIndex + 1]?.id ?? null;
+  }
+  return getRankUpdates(moveTaskInList(projectOrder, task, insertBeforeId), task.id);
+}
+
+/**
+ * Find where a dragged item would land in a vertical list
+ * @param container - Element holding the items
+ * @param itemSelector - Selector for the items (each needs a data-task-id attribute)
+ * @param clientY - Pointer position
+ * @param draggedTaskId - The item being dragged (ignored when measuring)
+ * @returns ID of the task to insert in front of, or null for the end of the list
+ */
+export function getDropBeforeTaskId(
+  container: HTMLElement,
+  itemSelector: string,
+  clientY: number,
+  draggedTaskId: string
+): string | null {
+  const items = Array.from(container.querySelectorAll<HTMLElement>(itemSelector));
+  for (const item of items) {
+    const taskId = item.dataset.taskId;
+    if (!taskId || taskId === draggedTaskId) continue;
+    const rect = item.getBoundingClientRect();
+    if (clientY < rect.top + rect.height / 2) return taskId;
+  }
+  return null;
+}
@@ -0,0 +1,62 @@
+import {
+  createRecurrence,
+  validateRecurrence,
+  describeRecurrence,
+  getNextOccurrence,
+  getSprintRecurringTasks,
+} from './recurrenceUtils.ts';
+import { makeTask } from '../__fixtures__/tasks.ts';
+
+// Wednesday 2026-03-04, local time
+const wednesday = new Date(2026, 2, 4, 15, 30);
+
+describe('createRecurrence / validateRecurrence', () => {
+  it('starts weekly rules on the current weekday', () => {
+    expect(createRecurrence('weekly', wednesday)).toEqual({ frequency: 'weekly', weekdays: [3] });
+    expect(createRecurrence('sprint', wednesday)).toEqual({ frequency: 'sprint' });
+  });
+
+  it('requires at least one weekday for weekly rules', () => {
+    expect(validateRecurrence(null)).toBeNull();
+    expect(validateRecurrence({ frequency: 'daily' })).toBeNull();
+    expect(validateRecurrence({ frequency: 'weekly', weekdays: [] })).toMatch(/weekday/);
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('summarizes each frequency', () => {
+    expect(describeRecurrence({ frequency: 'daily' })).toBe('Daily');
+    expect(describeRecurrence({ frequency: 'weekly', weekdays: [4, 1, 4] })).toBe('Weekly on Mon, Thu');
+    expect(describeRecurrence({ frequency: 'sprint' })).toBe('Every sprint');
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('schedules daily instances for the next day', () => {
+    expect(getNextOccurrence({ frequency: 'daily' }, wednesday)).toBe('2026-03-05');
+  });
+
+  it('schedules weekly instances on the next chosen weekday after today', () => {
+    expect(getNextOccurrence({ frequency: 'weekly', weekdays: [1, 5] }, wednesday)).toBe('2026-03-06');
+    expect(getNextOccurrence({ frequency: 'weekly', weekdays: [1] }, wednesday)).toBe('2026-03-09');
+    // Completing on the chosen weekday itself schedules a week later
+    expect(getNextOccurrence({ frequency: 'weekly', weekdays: [3] }, wednesday)).toBe('2026-03-11');
+  });
+
+  it('leaves every-sprint instances without a due date', () => {
+    expect(getNextOccurrence({ frequency: 'sprint' }, wednesday)).toBeNull();
+  });
+});
+
+describe('getSprintRecurringTasks', () => {
+  it('picks every-sprint tasks that are not already in the new sprint', () => {
+    const tasks = [
+      makeTask({ id: 't1', sprintId: 's1', recurrence: { frequency: 'sprint' } }),
+      makeTask({ id: 't2', recurrence: { frequency: 'sprint' } }),
+      makeTask({ id: 't3', sprintId: 's2', recurrence: { frequency: 'sprint' } }),
+      makeTask({ id: 't4', sprintId: 's1', recurrence: { frequency: 'daily' } }),
+      makeTask({ id: 't5', sprintId: 's1' }),
+    ];
+    expect(getSprintRecurringTasks(tasks, 's2').map((task) => task.id)).toEqual(['t1', 't2']);
+  });
+});
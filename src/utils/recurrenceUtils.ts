@@ -0,0 +1,108 @@
+import { RecurrenceFrequency, Task, TaskRecurrence } from '../types/hooks.ts';
+import { toDateInputValue } from './taskUtils.ts';
+
+export const RECURRENCE_OPTIONS: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'sprint', label: 'Every sprint' },
+];
+
+// Sunday first, matching Date.getDay()
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Rule for a newly picked frequency
+ * Weekly starts on today's weekday so the rule is valid straight away.
+ *
+ * @param frequency - Picked frequency
+ * @param today - Current date (injectable for tests)
+ * @returns A recurrence rule
+ */
+export function createRecurrence(frequency: RecurrenceFrequency, today: Date = new Date()): TaskRecurrence {
+  return frequency === 'weekly' ? { frequency, weekdays: [today.getDay()] } : { frequency };
+}
+
+/**
+ * Weekdays of a weekly rule, sorted and without duplicates
+ * @param recurrence - Recurrence rule
+ * @returns Weekday numbers (0 = Sunday), empty for non-weekly rules
+ */
+export function getRecurrenceWeekdays(recurrence: TaskRecurrence): number[] {
+  if (recurrence.frequency !== 'weekly') return [];
+  const weekdays = recurrence.weekdays || [];
+  return weekdays
+    .filter((day, index) => Number.isInteger(day) && day >= 0 && day <= 6 && weekdays.indexOf(day) === index)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Validate a recurrence rule before saving
+ * @param recurrence - Rule to check (null means "does not repeat")
+ * @returns Error message, or null when the rule is valid
+ */
+export function validateRecurrence(recurrence: TaskRecurrence | null): string | null {
+  if (!recurrence) return null;
+  if (!RECURRENCE_OPTIONS.some((option) => option.value === recurrence.frequency)) {
+    return 'Unknown repeat frequency';
+  }
+  if (recurrence.frequency === 'weekly' && getRecurrenceWeekdays(recurrence).length === 0) {
+    return 'Pick at least one weekday to repeat on';
+  }
+  return null;
+}
+
+/**
+ * Human-readable summary of a rule, e.g. "Weekly on Mon, Thu"
+ * @param recurrence - Recurrence rule
+ * @returns Summary text
+ */
+export function describeRecurrence(recurrence: TaskRecurrence): string {
+  switch (recurrence.frequency) {
+    case 'daily':
+      return 'Daily';
+    case 'weekly': {
+      const weekdays = getRecurrenceWeekdays(recurrence);
+      if (weekdays.length === 7) return 'Daily';
+      return weekdays.length > 0 ? `Weekly on ${weekdays.map((day) => WEEKDAY_LABELS[day]).join(', ')}` : 'Weekly';
+    }
+    case 'sprint':
+      return 'Every sprint';
+  }
+}
+
+/**
+ * Due date for the next daily or weekly instance, counted from the completion date
+ * @param recurrence - Recurrence rule
+ * @param completedAt - When the current instance was completed
+ * @returns "YYYY-MM-DD", or null for every-sprint rules (their instances follow the sprint instead)
+ */
+export function getNextOccurrence(recurrence: TaskRecurrence, completedAt: Date = new Date()): string | null {
+  const next = new Date(completedAt.getFullYear(), completedAt.getMonth(), completedAt.getDate() + 1);
+
+  switch (recurrence.frequency) {
+    case 'daily':
+      return toDateInputValue(next);
+    case 'weekly': {
+      const weekdays = getRecurrenceWeekdays(recurrence);
+      if (weekdays.length === 0) return null;
+      while (!weekdays.includes(next.getDay())) {
+        next.setDate(next.getDate() + 1);
+      }
+      return toDateInputValue(next);
+    }
+    case 'sprint':
+      return null;
+  }
+}
+
+/**
+ * Tasks that should get a new instance in a sprint that just started
+ * Only the newest instance of a series carries the rule, so each series yields one task.
+ *
+ * @param tasks - All tasks in the project
+ * @param sprintId - The sprint that started
+ * @returns Every-sprint tasks that aren't already in that sprint
+ */
+export function getSprintRecurringTasks(tasks: Task[], sprintId: string): Task[] {
+  return tasks.filter((task) => task.recurrence?.frequency === 'sprint' && task.sprintId !== sprintId);
+}
@@ -0,0 +1,72 @@
+import { SavedView, SavedViewState, Sprint } from '../types/hooks.ts';
+import { isSprintActive } from './sprintUtils.ts';
+
+// Query string parameter holding the active view's ID, e.g. /board?view=abc123
+export const VIEW_QUERY_PARAM = 'view';
+
+// Stored in place of a sprint ID so the view follows the active sprint from one sprint to the next
+export const CURRENT_SPRINT = 'current';
+
+/**
+ * Sprint reference to store in a view
+ * @param sprintId - Currently selected sprint ID (null = none)
+ * @param sprints - Project sprints
+ * @returns CURRENT_SPRINT for the active sprint, otherwise the sprint ID
+ */
+export function toViewSprintId(sprintId: string | null, sprints: Sprint[]): string | null {
+  if (!sprintId) return null;
+  const sprint = sprints.find((s) => s.id === sprintId);
+  return sprint && isSprintActive(sprint) ? CURRENT_SPRINT : sprintId;
+}
+
+/**
+ * Resolve a view's stored sprint reference
+ * @param sprintId - SavedViewState.sprintId
+ * @param sprints - Project sprints
+ * @returns The sprint to select, or null when there is none (or it no longer exists)
+ */
+export function resolveViewSprintId(sprintId: string | null | undefined, sprints: Sprint[]): string | null {
+  if (!sprintId) return null;
+  if (sprintId === CURRENT_SPRINT) return sprints.find(isSprintActive)?.id || null;
+  return sprints.some((s) => s.id === sprintId) ? sprintId : null;
+}
+
+// Comparable form of a state: trimmed query, label IDs in a stable order
+const normalizeState = (state: SavedViewState): SavedViewState => ({
+  ...state,
+  searchQuery: state.searchQuery?.trim(),
+  labelFilter: state.labelFilter && {
+    labelIds: [...state.labelFilter.labelIds].sort(),
+    mode: state.labelFilter.mode,
+  },
+});
+
+/**
+ * Check whether the page still shows exactly what a view saved
+ * Only fields stored in the view are compared.
+ *
+ * @param viewState - State saved in the view
+ * @param currentState - The page's current state
+ * @returns False once the user has changed any of the view's filters
+ */
+export function isViewStateApplied(viewState: SavedViewState, currentState: SavedViewState): boolean {
+  const saved = normalizeState(viewState);
+  const current = normalizeState(currentState);
+  return (Object.keys(saved) as (keyof SavedViewState)[]).every(
+    (key) => saved[key] === undefined || JSON.stringify(saved[key]) === JSON.stringify(current[key])
+  );
+}
+
+/**
+ * Split views into the user's own and the ones other members shared
+ * @param views - Views for one page
+ * @param userId - Current user ID
+ * @returns Both groups sorted by name
+ */
+export function groupSavedViews(views: SavedView[], userId: string | null): { mine: SavedView[]; shared: SavedView[] } {
+  const sorted = [...views].sort((a, b) => a.name.localeCompare(b.name));
+  return {
+    mine: sorted.filter((view) => view.ownerId === userId),
+    shared: sorted.filter((view) => view.ownerId !== userId),
+  };
+}
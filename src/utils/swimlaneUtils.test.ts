@@ -0,0 +1,56 @@
+import { Label } from '../types/hooks.ts';
+import {
+  NO_LABEL_LANE_KEY,
+  UNASSIGNED_LANE_KEY,
+  getSwimlanes,
+  getTaskLaneKeys,
+  getSwimlaneChange,
+} from './swimlaneUtils.ts';
+import { ada, alan, makeTask } from '../__fixtures__/tasks.ts';
+
+const labels: Label[] = [
+  { id: 'l1', projectId: 'p1', name: 'bug', color: '#e5484d', createdAt: '', updatedAt: '' },
+  { id: 'l2', projectId: 'p1', name: 'ui', color: '#0090ff', createdAt: '', updatedAt: '' },
+];
+
+describe('getSwimlanes', () => {
+  it('lists members by name, then the catch-all lane', () => {
+    expect(getSwimlanes('assignee', [alan, ada], labels).map((lane) => lane.key)).toEqual(['u1', 'u2', UNASSIGNED_LANE_KEY]);
+    expect(getSwimlanes('label', [], labels).map((lane) => lane.title)).toEqual(['bug', 'ui', 'No label']);
+  });
+
+  it('has a lane per priority and none without grouping', () => {
+    expect(getSwimlanes('priority', [], []).map((lane) => lane.key)).toEqual(['4', '3', '2', '1', '0']);
+    expect(getSwimlanes('none', [ada], labels)).toEqual([]);
+  });
+});
+
+describe('getTaskLaneKeys', () => {
+  const memberLanes = getSwimlanes('assignee', [ada], labels);
+  const labelLanes = getSwimlanes('label', [], labels);
+
+  it('puts former members and deleted labels in the catch-all lane', () => {
+    expect(getTaskLaneKeys(makeTask({ assigneeId: 'u1' }), 'assignee', memberLanes)).toEqual(['u1']);
+    expect(getTaskLaneKeys(makeTask({ assigneeId: 'u9' }), 'assignee', memberLanes)).toEqual([UNASSIGNED_LANE_KEY]);
+    expect(getTaskLaneKeys(makeTask({ labelIds: ['gone'] }), 'label', labelLanes)).toEqual([NO_LABEL_LANE_KEY]);
+  });
+
+  it('shows a task in each of its label lanes and defaults to medium priority', () => {
+    expect(getTaskLaneKeys(makeTask({ labelIds: ['l2', 'l1'] }), 'label', labelLanes)).toEqual(['l2', 'l1']);
+    expect(getTaskLaneKeys(makeTask({}), 'priority', getSwimlanes('priority', [], []))).toEqual(['2']);
+  });
+});
+
+describe('getSwimlaneChange', () => {
+  it('maps the target lane to a field change', () => {
+    const task = makeTask({ labelIds: ['l1', 'l3'] });
+    expect(getSwimlaneChange(task, 'assignee', 'u1', UNASSIGNED_LANE_KEY)).toEqual({ assigneeId: '' });
+    expect(getSwimlaneChange(task, 'priority', '2', '4')).toEqual({ priority: 4 });
+    expect(getSwimlaneChange(task, 'label', 'l1', 'l2')).toEqual({ labelIds: ['l3', 'l2'] });
+    expect(getSwimlaneChange(task, 'label', 'l1', NO_LABEL_LANE_KEY)).toEqual({ labelIds: [] });
+  });
+
+  it('changes nothing when the lane stays the same', () => {
+    expect(getSwimlaneChange(makeTask({}), 'assignee', 'u1', 'u1')).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+import { BoardSwimlaneMode, Label, Task, User } from '../types/hooks.ts';
+import { TASK_PRIORITIES, getTaskPriority, getPriorityOption } from './taskUtils.ts';
+
+export const UNASSIGNED_LANE_KEY = 'unassigned';
+export const NO_LABEL_LANE_KEY = 'no-label';
+
+export interface Swimlane {
+  key: string;
+  title: string;
+}
+
+// Task fields a drop into another lane can change ('' assigneeId = unassign)
+export interface SwimlaneChange {
+  assigneeId?: string;
+  priority?: number;
+  labelIds?: string[];
+}
+
+export const SWIMLANE_OPTIONS: { value: BoardSwimlaneMode; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'assignee', label: 'Assignee' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'label', label: 'Label' },
+];
+
+/**
+ * Build the lanes for a swimlane mode
+ * Every member, priority or label gets a lane (even when empty) so cards can be dropped into it.
+ *
+ * @param mode - Swimlane grouping
+ * @param members - Project members (assignee lanes)
+ * @param labels - Project labels (label lanes)
+ * @returns Lanes in display order, catch-all lane last
+ */
+export function getSwimlanes(mode: BoardSwimlaneMode, members: User[], labels: Label[]): Swimlane[] {
+  switch (mode) {
+    case 'assignee':
+      return [
+        ...[...members]
+          .sort((a, b) => `${a.firstName} ${a.lastName}`.localeCompare(`${b.firstName} ${b.lastName}`))
+          .map((member) => ({ key: member.id, title: `${member.firstName} ${member.lastName}` })),
+        { key: UNASSIGNED_LANE_KEY, title: 'Unassigned' },
+      ];
+    case 'priority':
+      return TASK_PRIORITIES.map((option) => ({ key: String(option.value), title: option.label }));
+    case 'label':
+      return [
+        ...labels.map((label) => ({ key: label.id, title: label.name })),
+        { key: NO_LABEL_LANE_KEY, title: 'No label' },
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Work out which lanes a task appears in
+ * Tasks with several labels appear in each of their label lanes. Assignees who left the
+ * project and deleted labels fall through to the catch-all lane.
+ *
+ * @param task - The task object
+ * @param mode - Swimlane grouping
+ * @param lanes - Lanes from getSwimlanes
+ * @returns Keys of the lanes the task belongs to
+ */
+export function getTaskLaneKeys(task: Task, mode: BoardSwimlaneMode, lanes: Swimlane[]): string[] {
+  let keys: string[];
+  switch (mode) {
+    case 'assignee':
+      keys = task.assigneeId ? [task.assigneeId] : [];
+      break;
+    case 'priority':
+      keys = [String(getPriorityOption(getTaskPriority(task)).value)];
+      break;
+    case 'label':
+      keys = task.labelIds || [];
+      break;
+    default:
+      return [];
+  }
+
+  const known = keys.filter((key) => lanes.some((lane) => lane.key === key));
+  if (known.length > 0) return known;
+  return [mode === 'label' ? NO_LABEL_LANE_KEY : UNASSIGNED_LANE_KEY];
+}
+
+/**
+ * Field changes for moving a task from one lane to another
+ * @param task - The task being moved
+ * @param mode - Swimlane grouping
+ * @param fromLaneKey - Lane the card was dragged from
+ * @param toLaneKey - Lane the card was dropped in
+ * @returns Task fields to update, or null when the lane didn't change
+ */
+export function getSwimlaneChange(
+  task: Task,
+  mode: BoardSwimlaneMode,
+  fromLaneKey: string,
+  toLaneKey: string
+): SwimlaneChange | null {
+  if (fromLaneKey === toLaneKey) return null;
+
+  switch (mode) {
+    case 'assignee':
+      return { assigneeId: toLaneKey === UNASSIGNED_LANE_KEY ? '' : toLaneKey };
+    case 'priority':
+      return { priority: Number(toLaneKey) };
+    case 'label': {
+      // "No label" clears every label; otherwise swap the source label for the target one
+      if (toLaneKey === NO_LABEL_LANE_KEY) return { labelIds: [] };
+      const labelIds = (task.labelIds || []).filter((id) => id !== fromLaneKey);
+      return { labelIds: labelIds.includes(toLaneKey) ? labelIds : [...labelIds, toLaneKey] };
+    }
+    default:
+      return null;
+  }
+}
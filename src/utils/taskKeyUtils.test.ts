@@ -0,0 +1,57 @@
+import {
+  normalizeProjectKey,
+  suggestProjectKey,
+  validateProjectKey,
+  parseTaskKey,
+  getTaskLinkPath,
+} from './taskKeyUtils.ts';
+
+describe('suggestProjectKey', () => {
+  it('uses initials for multi-word names', () => {
+    expect(suggestProjectKey('DevHive')).toBe('DEV');
+    expect(suggestProjectKey('DevHive Web')).toBe('DW');
+    expect(suggestProjectKey('the quick brown fox jumps')).toBe('TQBF');
+  });
+
+  it('skips leading digits and punctuation', () => {
+    expect(suggestProjectKey('2026 roadmap (Q1)')).toBe('RQ');
+    expect(suggestProjectKey('!!!')).toBe('');
+    expect(suggestProjectKey('a')).toBe('');
+  });
+});
+
+describe('normalizeProjectKey / validateProjectKey', () => {
+  it('uppercases and strips invalid characters', () => {
+    expect(normalizeProjectKey('dh-web 2')).toBe('DHWEB2');
+    expect(normalizeProjectKey('abcdefghijklmnop')).toBe('ABCDEFGHIJ');
+  });
+
+  it('rejects keys that are too short or start with a digit', () => {
+    expect(validateProjectKey('DH')).toBeNull();
+    expect(validateProjectKey('')).toBe('Project key is required');
+    expect(validateProjectKey('D')).toMatch(/2-10 characters/);
+    expect(validateProjectKey('2D')).toMatch(/start with a letter/);
+  });
+});
+
+describe('parseTaskKey', () => {
+  it('parses keys regardless of case and whitespace', () => {
+    expect(parseTaskKey('DH-142')).toEqual({ projectKey: 'DH', number: 142 });
+    expect(parseTaskKey('  dh-7 ')).toEqual({ projectKey: 'DH', number: 7 });
+  });
+
+  it('rejects anything that is not a task key', () => {
+    expect(parseTaskKey('DH142')).toBeNull();
+    expect(parseTaskKey('DH-0')).toBeNull();
+    expect(parseTaskKey('4D-12')).toBeNull();
+    expect(parseTaskKey('ABCDEFGHIJK-1')).toBeNull();
+  });
+});
+
+describe('getTaskLinkPath', () => {
+  it('builds the deep link from a task key', () => {
+    expect(getTaskLinkPath('dh-142')).toBe('/p/DH/task/DH-142');
+    expect(getTaskLinkPath(undefined)).toBeNull();
+    expect(getTaskLinkPath('not a key')).toBeNull();
+  });
+});
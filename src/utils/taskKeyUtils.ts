@@ -0,0 +1,80 @@
+export const PROJECT_KEY_MIN_LENGTH = 2;
+export const PROJECT_KEY_MAX_LENGTH = 10;
+
+// Uppercase letters and digits, starting with a letter ("DH", "WEB2")
+const PROJECT_KEY_PATTERN = /^[A-Z][A-Z0-9]+$/;
+
+// "DH-142"; matched case-insensitively so keys typed as "dh-142" still resolve
+const TASK_KEY_PATTERN = /^([A-Z][A-Z0-9]+)-(\d+)$/i;
+
+export interface ParsedTaskKey {
+  projectKey: string;
+  number: number;
+}
+
+/**
+ * Clean up a project key as it is typed: uppercase, letters and digits only, capped in length
+ * @param value - Raw input
+ * @returns The normalized key (may still be invalid, e.g. too short)
+ */
+export function normalizeProjectKey(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, PROJECT_KEY_MAX_LENGTH);
+}
+
+/**
+ * Suggest a project key from the project name
+ * Multi-word names use their initials ("DevHive Web" -> "DW"); single words their first letters ("Apollo" -> "APO").
+ *
+ * @param name - Project name
+ * @returns Suggested key, or '' when the name has no usable letters
+ */
+export function suggestProjectKey(name: string): string {
+  const words = name.toUpperCase().match(/[A-Z][A-Z0-9]*/g) || [];
+  if (words.length === 0) return '';
+
+  const initials = words.slice(0, 4).map((word) => word[0]).join('');
+  const key = initials.length >= PROJECT_KEY_MIN_LENGTH ? initials : words[0].slice(0, 3);
+  return key.length >= PROJECT_KEY_MIN_LENGTH ? key : '';
+}
+
+/**
+ * Validate a project key
+ * @param key - Normalized key
+ * @returns Error message, or null when the key is valid
+ */
+export function validateProjectKey(key: string): string | null {
+  if (!key) return 'Project key is required';
+  if (key.length < PROJECT_KEY_MIN_LENGTH || key.length > PROJECT_KEY_MAX_LENGTH) {
+    return `Project key must be ${PROJECT_KEY_MIN_LENGTH}-${PROJECT_KEY_MAX_LENGTH} characters`;
+  }
+  if (!PROJECT_KEY_PATTERN.test(key)) {
+    return 'Project key must start with a letter and contain only letters and digits';
+  }
+  return null;
+}
+
+/**
+ * Parse a task key such as "DH-142"
+ * @param value - Key as pasted or typed (surrounding whitespace and case are ignored)
+ * @returns Project key and task number, or null when the value is not a task key
+ */
+export function parseTaskKey(value: string): ParsedTaskKey | null {
+  const match = value.trim().match(TASK_KEY_PATTERN);
+  if (!match) return null;
+
+  const projectKey = match[1].toUpperCase();
+  const number = Number(match[2]);
+  if (projectKey.length > PROJECT_KEY_MAX_LENGTH || number < 1) return null;
+  return { projectKey, number };
+}
+
+/**
+ * Deep link that opens a task in the inspector over the Board
+ * @param taskKey - Task key, e.g. "DH-142"
+ * @returns "/p/DH/task/DH-142", or null when the key can't be parsed
+ */
+export function getTaskLinkPath(taskKey: string | null | undefined): string | null {
+  const parsed = taskKey ? parseTaskKey(taskKey) : null;
+  if (!parsed) return null;
+  return `/p/${parsed.projectKey}/task/${parsed.projectKey}-${parsed.number}`;
+}
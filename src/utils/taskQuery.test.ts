@@ -0,0 +1,138 @@
+import { Label, Sprint, Task, TaskQueryContext, User } from '../types/hooks.ts';
+import { DEFAULT_WORKFLOW } from './workflowUtils.ts';
+import {
+  parseTaskQuery,
+  matchesTaskQuery,
+  filterTasksByQuery,
+  getTaskQuerySuggestions,
+  applyTaskQuerySuggestion,
+} from './taskQuery.ts';
+import { ada, grace, makeTask } from '../__fixtures__/tasks.ts';
+
+const members: User[] = [ada, grace];
+
+const labels: Label[] = [
+  { id: 'l1', projectId: 'p1', name: 'bug', color: '#e5484d', createdAt: '', updatedAt: '' },
+  { id: 'l2', projectId: 'p1', name: 'wontfix', color: '#8d8d8d', createdAt: '', updatedAt: '' },
+  { id: 'l3', projectId: 'p1', name: 'needs review', color: '#0090ff', createdAt: '', updatedAt: '' },
+];
+
+const makeSprint = (id: string, name: string, isStarted: boolean, isCompleted: boolean): Sprint => ({
+  id,
+  projectId: 'p1',
+  name,
+  description: '',
+  startDate: '2026-01-01',
+  endDate: '2026-01-14',
+  isStarted,
+  isCompleted,
+  createdAt: '',
+  updatedAt: '',
+  owner: ada,
+});
+
+const sprints: Sprint[] = [makeSprint('s1', 'Sprint 1', true, true), makeSprint('s2', 'Sprint 2', true, false)];
+
+const tasks: Task[] = [
+  makeTask({ id: 't1', title: 'Fix login page crash', status: 1, assigneeId: 'u1', labelIds: ['l1'], sprintId: 's2', priority: 4 }),
+  makeTask({ id: 't2', title: 'Login page copy', status: 0, assigneeId: 'u3', labelIds: ['l1', 'l2'], sprintId: 's2' }),
+  makeTask({ id: 't3', title: 'Write docs', description: 'Mention the login page', status: 2, sprintId: 's1', labelIds: ['l3'] }),
+  makeTask({ id: 't4', key: 'DH-42', title: 'Refactor settings', status: 1, assigneeId: 'u3' }),
+];
+
+const context: TaskQueryContext = { currentUserId: 'u1', members, workflow: DEFAULT_WORKFLOW, labels, sprints };
+
+const search = (input: string): string[] => filterTasksByQuery(tasks, input, context).map((task) => task.id);
+
+describe('parseTaskQuery', () => {
+  it('parses fields, negation, quoted phrases and OR groups', () => {
+    expect(parseTaskQuery('assignee:me -label:wontfix "login page" OR status:done')).toEqual([
+      [
+        { field: 'assignee', value: 'me', negated: false },
+        { field: 'label', value: 'wontfix', negated: true },
+        { field: null, value: 'login page', negated: false },
+      ],
+      [{ field: 'status', value: 'done', negated: false }],
+    ]);
+  });
+
+  it('treats unknown fields as free text and skips empty values', () => {
+    expect(parseTaskQuery('foo:bar label:')).toEqual([[{ field: null, value: 'foo:bar', negated: false }]]);
+  });
+
+  it('keeps quoted field values together', () => {
+    expect(parseTaskQuery('label:"needs review"')).toEqual([[{ field: 'label', value: 'needs review', negated: false }]]);
+  });
+
+  it('returns no groups for a blank query', () => {
+    expect(parseTaskQuery('   ')).toEqual([]);
+    expect(matchesTaskQuery(tasks[0], [], context)).toBe(true);
+  });
+});
+
+describe('filterTasksByQuery', () => {
+  it('matches free text against title and description', () => {
+    expect(search('"login page"')).toEqual(['t1', 't2', 't3']);
+    expect(search('settings')).toEqual(['t4']);
+  });
+
+  it('matches pasted task keys exactly', () => {
+    expect(search('dh-42')).toEqual(['t4']);
+    expect(search('DH-4')).toEqual([]);
+  });
+
+  it('resolves assignee values', () => {
+    expect(search('assignee:me')).toEqual(['t1']);
+    expect(search('assignee:grace')).toEqual(['t2', 't4']);
+    expect(search('assignee:unassigned')).toEqual(['t3']);
+  });
+
+  it('matches status names without spaces and categories', () => {
+    expect(search('status:inprogress')).toEqual(['t1', 't4']);
+    expect(search('status:todo')).toEqual(['t2']);
+  });
+
+  it('resolves label, sprint, priority and due values', () => {
+    expect(search('label:bug')).toEqual(['t1', 't2']);
+    expect(search('label:"needs review"')).toEqual(['t3']);
+    expect(search('label:none')).toEqual(['t4']);
+    expect(search('sprint:current')).toEqual(['t1', 't2']);
+    expect(search('sprint:none')).toEqual(['t4']);
+    expect(search('priority:urgent')).toEqual(['t1']);
+    expect(search('due:none')).toEqual(['t1', 't2', 't3', 't4']);
+  });
+
+  it('combines terms with AND, negation and OR', () => {
+    expect(search('label:bug -label:wontfix')).toEqual(['t1']);
+    expect(search('assignee:me status:inprogress label:bug sprint:current "login page"')).toEqual(['t1']);
+    expect(search('assignee:me OR assignee:unassigned')).toEqual(['t1', 't3']);
+  });
+});
+
+describe('getTaskQuerySuggestions', () => {
+  it('suggests field names for a partial token', () => {
+    const suggestions = getTaskQuerySuggestions('login as', 8, context);
+    expect(suggestions.map((s) => s.value)).toEqual(['assignee:']);
+  });
+
+  it('suggests member usernames after assignee:', () => {
+    const suggestions = getTaskQuerySuggestions('-assignee:gr', 12, context);
+    expect(suggestions.map((s) => s.value)).toEqual(['-assignee:grace']);
+  });
+
+  it('quotes values that contain spaces', () => {
+    const suggestions = getTaskQuerySuggestions('label:ne', 8, context);
+    expect(suggestions.map((s) => s.value)).toEqual(['label:"needs review"']);
+  });
+
+  it('replaces the token under the cursor', () => {
+    expect(applyTaskQuerySuggestion('bug assig', 9, { value: 'assignee:', label: 'assignee:' })).toEqual({
+      value: 'bug assignee:',
+      cursor: 13,
+    });
+    expect(applyTaskQuerySuggestion('assignee:gr bug', 11, { value: 'assignee:grace', label: 'grace' })).toEqual({
+      value: 'assignee:grace bug',
+      cursor: 15,
+    });
+  });
+});
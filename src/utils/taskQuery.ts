@@ -0,0 +1,288 @@
+import { Task, TaskQueryContext } from '../types/hooks.ts';
+import { getDueDateStatus, getTaskPriority, getTaskTitle, TASK_PRIORITIES, DUE_SOON_WINDOW_HOURS } from './taskUtils.ts';
+import { getTaskLabels } from './labelUtils.ts';
+import { getWorkflowStatus } from './workflowUtils.ts';
+import { isSprintActive } from './sprintUtils.ts';
+
+export type TaskQueryField = 'assignee' | 'status' | 'label' | 'sprint' | 'priority' | 'due';
+
+export const TASK_QUERY_FIELDS: { field: TaskQueryField; description: string }[] = [
+  { field: 'assignee', description: 'me, unassigned or a username' },
+  { field: 'status', description: 'Workflow status, e.g. inprogress' },
+  { field: 'label', description: 'Label name, or none' },
+  { field: 'sprint', description: 'current, none or a sprint name' },
+  { field: 'priority', description: 'urgent, high, medium, low or lowest' },
+  { field: 'due', description: 'overdue, soon or none' },
+];
+
+// One condition; field is null for free text matched against title and description (or an exact task key)
+export interface TaskQueryTerm {
+  field: TaskQueryField | null;
+  value: string;
+  negated: boolean;
+}
+
+// Terms inside a group are ANDed; a task matches the query when any group matches (OR)
+export type TaskQuery = TaskQueryTerm[][];
+
+export interface TaskQuerySuggestion {
+  value: string;
+  label: string;
+  description?: string;
+}
+
+interface QueryToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const OR_KEYWORD = 'OR';
+
+// Lowercase with spaces and punctuation removed, so "In Progress" matches "inprogress"
+const normalize = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const isQueryField = (value: string): value is TaskQueryField =>
+  TASK_QUERY_FIELDS.some((option) => option.field === value);
+
+// Split on whitespace, keeping double-quoted phrases (including field:"two words") together
+function tokenize(input: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    let inQuotes = false;
+    while (i < input.length && (inQuotes || !/\s/.test(input[i]))) {
+      if (input[i] === '"') inQuotes = !inQuotes;
+      i++;
+    }
+    tokens.push({ text: input.slice(start, i), start, end: i });
+  }
+  return tokens;
+}
+
+const unquote = (value: string): string => value.replace(/"/g, '').trim();
+
+function parseTerm(text: string): TaskQueryTerm | null {
+  let negated = false;
+  let body = text;
+  if (body.length > 1 && body.startsWith('-')) {
+    negated = true;
+    body = body.slice(1);
+  }
+
+  const colonIndex = body.indexOf(':');
+  if (colonIndex > 0 && !body.slice(0, colonIndex).includes('"')) {
+    const field = body.slice(0, colonIndex).toLowerCase();
+    const value = unquote(body.slice(colonIndex + 1));
+    if (isQueryField(field)) {
+      // An empty value ("label:" while still typing) doesn't filter anything yet
+      return value ? { field, value, negated } : null;
+    }
+  }
+
+  const value = unquote(body);
+  return value ? { field: null, value, negated } : null;
+}
+
+/**
+ * Parse a search query such as `assignee:me status:inprogress -label:wontfix "login page"`
+ * Terms are ANDed; the keyword `OR` (upper case) separates alternative groups.
+ * Unknown `field:value` pairs are treated as free text.
+ *
+ * @param input - Raw query text
+ * @returns Groups of terms; empty when the query has no terms
+ */
+export function parseTaskQuery(input: string): TaskQuery {
+  const groups: TaskQuery = [[]];
+  tokenize(input).forEach((token) => {
+    if (token.text === OR_KEYWORD) {
+      groups.push([]);
+      return;
+    }
+    const term = parseTerm(token.text);
+    if (term) groups[groups.length - 1].push(term);
+  });
+  return groups.filter((group) => group.length > 0);
+}
+
+function matchesTerm(task: Task, term: TaskQueryTerm, context: TaskQueryContext): boolean {
+  const value = normalize(term.value);
+
+  switch (term.field) {
+    case null: {
+      const search = term.value.toLowerCase();
+      return (
+        (task.key || '').toLowerCase() === search ||
+        getTaskTitle(task).toLowerCase().includes(search) ||
+        (task.description || '').toLowerCase().includes(search)
+      );
+    }
+    case 'assignee': {
+      if (value === 'me') return !!context.currentUserId && task.assigneeId === context.currentUserId;
+      if (value === 'unassigned' || value === 'none') return !task.assigneeId;
+      const member = context.members.find((m) => m.id === task.assigneeId);
+      return !!member && (
+        normalize(member.username) === value ||
+        normalize(`${member.firstName}${member.lastName}`).startsWith(value)
+      );
+    }
+    case 'status': {
+      const status = getWorkflowStatus(context.workflow, task.status);
+      return !!status && (normalize(status.name).startsWith(value) || status.category === value);
+    }
+    case 'label': {
+      const taskLabels = getTaskLabels(task, context.labels);
+      if (value === 'none') return taskLabels.length === 0;
+      return taskLabels.some((label) => normalize(label.name) === value);
+    }
+    case 'sprint': {
+      if (value === 'none' || value === 'backlog') return !task.sprintId;
+      if (value === 'current') {
+        return context.sprints.some((sprint) => sprint.id === task.sprintId && isSprintActive(sprint));
+      }
+      const sprint = context.sprints.find((s) => s.id === task.sprintId);
+      return !!sprint && normalize(sprint.name).startsWith(value);
+    }
+    case 'priority': {
+      const option = TASK_PRIORITIES.find((p) => p.value === getTaskPriority(task));
+      return !!option && (option.key === value || String(option.value) === value);
+    }
+    case 'due': {
+      if (value === 'none') return !task.dueDate;
+      const dueStatus = getDueDateStatus(task, context.workflow);
+      if (value === 'overdue') return dueStatus === 'overdue';
+      if (value === 'soon') return dueStatus === 'due-soon' || dueStatus === 'overdue';
+      return false;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check whether a task matches a parsed query
+ * @param task - The task object
+ * @param query - Output of parseTaskQuery
+ * @param context - Current user and project data to resolve values against
+ * @returns True when any group matches (an empty query matches everything)
+ */
+export function matchesTaskQuery(task: Task, query: TaskQuery, context: TaskQueryContext): boolean {
+  if (query.length === 0) return true;
+  return query.some((group) =>
+    group.every((term) => matchesTerm(task, term, context) !== term.negated)
+  );
+}
+
+/**
+ * Filter tasks with a query string
+ * @param tasks - Tasks to search
+ * @param input - Raw query text
+ * @param context - Current user and project data to resolve values against
+ * @returns Matching tasks in their original order
+ */
+export function filterTasksByQuery(tasks: Task[], input: string, context: TaskQueryContext): Task[] {
+  const query = parseTaskQuery(input);
+  if (query.length === 0) return tasks;
+  return tasks.filter((task) => matchesTaskQuery(task, query, context));
+}
+
+// Quote values with spaces so they stay a single term
+const formatValue = (value: string): string => (/\s/.test(value) ? `"${value}"` : value);
+
+function getValueOptions(field: TaskQueryField, context: TaskQueryContext): TaskQuerySuggestion[] {
+  const option = (value: string, description?: string): TaskQuerySuggestion => ({ value, label: value, description });
+
+  switch (field) {
+    case 'assignee':
+      return [
+        option('me', 'Assigned to you'),
+        option('unassigned', 'No assignee'),
+        ...context.members.map((member) => option(member.username, `${member.firstName} ${member.lastName}`)),
+      ];
+    case 'status':
+      return context.workflow.map((status) => option(normalize(status.name), status.name));
+    case 'label':
+      return [option('none', 'No labels'), ...context.labels.map((label) => option(formatValue(label.name)))];
+    case 'sprint':
+      return [
+        option('current', 'The active sprint'),
+        option('none', 'Product backlog'),
+        ...context.sprints.map((sprint) => option(formatValue(sprint.name))),
+      ];
+    case 'priority':
+      return TASK_PRIORITIES.map((priority) => option(priority.key, priority.label));
+    case 'due':
+      return [option('overdue'), option('soon', `Due within ${DUE_SOON_WINDOW_HOURS} hours, or overdue`), option('none', 'No due date')];
+  }
+}
+
+/**
+ * Find the query token under the cursor
+ * @param input - Raw query text
+ * @param cursor - Caret position
+ * @returns Start and end of the token (equal when the cursor is between tokens)
+ */
+export function getQueryTokenAt(input: string, cursor: number): { start: number; end: number } {
+  const token = tokenize(input).find((t) => cursor >= t.start && cursor <= t.end);
+  return token ? { start: token.start, end: token.end } : { start: cursor, end: cursor };
+}
+
+/**
+ * Autocomplete options for the token under the cursor
+ * Field names are offered until a colon is typed, then values for that field.
+ *
+ * @param input - Raw query text
+ * @param cursor - Caret position
+ * @param context - Project data for value suggestions
+ * @returns Suggestions whose `value` replaces the whole token
+ */
+export function getTaskQuerySuggestions(input: string, cursor: number, context: TaskQueryContext): TaskQuerySuggestion[] {
+  const { start, end } = getQueryTokenAt(input, cursor);
+  const token = input.slice(start, end);
+  if (!token || token.startsWith('"')) return [];
+
+  const prefix = token.startsWith('-') ? '-' : '';
+  const body = token.slice(prefix.length);
+  const colonIndex = body.indexOf(':');
+
+  if (colonIndex === -1) {
+    const search = body.toLowerCase();
+    return TASK_QUERY_FIELDS
+      .filter((option) => option.field.startsWith(search) && option.field !== search)
+      .map((option) => ({ value: `${prefix}${option.field}:`, label: `${option.field}:`, description: option.description }));
+  }
+
+  const field = body.slice(0, colonIndex).toLowerCase();
+  if (!isQueryField(field)) return [];
+  const search = normalize(body.slice(colonIndex + 1));
+  return getValueOptions(field, context)
+    .filter((option) => {
+      const value = normalize(option.value);
+      return value.startsWith(search) && value !== search;
+    })
+    .map((option) => ({ ...option, value: `${prefix}${field}:${option.value}` }));
+}
+
+/**
+ * Replace the token under the cursor with a suggestion
+ * @param input - Raw query text
+ * @param cursor - Caret position
+ * @param suggestion - Chosen suggestion
+ * @returns New query text and caret position
+ */
+export function applyTaskQuerySuggestion(
+  input: string,
+  cursor: number,
+  suggestion: TaskQuerySuggestion
+): { value: string; cursor: number } {
+  const { start, end } = getQueryTokenAt(input, cursor);
+  // Completed values get a trailing space; field names keep the caret after the colon
+  const insert = suggestion.value.endsWith(':') ? suggestion.value : `${suggestion.value} `;
+  const rest = input.slice(end).replace(/^\s+/, '');
+  return { value: `${input.slice(0, start)}${insert}${rest}`, cursor: start + insert.length };
+}
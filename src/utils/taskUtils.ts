@@ -0,0 +1,285 @@
+import { Task, TaskSortMode, Sprint, WorkflowStatus } from '../types/hooks.ts';
+import { DEFAULT_WORKFLOW, getWorkflowStatus, isDoneStatus } from './workflowUtils.ts';
+import { hasRank } from './rankUtils.ts';
+
+export const TASK_TITLE_MAX_LENGTH = 255;
+export const TASK_DESCRIPTION_MAX_LENGTH = 10000;
+
+/**
+ * Get the display title of a task
+ * Tasks created before titles existed only have a description, so fall back
+ * to its first non-empty line (with Markdown heading markers stripped).
+ *
+ * @param task - The task object
+ * @returns Title to show on cards and list rows
+ */
+export function getTaskTitle(task: Task): string {
+  if (task.title && task.title.trim() !== '') {
+    return task.title;
+  }
+
+  const firstLine = (task.description || '')
+    .split('\n')
+    .map((line) => line.replace(/^#+\s*/, '').trim())
+    .find((line) => line !== '');
+
+  return firstLine || 'Untitled task';
+}
+
+export const TASK_ESTIMATE_MAX = 100;
+
+export interface SprintPoints {
+  committed: number;
+  inProgress: number;
+  done: number;
+}
+
+/**
+ * Check whether a story point estimate is acceptable
+ * @param estimate - Estimate entered by the user
+ * @returns True for non-negative numbers up to TASK_ESTIMATE_MAX
+ */
+export function isValidEstimate(estimate: number): boolean {
+  return Number.isFinite(estimate) && estimate >= 0 && estimate <= TASK_ESTIMATE_MAX;
+}
+
+/**
+ * Sum story points for a set of tasks
+ * Committed covers every task in the set; unestimated tasks count as zero.
+ *
+ * @param tasks - Tasks belonging to one sprint
+ * @param workflow - The project's workflow (status categories decide in-progress vs done)
+ * @returns Committed, in-progress and done point totals
+ */
+export function getSprintPoints(tasks: Task[], workflow: WorkflowStatus[] = DEFAULT_WORKFLOW): SprintPoints {
+  return tasks.reduce<SprintPoints>(
+    (totals, task) => {
+      const points = task.estimate ?? 0;
+      const category = getWorkflowStatus(workflow, task.status)?.category;
+      totals.committed += points;
+      if (category === 'doing') totals.inProgress += points;
+      if (category === 'done') totals.done += points;
+      return totals;
+    },
+    { committed: 0, inProgress: 0, done: 0 }
+  );
+}
+
+/**
+ * Format a story point value for display
+ * @param points - Number of points
+ * @returns Label such as "1 pt" or "5 pts"
+ */
+export function formatPoints(points: number): string {
+  const rounded = Math.round(points * 10) / 10;
+  return `${rounded} ${rounded === 1 ? 'pt' : 'pts'}`;
+}
+
+export const DEFAULT_TASK_PRIORITY = 2;
+
+export interface TaskPriorityOption {
+  value: number;
+  label: string;
+  key: string;
+}
+
+// Ordered from most to least important
+export const TASK_PRIORITIES: TaskPriorityOption[] = [
+  { value: 4, label: 'Urgent', key: 'urgent' },
+  { value: 3, label: 'High', key: 'high' },
+  { value: 2, label: 'Medium', key: 'medium' },
+  { value: 1, label: 'Low', key: 'low' },
+  { value: 0, label: 'Lowest', key: 'lowest' },
+];
+
+/**
+ * Get the effective priority of a task
+ * Tasks created before priorities existed are treated as medium.
+ *
+ * @param task - The task object
+ * @returns Numeric priority (0 = lowest, 4 = urgent)
+ */
+export function getTaskPriority(task: Task): number {
+  return task.priority ?? DEFAULT_TASK_PRIORITY;
+}
+
+/**
+ * Look up the display option for a priority value
+ * @param priority - Numeric priority
+ * @returns Matching priority option (falls back to medium)
+ */
+export function getPriorityOption(priority: number): TaskPriorityOption {
+  return TASK_PRIORITIES.find((option) => option.value === priority)
+    || TASK_PRIORITIES.find((option) => option.value === DEFAULT_TASK_PRIORITY)!;
+}
+
+export const TASK_SORT_OPTIONS: { value: TaskSortMode; label: string }[] = [
+  { value: 'rank', label: 'Manual order' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'updated', label: 'Recently updated' },
+  { value: 'created', label: 'Oldest first' },
+];
+
+export const DEFAULT_TASK_SORT_MODE: TaskSortMode = 'rank';
+
+const toTime = (dateString?: string): number => (dateString ? new Date(dateString).getTime() || 0 : 0);
+
+// Ranked tasks first (lowest rank first), never-ranked tasks after them in creation order
+const compareRank = (a: Task, b: Task): number => {
+  const aRanked = hasRank(a);
+  const bRanked = hasRank(b);
+  if (aRanked && bRanked) return (a.rank as number) - (b.rank as number) || toTime(a.createdAt) - toTime(b.createdAt);
+  if (aRanked !== bRanked) return aRanked ? -1 : 1;
+  return toTime(a.createdAt) - toTime(b.createdAt);
+};
+
+/**
+ * Sort tasks for display
+ * - rank: manual order shared by the Board and Backlog
+ * - priority: highest priority first, then most recently updated
+ * - updated: most recently updated first
+ * - created: oldest first (creation order)
+ *
+ * @param tasks - Tasks to sort (not mutated)
+ * @param mode - Sort mode
+ * @returns New sorted array
+ */
+export function sortTasks(tasks: Task[], mode: TaskSortMode): Task[] {
+  const sorted = [...tasks];
+  switch (mode) {
+    case 'rank':
+      return sorted.sort(compareRank);
+    case 'priority':
+      return sorted.sort((a, b) =>
+        getTaskPriority(b) - getTaskPriority(a) || toTime(b.updatedAt) - toTime(a.updatedAt)
+      );
+    case 'updated':
+      return sorted.sort((a, b) => toTime(b.updatedAt) - toTime(a.updatedAt));
+    case 'created':
+      return sorted.sort((a, b) => toTime(a.createdAt) - toTime(b.createdAt));
+    default:
+      return sorted;
+  }
+}
+
+// Tasks due within this many hours are highlighted as "due soon"
+export const DUE_SOON_WINDOW_HOURS = 48;
+
+export type DueDateStatus = 'overdue' | 'due-soon' | null;
+
+/**
+ * Format a Date as a local "YYYY-MM-DD" string (the value format of <input type="date">)
+ * @param date - The date to format
+ * @returns Local calendar date string
+ */
+export function toDateInputValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Get the moment a due date expires (end of that local day)
+ * @param dueDate - "YYYY-MM-DD" (full ISO timestamps are truncated to the date)
+ * @returns Date at 23:59:59.999 local time
+ */
+export function getDueDateDeadline(dueDate: string): Date {
+  const [year, month, day] = dueDate.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day, 23, 59, 59, 999);
+}
+
+/**
+ * Classify a task's due date for highlighting
+ * Completed tasks and tasks without a due date are never flagged.
+ *
+ * @param task - The task object
+ * @param workflow - The project's workflow (tasks in a "done" status are never flagged)
+ * @param now - Reference time (defaults to the current time)
+ * @returns 'overdue', 'due-soon' (within DUE_SOON_WINDOW_HOURS) or null
+ */
+export function getDueDateStatus(task: Task, workflow: WorkflowStatus[] = DEFAULT_WORKFLOW, now: Date = new Date()): DueDateStatus {
+  if (!task.dueDate || isDoneStatus(workflow, task.status)) return null;
+
+  const remainingMs = getDueDateDeadline(task.dueDate).getTime() - now.getTime();
+  if (remainingMs < 0) return 'overdue';
+  if (remainingMs <= DUE_SOON_WINDOW_HOURS * 60 * 60 * 1000) return 'due-soon';
+  return null;
+}
+
+/**
+ * Check whether a due date falls outside a sprint's start/end window
+ * @param dueDate - "YYYY-MM-DD"
+ * @param sprint - The sprint the task belongs to
+ * @returns true if the date is before the sprint starts or after it ends
+ */
+export function isDueDateOutsideSprint(dueDate: string, sprint: Sprint): boolean {
+  const date = dueDate.slice(0, 10);
+  return (
+    date < toDateInputValue(new Date(sprint.startDate)) ||
+    date > toDateInputValue(new Date(sprint.endDate))
+  );
+}
+
+/**
+ * Format a due date for display, e.g. "Mar 4"
+ * @param dueDate - "YYYY-MM-DD"
+ * @returns Short localized date
+ */
+export function formatDueDate(dueDate: string): string {
+  return getDueDateDeadline(dueDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+export const SUBTASK_TEXT_MAX_LENGTH = 255;
+
+export interface SubtaskProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * Count completed checklist items
+ * @param task - The task object
+ * @returns Done and total subtask counts
+ */
+export function getSubtaskProgress(task: Task): SubtaskProgress {
+  const subtasks = task.subtasks || [];
+  return {
+    done: subtasks.filter((subtask) => subtask.done).length,
+    total: subtasks.length,
+  };
+}
+
+/**
+ * Extract Markdown task-list items ("- [ ] text" / "- [x] text") from a description
+ * Used to offer converting hand-written checklists into real subtasks.
+ *
+ * @param description - Markdown description
+ * @returns Checklist items in document order
+ */
+export function parseDescriptionChecklist(description: string): { text: string; done: boolean }[] {
+  const items: { text: string; done: boolean }[] = [];
+  const pattern = /^\s*(?:[-*+]|\d+\.)?\s*\[( |x|X)\]\s+(.+)$/;
+
+  description.split('\n').forEach((line) => {
+    const match = line.match(pattern);
+    if (match && match[2].trim()) {
+      items.push({ text: match[2].trim().slice(0, SUBTASK_TEXT_MAX_LENGTH), done: match[1] !== ' ' });
+    }
+  });
+  return items;
+}
+
+/**
+ * Blockers of a task that are not done yet
+ * Blockers missing from the given list (e.g. beyond the loaded page) are ignored.
+ *
+ * @param task - The task object
+ * @param projectTasks - All known tasks in the task's project
+ * @param workflow - The project's workflow
+ * @returns Unfinished blocking tasks
+ */
+export function getUnresolvedBlockers(task: Task, projectTasks: Task[], workflow: WorkflowStatus[] = DEFAULT_WORKFLOW): Task[] {
+  const blockedByIds = task.blockedByIds || [];
+  if (blockedByIds.length === 0) return [];
+  return projectTasks.filter((t) => blockedByIds.includes(t.id) && !isDoneStatus(workflow, t.status));
+}
@@ -0,0 +1,77 @@
+import { Label, TaskTemplate } from '../types/hooks.ts';
+import { isValidText } from './validation.ts';
+import {
+  DEFAULT_TASK_PRIORITY,
+  TASK_DESCRIPTION_MAX_LENGTH,
+  TASK_ESTIMATE_MAX,
+  TASK_TITLE_MAX_LENGTH,
+  isValidEstimate,
+} from './taskUtils.ts';
+
+export const TEMPLATE_NAME_MAX_LENGTH = 40;
+export const TEMPLATE_MAX_COUNT = 20;
+export const TEMPLATE_CHECKLIST_MAX_ITEMS = 20;
+
+/**
+ * Extract the task templates from a project settings response
+ * @param settings - Settings response (or undefined while loading)
+ * @returns The project's templates in their saved order (empty when none are defined)
+ */
+export function getTemplatesFromSettings(settings: any): TaskTemplate[] {
+  const templates = settings?.settings?.templates ?? settings?.templates;
+  return Array.isArray(templates) ? templates : [];
+}
+
+/**
+ * Blank template for the settings editor
+ * @returns A template with a fresh client-side ID
+ */
+export function createEmptyTemplate(): TaskTemplate {
+  return {
+    id: `tpl-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: '',
+    title: '',
+    description: '',
+    labelIds: [],
+    priority: DEFAULT_TASK_PRIORITY,
+    estimate: null,
+    checklist: [],
+  };
+}
+
+/**
+ * Validate a template before saving it
+ * @param template - Template being saved (already trimmed)
+ * @param templates - The project's other templates
+ * @returns An error message, or null when the template is valid
+ */
+export function validateTemplate(template: TaskTemplate, templates: TaskTemplate[]): string | null {
+  if (!template.name) return 'Template name is required.';
+  if (!isValidText(template.name)) return 'Template name contains invalid characters.';
+  if (templates.some((t) => t.id !== template.id && t.name.toLowerCase() === template.name.toLowerCase())) {
+    return `A template named "${template.name}" already exists.`;
+  }
+  if (template.title.length > TASK_TITLE_MAX_LENGTH || !isValidText(template.title)) {
+    return 'Title prefix contains invalid characters or is too long.';
+  }
+  if (template.description.length > TASK_DESCRIPTION_MAX_LENGTH) {
+    return `Description cannot exceed ${TASK_DESCRIPTION_MAX_LENGTH} characters.`;
+  }
+  if (template.estimate !== undefined && template.estimate !== null && !isValidEstimate(template.estimate)) {
+    return `Estimate must be between 0 and ${TASK_ESTIMATE_MAX} points.`;
+  }
+  if (template.checklist.length > TEMPLATE_CHECKLIST_MAX_ITEMS) {
+    return `A template can have at most ${TEMPLATE_CHECKLIST_MAX_ITEMS} checklist items.`;
+  }
+  return null;
+}
+
+/**
+ * Template label IDs that still exist (labels deleted since the template was saved are skipped)
+ * @param template - The task template
+ * @param labels - Current project labels
+ * @returns Label IDs to preselect
+ */
+export function getTemplateLabelIds(template: TaskTemplate, labels: Label[]): string[] {
+  return template.labelIds.filter((labelId) => labels.some((label) => label.id === labelId));
+}
@@ -0,0 +1,39 @@
+import { DiffLine, diffLines, collapseUnchanged } from './textDiff.ts';
+
+const show = (lines: (DiffLine | null)[]): string[] =>
+  lines.map((line) => (line ? `${{ equal: ' ', added: '+', removed: '-' }[line.type]}${line.text}` : '...'));
+
+describe('diffLines', () => {
+  it('marks changed lines and keeps the common ones', () => {
+    expect(show(diffLines('a\nb\nc', 'a\nx\nc\nd'))).toEqual([' a', '-b', '+x', ' c', '+d']);
+  });
+
+  it('treats an empty text as having no lines', () => {
+    expect(show(diffLines('', 'a\nb'))).toEqual(['+a', '+b']);
+    expect(show(diffLines('a', ''))).toEqual(['-a']);
+    expect(diffLines('', '')).toEqual([]);
+  });
+
+  it('falls back to remove-all/add-all for very long texts', () => {
+    const oldText = Array.from({ length: 600 }, (_, i) => `line ${i}`).join('\n');
+    const newText = `${oldText}\nextra`;
+    const lines = diffLines(oldText, newText);
+    expect(lines).toHaveLength(1201);
+    expect(lines[0]).toEqual({ type: 'removed', text: 'line 0' });
+    expect(lines[600]).toEqual({ type: 'added', text: 'line 0' });
+  });
+});
+
+describe('collapseUnchanged', () => {
+  it('keeps context around changes and collapses the rest', () => {
+    const oldText = ['1', '2', '3', '4', '5', '6', '7', '8'].join('\n');
+    const newText = ['1', '2', '3', '4', '5', '6', '7', 'eight'].join('\n');
+    expect(show(collapseUnchanged(diffLines(oldText, newText), 1))).toEqual(['...', ' 7', '-8', '+eight']);
+  });
+
+  it('leaves short unchanged runs between changes alone', () => {
+    expect(show(collapseUnchanged(diffLines('a\nb\nc\nd', 'A\nb\nc\nD')))).toEqual([
+      '-a', '+A', ' b', ' c', '-d', '+D',
+    ]);
+  });
+});
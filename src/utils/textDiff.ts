@@ -0,0 +1,80 @@
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+// Above this many line pairs the LCS table gets too large; fall back to remove-all/add-all
+const MAX_DIFF_CELLS = 250000;
+
+/**
+ * Line-based diff of two texts (longest common subsequence)
+ * @param oldText - Previous version
+ * @param newText - New version
+ * @returns Lines in order, each marked equal, added or removed
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText ? oldText.split('\n') : [];
+  const b = newText ? newText.split('\n') : [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((text): DiffLine => ({ type: 'removed', text })),
+      ...b.map((text): DiffLine => ({ type: 'added', text })),
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i++] });
+    } else {
+      result.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ type: 'added', text: b[j++] });
+
+  return result;
+}
+
+/**
+ * Trim long runs of unchanged lines down to a little surrounding context
+ * @param lines - Output of diffLines
+ * @param context - Unchanged lines to keep on each side of a change
+ * @returns Lines with collapsed runs replaced by a single `null` marker
+ */
+export function collapseUnchanged(lines: DiffLine[], context: number = 2): (DiffLine | null)[] {
+  const keep = lines.map(() => false);
+  lines.forEach((line, index) => {
+    if (line.type === 'equal') return;
+    for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) {
+      keep[k] = true;
+    }
+  });
+
+  const result: (DiffLine | null)[] = [];
+  lines.forEach((line, index) => {
+    if (keep[index]) {
+      result.push(line);
+    } else if (result[result.length - 1] !== null) {
+      result.push(null);
+    }
+  });
+  return result;
+}
@@ -0,0 +1,106 @@
+import { WorkLog } from '../types/hooks.ts';
+import {
+  parseDuration,
+  formatDuration,
+  getElapsedMinutes,
+  formatTimerClock,
+  getTimeTrackingSummary,
+  buildTimesheet,
+  buildTimesheetCsv,
+} from './timeTrackingUtils.ts';
+import { ada, alan, makeTask } from '../__fixtures__/tasks.ts';
+
+const makeLog = (overrides: Partial<WorkLog>): WorkLog => ({
+  id: 'w',
+  taskId: 't1',
+  userId: 'u1',
+  minutes: 60,
+  date: '2026-03-02',
+  note: '',
+  createdAt: '2026-03-02T10:00:00Z',
+  ...overrides,
+});
+
+describe('parseDuration / formatDuration', () => {
+  it('parses hours, minutes and decimal hours', () => {
+    expect(parseDuration('1h 30m')).toBe(90);
+    expect(parseDuration('2H')).toBe(120);
+    expect(parseDuration('45m')).toBe(45);
+    expect(parseDuration('1.5')).toBe(90);
+    expect(parseDuration(' 1h15m ')).toBe(75);
+  });
+
+  it('rejects empty, zero and malformed durations', () => {
+    expect(parseDuration('')).toBeNull();
+    expect(parseDuration('0')).toBeNull();
+    expect(parseDuration('h')).toBeNull();
+    expect(parseDuration('1h 30')).toBeNull();
+    expect(parseDuration('-2h')).toBeNull();
+  });
+
+  it('formats minutes as hours and minutes', () => {
+    expect(formatDuration(45)).toBe('45m');
+    expect(formatDuration(120)).toBe('2h');
+    expect(formatDuration(90)).toBe('1h 30m');
+    expect(formatDuration(0)).toBe('0m');
+  });
+});
+
+describe('timer helpers', () => {
+  const startedAt = '2026-03-02T09:00:00.000Z';
+
+  it('rounds elapsed time to whole minutes, at least one', () => {
+    expect(getElapsedMinutes(startedAt, new Date('2026-03-02T09:00:20.000Z'))).toBe(1);
+    expect(getElapsedMinutes(startedAt, new Date('2026-03-02T10:29:40.000Z'))).toBe(90);
+  });
+
+  it('shows a running clock', () => {
+    expect(formatTimerClock(startedAt, new Date('2026-03-02T10:02:05.000Z'))).toBe('1:02:05');
+  });
+});
+
+describe('getTimeTrackingSummary', () => {
+  it('compares logged time with the estimate', () => {
+    expect(getTimeTrackingSummary(makeTask({ loggedMinutes: 90, timeEstimateMinutes: 240 }))).toEqual({
+      logged: 90,
+      estimate: 240,
+      remaining: 150,
+      isOverEstimate: false,
+    });
+    expect(getTimeTrackingSummary(makeTask({ loggedMinutes: 300, timeEstimateMinutes: 240 }))).toMatchObject({
+      remaining: 0,
+      isOverEstimate: true,
+    });
+    expect(getTimeTrackingSummary(makeTask({ loggedMinutes: 30 }))).toMatchObject({ estimate: null, remaining: null });
+  });
+});
+
+describe('buildTimesheet / buildTimesheetCsv', () => {
+  const logs = [
+    makeLog({ id: 'w1', userId: 'u2', date: '2026-03-03', minutes: 30 }),
+    makeLog({ id: 'w2', userId: 'u1', date: '2026-03-04', minutes: 120, note: 'Review, then "fixes"' }),
+    makeLog({ id: 'w3', userId: 'u1', date: '2026-03-02', minutes: 45, taskId: 't2', task: { key: 'DH-7', title: 'Login' } }),
+    makeLog({ id: 'w4', userId: 'u9', minutes: 15, taskId: 'gone', note: '=SUM(A1)' }),
+  ];
+
+  it('groups logs per member with totals, oldest entries first', () => {
+    const groups = buildTimesheet(logs, [ada, alan]);
+    expect(groups.map((group) => [group.name, group.totalMinutes])).toEqual([
+      ['Ada Lovelace', 165],
+      ['Alan Turing', 30],
+      ['Former member', 15],
+    ]);
+    expect(groups[0].entries.map((log) => log.id)).toEqual(['w3', 'w2']);
+  });
+
+  it('exports escaped CSV rows in decimal hours', () => {
+    const csv = buildTimesheetCsv(buildTimesheet(logs, [ada, alan]), [makeTask({ id: 't1', title: 'Board' })]);
+    expect(csv.split('\r\n')).toEqual([
+      'Member,Date,Task,Note,Hours',
+      'Ada Lovelace,2026-03-02,DH-7 Login,,0.75',
+      'Ada Lovelace,2026-03-04,Board,"Review, then ""fixes""",2.00',
+      'Alan Turing,2026-03-03,Board,,0.50',
+      "Former member,2026-03-02,Deleted task,'=SUM(A1),0.25",
+    ]);
+  });
+});
@@ -0,0 +1,182 @@
+import { Task, User, WorkLog } from '../types/hooks.ts';
+
+export const WORK_LOG_MAX_MINUTES = 24 * 60; // One entry can't exceed a day
+export const WORK_LOG_NOTE_MAX_LENGTH = 500;
+export const TIME_ESTIMATE_MAX_MINUTES = 1000 * 60;
+
+/**
+ * Parse a duration typed by the user
+ * Accepts hours and minutes ("1h 30m", "2h", "45m") or bare decimal hours ("1.5").
+ *
+ * @param input - Duration text
+ * @returns Whole minutes, or null when the text isn't a positive duration
+ */
+export function parseDuration(input: string): number | null {
+  const text = input.trim().toLowerCase();
+  if (!text) return null;
+
+  let hours = 0;
+  let minutes = 0;
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    hours = Number(text);
+  } else {
+    const match = text.match(/^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m)?$/);
+    if (!match || (match[1] === undefined && match[2] === undefined)) return null;
+    hours = match[1] ? Number(match[1]) : 0;
+    minutes = match[2] ? Number(match[2]) : 0;
+  }
+
+  const total = Math.round(hours * 60 + minutes);
+  return total > 0 ? total : null;
+}
+
+/**
+ * Format minutes for display
+ * @param minutes - Duration in minutes
+ * @returns e.g. "45m", "2h", "1h 30m"
+ */
+export function formatDuration(minutes: number): string {
+  const rounded = Math.max(0, Math.round(minutes));
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+/**
+ * Format minutes as decimal hours, the unit client reports use
+ * @param minutes - Duration in minutes
+ * @returns e.g. "1.50"
+ */
+export function formatHours(minutes: number): string {
+  return (minutes / 60).toFixed(2);
+}
+
+/**
+ * Whole minutes a timer has been running, at least one
+ * @param startedAt - ISO timestamp the timer was started
+ * @param now - Reference time (injectable for tests)
+ * @returns Elapsed minutes, rounded to the nearest minute
+ */
+export function getElapsedMinutes(startedAt: string, now: Date = new Date()): number {
+  const elapsedMs = now.getTime() - new Date(startedAt).getTime();
+  return Math.max(1, Math.round(elapsedMs / 60000));
+}
+
+/**
+ * Running timer display
+ * @param startedAt - ISO timestamp the timer was started
+ * @param now - Reference time
+ * @returns "h:mm:ss"
+ */
+export function formatTimerClock(startedAt: string, now: Date = new Date()): string {
+  const totalSeconds = Math.max(0, Math.floor((now.getTime() - new Date(startedAt).getTime()) / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = String(Math.floor((totalSeconds % 3600) / 60)).padStart(2, '0');
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return `${hours}:${minutes}:${seconds}`;
+}
+
+export interface TimeTrackingSummary {
+  logged: number;
+  estimate: number | null;
+  remaining: number | null; // Estimate minus logged time, never below zero
+  isOverEstimate: boolean;
+}
+
+/**
+ * Logged vs. estimated time for a task
+ * @param task - The task object
+ * @returns Minutes logged, estimated and remaining
+ */
+export function getTimeTrackingSummary(task: Task): TimeTrackingSummary {
+  const logged = task.loggedMinutes || 0;
+  const estimate = task.timeEstimateMinutes ?? null;
+  return {
+    logged,
+    estimate,
+    remaining: estimate === null ? null : Math.max(0, estimate - logged),
+    isOverEstimate: estimate !== null && logged > estimate,
+  };
+}
+
+/**
+ * Check whether a task has anything to show for time tracking
+ * @param task - The task object
+ * @returns True when time is logged or estimated
+ */
+export function hasTimeTracking(task: Task): boolean {
+  return (task.loggedMinutes || 0) > 0 || (task.timeEstimateMinutes || 0) > 0;
+}
+
+export interface TimesheetMemberGroup {
+  userId: string;
+  name: string;
+  entries: WorkLog[]; // Oldest first
+  totalMinutes: number;
+}
+
+/**
+ * Group a sprint's work logs by member for the timesheet
+ * @param logs - Work logs on the sprint's tasks
+ * @param members - Project members (logs by former members are listed under "Former member")
+ * @returns One group per member who logged time, sorted by name
+ */
+export function buildTimesheet(logs: WorkLog[], members: User[]): TimesheetMemberGroup[] {
+  const groups: Record<string, TimesheetMemberGroup> = {};
+
+  logs.forEach((log) => {
+    if (!groups[log.userId]) {
+      const member = members.find((m) => m.id === log.userId);
+      groups[log.userId] = {
+        userId: log.userId,
+        name: member ? `${member.firstName} ${member.lastName}` : 'Former member',
+        entries: [],
+        totalMinutes: 0,
+      };
+    }
+    groups[log.userId].entries.push(log);
+    groups[log.userId].totalMinutes += log.minutes;
+  });
+
+  return Object.values(groups)
+    .map((group) => ({
+      ...group,
+      entries: [...group.entries].sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt)),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Name of a logged task for timesheets, e.g. "DH-142 Fix login"
+ * @param log - The work log
+ * @param tasks - Known tasks, used when the log doesn't carry task info
+ * @returns Key and title, or "Deleted task"
+ */
+export function getWorkLogTaskName(log: WorkLog, tasks: Task[] = []): string {
+  const task = log.task || tasks.find((t) => t.id === log.taskId);
+  if (!task) return 'Deleted task';
+  return task.key ? `${task.key} ${task.title}` : task.title;
+}
+
+// Quote fields that need it, and defuse values a spreadsheet would run as a formula
+const toCsvField = (value: string): string => {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * Timesheet as CSV, one row per work log
+ * @param groups - Timesheet groups from buildTimesheet
+ * @param tasks - Known tasks, for naming logs without task info
+ * @returns CSV text with a header row (Member, Date, Task, Note, Hours)
+ */
+export function buildTimesheetCsv(groups: TimesheetMemberGroup[], tasks: Task[] = []): string {
+  const rows = [['Member', 'Date', 'Task', 'Note', 'Hours']];
+  groups.forEach((group) => {
+    group.entries.forEach((log) => {
+      rows.push([group.name, log.date, getWorkLogTaskName(log, tasks), log.note || '', formatHours(log.minutes)]);
+    });
+  });
+  return rows.map((row) => row.map(toCsvField).join(',')).join('\r\n');
+}
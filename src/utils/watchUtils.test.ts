@@ -0,0 +1,133 @@
+import { Task, TaskComment, TaskHistoryEntry, TaskNotification } from '../types/hooks.ts';
+import { DEFAULT_WORKFLOW } from './workflowUtils.ts';
+import {
+  NOTIFICATIONS_MAX,
+  getTaskWatcherIds,
+  isWatchingTask,
+  deriveTaskNotifications,
+  mergeNotifications,
+  isAssignedSince,
+  getActivityBaseline,
+} from './watchUtils.ts';
+import { ada, alan, grace, makeTask } from '../__fixtures__/tasks.ts';
+
+// The task every test watches (or not)
+const login: Partial<Task> = { id: 't1', key: 'DH-7', title: 'Login' };
+
+const makeEntry = (overrides: Partial<TaskHistoryEntry>): TaskHistoryEntry => ({
+  id: 'h',
+  taskId: 't1',
+  actorId: 'u2',
+  action: 'updated',
+  createdAt: '2026-03-02T10:00:00Z',
+  ...overrides,
+});
+
+const makeComment = (overrides: Partial<TaskComment>): TaskComment => ({
+  id: 'c',
+  taskId: 't1',
+  projectId: 'p1',
+  authorId: 'u2',
+  content: 'Looks good',
+  createdAt: '2026-03-02T10:00:00Z',
+  updatedAt: '2026-03-02T10:00:00Z',
+  ...overrides,
+});
+
+describe('getTaskWatcherIds / isWatchingTask', () => {
+  it('adds the creator and assignee automatically, once each', () => {
+    expect(getTaskWatcherIds(makeTask({ ...login, assigneeId: 'u2', watcherIds: ['u3', 'u2'] }))).toEqual(['u1', 'u2', 'u3']);
+  });
+
+  it('leaves out users who opted out', () => {
+    const task = makeTask({ ...login, assigneeId: 'u2', watcherIds: ['u3'], unwatchedIds: ['u1'] });
+    expect(getTaskWatcherIds(task)).toEqual(['u2', 'u3']);
+    expect(isWatchingTask(task, 'u1')).toBe(false);
+    expect(isWatchingTask(task, 'u3')).toBe(true);
+    expect(isWatchingTask(task, null)).toBe(false);
+  });
+});
+
+describe('deriveTaskNotifications', () => {
+  const since = '2026-03-02T09:00:00Z';
+  const base = { comments: [], userId: 'u1', since, workflow: DEFAULT_WORKFLOW, members: [ada, alan, grace] };
+
+  it("describes other people's changes after the cursor, newest first", () => {
+    const history = [
+      makeEntry({ id: 'h0', field: 'status', newValue: 1, createdAt: '2026-03-02T08:00:00Z' }),
+      makeEntry({ id: 'h1', field: 'status', newValue: 2, createdAt: '2026-03-02T09:30:00Z' }),
+      makeEntry({ id: 'h2', field: 'assigneeId', newValue: 'u1', createdAt: '2026-03-02T09:40:00Z' }),
+      makeEntry({ id: 'h3', field: 'title', newValue: 'Sign in', createdAt: '2026-03-02T09:45:00Z' }),
+      makeEntry({ id: 'h4', field: 'description', actorId: 'u1', createdAt: '2026-03-02T09:50:00Z' }),
+    ];
+    const comments = [makeComment({ id: 'c1', authorId: 'u3', content: 'Ship\nit', createdAt: '2026-03-02T09:35:00Z' })];
+
+    const { notifications, cursor } = deriveTaskNotifications({ ...base, task: makeTask(login), history, comments });
+    expect(notifications.map((n) => [n.id, n.message])).toEqual([
+      ['history:h2', 'Alan Turing assigned it to you'],
+      ['comment:c1', 'Grace Hopper commented: "Ship it"'],
+      ['history:h1', 'Alan Turing moved it to Completed'],
+    ]);
+    expect(notifications[0]).toMatchObject({ taskId: 't1', taskKey: 'DH-7', kind: 'assignee', read: false });
+    expect(cursor).toBe('2026-03-02T09:50:00.000Z');
+  });
+
+  it('only notifies watchers, but still moves the cursor', () => {
+    const history = [makeEntry({ id: 'h1', field: 'status', newValue: 1, createdAt: '2026-03-02T09:30:00Z' })];
+    const result = deriveTaskNotifications({ ...base, task: makeTask({ ...login, unwatchedIds: ['u1'] }), history });
+    expect(result).toEqual({ notifications: [], cursor: '2026-03-02T09:30:00.000Z' });
+  });
+
+  it('tells a former assignee they were taken off the task', () => {
+    const history = [makeEntry({ id: 'h1', field: 'assigneeId', oldValue: 'u3', newValue: 'u2' })];
+    const { notifications } = deriveTaskNotifications({ ...base, userId: 'u3', task: makeTask({ ...login, assigneeId: 'u2' }), history });
+    expect(notifications.map((n) => n.message)).toEqual(['Alan Turing assigned it to Alan Turing']);
+  });
+});
+
+describe('isAssignedSince / getActivityBaseline', () => {
+  it('only counts assignments to the user after the given time', () => {
+    const history = [
+      makeEntry({ id: 'h1', field: 'assigneeId', newValue: 'u1', createdAt: '2026-03-02T08:00:00Z' }),
+      makeEntry({ id: 'h2', field: 'assigneeId', newValue: 'u3', createdAt: '2026-03-02T09:30:00Z' }),
+    ];
+    expect(isAssignedSince(history, 'u1', '2026-03-02T09:00:00Z')).toBe(false);
+    expect(isAssignedSince(history, 'u3', '2026-03-02T09:00:00Z')).toBe(true);
+  });
+
+  it('starts just before the newest change so it is still notified', () => {
+    const comments = [
+      makeComment({ id: 'c1', createdAt: '2026-03-02T09:35:00Z' }),
+      makeComment({ id: 'c2', createdAt: '2026-03-02T08:00:00Z' }),
+    ];
+    expect(getActivityBaseline(comments)).toBe('2026-03-02T09:34:59.999Z');
+  });
+});
+
+describe('mergeNotifications', () => {
+  const makeNotification = (id: string, createdAt: string): TaskNotification => ({
+    id,
+    taskId: 't1',
+    projectId: 'p1',
+    taskTitle: 'Login',
+    kind: 'status',
+    message: '',
+    createdAt,
+    read: false,
+  });
+
+  it('skips stored notifications and keeps the newest', () => {
+    const stored = [{ ...makeNotification('a', '2026-03-02T10:00:00Z'), read: true }];
+    const merged = mergeNotifications(stored, [
+      makeNotification('a', '2026-03-02T10:00:00Z'),
+      makeNotification('b', '2026-03-02T11:00:00Z'),
+    ]);
+    expect(merged.map((n) => [n.id, n.read])).toEqual([['b', false], ['a', true]]);
+
+    const many = Array.from({ length: NOTIFICATIONS_MAX + 5 }, (_, i) =>
+      makeNotification(`n${i}`, new Date(Date.UTC(2026, 2, 2, 0, i)).toISOString())
+    );
+    expect(mergeNotifications([], many)).toHaveLength(NOTIFICATIONS_MAX);
+    expect(mergeNotifications([], many)[0].id).toBe(`n${NOTIFICATIONS_MAX + 4}`);
+  });
+});
@@ -0,0 +1,164 @@
+import { Task, TaskComment, TaskHistoryEntry, TaskNotification, User, WorkflowStatus } from '../types/hooks.ts';
+import { getStatusName } from './workflowUtils.ts';
+
+export const NOTIFICATIONS_MAX = 50; // Older notifications are dropped
+const COMMENT_SNIPPET_LENGTH = 80;
+
+/**
+ * Everyone watching a task
+ * The creator and the current assignee watch automatically unless they opted out.
+ *
+ * @param task - The task object
+ * @returns Watcher user IDs, creator first
+ */
+export function getTaskWatcherIds(task: Task): string[] {
+  const unwatched = task.unwatchedIds || [];
+  const candidates = [task.owner?.id, task.assigneeId, ...(task.watcherIds || [])];
+  return candidates.filter(
+    (id, index): id is string => !!id && candidates.indexOf(id) === index && !unwatched.includes(id)
+  );
+}
+
+/**
+ * Check whether a user watches a task
+ * @param task - The task object
+ * @param userId - The user ID
+ * @returns True when the user gets notified about the task's changes
+ */
+export function isWatchingTask(task: Task, userId: string | null | undefined): boolean {
+  return !!userId && getTaskWatcherIds(task).includes(userId);
+}
+
+export interface TaskActivityInput {
+  task: Task;
+  history: TaskHistoryEntry[];
+  comments: TaskComment[];
+  userId: string;
+  since: string; // Only changes after this time are notified
+  workflow: WorkflowStatus[];
+  members: User[];
+}
+
+export interface DerivedTaskNotifications {
+  notifications: TaskNotification[]; // Newest first
+  cursor: string; // Time of the newest change seen, to pass as `since` next time
+}
+
+const toTime = (value: string): number => new Date(value).getTime();
+
+const sortNotifications = (notifications: TaskNotification[]): TaskNotification[] =>
+  [...notifications].sort((a, b) => toTime(b.createdAt) - toTime(a.createdAt));
+
+const getPersonName = (person: { firstName: string; lastName: string } | undefined): string | null =>
+  person ? `${person.firstName} ${person.lastName}`.trim() : null;
+
+/**
+ * Check whether a task's history assigns it to the user after a point in time
+ * @param history - The task's history entries
+ * @param userId - Current user ID
+ * @param since - Only changes after this time count
+ * @returns True when someone made the user the assignee since then
+ */
+export function isAssignedSince(history: TaskHistoryEntry[], userId: string, since: string): boolean {
+  return history.some((entry) =>
+    entry.field === 'assigneeId' && entry.newValue === userId && toTime(entry.createdAt) > toTime(since)
+  );
+}
+
+/**
+ * Starting point for a task whose earlier state is unknown (no cursor, never loaded)
+ * @param entries - History entries or comments, as returned by the server
+ * @returns Just before the newest one, so the change being handled is still notified
+ */
+export function getActivityBaseline(entries: { createdAt: string }[]): string {
+  const newest = Math.max(0, ...entries.map((entry) => toTime(entry.createdAt)));
+  return new Date(Math.max(0, newest - 1)).toISOString();
+}
+
+/**
+ * Turn a watched task's recent activity into notifications
+ * Covers status, assignee and description changes and new comments made by someone
+ * other than the user. Returns nothing when the user doesn't watch the task (a former
+ * assignee still hears about being taken off it).
+ *
+ * @param input - The task, its history and comments, and who is asking
+ * @returns Notifications for changes after `since`, and the cursor to store
+ */
+export function deriveTaskNotifications(input: TaskActivityInput): DerivedTaskNotifications {
+  const { task, history, comments, userId, since, workflow, members } = input;
+  const sinceTime = toTime(since);
+  const getMemberName = (memberId: string): string | null =>
+    getPersonName(members.find((member) => member.id === memberId));
+
+  let cursorTime = sinceTime;
+  const isNew = (createdAt: string): boolean => {
+    const time = toTime(createdAt);
+    if (!(time > sinceTime)) return false;
+    cursorTime = Math.max(cursorTime, time);
+    return true;
+  };
+
+  const notifications: TaskNotification[] = [];
+  const notify = (id: string, kind: TaskNotification['kind'], message: string, createdAt: string): void => {
+    notifications.push({
+      id,
+      taskId: task.id,
+      projectId: task.projectId,
+      taskKey: task.key,
+      taskTitle: task.title,
+      kind,
+      message,
+      createdAt,
+      read: false,
+    });
+  };
+
+  const newEntries = history.filter((entry) => isNew(entry.createdAt));
+  const newComments = comments.filter((comment) => isNew(comment.createdAt));
+  const cursor = new Date(cursorTime).toISOString();
+
+  // Someone just taken off the task still hears about it once
+  const wasUnassigned = newEntries.some((entry) => entry.field === 'assigneeId' && entry.oldValue === userId);
+  if (!isWatchingTask(task, userId) && !(wasUnassigned && !(task.unwatchedIds || []).includes(userId))) {
+    return { notifications: [], cursor };
+  }
+
+  newEntries.forEach((entry) => {
+    if (entry.action !== 'updated' || entry.actorId === userId) return;
+    const actor = getPersonName(entry.actor) || getMemberName(entry.actorId) || 'Someone';
+
+    if (entry.field === 'status') {
+      notify(`history:${entry.id}`, 'status', `${actor} moved it to ${getStatusName(workflow, Number(entry.newValue))}`, entry.createdAt);
+    } else if (entry.field === 'assigneeId') {
+      const message = !entry.newValue
+        ? `${actor} unassigned it`
+        : entry.newValue === userId
+          ? `${actor} assigned it to you`
+          : `${actor} assigned it to ${getMemberName(entry.newValue) || 'a former member'}`;
+      notify(`history:${entry.id}`, 'assignee', message, entry.createdAt);
+    } else if (entry.field === 'description') {
+      notify(`history:${entry.id}`, 'description', `${actor} edited the description`, entry.createdAt);
+    }
+  });
+
+  newComments.forEach((comment) => {
+    if (comment.authorId === userId) return;
+    const author = getPersonName(comment.author) || getMemberName(comment.authorId) || 'Someone';
+    const text = comment.content.replace(/\s+/g, ' ').trim();
+    const snippet = text.length > COMMENT_SNIPPET_LENGTH ? `${text.slice(0, COMMENT_SNIPPET_LENGTH - 1)}…` : text;
+    notify(`comment:${comment.id}`, 'comment', `${author} commented: "${snippet}"`, comment.createdAt);
+  });
+
+  return { notifications: sortNotifications(notifications), cursor };
+}
+
+/**
+ * Add new notifications to the stored list
+ * @param existing - Stored notifications, newest first
+ * @param incoming - New notifications (ones already stored are skipped)
+ * @returns Newest first, capped at NOTIFICATIONS_MAX
+ */
+export function mergeNotifications(existing: TaskNotification[], incoming: TaskNotification[]): TaskNotification[] {
+  const added = incoming.filter((notification) => !existing.some((stored) => stored.id === notification.id));
+  return sortNotifications([...added, ...existing]).slice(0, NOTIFICATIONS_MAX);
+}
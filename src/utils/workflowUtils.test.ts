@@ -0,0 +1,90 @@
+import { WorkflowStatus } from '../types/hooks.ts';
+import {
+  DEFAULT_WORKFLOW,
+  WORKFLOW_MAX_STATUSES,
+  getWorkflowFromSettings,
+  getLastStatusIdFromSettings,
+  getStatusIdHighWaterMark,
+  getNewStatusId,
+  getInitialStatusId,
+  countTasksByStatus,
+  validateWorkflow,
+} from './workflowUtils.ts';
+import { makeTask } from '../__fixtures__/tasks.ts';
+
+const makeStatus = (id: number, name: string, category: WorkflowStatus['category']): WorkflowStatus => ({
+  id,
+  name,
+  color: '#8d8d8d',
+  category,
+});
+
+describe('getWorkflowFromSettings', () => {
+  it('reads nested or flat settings, falling back to the default workflow', () => {
+    const workflow = [makeStatus(5, 'Open', 'todo')];
+    expect(getWorkflowFromSettings({ settings: { workflow } })).toBe(workflow);
+    expect(getWorkflowFromSettings({ workflow })).toBe(workflow);
+    expect(getWorkflowFromSettings({ workflow: [] })).toBe(DEFAULT_WORKFLOW);
+    expect(getWorkflowFromSettings(undefined)).toBe(DEFAULT_WORKFLOW);
+  });
+});
+
+describe('getNewStatusId', () => {
+  it('allocates after the highest status in use', () => {
+    expect(getNewStatusId(DEFAULT_WORKFLOW)).toBe(3);
+    expect(getNewStatusId([])).toBe(0);
+  });
+
+  it('never reuses IDs of statuses removed in earlier saves', () => {
+    // Status 3 was added and removed before; the stored mark remembers it
+    expect(getNewStatusId(DEFAULT_WORKFLOW, 3)).toBe(4);
+    expect(getStatusIdHighWaterMark(DEFAULT_WORKFLOW, 3)).toBe(3);
+  });
+
+  it('ignores a stored mark that is behind the workflow', () => {
+    expect(getNewStatusId([...DEFAULT_WORKFLOW, makeStatus(7, 'Review', 'doing')], 4)).toBe(8);
+  });
+
+  it('only trusts integer marks from settings', () => {
+    expect(getLastStatusIdFromSettings({ settings: { lastStatusId: 6 } })).toBe(6);
+    expect(getLastStatusIdFromSettings({ lastStatusId: 0 })).toBe(0);
+    expect(getLastStatusIdFromSettings({ lastStatusId: '6' })).toBeNull();
+    expect(getLastStatusIdFromSettings(undefined)).toBeNull();
+  });
+});
+
+describe('getInitialStatusId', () => {
+  it('starts in the first To Do status, or the first status without one', () => {
+    expect(getInitialStatusId([makeStatus(4, 'Triage', 'doing'), makeStatus(2, 'Open', 'todo')])).toBe(2);
+    expect(getInitialStatusId([makeStatus(4, 'Triage', 'doing')])).toBe(4);
+  });
+});
+
+describe('countTasksByStatus', () => {
+  it('counts tasks per status ID', () => {
+    const tasks = [makeTask({ status: 0 }), makeTask({ status: 2 }), makeTask({ status: 0 })];
+    expect(countTasksByStatus(tasks)).toEqual({ 0: 2, 2: 1 });
+  });
+});
+
+describe('validateWorkflow', () => {
+  it('accepts the default workflow', () => {
+    expect(validateWorkflow(DEFAULT_WORKFLOW)).toBeNull();
+  });
+
+  it('requires between one and the maximum number of statuses', () => {
+    expect(validateWorkflow([])).toMatch(/at least one status/);
+    const tooMany = Array.from({ length: WORKFLOW_MAX_STATUSES + 1 }, (_, i) => makeStatus(i, `S${i}`, i === 0 ? 'todo' : 'done'));
+    expect(validateWorkflow(tooMany)).toMatch(/at most/);
+  });
+
+  it('requires unique, non-empty names', () => {
+    expect(validateWorkflow([makeStatus(0, '  ', 'todo'), makeStatus(1, 'Done', 'done')])).toMatch(/needs a name/);
+    expect(validateWorkflow([makeStatus(0, 'Done', 'todo'), makeStatus(1, ' done ', 'done')])).toMatch(/unique/);
+  });
+
+  it('requires a To Do and a Done status', () => {
+    expect(validateWorkflow([makeStatus(0, 'Open', 'todo'), makeStatus(1, 'Doing', 'doing')])).toMatch(/Done category/);
+    expect(validateWorkflow([makeStatus(0, 'Doing', 'doing'), makeStatus(1, 'Done', 'done')])).toMatch(/To Do category/);
+  });
+});
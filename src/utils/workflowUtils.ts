@@ -0,0 +1,174 @@
+import { Task, WorkflowStatus, WorkflowStatusCategory } from '../types/hooks.ts';
+
+export const WORKFLOW_STATUS_NAME_MAX_LENGTH = 32;
+export const WORKFLOW_MAX_STATUSES = 10;
+export const WIP_LIMIT_MAX = 99;
+
+export const WORKFLOW_CATEGORIES: { value: WorkflowStatusCategory; label: string }[] = [
+  { value: 'todo', label: 'To Do' },
+  { value: 'doing', label: 'In Progress' },
+  { value: 'done', label: 'Done' },
+];
+
+// Workflow used by projects that haven't customized theirs (matches the original 0/1/2 statuses)
+export const DEFAULT_WORKFLOW: WorkflowStatus[] = [
+  { id: 0, name: 'To Do', color: '#8d8d8d', category: 'todo' },
+  { id: 1, name: 'In Progress', color: '#0090ff', category: 'doing' },
+  { id: 2, name: 'Completed', color: '#30a46c', category: 'done' },
+];
+
+/**
+ * Extract the workflow from a project settings response
+ * @param settings - Settings response (or undefined while loading)
+ * @returns The project's workflow, or the default workflow when none is configured
+ */
+export function getWorkflowFromSettings(settings: any): WorkflowStatus[] {
+  const workflow = settings?.settings?.workflow ?? settings?.workflow;
+  return Array.isArray(workflow) && workflow.length > 0 ? workflow : DEFAULT_WORKFLOW;
+}
+
+/**
+ * Look up a workflow status by ID
+ * @param workflow - The project's workflow
+ * @param statusId - Task status value
+ * @returns The matching status, if any
+ */
+export function getWorkflowStatus(workflow: WorkflowStatus[], statusId: number): WorkflowStatus | undefined {
+  return workflow.find((status) => status.id === statusId);
+}
+
+/**
+ * Get the display name for a task status
+ * @param workflow - The project's workflow
+ * @param statusId - Task status value
+ * @returns The status name, or "Unknown" for statuses no longer in the workflow
+ */
+export function getStatusName(workflow: WorkflowStatus[], statusId: number): string {
+  return getWorkflowStatus(workflow, statusId)?.name ?? 'Unknown';
+}
+
+/**
+ * Check whether a status counts as finished
+ * @param workflow - The project's workflow
+ * @param statusId - Task status value
+ * @returns True for statuses in the "done" category
+ */
+export function isDoneStatus(workflow: WorkflowStatus[], statusId: number): boolean {
+  return getWorkflowStatus(workflow, statusId)?.category === 'done';
+}
+
+/**
+ * Status new tasks start in when created for the user (copies, recurring instances)
+ * @param workflow - The project's workflow
+ * @returns The first "todo" status, or the first status if none is in that category
+ */
+export function getInitialStatusId(workflow: WorkflowStatus[]): number {
+  return (workflow.find((status) => status.category === 'todo') ?? workflow[0]).id;
+}
+
+/**
+ * Next status when cycling through the workflow (wraps back to the first)
+ * @param workflow - The project's workflow
+ * @param statusId - Current task status value
+ * @returns Status ID that follows the current one
+ */
+export function getNextStatusId(workflow: WorkflowStatus[], statusId: number): number {
+  const index = workflow.findIndex((status) => status.id === statusId);
+  return workflow[(index + 1) % workflow.length].id;
+}
+
+/**
+ * CSS modifier for a status category (matches the original todo / in-progress / completed classes)
+ * @param category - Workflow status category
+ * @returns Class name suffix
+ */
+export function getCategoryModifier(category: WorkflowStatusCategory | undefined): string {
+  if (category === 'done') return 'completed';
+  if (category === 'doing') return 'in-progress';
+  return 'todo';
+}
+
+/**
+ * Extract the status ID high-water mark from a project settings response
+ * @param settings - Settings response (or undefined while loading)
+ * @returns The highest status ID ever allocated, or null for projects saved before it was tracked
+ */
+export function getLastStatusIdFromSettings(settings: any): number | null {
+  const lastStatusId = settings?.settings?.lastStatusId ?? settings?.lastStatusId;
+  return Number.isInteger(lastStatusId) ? lastStatusId : null;
+}
+
+/**
+ * Highest status ID in use or ever allocated, to store as the new high-water mark
+ * @param workflow - Statuses to account for
+ * @param lastStatusId - The stored high-water mark (null when not tracked yet)
+ * @returns The new high-water mark (-1 for an empty workflow with no mark)
+ */
+export function getStatusIdHighWaterMark(workflow: WorkflowStatus[], lastStatusId: number | null = null): number {
+  return Math.max(-1, lastStatusId ?? -1, ...workflow.map((status) => status.id));
+}
+
+/**
+ * Allocate an ID for a new workflow status
+ * IDs are never reused so tasks can't silently move into a different status: new IDs
+ * come after the stored high-water mark, which covers statuses removed in earlier saves.
+ *
+ * @param workflow - The workflow being edited (plus the saved one, for statuses removed in this edit)
+ * @param lastStatusId - The stored high-water mark (null when not tracked yet)
+ * @returns An unused status ID
+ */
+export function getNewStatusId(workflow: WorkflowStatus[], lastStatusId: number | null = null): number {
+  return getStatusIdHighWaterMark(workflow, lastStatusId) + 1;
+}
+
+/**
+ * Count tasks per workflow status
+ * @param tasks - Every task in the project (a partial list undercounts, letting in-use statuses be removed)
+ * @returns Task counts keyed by status ID
+ */
+export function countTasksByStatus(tasks: Task[]): Record<number, number> {
+  const counts: Record<number, number> = {};
+  tasks.forEach((task) => {
+    counts[task.status] = (counts[task.status] || 0) + 1;
+  });
+  return counts;
+}
+
+/**
+ * Validate an edited workflow before saving
+ * @param workflow - The workflow to validate
+ * @returns An error message, or null when the workflow is valid
+ */
+export function validateWorkflow(workflow: WorkflowStatus[]): string | null {
+  if (workflow.length === 0) return 'The workflow needs at least one status.';
+  if (workflow.length > WORKFLOW_MAX_STATUSES) return `A workflow can have at most ${WORKFLOW_MAX_STATUSES} statuses.`;
+
+  const names = workflow.map((status) => status.name.trim().toLowerCase());
+  if (names.some((name) => !name)) return 'Every status needs a name.';
+  if (new Set(names).size !== names.length) return 'Status names must be unique.';
+
+  if (!workflow.some((status) => status.category === 'todo')) return 'Add at least one status in the To Do category.';
+  if (!workflow.some((status) => status.category === 'done')) return 'Add at least one status in the Done category.';
+  return null;
+}
+
+/**
+ * Extract the per-column WIP limits from a project settings response
+ * @param settings - Settings response (or undefined while loading)
+ * @returns Limits keyed by status ID (empty when no limits are set)
+ */
+export function getWipLimitsFromSettings(settings: any): Record<number, number> {
+  const wipLimits = settings?.settings?.wipLimits ?? settings?.wipLimits;
+  return wipLimits && typeof wipLimits === 'object' ? wipLimits : {};
+}
+
+/**
+ * Get the WIP limit for a column
+ * @param wipLimits - Limits keyed by status ID
+ * @param statusId - Workflow status ID
+ * @returns The limit, or null when the column is unlimited
+ */
+export function getWipLimit(wipLimits: Record<number, number>, statusId: number): number | null {
+  const limit = Number(wipLimits[statusId]);
+  return Number.isInteger(limit) && limit > 0 ? limit : null;
+}